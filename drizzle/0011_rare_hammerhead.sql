@@ -0,0 +1,7 @@
+ALTER TABLE "personal_records" DROP CONSTRAINT "personal_records_set_id_sets_id_fk";
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "personal_records" ADD CONSTRAINT "personal_records_set_id_sets_id_fk" FOREIGN KEY ("set_id") REFERENCES "public"."sets"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,3 @@
+ALTER TABLE "sync_queue" ADD COLUMN "sequence" bigserial NOT NULL;--> statement-breakpoint
+ALTER TABLE "sync_queue" ADD COLUMN "source_device_id" varchar(255);--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "sync_queue_user_sequence_idx" ON "sync_queue" USING btree ("user_id","sequence");
\ No newline at end of file
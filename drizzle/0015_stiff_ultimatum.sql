@@ -0,0 +1,2 @@
+ALTER TABLE "user_devices" ADD COLUMN "sync_checkpoint_at" timestamp;--> statement-breakpoint
+ALTER TABLE "user_devices" ADD COLUMN "last_change_sequence" bigint;
\ No newline at end of file
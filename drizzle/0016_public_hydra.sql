@@ -0,0 +1,15 @@
+ALTER TABLE "workouts" DROP CONSTRAINT "workouts_template_id_workout_templates_id_fk";
+--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "program_id" uuid;--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "program_day_number" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "workouts" ADD CONSTRAINT "workouts_program_id_workout_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."workout_programs"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "workouts" ADD CONSTRAINT "workouts_template_id_workout_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."workout_templates"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,2 @@
+ALTER TABLE "workout_exercises" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "notes" text;
\ No newline at end of file
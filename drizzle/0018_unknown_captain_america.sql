@@ -0,0 +1,13 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."load_type" AS ENUM('external', 'bodyweight', 'bodyweight_plus', 'assisted');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TYPE "set_type" ADD VALUE 'drop';--> statement-breakpoint
+ALTER TYPE "set_type" ADD VALUE 'rest_pause';--> statement-breakpoint
+ALTER TYPE "set_type" ADD VALUE 'amrap';--> statement-breakpoint
+ALTER TYPE "set_type" ADD VALUE 'failure';--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "load_type" "load_type" DEFAULT 'external' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "duration_seconds" integer;--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "distance_meters" numeric(10, 2);
\ No newline at end of file
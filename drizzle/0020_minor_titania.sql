@@ -0,0 +1,40 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."feed_event_type" AS ENUM('workout_completed', 'personal_record', 'program_started');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "feed_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" "feed_event_type" NOT NULL,
+	"workout_id" uuid,
+	"program_id" uuid,
+	"data" jsonb NOT NULL,
+	"dedupe_key" varchar(100),
+	"occurred_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "activity_privacy" "privacy_level" DEFAULT 'public' NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "feed_events" ADD CONSTRAINT "feed_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "feed_events" ADD CONSTRAINT "feed_events_workout_id_workouts_id_fk" FOREIGN KEY ("workout_id") REFERENCES "public"."workouts"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "feed_events" ADD CONSTRAINT "feed_events_program_id_workout_programs_id_fk" FOREIGN KEY ("program_id") REFERENCES "public"."workout_programs"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "feed_events_user_occurred_at_idx" ON "feed_events" USING btree ("user_id","occurred_at");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "feed_events_user_dedupe_key_idx" ON "feed_events" USING btree ("user_id","dedupe_key");
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX IF NOT EXISTS "competitions_entry_code_idx" ON "competitions" USING btree ("entry_code");
\ No newline at end of file
@@ -0,0 +1,41 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."team_scoring" AS ENUM('sum', 'average', 'best_n');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "competition_teams" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"competition_id" uuid NOT NULL,
+	"captain_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"current_score" numeric(12, 2) DEFAULT '0' NOT NULL,
+	"rank" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "competitions" ADD COLUMN "team_scoring" "team_scoring";--> statement-breakpoint
+ALTER TABLE "competitions" ADD COLUMN "team_scoring_top_n" integer;--> statement-breakpoint
+ALTER TABLE "competitions" ADD COLUMN "max_team_size" integer;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "competition_teams" ADD CONSTRAINT "competition_teams_competition_id_competitions_id_fk" FOREIGN KEY ("competition_id") REFERENCES "public"."competitions"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "competition_teams" ADD CONSTRAINT "competition_teams_captain_id_users_id_fk" FOREIGN KEY ("captain_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "competition_teams_comp_name_idx" ON "competition_teams" USING btree ("competition_id","name");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "competition_teams_competition_idx" ON "competition_teams" USING btree ("competition_id");--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "competition_participants" ADD CONSTRAINT "competition_participants_team_id_competition_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."competition_teams"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "competition_participants_team_idx" ON "competition_participants" USING btree ("team_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "workout_programs" ADD COLUMN "goal" varchar(50);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "workout_programs_public_idx" ON "workout_programs" USING btree ("is_public","download_count");
\ No newline at end of file
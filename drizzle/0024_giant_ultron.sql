@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS "share_imports" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"share_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"imported_item_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "shares" ADD COLUMN "import_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "share_imports" ADD CONSTRAINT "share_imports_share_id_shares_id_fk" FOREIGN KEY ("share_id") REFERENCES "public"."shares"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "share_imports" ADD CONSTRAINT "share_imports_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "share_imports_share_user_idx" ON "share_imports" USING btree ("share_id","user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "share_imports_user_idx" ON "share_imports" USING btree ("user_id");
\ No newline at end of file
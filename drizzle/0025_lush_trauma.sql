@@ -0,0 +1 @@
+ALTER TABLE "shares" ADD COLUMN "view_count" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
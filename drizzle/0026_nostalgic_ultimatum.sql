@@ -0,0 +1,11 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."share_mode" AS ENUM('snapshot', 'live');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+ALTER TABLE "share_imports" ADD COLUMN "imported_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "shares" ADD COLUMN "mode" "share_mode" DEFAULT 'snapshot' NOT NULL;--> statement-breakpoint
+ALTER TABLE "shares" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "shares" ADD COLUMN "snapshot_updated_at" timestamp DEFAULT now() NOT NULL;--> statement-breakpoint
+UPDATE "shares" SET "snapshot_updated_at" = "created_at";
\ No newline at end of file
@@ -0,0 +1,38 @@
+ALTER TABLE "exercises" DROP CONSTRAINT "exercises_name_unique";--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "exercises_library_name_idx" ON "exercises" USING btree ("name") WHERE "exercises"."is_custom" = false;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "exercises_custom_owner_name_idx" ON "exercises" USING btree ("created_by","name") WHERE "exercises"."is_custom" = true;--> statement-breakpoint
+-- A custom exercise only one user references becomes theirs
+UPDATE "exercises" SET "created_by" = "owner"."user_id"
+FROM (
+  SELECT "refs"."exercise_id", MIN("refs"."user_id"::text)::uuid AS "user_id"
+  FROM (
+    SELECT "we"."exercise_id", "w"."user_id"
+    FROM "workout_exercises" "we"
+    INNER JOIN "workouts" "w" ON "w"."id" = "we"."workout_id"
+    UNION
+    SELECT "te"."exercise_id", "t"."user_id"
+    FROM "template_exercises" "te"
+    INNER JOIN "workout_templates" "t" ON "t"."id" = "te"."template_id"
+    UNION
+    SELECT "exercise_id", "user_id" FROM "personal_records"
+    UNION
+    SELECT "exercise_id", "user_id" FROM "user_exercise_history"
+  ) AS "refs"
+  GROUP BY "refs"."exercise_id"
+  HAVING COUNT(DISTINCT "refs"."user_id") = 1
+) AS "owner"
+WHERE "exercises"."id" = "owner"."exercise_id"
+  AND "exercises"."is_custom" = true
+  AND "exercises"."created_by" IS NULL;--> statement-breakpoint
+-- Ones still shared between users (sync used to match custom names globally) move to the library.
+-- Names were globally unique until this migration, so they can't clash with a library name.
+UPDATE "exercises" SET "is_custom" = false
+WHERE "is_custom" = true
+  AND "created_by" IS NULL
+  AND (
+    EXISTS (SELECT 1 FROM "workout_exercises" WHERE "exercise_id" = "exercises"."id")
+    OR EXISTS (SELECT 1 FROM "template_exercises" WHERE "exercise_id" = "exercises"."id")
+    OR EXISTS (SELECT 1 FROM "personal_records" WHERE "exercise_id" = "exercises"."id")
+    OR EXISTS (SELECT 1 FROM "user_exercise_history" WHERE "exercise_id" = "exercises"."id")
+    OR EXISTS (SELECT 1 FROM "competitions" WHERE "target_exercise_id" = "exercises"."id")
+  );
\ No newline at end of file
@@ -0,0 +1,48 @@
+DO $$ BEGIN
+ CREATE TYPE "public"."alias_proposal_source" AS ENUM('user', 'sync');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ CREATE TYPE "public"."alias_proposal_status" AS ENUM('pending', 'approved', 'rejected');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "exercise_alias_proposals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"exercise_id" uuid NOT NULL,
+	"alias" varchar(100) NOT NULL,
+	"source" "alias_proposal_source" NOT NULL,
+	"status" "alias_proposal_status" DEFAULT 'pending' NOT NULL,
+	"proposed_by" uuid,
+	"occurrences" integer DEFAULT 1 NOT NULL,
+	"similarity" real,
+	"reviewed_by" uuid,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "is_admin" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "exercise_alias_proposals" ADD CONSTRAINT "exercise_alias_proposals_exercise_id_exercises_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."exercises"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "exercise_alias_proposals" ADD CONSTRAINT "exercise_alias_proposals_proposed_by_users_id_fk" FOREIGN KEY ("proposed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "exercise_alias_proposals" ADD CONSTRAINT "exercise_alias_proposals_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "exercise_alias_proposals_exercise_alias_idx" ON "exercise_alias_proposals" USING btree ("exercise_id","alias");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "exercise_alias_proposals_status_occurrences_idx" ON "exercise_alias_proposals" USING btree ("status","occurrences");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "sync_queue" ADD COLUMN "workout_client_id" uuid;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "sync_queue_user_workout_sequence_idx" ON "sync_queue" USING btree ("user_id","workout_client_id","sequence");--> statement-breakpoint
+UPDATE "sync_queue" SET "workout_client_id" = (
+  CASE WHEN "entity_type" = 'workout' THEN "data"->>'clientId' ELSE "data"->>'workoutClientId' END
+)::uuid
+WHERE "workout_client_id" IS NULL;
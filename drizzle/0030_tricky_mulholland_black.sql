@@ -0,0 +1,23 @@
+CREATE TABLE IF NOT EXISTS "exercise_alias_proposers" (
+	"proposal_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "exercise_alias_proposers_proposal_id_user_id_pk" PRIMARY KEY("proposal_id","user_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "exercise_alias_proposers" ADD CONSTRAINT "exercise_alias_proposers_proposal_id_exercise_alias_proposals_id_fk" FOREIGN KEY ("proposal_id") REFERENCES "public"."exercise_alias_proposals"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "exercise_alias_proposers" ADD CONSTRAINT "exercise_alias_proposers_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+INSERT INTO "exercise_alias_proposers" ("proposal_id", "user_id", "created_at")
+SELECT "id", "proposed_by", "created_at" FROM "exercise_alias_proposals"
+WHERE "proposed_by" IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,80 @@
+/**
+ * Backfill script for workout totals and user stats
+ *
+ * Workouts synced before stats were maintained by the server have empty
+ * totalVolumeLbs/totalSets/totalReps, and users have zeroed lifetime stats
+ * and streaks. This script recomputes both from existing set data.
+ * Safe to re-run: every value is rebuilt from scratch.
+ *
+ * Run with: npx tsx scripts/backfill-user-stats.ts
+ */
+
+import { config } from 'dotenv';
+
+// Load environment variables BEFORE any other imports
+// (dynamic imports used below to avoid ES module hoisting issues)
+const env = process.env.NODE_ENV || 'development';
+config({ path: `./.env.${env}` });
+
+const BATCH_SIZE = 500;
+
+async function backfillUserStats() {
+  // Use dynamic imports to ensure dotenv has loaded first
+  const { db } = await import('../src/db');
+  const { users, workouts } = await import('../src/db/schema');
+  const { asc, gt } = await import('drizzle-orm');
+  const { refreshWorkoutTotals, recalculateUserStats } = await import('../src/services/userStatsService');
+
+  console.log('Starting user stats backfill...\n');
+
+  // 1. Per-workout totals (must run first, user stats are summed from them)
+  let workoutsUpdated = 0;
+  let lastWorkoutId: string | null = null;
+
+  while (true) {
+    const batch: { id: string }[] = await db
+      .select({ id: workouts.id })
+      .from(workouts)
+      .where(lastWorkoutId ? gt(workouts.id, lastWorkoutId) : undefined)
+      .orderBy(asc(workouts.id))
+      .limit(BATCH_SIZE);
+
+    if (batch.length === 0) break;
+
+    for (const workout of batch) {
+      await refreshWorkoutTotals(db, workout.id);
+      workoutsUpdated++;
+    }
+
+    lastWorkoutId = batch[batch.length - 1].id;
+    console.log(`  [OK] Workout totals refreshed: ${workoutsUpdated}`);
+  }
+
+  // 2. User-level stats and streaks
+  let usersUpdated = 0;
+  let usersFailed = 0;
+  const allUsers = await db.select({ id: users.id }).from(users);
+
+  for (const user of allUsers) {
+    try {
+      await recalculateUserStats(user.id);
+      usersUpdated++;
+    } catch (error: any) {
+      console.error(`  [ERROR] Failed to recalculate stats for user ${user.id}:`, error.message);
+      usersFailed++;
+    }
+  }
+
+  console.log('\n--- Backfill Complete ---');
+  console.log(`Workouts updated: ${workoutsUpdated}`);
+  console.log(`Users updated: ${usersUpdated}`);
+  console.log(`Users failed: ${usersFailed}`);
+
+  process.exit(0);
+}
+
+// Run the backfill function
+backfillUserStats().catch((error) => {
+  console.error('Failed to backfill user stats:', error);
+  process.exit(1);
+});
@@ -397,7 +397,7 @@ async function seedExerciseAliases() {
   // Use dynamic imports to ensure dotenv has loaded first
   const { db } = await import('../src/db');
   const { exercises, exerciseAliases } = await import('../src/db/schema');
-  const { eq } = await import('drizzle-orm');
+  const { eq, and } = await import('drizzle-orm');
 
   console.log('Starting exercise alias seeding...\n');
 
@@ -409,7 +409,7 @@ async function seedExerciseAliases() {
     const exercise = await db
       .select()
       .from(exercises)
-      .where(eq(exercises.name, exerciseName))
+      .where(and(eq(exercises.name, exerciseName), eq(exercises.isCustom, false)))
       .limit(1);
 
     if (exercise.length === 0) {
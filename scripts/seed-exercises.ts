@@ -41,6 +41,7 @@ async function seedExercises(): Promise<void> {
         .values(buildExerciseInsertValues(exercise))
         .onConflictDoUpdate({
           target: exercises.name,
+          targetWhere: sql`${exercises.isCustom} = false`,
           set: buildExerciseConflictSet(exercise),
         })
         .returning({ id: exercises.id, name: exercises.name });
@@ -12,17 +12,22 @@ import {
   index,
   uniqueIndex,
   primaryKey,
-  pgEnum
+  pgEnum,
+  bigserial,
+  bigint
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
 export const unitPreferenceEnum = pgEnum('unit_preference', ['metric', 'imperial']);
 export const genderEnum = pgEnum('gender', ['male', 'female', 'other', 'prefer_not_to_say']);
-export const setTypeEnum = pgEnum('set_type', ['warmup', 'working']);
+export const setTypeEnum = pgEnum('set_type', ['warmup', 'working', 'drop', 'rest_pause', 'amrap', 'failure']);
+export const loadTypeEnum = pgEnum('load_type', ['external', 'bodyweight', 'bodyweight_plus', 'assisted']);
 export const privacyLevelEnum = pgEnum('privacy_level', ['private', 'friends', 'public']);
+export const followStatusEnum = pgEnum('follow_status', ['pending', 'accepted']);
 export const competitionTypeEnum = pgEnum('competition_type', ['individual', 'group', 'team']);
 export const competitionStatusEnum = pgEnum('competition_status', ['draft', 'active', 'completed', 'cancelled']);
+export const teamScoringEnum = pgEnum('team_scoring', ['sum', 'average', 'best_n']);
 export const muscleGroupEnum = pgEnum('muscle_group', [
   'chest', 'back', 'shoulders', 'biceps', 'triceps',
   'quads', 'hamstrings', 'glutes', 'calves', 'abs',
@@ -34,8 +39,16 @@ export const syncOperationEnum = pgEnum('sync_operation', ['create', 'update', '
 export const syncStatusEnum = pgEnum('sync_status', ['pending', 'syncing', 'completed', 'failed']);
 export const conflictResolutionEnum = pgEnum('conflict_resolution', ['client_wins', 'server_wins', 'merged']);
 
+// Activity feed enums
+export const feedEventTypeEnum = pgEnum('feed_event_type', ['workout_completed', 'personal_record', 'program_started']);
+
 // Share enums
 export const shareTypeEnum = pgEnum('share_type', ['program', 'template']);
+export const shareModeEnum = pgEnum('share_mode', ['snapshot', 'live']);
+
+// Exercise alias proposal enums
+export const aliasProposalSourceEnum = pgEnum('alias_proposal_source', ['user', 'sync']);
+export const aliasProposalStatusEnum = pgEnum('alias_proposal_status', ['pending', 'approved', 'rejected']);
 
 // Exercise classification enums
 export const difficultyLevelEnum = pgEnum('difficulty_level', ['beginner', 'intermediate', 'advanced']);
@@ -61,6 +74,8 @@ export const users = pgTable('users', {
   // Preferences
   unitPreference: unitPreferenceEnum('unit_preference').default('imperial'),
   isPublicProfile: boolean('is_public_profile').default(true),
+  activityPrivacy: privacyLevelEnum('activity_privacy').default('public').notNull(), // Who sees this user's feed events
+  timezone: varchar('timezone', { length: 64 }).default('UTC'), // IANA name, used for day-based stats like streaks
   
   // Stats
   totalVolumeLiftedLbs: numeric('total_volume_lifted_lbs', { precision: 12, scale: 2 }).default('0'),
@@ -78,6 +93,9 @@ export const users = pgTable('users', {
   aiGenerationsResetAt: timestamp('ai_generations_reset_at'),
   subscriptionTier: varchar('subscription_tier', { length: 20 }).default('free'),
 
+  // Moderation (granted directly in the database, never through the API)
+  isAdmin: boolean('is_admin').default(false).notNull(),
+
   // Sync tracking
   lastSyncedAt: timestamp('last_synced_at'),
 
@@ -90,10 +108,10 @@ export const users = pgTable('users', {
   emailIdx: index('users_email_idx').on(table.email)
 }));
 
-// Exercise library - Pre-defined exercises
+// Exercise library - Pre-defined exercises plus user-owned custom exercises
 export const exercises = pgTable('exercises', {
   id: uuid('id').defaultRandom().primaryKey(),
-  name: varchar('name', { length: 100 }).notNull().unique(),
+  name: varchar('name', { length: 100 }).notNull(),
 
   // Muscle targeting
   primaryMuscles: jsonb('primary_muscles').$type<string[]>().notNull(),
@@ -127,7 +145,12 @@ export const exercises = pgTable('exercises', {
   movementPatternIdx: index('exercises_movement_pattern_idx').on(table.movementPattern),
   exerciseTypeIdx: index('exercises_exercise_type_idx').on(table.exerciseType),
   popularityScoreIdx: index('exercises_popularity_score_idx').on(table.popularityScore),
-  isCustomIdx: index('exercises_is_custom_idx').on(table.isCustom)
+  isCustomIdx: index('exercises_is_custom_idx').on(table.isCustom),
+  // Library names are globally unique; custom names only per owner
+  libraryNameIdx: uniqueIndex('exercises_library_name_idx').on(table.name).where(sql`${table.isCustom} = false`),
+  customOwnerNameIdx: uniqueIndex('exercises_custom_owner_name_idx')
+    .on(table.createdBy, table.name)
+    .where(sql`${table.isCustom} = true`)
 }));
 
 // Exercise aliases - for fuzzy search with gym slang and abbreviations
@@ -141,6 +164,36 @@ export const exerciseAliases = pgTable('exercise_aliases', {
   aliasIdx: index('exercise_aliases_alias_idx').on(table.alias)
 }));
 
+// Exercise alias proposals - moderation queue for user-proposed and sync-mined aliases
+export const exerciseAliasProposals = pgTable('exercise_alias_proposals', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  exerciseId: uuid('exercise_id').references(() => exercises.id, { onDelete: 'cascade' }).notNull(),
+  alias: varchar('alias', { length: 100 }).notNull(), // Lowercase, like exercise_aliases.alias
+  source: aliasProposalSourceEnum('source').notNull(), // Who raised it first
+  status: aliasProposalStatusEnum('status').default('pending').notNull(),
+  proposedBy: uuid('proposed_by').references(() => users.id, { onDelete: 'set null' }), // Null for sync-mined
+  occurrences: integer('occurrences').default(1).notNull(), // Distinct proposers plus times seen in sync
+  similarity: real('similarity'), // Best word_similarity for sync-mined candidates
+  reviewedBy: uuid('reviewed_by').references(() => users.id, { onDelete: 'set null' }),
+  reviewedAt: timestamp('reviewed_at'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  exerciseAliasIdx: uniqueIndex('exercise_alias_proposals_exercise_alias_idx').on(table.exerciseId, table.alias),
+  statusOccurrencesIdx: index('exercise_alias_proposals_status_occurrences_idx').on(table.status, table.occurrences)
+}));
+
+// Exercise alias proposers - each user behind a proposal, so a user only counts once
+export const exerciseAliasProposers = pgTable('exercise_alias_proposers', {
+  proposalId: uuid('proposal_id').references(() => exerciseAliasProposals.id, { onDelete: 'cascade' }).notNull(),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }).notNull(),
+
+  createdAt: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  pk: primaryKey({ columns: [table.proposalId, table.userId] })
+}));
+
 // User exercise history - tracks which exercises each user has used for "recently used" sorting
 export const userExerciseHistory = pgTable('user_exercise_history', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -214,6 +267,7 @@ export const workoutPrograms = pgTable('workout_programs', {
   // Program structure
   daysPerWeek: integer('days_per_week').notNull().default(1), // 1-7 workouts per cycle
   durationWeeks: integer('duration_weeks'), // null = indefinite, number = finite cycles
+  goal: varchar('goal', { length: 50 }), // hypertrophy, strength, ... (see VALID_GOALS)
 
   // User progress tracking
   isActive: boolean('is_active').default(false).notNull(),
@@ -239,7 +293,8 @@ export const workoutPrograms = pgTable('workout_programs', {
   updatedAt: timestamp('updated_at').defaultNow().notNull()
 }, (table) => ({
   userIdIdx: index('workout_programs_user_id_idx').on(table.userId),
-  userActiveIdx: index('workout_programs_user_active_idx').on(table.userId, table.isActive)
+  userActiveIdx: index('workout_programs_user_active_idx').on(table.userId, table.isActive),
+  publicIdx: index('workout_programs_public_idx').on(table.isPublic, table.downloadCount)
 }));
 
 // Program weeks - Links templates to specific days in a program
@@ -261,7 +316,11 @@ export const programWeeks = pgTable('program_weeks', {
 export const workouts = pgTable('workouts', {
   id: uuid('id').defaultRandom().primaryKey(),
   userId: uuid('user_id').references(() => users.id).notNull(),
-  templateId: uuid('template_id').references(() => workoutTemplates.id),
+  templateId: uuid('template_id').references(() => workoutTemplates.id, { onDelete: 'set null' }),
+
+  // Program day the workout was trained from, if any
+  programId: uuid('program_id').references(() => workoutPrograms.id, { onDelete: 'set null' }),
+  programDayNumber: integer('program_day_number'), // 0-based, matches program_weeks.day_number
   
   // Client ID for mapping to Core Data
   clientId: uuid('client_id'), // Maps to Core Data UUID
@@ -273,6 +332,7 @@ export const workouts = pgTable('workouts', {
   isCompleted: boolean('is_completed').default(false),
   startTime: timestamp('start_time'),
   endTime: timestamp('end_time'),
+  notes: text('notes'),
   
   // Calculated stats
   totalVolumeLbs: numeric('total_volume_lbs', { precision: 10, scale: 2 }),
@@ -282,6 +342,7 @@ export const workouts = pgTable('workouts', {
   // Sync tracking
   lastSyncedAt: timestamp('last_synced_at'),
   clientUpdatedAt: timestamp('client_updated_at'),
+  deletedAt: timestamp('deleted_at'), // Soft-delete tombstone, propagated to other devices via sync
   
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull()
@@ -305,6 +366,7 @@ export const workoutExercises = pgTable('workout_exercises', {
   // Exercise metadata
   exerciseName: varchar('exercise_name', { length: 100 }).notNull(), // Denormalized for performance
   primaryMuscles: jsonb('primary_muscles').$type<string[]>().notNull(), // Denormalized for performance
+  notes: text('notes'),
   
   // Sync tracking
   lastSyncedAt: timestamp('last_synced_at'),
@@ -331,6 +393,11 @@ export const sets = pgTable('sets', {
   reps: integer('reps').notNull(),
   weightLbs: numeric('weight_lbs', { precision: 10, scale: 2 }).notNull(),
   setType: setTypeEnum('set_type').notNull(),
+  loadType: loadTypeEnum('load_type').default('external').notNull(), // How weightLbs relates to the load moved
+
+  // Timed and distance sets (planks, carries, cardio)
+  durationSeconds: integer('duration_seconds'),
+  distanceMeters: numeric('distance_meters', { precision: 10, scale: 2 }),
   
   // Additional data
   rpe: real('rpe'), // Rate of Perceived Exertion (1-10)
@@ -360,7 +427,7 @@ export const personalRecords = pgTable('personal_records', {
   unit: varchar('unit', { length: 10 }), // 'kg', 'lbs', 'reps'
   
   // Reference to the set that achieved this PR
-  setId: uuid('set_id').references(() => sets.id),
+  setId: uuid('set_id').references(() => sets.id, { onDelete: 'set null' }),
   achievedAt: timestamp('achieved_at').notNull(),
   
   createdAt: timestamp('created_at').defaultNow().notNull()
@@ -376,6 +443,7 @@ export const personalRecords = pgTable('personal_records', {
 export const userFollows = pgTable('user_follows', {
   followerId: uuid('follower_id').references(() => users.id).notNull(),
   followingId: uuid('following_id').references(() => users.id).notNull(),
+  status: followStatusEnum('status').default('accepted').notNull(), // 'pending' until a private profile approves
   
   createdAt: timestamp('created_at').defaultNow().notNull()
 }, (table) => ({
@@ -384,6 +452,17 @@ export const userFollows = pgTable('user_follows', {
   followingIdx: index('user_follows_following_idx').on(table.followingId)
 }));
 
+// User blocks - A blocked user can't follow or view the blocker
+export const userBlocks = pgTable('user_blocks', {
+  blockerId: uuid('blocker_id').references(() => users.id).notNull(),
+  blockedId: uuid('blocked_id').references(() => users.id).notNull(),
+
+  createdAt: timestamp('created_at').defaultNow().notNull()
+}, (table) => ({
+  pk: primaryKey({ columns: [table.blockerId, table.blockedId] }),
+  blockedIdx: index('user_blocks_blocked_idx').on(table.blockedId)
+}));
+
 // Progress photos
 export const progressPhotos = pgTable('progress_photos', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -414,7 +493,7 @@ export const competitions = pgTable('competitions', {
   status: competitionStatusEnum('status').default('draft').notNull(),
   
   // Competition rules
-  metric: varchar('metric', { length: 50 }).notNull(), // 'total_volume', 'workout_count', 'exercise_prs', etc.
+  metric: varchar('metric', { length: 50 }).notNull(), // 'total_volume', 'workout_count' or 'best_e1rm'
   targetExerciseId: uuid('target_exercise_id').references(() => exercises.id), // For exercise-specific competitions
   
   // Dates
@@ -426,12 +505,36 @@ export const competitions = pgTable('competitions', {
   isPublic: boolean('is_public').default(true),
   entryCode: varchar('entry_code', { length: 10 }), // For private competitions
   
+  // Team rules (team competitions only)
+  teamScoring: teamScoringEnum('team_scoring'),
+  teamScoringTopN: integer('team_scoring_top_n'), // Members counted for 'best_n'
+  maxTeamSize: integer('max_team_size'),
+  
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull()
 }, (table) => ({
   creatorIdIdx: index('competitions_creator_id_idx').on(table.creatorId),
   statusIdx: index('competitions_status_idx').on(table.status),
-  startDateIdx: index('competitions_start_date_idx').on(table.startDate)
+  startDateIdx: index('competitions_start_date_idx').on(table.startDate),
+  entryCodeIdx: uniqueIndex('competitions_entry_code_idx').on(table.entryCode)
+}));
+
+// Competition teams
+export const competitionTeams = pgTable('competition_teams', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  competitionId: uuid('competition_id').references(() => competitions.id, { onDelete: 'cascade' }).notNull(),
+  captainId: uuid('captain_id').references(() => users.id).notNull(),
+  name: varchar('name', { length: 100 }).notNull(),
+  
+  // Aggregate of member scores per the competition's team rules
+  currentScore: numeric('current_score', { precision: 12, scale: 2 }).default('0').notNull(),
+  rank: integer('rank'),
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  competitionNameIdx: uniqueIndex('competition_teams_comp_name_idx').on(table.competitionId, table.name),
+  competitionIdIdx: index('competition_teams_competition_idx').on(table.competitionId)
 }));
 
 // Competition participants
@@ -439,7 +542,7 @@ export const competitionParticipants = pgTable('competition_participants', {
   id: uuid('id').defaultRandom().primaryKey(),
   competitionId: uuid('competition_id').references(() => competitions.id, { onDelete: 'cascade' }).notNull(),
   userId: uuid('user_id').references(() => users.id).notNull(),
-  teamId: uuid('team_id'), // For team competitions
+  teamId: uuid('team_id').references(() => competitionTeams.id, { onDelete: 'set null' }), // For team competitions
   
   // Stats
   currentScore: numeric('current_score', { precision: 12, scale: 2 }).default('0'),
@@ -449,7 +552,8 @@ export const competitionParticipants = pgTable('competition_participants', {
   lastUpdatedAt: timestamp('last_updated_at').defaultNow().notNull()
 }, (table) => ({
   competitionUserIdx: uniqueIndex('competition_participants_comp_user_idx').on(table.competitionId, table.userId),
-  competitionIdIdx: index('competition_participants_competition_idx').on(table.competitionId)
+  competitionIdIdx: index('competition_participants_competition_idx').on(table.competitionId),
+  teamIdIdx: index('competition_participants_team_idx').on(table.teamId)
 }));
 
 // Template likes - Track which templates users like
@@ -518,6 +622,24 @@ export const aiGenerationLogs = pgTable('ai_generation_logs', {
   createdAtIdx: index('ai_gen_logs_created_at_idx').on(table.createdAt)
 }));
 
+// Feed events - activity written by sync, read by followers' feeds
+export const feedEvents = pgTable('feed_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  type: feedEventTypeEnum('type').notNull(),
+  workoutId: uuid('workout_id').references(() => workouts.id, { onDelete: 'cascade' }),
+  programId: uuid('program_id').references(() => workoutPrograms.id, { onDelete: 'cascade' }),
+  data: jsonb('data').notNull(), // Summary shown in the feed, shape depends on type
+  dedupeKey: varchar('dedupe_key', { length: 100 }), // One event per key, e.g. 'workout:<id>'
+
+  occurredAt: timestamp('occurred_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  userOccurredAtIdx: index('feed_events_user_occurred_at_idx').on(table.userId, table.occurredAt),
+  userDedupeKeyIdx: uniqueIndex('feed_events_user_dedupe_key_idx').on(table.userId, table.dedupeKey)
+}));
+
 // Shares - frozen snapshots for deep-link sharing
 export const shares = pgTable('shares', {
   id: uuid('id').defaultRandom().primaryKey(),
@@ -526,7 +648,12 @@ export const shares = pgTable('shares', {
   itemId: uuid('item_id').notNull(), // Polymorphic: references programs OR templates
   sharedBy: uuid('shared_by').references(() => users.id).notNull(),
   snapshot: jsonb('snapshot').notNull(),
+  mode: shareModeEnum('mode').default('snapshot').notNull(), // live = re-resolved from the item on each view
+  version: integer('version').default(1).notNull(), // Bumped whenever the snapshot content changes
+  snapshotUpdatedAt: timestamp('snapshot_updated_at').defaultNow().notNull(),
   expiresAt: timestamp('expires_at'),
+  viewCount: integer('view_count').default(0).notNull(), // GET /api/shares/:token lookups
+  importCount: integer('import_count').default(0).notNull(), // Distinct users who imported it
   createdAt: timestamp('created_at').defaultNow().notNull()
 }, (table) => ({
   tokenIdx: uniqueIndex('shares_token_idx').on(table.token),
@@ -534,6 +661,21 @@ export const shares = pgTable('shares', {
   typeItemIdx: index('shares_type_item_idx').on(table.type, table.itemId)
 }));
 
+// Share imports - one per user per share, pointing at the template/program it created
+export const shareImports = pgTable('share_imports', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  shareId: uuid('share_id').references(() => shares.id, { onDelete: 'cascade' }).notNull(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  importedItemId: uuid('imported_item_id').notNull(), // Polymorphic, like shares.itemId
+  importedVersion: integer('imported_version').default(1).notNull(), // Share version the copy was made from
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull()
+}, (table) => ({
+  shareUserIdx: uniqueIndex('share_imports_share_user_idx').on(table.shareId, table.userId),
+  userIdx: index('share_imports_user_idx').on(table.userId)
+}));
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   workouts: many(workouts),
@@ -557,6 +699,7 @@ export const exercisesRelations = relations(exercises, ({ many }) => ({
   workoutExercises: many(workoutExercises),
   personalRecords: many(personalRecords),
   aliases: many(exerciseAliases),
+  aliasProposals: many(exerciseAliasProposals),
   userHistory: many(userExerciseHistory)
 }));
 
@@ -567,6 +710,13 @@ export const exerciseAliasesRelations = relations(exerciseAliases, ({ one }) =>
   })
 }));
 
+export const exerciseAliasProposalsRelations = relations(exerciseAliasProposals, ({ one }) => ({
+  exercise: one(exercises, {
+    fields: [exerciseAliasProposals.exerciseId],
+    references: [exercises.id]
+  })
+}));
+
 export const userExerciseHistoryRelations = relations(userExerciseHistory, ({ one }) => ({
   user: one(users, {
     fields: [userExerciseHistory.userId],
@@ -698,15 +848,20 @@ export const syncMetadata = pgTable('sync_metadata', {
   userIdIdx: index('sync_metadata_user_id_idx').on(table.userId)
 }));
 
-// Sync queue - tracks pending sync operations
+// Sync queue - durable, ordered change feed of workout/exercise/set mutations
 export const syncQueue = pgTable('sync_queue', {
   id: uuid('id').defaultRandom().primaryKey(),
   userId: uuid('user_id').references(() => users.id).notNull(),
+
+  // Monotonic position in the user's change feed (devices resume from the last one they saw)
+  sequence: bigserial('sequence', { mode: 'number' }).notNull(),
+  sourceDeviceId: varchar('source_device_id', { length: 255 }), // Device that made the change, null for server-side edits
   
   // Operation details
   entityType: varchar('entity_type', { length: 50 }).notNull(), // 'workout', 'exercise', 'set'
   entityId: uuid('entity_id').notNull(),
   operation: syncOperationEnum('operation').notNull(),
+  workoutClientId: uuid('workout_client_id'), // Workout the entity belongs to (its own client ID for workouts)
   
   // Sync tracking
   status: syncStatusEnum('status').default('pending').notNull(),
@@ -727,8 +882,10 @@ export const syncQueue = pgTable('sync_queue', {
   createdAt: timestamp('created_at').defaultNow().notNull()
 }, (table) => ({
   userIdIdx: index('sync_queue_user_id_idx').on(table.userId),
+  userSequenceIdx: uniqueIndex('sync_queue_user_sequence_idx').on(table.userId, table.sequence),
   statusIdx: index('sync_queue_status_idx').on(table.status),
-  entityTypeIdx: index('sync_queue_entity_type_idx').on(table.entityType)
+  entityTypeIdx: index('sync_queue_entity_type_idx').on(table.entityType),
+  userWorkoutSequenceIdx: index('sync_queue_user_workout_sequence_idx').on(table.userId, table.workoutClientId, table.sequence)
 }));
 
 // Conflict log - tracks and resolves sync conflicts
@@ -752,7 +909,7 @@ export const syncConflictLog = pgTable('sync_conflict_log', {
   // Resolution
   resolution: conflictResolutionEnum('resolution'),
   resolvedAt: timestamp('resolved_at'),
-  resolvedBy: varchar('resolved_by', { length: 50 }), // 'system' or 'user'
+  resolvedBy: varchar('resolved_by', { length: 50 }), // 'system', 'user' or 'superseded'
   
   createdAt: timestamp('created_at').defaultNow().notNull()
 }, (table) => ({
@@ -778,6 +935,11 @@ export const userDevices = pgTable('user_devices', {
   // Activity tracking
   lastActiveAt: timestamp('last_active_at'),
   lastSyncAt: timestamp('last_sync_at'),
+
+  // Server-side download checkpoint: what the server believes this device already has.
+  // Null until recorded; a reset sets them to the start of history to force a full resync.
+  syncCheckpointAt: timestamp('sync_checkpoint_at'), // lastServerSync handed to the device
+  lastChangeSequence: bigint('last_change_sequence', { mode: 'number' }),
   
   // Status
   isActive: boolean('is_active').default(true),
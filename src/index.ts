@@ -6,12 +6,22 @@ import { config } from './config';
 import { AuthenticatedRequest, firebaseAuthMiddleware } from './middleware/auth';
 import { getOrCreateUser, updateUserProfile } from './services/userService';
 import { SyncService, SyncPayload } from './services/syncService';
+import { recalculateUserStats, getEffectiveCurrentStreak } from './services/userStatsService';
+import { approveAllFollowRequests } from './services/followService';
 import exerciseRoutes from './routes/exercises';
 import templateRoutes from './routes/templates';
 import programRoutes from './routes/programs';
 import aiRoutes from './routes/ai';
 import shareRoutes from './routes/shares';
+import meRoutes from './routes/me';
+import workoutRoutes from './routes/workouts';
+import syncRoutes from './routes/sync';
+import userRoutes from './routes/users';
+import feedRoutes from './routes/feed';
+import competitionRoutes from './routes/competitions';
+import adminRoutes from './routes/admin';
 import { seedExercisesOnStartup } from './services/exerciseSeedService';
+import { startCompetitionScheduler } from './services/competitionService';
 import { validateUserProfileUpdate, validateSyncPayload } from './utils/validation';
 import {
   generateCorrelationId,
@@ -160,9 +170,15 @@ app.get('/api/me', firebaseAuthMiddleware, async (req: AuthenticatedRequest, res
   const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId;
   try {
     const userRecord = await getOrCreateUser(req.user!);
+    // Streaks are only recomputed on sync, so drop one that has lapsed since
+    const currentWorkoutStreak = getEffectiveCurrentStreak(
+      userRecord.currentWorkoutStreak,
+      userRecord.lastWorkoutDate,
+      userRecord.timezone
+    );
     res.status(200).json({
       success: true,
-      data: { user: userRecord },
+      data: { user: { ...userRecord, currentWorkoutStreak } },
       correlationId
     });
   } catch (error) {
@@ -190,7 +206,17 @@ app.put('/api/me', profileLimiter, firebaseAuthMiddleware, async (req: Authentic
       return;
     }
 
-    const updatedUser = await updateUserProfile(req.user!.uid, validation.sanitized);
+    let updatedUser = await updateUserProfile(req.user!.uid, validation.sanitized);
+
+    // Streaks are based on local calendar days, so they change with the timezone
+    if (validation.sanitized.timezone !== undefined) {
+      updatedUser = await recalculateUserStats(updatedUser.id);
+    }
+
+    // Going public lets everyone follow, so pending requests no longer need approval
+    if (validation.sanitized.isPublicProfile === true) {
+      await approveAllFollowRequests(updatedUser.id);
+    }
     logInfo('/api/me PUT', 'Profile updated successfully', correlationId, { userId: updatedUser.id });
     res.status(200).json({
       success: true,
@@ -204,6 +230,18 @@ app.put('/api/me', profileLimiter, firebaseAuthMiddleware, async (req: Authentic
   }
 });
 
+// Current user sub-resources (personal records, ...)
+app.use('/api/me', meRoutes);
+
+// Public profiles, follows and blocking
+app.use('/api/users', userRoutes);
+
+// Activity feed of followed users
+app.use('/api/feed', feedRoutes);
+
+// Competitions and leaderboards
+app.use('/api/competitions', competitionRoutes);
+
 // Exercise API routes
 app.use('/api/exercises', exerciseRoutes);
 
@@ -213,12 +251,18 @@ app.use('/api/templates', templateRoutes);
 // Program API routes (rate limiting handled in routes file for write operations only)
 app.use('/api/programs', programRoutes);
 
+// Workout history routes (read-only; workouts are written through /api/sync)
+app.use('/api/workouts', workoutRoutes);
+
 // AI program generation routes
 app.use('/api/ai', aiRoutes);
 
 // Share routes (mixed auth - POST requires auth, GET is public)
 app.use('/api/shares', shareRoutes);
 
+// Moderation routes (administrators only)
+app.use('/api/admin', adminRoutes);
+
 // Sync endpoint - sync user's workout data
 app.post('/api/sync', syncLimiter, firebaseAuthMiddleware, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId;
@@ -258,6 +302,9 @@ app.post('/api/sync', syncLimiter, firebaseAuthMiddleware, async (req: Authentic
   }
 });
 
+// Sync change feed, checkpoint reset and conflict review routes (the sync upload itself is handled above)
+app.use('/api/sync', syncRoutes);
+
 // Global error handler
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
   const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId || generateCorrelationId();
@@ -279,10 +326,12 @@ app.use((req: Request, res: Response) => {
 seedExercisesOnStartup().then(() => {
   app.listen(PORT, () => {
     console.log(`Server is running on http://localhost:${PORT} in ${config.env} mode`);
+    startCompetitionScheduler();
   });
 }).catch((err) => {
   console.error('Failed during startup seed, starting server anyway:', err);
   app.listen(PORT, () => {
     console.log(`Server is running on http://localhost:${PORT} in ${config.env} mode`);
+    startCompetitionScheduler();
   });
 });
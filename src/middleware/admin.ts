@@ -0,0 +1,29 @@
+import { NextFunction, Response } from 'express';
+import { AuthenticatedRequest } from './auth';
+import { getOrCreateUser } from '../services/userService';
+import { generateCorrelationId, logError, sendErrorResponse } from '../utils/errorResponse';
+
+/**
+ * Express middleware that only lets administrators through.
+ * Must run after firebaseAuthMiddleware. Admins are flagged with
+ * users.is_admin directly in the database; no endpoint grants it.
+ */
+export const adminMiddleware = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  const correlationId = req.correlationId || generateCorrelationId();
+
+  try {
+    const user = await getOrCreateUser(req.user!);
+    if (!user.isAdmin) {
+      res.status(403).json({
+        success: false,
+        message: 'Forbidden: Administrator access required',
+        correlationId
+      });
+      return;
+    }
+    next();
+  } catch (error) {
+    logError('Admin middleware', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to verify administrator access', error, correlationId);
+  }
+};
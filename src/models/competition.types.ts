@@ -0,0 +1,225 @@
+/**
+ * TypeScript types for the competitions API
+ */
+
+import { UserSummary } from './follow.types';
+
+// ============ Core Types ============
+
+export type CompetitionType = 'individual' | 'group' | 'team';
+
+export type CompetitionStatus = 'draft' | 'active' | 'completed' | 'cancelled';
+
+/**
+ * How participants are scored, from their completed workouts between
+ * startDate and endDate:
+ * - total_volume: summed workout volume in lbs
+ * - workout_count: number of completed workouts
+ * - best_e1rm: best estimated 1RM on targetExerciseId, in lbs
+ */
+export type CompetitionMetric = 'total_volume' | 'workout_count' | 'best_e1rm';
+
+/**
+ * How a team's score is built from its members' scores:
+ * - sum: all members added up
+ * - average: mean member score
+ * - best_n: the top `topN` member scores added up
+ */
+export type TeamScoring = 'sum' | 'average' | 'best_n';
+
+/**
+ * Team rules of a 'team' competition
+ */
+export interface TeamRules {
+  scoring: TeamScoring;
+  topN: number | null; // Only for best_n
+  maxTeamSize: number | null;
+}
+
+// ============ Query Types ============
+
+/**
+ * Query parameters for the public competition listing
+ */
+export interface CompetitionListQuery {
+  cursor?: string;
+  limit?: number;
+  metric?: CompetitionMetric;
+}
+
+/**
+ * Query parameters for a leaderboard page
+ */
+export interface LeaderboardQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+export type CompetitionSortOption = 'startDate' | 'score';
+
+// ============ Input Types ============
+
+/**
+ * Input for creating a competition (always created as a draft)
+ */
+export interface CreateCompetitionInput {
+  name: string;
+  description?: string;
+  type: CompetitionType;
+  metric: CompetitionMetric;
+  targetExerciseId?: string; // Required for best_e1rm
+  startDate: string;
+  endDate: string;
+  maxParticipants?: number;
+  isPublic?: boolean; // Private competitions are joined with their entry code
+  teamScoring?: TeamScoring; // Required for team competitions
+  teamScoringTopN?: number; // Required for best_n
+  maxTeamSize?: number;
+}
+
+/**
+ * Input for creating a team in a team competition
+ */
+export interface CreateTeamInput {
+  name: string;
+}
+
+// ============ Response Types ============
+
+/**
+ * Competition data for lists
+ */
+export interface CompetitionListItem {
+  id: string;
+  name: string;
+  description: string | null;
+  type: CompetitionType;
+  status: CompetitionStatus;
+  metric: CompetitionMetric;
+  targetExercise: { id: string; name: string } | null;
+  startDate: string;
+  endDate: string;
+  maxParticipants: number | null;
+  isPublic: boolean;
+  teamRules: TeamRules | null; // null unless type is 'team'
+  participantCount: number;
+  creator: UserSummary;
+  createdAt: string;
+}
+
+export interface TeamReference {
+  id: string;
+  name: string;
+}
+
+/**
+ * The viewer's standing in a competition
+ */
+export interface CompetitionStanding {
+  score: number;
+  rank: number | null;
+  team: TeamReference | null;
+  joinedAt: string;
+}
+
+/**
+ * Full competition detail as seen by the viewer.
+ * entryCode is only returned to the creator.
+ */
+export interface CompetitionDetail extends CompetitionListItem {
+  entryCode: string | null;
+  isCreator: boolean;
+  myStanding: CompetitionStanding | null; // null when the viewer hasn't joined
+  updatedAt: string;
+}
+
+export interface CompetitionListResponse {
+  competitions: CompetitionListItem[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Competitions the user created or joined
+ */
+export interface MyCompetitionsResponse {
+  competitions: CompetitionDetail[];
+}
+
+export interface LeaderboardEntry {
+  rank: number | null;
+  score: number;
+  user: UserSummary;
+  team: TeamReference | null;
+  joinedAt: string;
+}
+
+/**
+ * Leaderboard page, highest score first. `me` is the viewer's own entry
+ * (null if they haven't joined), regardless of which page it falls on.
+ */
+export interface LeaderboardResponse {
+  competitionId: string;
+  status: CompetitionStatus;
+  metric: CompetitionMetric;
+  entries: LeaderboardEntry[];
+  me: LeaderboardEntry | null;
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * A team with its roster
+ */
+export interface CompetitionTeam {
+  id: string;
+  name: string;
+  captain: UserSummary;
+  score: number;
+  rank: number | null;
+  memberCount: number;
+  members: UserSummary[];
+  createdAt: string;
+}
+
+export interface CompetitionTeamListResponse {
+  teams: CompetitionTeam[];
+}
+
+export interface TeamLeaderboardEntry {
+  rank: number | null;
+  score: number;
+  team: TeamReference & { memberCount: number };
+}
+
+/**
+ * Team leaderboard page, highest score first. `myTeam` is the viewer's
+ * team (null if they aren't on one), regardless of which page it falls on.
+ */
+export interface TeamLeaderboardResponse {
+  competitionId: string;
+  status: CompetitionStatus;
+  metric: CompetitionMetric;
+  teamRules: TeamRules;
+  entries: TeamLeaderboardEntry[];
+  myTeam: TeamLeaderboardEntry | null;
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+// ============ Cursor Types ============
+
+/**
+ * Cursor data for pagination
+ */
+export interface CompetitionCursorData {
+  id: string;
+  sortValue: string | number;
+  sortField: CompetitionSortOption;
+}
@@ -0,0 +1,40 @@
+/**
+ * TypeScript types for device management and per-device sync checkpoints
+ */
+
+// ============ Core Types ============
+
+/**
+ * What the server believes a device has already downloaded. Each field is
+ * null until the device has downloaded in that mode.
+ */
+export interface DeviceCheckpoint {
+  lastServerSync: string | null;
+  lastChangeSequence: number | null;
+}
+
+// ============ Response Types ============
+
+/**
+ * Device entry for the device management list
+ */
+export interface UserDeviceItem {
+  id: string;
+  deviceId: string;
+  deviceName: string | null;
+  deviceType: string | null;
+  appVersion: string | null;
+  osVersion: string | null;
+  isActive: boolean;
+  lastActiveAt: string | null;
+  lastSyncAt: string | null;
+  checkpoint: DeviceCheckpoint;
+  createdAt: string;
+}
+
+/**
+ * Response for device list endpoint
+ */
+export interface UserDeviceListResponse {
+  devices: UserDeviceItem[];
+}
@@ -1,4 +1,5 @@
 import { DifficultyLevel, MovementPattern, ExerciseType } from './index';
+import { PersonalRecordItem } from './personalRecord.types';
 
 // ============ Query Parameters ============
 
@@ -18,11 +19,33 @@ export interface ExerciseListQuery {
   // Search
   search?: string; // Fuzzy search on name and aliases
 
+  // Also list the caller's own custom exercises (requires auth)
+  includeCustom?: boolean;
+
   // Sorting
   sort?: ExerciseSortOption;
   order?: 'asc' | 'desc';
 }
 
+/**
+ * Query parameters for exercise alternatives
+ */
+export interface ExerciseAlternativesQuery {
+  equipment?: string[]; // Client equipment values (see VALID_EQUIPMENT)
+  limit?: number; // Default: 10, Max: 50
+}
+
+/**
+ * Query parameters for an exercise's progress history
+ */
+export interface ExerciseHistoryQuery {
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
+  bucket?: ExerciseHistoryBucket; // Default: session
+}
+
+export type ExerciseHistoryBucket = 'session' | 'week' | 'month';
+
 export type ExerciseSortOption =
   | 'name' // Alphabetical
   | 'popularity' // By popularityScore
@@ -43,6 +66,7 @@ export interface ExerciseListItem {
   thumbnailUrl: string | null;
   videoUrl: string | null;
   popularityScore: number;
+  isCustom: boolean;
 }
 
 export interface ExerciseDetail extends ExerciseListItem {
@@ -52,6 +76,55 @@ export interface ExerciseDetail extends ExerciseListItem {
   updatedAt: string;
 }
 
+/**
+ * Which attributes an alternative shares with the original exercise
+ */
+export interface AlternativeMatch {
+  primaryMuscles: string[]; // Original primary muscles the alternative also trains as primary
+  secondaryMuscles: string[]; // Other muscles the two have in common
+  movementPattern: boolean;
+  exerciseType: boolean;
+  equipment: boolean;
+}
+
+export interface ExerciseAlternative {
+  exercise: ExerciseListItem;
+  score: number; // 0-100
+  matches: AlternativeMatch;
+}
+
+export interface ExerciseAlternativesResponse {
+  exerciseId: string;
+  alternatives: ExerciseAlternative[];
+}
+
+/**
+ * One point of an exercise's progress history: a single workout, or every
+ * workout in a week (starting Monday, UTC) or calendar month
+ */
+export interface ExerciseHistoryPoint {
+  date: string; // Workout date, or start of the week/month
+  workoutId: string | null; // Only for the session bucket
+  sessionCount: number;
+  bestSet: {
+    weightLbs: number;
+    reps: number;
+  } | null; // Heaviest working set, most reps on ties
+  estimatedOneRepMaxLbs: number | null;
+  totalVolumeLbs: number;
+  setCount: number;
+}
+
+export interface ExerciseHistoryResponse {
+  exercise: {
+    id: string;
+    name: string;
+  };
+  bucket: ExerciseHistoryBucket;
+  points: ExerciseHistoryPoint[]; // Oldest first
+  personalRecords: PersonalRecordItem[];
+}
+
 export interface PaginationInfo {
   nextCursor: string | null;
   hasMore: boolean;
@@ -85,6 +158,32 @@ export interface FilterMetadata {
   exerciseTypes: FilterOption[];
 }
 
+// ============ Input Types ============
+
+/**
+ * Input for creating a user-owned custom exercise
+ */
+export interface CreateCustomExerciseInput {
+  name: string;
+  primaryMuscles: string[];
+  secondaryMuscles?: string[];
+  equipment?: string;
+  movementPattern?: MovementPattern;
+  exerciseType?: ExerciseType;
+}
+
+/**
+ * Input for updating a custom exercise; null clears an optional field
+ */
+export interface UpdateCustomExerciseInput {
+  name?: string;
+  primaryMuscles?: string[];
+  secondaryMuscles?: string[];
+  equipment?: string | null;
+  movementPattern?: MovementPattern | null;
+  exerciseType?: ExerciseType | null;
+}
+
 // ============ Cursor Encoding ============
 
 export interface CursorData {
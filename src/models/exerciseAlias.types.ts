@@ -0,0 +1,87 @@
+/**
+ * TypeScript types for exercise alias proposals and their moderation queue
+ */
+
+import { UserSummary } from './follow.types';
+
+// ============ Core Types ============
+
+export type AliasProposalSource = 'user' | 'sync';
+
+export type AliasProposalStatus = 'pending' | 'approved' | 'rejected';
+
+// ============ Query Types ============
+
+/**
+ * Query parameters for the moderation queue
+ */
+export interface AliasProposalListQuery {
+  cursor?: string;
+  limit?: number;
+  status?: AliasProposalStatus; // Default: pending
+  source?: AliasProposalSource;
+}
+
+export type AliasProposalSortOption = 'occurrences';
+
+// ============ Response Types ============
+
+/**
+ * An alias proposal as seen by the proposer
+ */
+export interface AliasProposal {
+  id: string;
+  exerciseId: string;
+  alias: string;
+  source: AliasProposalSource;
+  status: AliasProposalStatus;
+  occurrences: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * An alias proposal in the moderation queue
+ */
+export interface AliasProposalQueueItem extends AliasProposal {
+  exercise: {
+    id: string;
+    name: string;
+  };
+  similarity: number | null;
+  proposedBy: UserSummary | null;
+  reviewedAt: string | null;
+}
+
+export interface AliasProposalListResponse {
+  proposals: AliasProposalQueueItem[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+export interface ProposeAliasResponse {
+  proposal: AliasProposal;
+  created: boolean; // false when the alias had already been proposed
+}
+
+// ============ Input Types ============
+
+/**
+ * Input for proposing an alias
+ */
+export interface ProposeAliasInput {
+  alias: string;
+}
+
+// ============ Cursor Types ============
+
+/**
+ * Cursor data for pagination
+ */
+export interface AliasProposalCursorData {
+  id: string;
+  sortValue: number;
+  sortField: AliasProposalSortOption;
+}
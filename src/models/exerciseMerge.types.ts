@@ -0,0 +1,63 @@
+/**
+ * TypeScript types for finding and merging duplicate exercises
+ */
+
+// ============ Query Types ============
+
+/**
+ * Query parameters for the duplicate candidate list
+ */
+export interface DuplicateCandidateQuery {
+  limit?: number;
+  minSimilarity?: number; // 0-1, default 0.5
+}
+
+// ============ Response Types ============
+
+/**
+ * A custom exercise that looks like a duplicate of a library exercise
+ */
+export interface DuplicateCandidate {
+  exercise: {
+    id: string;
+    name: string;
+    createdBy: string | null;
+    totalTimesUsed: number;
+  };
+  canonical: {
+    id: string;
+    name: string;
+  };
+  similarity: number;
+}
+
+export interface DuplicateCandidateListResponse {
+  candidates: DuplicateCandidate[];
+}
+
+/**
+ * What a merge moved from the duplicate onto the canonical exercise
+ */
+export interface ExerciseMergeResult {
+  sourceExerciseId: string;
+  targetExerciseId: string;
+  aliasAdded: boolean; // false when the old name was already an alias or is the target's name
+  repointed: {
+    workoutExercises: number;
+    templateExercises: number;
+    exerciseHistory: number;
+    personalRecords: number;
+    strengthProfiles: number;
+    competitions: number;
+    aliases: number;
+  };
+}
+
+// ============ Input Types ============
+
+/**
+ * Input for merging an exercise into another
+ */
+export interface MergeExercisesInput {
+  targetExerciseId: string;
+}
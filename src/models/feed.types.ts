@@ -0,0 +1,115 @@
+/**
+ * TypeScript types for the activity feed
+ */
+
+import { UserSummary } from './follow.types';
+import { PersonalRecordType } from './personalRecord.types';
+
+// ============ Core Types ============
+
+export type FeedEventType = 'workout_completed' | 'personal_record' | 'program_started';
+
+/**
+ * Who sees a user's feed events: all approved followers ('public'),
+ * only followers they follow back ('friends'), or nobody ('private')
+ */
+export type ActivityPrivacy = 'private' | 'friends' | 'public';
+
+// ============ Query Types ============
+
+/**
+ * Query parameters for the feed
+ */
+export interface FeedQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+export type FeedSortOption = 'occurredAt';
+
+// ============ Event Data Types ============
+
+/**
+ * The heaviest working set of one exercise
+ */
+export interface FeedTopSet {
+  exerciseName: string;
+  reps: number;
+  weightLbs: number;
+  loadType: string;
+}
+
+/**
+ * Summary of a completed workout
+ */
+export interface WorkoutCompletedEventData {
+  workoutId: string;
+  name: string | null;
+  durationSeconds: number | null;
+  totalVolumeLbs: number;
+  totalSets: number;
+  totalReps: number;
+  exerciseCount: number;
+  topSets: FeedTopSet[];
+}
+
+export interface FeedPersonalRecord {
+  exerciseName: string;
+  recordType: PersonalRecordType;
+  value: number;
+  unit: string | null;
+  previousValue: number | null;
+}
+
+/**
+ * Records set in one workout
+ */
+export interface PersonalRecordEventData {
+  workoutId: string;
+  workoutName: string | null;
+  records: FeedPersonalRecord[];
+}
+
+/**
+ * First completed workout of a program
+ */
+export interface ProgramStartedEventData {
+  programId: string;
+  name: string;
+  daysPerWeek: number;
+  durationWeeks: number | null;
+}
+
+export type FeedEventData = WorkoutCompletedEventData | PersonalRecordEventData | ProgramStartedEventData;
+
+// ============ Response Types ============
+
+export interface FeedItem {
+  id: string;
+  type: FeedEventType;
+  user: UserSummary;
+  data: FeedEventData;
+  occurredAt: string;
+}
+
+/**
+ * Response for the feed endpoint
+ */
+export interface FeedResponse {
+  items: FeedItem[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+// ============ Cursor Types ============
+
+/**
+ * Cursor data for pagination
+ */
+export interface FeedCursorData {
+  id: string;
+  sortValue: string;
+  sortField: FeedSortOption;
+}
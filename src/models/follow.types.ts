@@ -0,0 +1,120 @@
+/**
+ * TypeScript types for the follow graph, public profiles and blocking
+ */
+
+// ============ Core Types ============
+
+export type FollowStatus = 'pending' | 'accepted';
+
+/**
+ * The viewer's follow state towards a profile ('none' when not following)
+ */
+export type ViewerFollowStatus = FollowStatus | 'none';
+
+// ============ Query Types ============
+
+/**
+ * Query parameters for follower, following and follow request lists
+ */
+export interface FollowListQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+export type FollowSortOption = 'createdAt';
+
+// ============ Response Types ============
+
+/**
+ * Minimal user info for lists.
+ * Note: DB column is `profilePictureUrl` but the API returns `avatarUrl`.
+ */
+export interface UserSummary {
+  id: string;
+  handle: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+}
+
+/**
+ * How the viewer relates to a profile
+ */
+export interface ProfileRelationship {
+  isSelf: boolean;
+  followStatus: ViewerFollowStatus;
+  followsYou: boolean;
+  isBlocked: boolean; // The viewer has blocked this user
+}
+
+/**
+ * Aggregate training stats shown on a profile
+ */
+export interface ProfileStats {
+  totalWorkouts: number;
+  totalVolumeLbs: number;
+  currentWorkoutStreak: number;
+  longestWorkoutStreak: number;
+  lastWorkoutDate: string | null;
+}
+
+/**
+ * Profile as seen by another user. `stats` is null when the profile is
+ * private and the viewer isn't an approved follower.
+ */
+export interface PublicUserProfile extends UserSummary {
+  bio: string | null;
+  isPublicProfile: boolean;
+  followerCount: number;
+  followingCount: number;
+  stats: ProfileStats | null;
+  relationship: ProfileRelationship;
+  memberSince: string;
+}
+
+/**
+ * A user in a follower, following or follow request list
+ */
+export interface FollowListItem extends UserSummary {
+  followedAt: string;
+}
+
+/**
+ * Response for follower, following and follow request lists
+ */
+export interface FollowListResponse {
+  users: FollowListItem[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Response for following a user. Private profiles start as 'pending'.
+ */
+export interface FollowResponse {
+  handle: string;
+  status: FollowStatus;
+}
+
+/**
+ * A user the viewer has blocked
+ */
+export interface BlockedUserItem extends UserSummary {
+  blockedAt: string;
+}
+
+export interface BlockedUserListResponse {
+  users: BlockedUserItem[];
+}
+
+// ============ Cursor Types ============
+
+/**
+ * Cursor data for pagination
+ */
+export interface FollowCursorData {
+  id: string;
+  sortValue: string;
+  sortField: FollowSortOption;
+}
@@ -2,6 +2,8 @@
 export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced';
 export type MovementPattern = 'push' | 'pull' | 'hinge' | 'squat' | 'lunge' | 'carry' | 'rotation' | 'core';
 export type ExerciseType = 'compound' | 'isolation' | 'cardio' | 'plyometric' | 'stretch';
+export type SetType = 'warmup' | 'working' | 'drop' | 'rest_pause' | 'amrap' | 'failure';
+export type LoadType = 'external' | 'bodyweight' | 'bodyweight_plus' | 'assisted';
 
 // Core user types
 export interface User {
@@ -18,6 +20,7 @@ export interface User {
   gender?: 'male' | 'female' | 'other' | 'prefer_not_to_say';
   unitPreference: 'metric' | 'imperial';
   isPublicProfile: boolean;
+  activityPrivacy: 'private' | 'friends' | 'public';
   totalVolumeLiftedLbs: number;
   totalWorkouts: number;
   currentWorkoutStreak: number;
@@ -130,8 +133,11 @@ export interface Set {
   workoutExerciseId: string;
   setNumber: number;
   reps: number;
-  weightLbs: number; // pounds
-  setType: 'warmup' | 'working';
+  weightLbs: number; // pounds; added load for bodyweight_plus, assistance for assisted
+  setType: SetType;
+  loadType: LoadType;
+  durationSeconds?: number; // Timed sets
+  distanceMeters?: number; // Distance sets
   rpe?: number; // Rate of Perceived Exertion (1-10)
   notes?: string;
   lastSyncedAt?: string;
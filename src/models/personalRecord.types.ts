@@ -0,0 +1,48 @@
+/**
+ * TypeScript types for the personal records API
+ */
+
+// ============ Core Types ============
+
+export type PersonalRecordType = '1rm' | '3rm' | '5rm' | 'max_reps' | 'max_volume';
+
+export const PERSONAL_RECORD_TYPES: readonly PersonalRecordType[] = [
+  '1rm', '3rm', '5rm', 'max_reps', 'max_volume'
+] as const;
+
+// ============ Query Types ============
+
+/**
+ * Query parameters for listing personal records
+ */
+export interface PersonalRecordListQuery {
+  exerciseId?: string;
+}
+
+// ============ Response Types ============
+
+/**
+ * A user's current best for one exercise and record type
+ */
+export interface PersonalRecordItem {
+  id: string;
+  exerciseId: string;
+  exerciseName: string;
+  recordType: PersonalRecordType;
+  value: number;
+  unit: string | null;
+  setId: string | null;
+  achievedAt: string;
+}
+
+/**
+ * A record that was set or beaten during a sync.
+ * previousValue is null when the user had no record of this type before.
+ */
+export interface NewPersonalRecord extends PersonalRecordItem {
+  previousValue: number | null;
+}
+
+export interface PersonalRecordListResponse {
+  records: PersonalRecordItem[];
+}
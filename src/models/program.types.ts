@@ -2,6 +2,8 @@
  * TypeScript types for workout programs API
  */
 
+import { UserSummary } from './follow.types';
+
 // ============ Query Types ============
 
 /**
@@ -16,6 +18,22 @@ export interface ProgramListQuery {
 
 export type ProgramSortOption = 'name' | 'createdAt' | 'updatedAt';
 
+/**
+ * Query parameters for browsing public programs
+ */
+export interface PublicProgramListQuery {
+  cursor?: string;
+  limit?: number;
+  sort?: PublicProgramSortOption;
+  search?: string;
+  daysPerWeek?: number;
+  durationWeeks?: number;
+  goal?: string;
+  isAiGenerated?: boolean;
+}
+
+export type PublicProgramSortOption = 'downloads' | 'recent';
+
 // ============ Response Types ============
 
 /**
@@ -47,6 +65,7 @@ export interface ProgramDetail {
   isActive: boolean;
   currentDayIndex: number;
   timesCompleted: number;
+  goal: string | null;
   isPublic: boolean;
   isAiGenerated: boolean;
   workouts: ProgramWorkoutDetail[];
@@ -54,6 +73,39 @@ export interface ProgramDetail {
   updatedAt: string;
 }
 
+/**
+ * Public program as seen while browsing
+ */
+export interface PublicProgramListItem {
+  id: string;
+  name: string;
+  description: string | null;
+  daysPerWeek: number;
+  durationWeeks: number | null;
+  goal: string | null;
+  isAiGenerated: boolean;
+  workoutCount: number;
+  author: UserSummary;
+  downloadCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Public program detail with workouts (without the author's progress)
+ */
+export interface PublicProgramDetail extends PublicProgramListItem {
+  workouts: ProgramWorkoutDetail[];
+}
+
+export interface PublicProgramListResponse {
+  programs: PublicProgramListItem[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
 /**
  * Workout (day) within a program
  */
@@ -118,6 +170,7 @@ export interface CreateProgramInput {
   description?: string;
   daysPerWeek: number; // 1-7
   durationWeeks?: number; // null = indefinite
+  goal?: string;
   isAiGenerated?: boolean;
   aiPrompt?: string;
   aiModel?: string;
@@ -133,6 +186,15 @@ export interface UpdateProgramInput {
   description?: string;
   daysPerWeek?: number;
   durationWeeks?: number | null;
+  goal?: string | null;
+  isPublic?: boolean; // Lists the program in the public library
+}
+
+/**
+ * Input for cloning a program
+ */
+export interface CloneProgramInput {
+  name?: string;
 }
 
 /**
@@ -142,6 +204,27 @@ export interface UpdateProgramWorkoutsInput {
   workouts: ProgramWorkoutInput[];
 }
 
+/**
+ * How a synced workout says it was trained; every field is optional
+ */
+export interface WorkoutTemplateHints {
+  templateId?: string;
+  programId?: string;
+  dayNumber?: number; // 0-based, with programId
+  templateName?: string;
+}
+
+// ============ Link Types ============
+
+/**
+ * The template (and program day) a workout was trained from
+ */
+export interface WorkoutTemplateLink {
+  templateId: string | null;
+  programId: string | null;
+  programDayNumber: number | null;
+}
+
 // ============ Cursor Types ============
 
 /**
@@ -150,5 +233,5 @@ export interface UpdateProgramWorkoutsInput {
 export interface ProgramCursorData {
   id: string;
   sortValue: string | number | null;
-  sortField: ProgramSortOption;
+  sortField: ProgramSortOption | PublicProgramSortOption;
 }
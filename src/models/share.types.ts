@@ -9,11 +9,30 @@ import { ProgramDetail } from './program.types';
 
 export type ShareType = 'program' | 'template';
 
+/**
+ * snapshot: frozen when shared, refreshed only by republishing.
+ * live: re-resolved from the item on each view while the sharer still has it.
+ */
+export type ShareMode = 'snapshot' | 'live';
+
+export type ShareSortOption = 'createdAt';
+
 // ============ Input Types ============
 
 export interface CreateShareInput {
   type: ShareType;
   itemId: string;
+  mode?: ShareMode; // Defaults to 'snapshot'
+  expiresAt?: string; // ISO timestamp; omitted = never expires
+}
+
+/**
+ * Query parameters for listing the caller's shares
+ */
+export interface ShareListQuery {
+  cursor?: string;
+  limit?: number;
+  type?: ShareType;
 }
 
 // ============ Response Types ============
@@ -21,7 +40,47 @@ export interface CreateShareInput {
 export interface CreateShareResponse {
   token: string;
   shareUrl: string;
+  mode: ShareMode;
+  version: number;
   expiresAt: string | null;
+  reused: boolean; // true if an existing live share of the item was returned
+}
+
+/**
+ * POST /api/shares/:token/republish response
+ */
+export interface RepublishShareResponse {
+  token: string;
+  version: number;
+  lastUpdated: string;
+  changed: boolean; // false if the item hadn't changed since the last snapshot
+}
+
+/**
+ * One of the caller's shares, with its counters
+ */
+export interface ShareListItem {
+  token: string;
+  shareUrl: string;
+  type: ShareType;
+  itemId: string;
+  name: string; // Name in the snapshot
+  mode: ShareMode;
+  version: number;
+  lastUpdated: string;
+  expiresAt: string | null;
+  isExpired: boolean;
+  viewCount: number;
+  importCount: number;
+  createdAt: string;
+}
+
+export interface ShareListResponse {
+  shares: ShareListItem[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
 }
 
 /**
@@ -59,6 +118,20 @@ export interface ProgramWorkoutShareSnapshot {
   template: TemplateDetail;
 }
 
+/**
+ * POST /api/shares/:token/import response.
+ * One of `template` or `program` will be populated (the caller's own copy), the other null.
+ */
+export interface ImportShareResponse {
+  type: ShareType;
+  alreadyImported: boolean; // true if an earlier import was returned instead of a new copy
+  version: number; // Current share version
+  importedVersion: number; // Share version the copy was made from; lower than version = update available
+  template: TemplateDetail | null;
+  program: ProgramDetail | null;
+  unmatchedExercises: string[]; // Names of snapshot exercises no longer in the library, left out
+}
+
 /**
  * Full GET /api/shares/:token response.
  * One of `template` or `program` will be populated, the other null.
@@ -66,9 +139,23 @@ export interface ProgramWorkoutShareSnapshot {
 export interface ShareResponse {
   token: string;
   type: ShareType;
+  mode: ShareMode;
+  version: number; // Bumped whenever the shared content changes
+  lastUpdated: string; // When the shared content last changed
   sharedBy: SharedByInfo;
   sharedAt: string;
   expiresAt: string | null;
   template: TemplateDetail | null;
   program: ProgramShareSnapshot | null;
 }
+
+// ============ Cursor Types ============
+
+/**
+ * Cursor data for pagination (newest first)
+ */
+export interface ShareCursorData {
+  id: string;
+  sortValue: string;
+  sortField: ShareSortOption;
+}
@@ -0,0 +1,88 @@
+/**
+ * TypeScript types for the sync conflict review API
+ */
+
+import { NewPersonalRecord } from './personalRecord.types';
+
+// ============ Core Types ============
+
+/**
+ * Which version the user keeps when resolving a conflict
+ */
+export type ConflictResolutionChoice = 'client' | 'server' | 'merged';
+
+export type ConflictKind = 'update' | 'delete';
+
+// ============ Query Types ============
+
+/**
+ * Query parameters for listing unresolved conflicts
+ */
+export interface SyncConflictListQuery {
+  cursor?: string;
+  limit?: number;
+}
+
+export type SyncConflictSortOption = 'createdAt';
+
+// ============ Response Types ============
+
+/**
+ * A single field that differs between the client and server versions.
+ * Nested entities are addressed by client ID, e.g. `exercises[<id>].sets[<id>].reps`.
+ * A value of null means the entity doesn't exist on that side.
+ */
+export interface ConflictFieldDiff {
+  path: string;
+  clientValue: unknown;
+  serverValue: unknown;
+}
+
+/**
+ * Unresolved conflict with the rejected client version and the current server copy
+ */
+export interface SyncConflictItem {
+  id: string;
+  entityType: string;
+  entityId: string;
+  kind: ConflictKind; // 'delete' when the rejected change was a deletion
+  clientData: unknown;
+  serverData: unknown | null; // Current server copy in sync format (null if the workout is gone)
+  diff: ConflictFieldDiff[];
+  clientTimestamp: string;
+  serverTimestamp: string;
+  createdAt: string;
+}
+
+/**
+ * Response for conflict list endpoint
+ */
+export interface SyncConflictListResponse {
+  conflicts: SyncConflictItem[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Response for resolving a conflict
+ */
+export interface ResolveSyncConflictResponse {
+  id: string;
+  resolution: 'client_wins' | 'server_wins' | 'merged';
+  resolvedBy: 'user';
+  resolvedAt: string;
+  newPersonalRecords: NewPersonalRecord[];
+}
+
+// ============ Cursor Types ============
+
+/**
+ * Cursor data for pagination
+ */
+export interface SyncConflictCursorData {
+  id: string;
+  sortValue: string | number | null;
+  sortField: SyncConflictSortOption;
+}
@@ -2,6 +2,8 @@
  * TypeScript types for workout templates API
  */
 
+import { UserSummary } from './follow.types';
+
 // ============ Query Types ============
 
 /**
@@ -16,6 +18,20 @@ export interface TemplateListQuery {
 
 export type TemplateSortOption = 'name' | 'createdAt' | 'updatedAt';
 
+/**
+ * Query parameters for browsing public templates
+ */
+export interface PublicTemplateListQuery {
+  cursor?: string;
+  limit?: number;
+  sort?: PublicTemplateSortOption;
+  search?: string;
+  muscleGroup?: string | string[]; // Matches any contained exercise's primary or secondary muscles
+  equipment?: string | string[];
+}
+
+export type PublicTemplateSortOption = 'likes' | 'downloads' | 'recent';
+
 // ============ Response Types ============
 
 /**
@@ -67,6 +83,46 @@ export interface TemplateExerciseDetail {
   };
 }
 
+/**
+ * Public template as seen while browsing
+ */
+export interface PublicTemplateListItem {
+  id: string;
+  name: string;
+  description: string | null;
+  exerciseCount: number;
+  author: UserSummary;
+  likeCount: number;
+  downloadCount: number;
+  isLiked: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Public template detail with exercises
+ */
+export interface PublicTemplateDetail extends TemplateDetail {
+  author: UserSummary;
+  likeCount: number;
+  downloadCount: number;
+  isLiked: boolean;
+}
+
+export interface PublicTemplateListResponse {
+  templates: PublicTemplateListItem[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+export interface TemplateLikeResponse {
+  templateId: string;
+  isLiked: boolean;
+  likeCount: number;
+}
+
 /**
  * Response for template list endpoint
  */
@@ -110,6 +166,7 @@ export interface CreateTemplateInput {
 export interface UpdateTemplateInput {
   name?: string;
   description?: string;
+  isPublic?: boolean; // Lists the template in the public marketplace
 }
 
 /**
@@ -126,6 +183,13 @@ export interface UpdateTemplateExercisesInput {
   exercises: TemplateExerciseInput[];
 }
 
+/**
+ * Input for swapping the exercise in one template slot
+ */
+export interface SwapTemplateExerciseInput {
+  exerciseId: string;
+}
+
 // ============ Cursor Types ============
 
 /**
@@ -134,5 +198,5 @@ export interface UpdateTemplateExercisesInput {
 export interface TemplateCursorData {
   id: string;
   sortValue: string | number | null;
-  sortField: TemplateSortOption;
+  sortField: TemplateSortOption | PublicTemplateSortOption;
 }
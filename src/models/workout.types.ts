@@ -0,0 +1,129 @@
+/**
+ * TypeScript types for the workout history API
+ */
+
+// ============ Query Types ============
+
+/**
+ * Query parameters for listing workouts
+ */
+export interface WorkoutListQuery {
+  cursor?: string;
+  limit?: number;
+  order?: 'asc' | 'desc';
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, exclusive
+  templateId?: string;
+  exerciseId?: string;
+}
+
+export type WorkoutSortOption = 'date';
+
+/**
+ * Query parameters for the workout calendar
+ */
+export interface WorkoutCalendarQuery {
+  month: string; // YYYY-MM
+}
+
+// ============ Response Types ============
+
+/**
+ * Workout data for list view (no nested exercises)
+ */
+export interface WorkoutListItem {
+  id: string;
+  clientId: string | null;
+  templateId: string | null;
+  date: string;
+  name: string | null;
+  durationSeconds: number | null;
+  isCompleted: boolean;
+  startTime: string | null;
+  endTime: string | null;
+  totalVolumeLbs: number | null;
+  totalSets: number | null;
+  totalReps: number | null;
+  exerciseCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Full workout detail with exercises and sets
+ */
+export interface WorkoutDetail extends Omit<WorkoutListItem, 'exerciseCount'> {
+  notes: string | null;
+  exercises: WorkoutExerciseDetail[];
+}
+
+/**
+ * Exercise performed within a workout
+ */
+export interface WorkoutExerciseDetail {
+  id: string;
+  clientId: string | null;
+  exerciseId: string;
+  exerciseName: string;
+  primaryMuscles: string[];
+  orderIndex: number;
+  notes: string | null;
+  sets: WorkoutSetDetail[];
+}
+
+/**
+ * Single set within a workout exercise
+ */
+export interface WorkoutSetDetail {
+  id: string;
+  clientId: string | null;
+  setNumber: number;
+  reps: number;
+  weightLbs: number;
+  setType: string;
+  loadType: string;
+  durationSeconds: number | null;
+  distanceMeters: number | null;
+  rpe: number | null;
+  notes: string | null;
+}
+
+/**
+ * Response for workout list endpoint
+ */
+export interface WorkoutListResponse {
+  workouts: WorkoutListItem[];
+  pagination: {
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Aggregates for one local calendar day
+ */
+export interface WorkoutCalendarDay {
+  date: string; // YYYY-MM-DD in the user's timezone
+  workoutCount: number;
+  totalVolumeLbs: number;
+}
+
+/**
+ * Response for workout calendar endpoint (only days with workouts are listed)
+ */
+export interface WorkoutCalendarResponse {
+  month: string;
+  timezone: string;
+  days: WorkoutCalendarDay[];
+}
+
+// ============ Cursor Types ============
+
+/**
+ * Cursor data for pagination
+ */
+export interface WorkoutCursorData {
+  id: string;
+  sortValue: string | number | null;
+  sortField: WorkoutSortOption;
+}
@@ -0,0 +1,262 @@
+import { Router, Response, Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthenticatedRequest, firebaseAuthMiddleware } from '../middleware/auth';
+import { adminMiddleware } from '../middleware/admin';
+import { getOrCreateUser } from '../services/userService';
+import {
+  getAliasProposals,
+  approveAliasProposal,
+  rejectAliasProposal,
+} from '../services/exerciseAliasService';
+import {
+  getDuplicateCandidates,
+  mergeExercises,
+  ExerciseMergeError
+} from '../services/exerciseMergeService';
+import {
+  validateAliasProposalListQuery,
+  validateDuplicateCandidateQuery,
+  validateMergeExercises,
+  isValidUuid
+} from '../utils/validation';
+import {
+  generateCorrelationId,
+  logError,
+  logInfo,
+  sendErrorResponse,
+} from '../utils/errorResponse';
+import { config } from '../config';
+
+const router = Router();
+const isDevelopment = config.env === 'development';
+
+// Rate limiter for moderation writes (approve, reject, merge)
+const adminWriteLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 1000 : 200, // 200 moderation writes per hour
+  message: {
+    success: false,
+    message: 'Too many moderation operations, please try again later',
+    correlationId: 'rate-limit-admin-write'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// ============ Helpers ============
+
+/**
+ * Extract correlation ID from request
+ */
+function getCorrelationId(req: Request): string {
+  return (req as Request & { correlationId?: string }).correlationId || generateCorrelationId();
+}
+
+// ============ Middleware ============
+
+// All routes require an authenticated administrator
+router.use(firebaseAuthMiddleware, adminMiddleware);
+
+// ============ Exercise Alias Moderation ============
+
+/**
+ * GET /api/admin/alias-proposals
+ * Moderation queue of proposed and sync-mined aliases, most frequent first
+ */
+router.get('/alias-proposals', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateAliasProposalListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const result = await getAliasProposals(validation.sanitized!);
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/admin/alias-proposals', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch alias proposals', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/admin/alias-proposals/:id/approve
+ * Approve a proposal, making the alias searchable immediately
+ */
+router.post('/alias-proposals/:id/approve', adminWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid proposal ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const proposal = await approveAliasProposal(id, user.id);
+
+    if (!proposal) {
+      res.status(404).json({
+        success: false,
+        message: 'Alias proposal not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('POST /api/admin/alias-proposals/:id/approve', 'Alias proposal approved', correlationId, {
+      userId: user.id,
+      proposalId: id,
+      exerciseId: proposal.exerciseId
+    });
+
+    res.json({
+      success: true,
+      data: { proposal },
+      correlationId
+    });
+  } catch (error) {
+    logError('POST /api/admin/alias-proposals/:id/approve', error, correlationId, { proposalId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to approve alias proposal', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/admin/alias-proposals/:id/reject
+ * Reject a proposal (removing the alias if it was approved)
+ */
+router.post('/alias-proposals/:id/reject', adminWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid proposal ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const proposal = await rejectAliasProposal(id, user.id);
+
+    if (!proposal) {
+      res.status(404).json({
+        success: false,
+        message: 'Alias proposal not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('POST /api/admin/alias-proposals/:id/reject', 'Alias proposal rejected', correlationId, {
+      userId: user.id,
+      proposalId: id,
+      exerciseId: proposal.exerciseId
+    });
+
+    res.json({
+      success: true,
+      data: { proposal },
+      correlationId
+    });
+  } catch (error) {
+    logError('POST /api/admin/alias-proposals/:id/reject', error, correlationId, { proposalId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to reject alias proposal', error, correlationId);
+  }
+});
+
+// ============ Exercise Deduplication ============
+
+/**
+ * GET /api/admin/exercise-duplicates
+ * Custom exercises that look like duplicates of a library exercise
+ */
+router.get('/exercise-duplicates', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateDuplicateCandidateQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const result = await getDuplicateCandidates(validation.sanitized!);
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/admin/exercise-duplicates', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch duplicate exercises', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/admin/exercises/:id/merge
+ * Merge an exercise into a library exercise and delete it
+ */
+router.post('/exercises/:id/merge', adminWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid exercise ID format', undefined, correlationId);
+      return;
+    }
+
+    const validation = validateMergeExercises(req.body, id);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid request data', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await mergeExercises(id, validation.sanitized!.targetExerciseId);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Exercise not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('POST /api/admin/exercises/:id/merge', 'Exercises merged', correlationId, {
+      userId: user.id,
+      sourceExerciseId: result.sourceExerciseId,
+      targetExerciseId: result.targetExerciseId,
+      repointed: result.repointed
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof ExerciseMergeError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/admin/exercises/:id/merge', error, correlationId, { exerciseId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to merge exercises', error, correlationId);
+  }
+});
+
+export default router;
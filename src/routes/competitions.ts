@@ -0,0 +1,643 @@
+import { Router, Response, Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthenticatedRequest, firebaseAuthMiddleware } from '../middleware/auth';
+import { getOrCreateUser } from '../services/userService';
+import {
+  createCompetition,
+  publishCompetition,
+  cancelCompetition,
+  joinCompetition,
+  joinCompetitionByCode,
+  leaveCompetition,
+  getCompetition,
+  listPublicCompetitions,
+  getMyCompetitions,
+  getLeaderboard,
+  createTeam,
+  joinTeam,
+  leaveTeam,
+  getTeams,
+  getTeamLeaderboard,
+  CompetitionError,
+} from '../services/competitionService';
+import {
+  isValidUuid,
+  normalizeEntryCode,
+  validateCreateCompetition,
+  validateCompetitionListQuery,
+  validateCreateTeam,
+} from '../utils/validation';
+import {
+  generateCorrelationId,
+  logError,
+  logInfo,
+  sendErrorResponse,
+} from '../utils/errorResponse';
+import { config } from '../config';
+
+const router = Router();
+const isDevelopment = config.env === 'development';
+
+// ============ Helpers ============
+
+/**
+ * Extract correlation ID from request
+ */
+function getCorrelationId(req: Request): string {
+  return (req as Request & { correlationId?: string }).correlationId || generateCorrelationId();
+}
+
+// ============ Rate Limiting ============
+
+// Rate limiter for write operations only (POST)
+const competitionWriteLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 500 : 60, // 60 competition operations per hour
+  message: {
+    success: false,
+    message: 'Too many competition operations, please try again later',
+    correlationId: 'rate-limit-competitions'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// ============ Middleware ============
+
+// All routes require authentication
+router.use(firebaseAuthMiddleware);
+
+// ============ Read Routes (no rate limiting) ============
+
+/**
+ * GET /api/competitions
+ * Public competitions open for joining, soonest start first
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateCompetitionListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const result = await listPublicCompetitions(validation.sanitized!);
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/competitions', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch competitions', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/competitions/mine
+ * Competitions the user created or joined, with their standing
+ */
+router.get('/mine', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const user = await getOrCreateUser(req.user!);
+    const result = await getMyCompetitions(user.id);
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/competitions/mine', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch competitions', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/competitions/:id
+ * Competition detail with the viewer's standing
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const competition = await getCompetition(user.id, id);
+
+    if (!competition) {
+      res.status(404).json({
+        success: false,
+        message: 'Competition not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { competition },
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/competitions/:id', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to fetch competition', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/competitions/:id/leaderboard
+ * Paginated standings, highest score first, plus the viewer's own entry
+ */
+router.get('/:id/leaderboard', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const validation = validateCompetitionListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await getLeaderboard(user.id, id, {
+      cursor: validation.sanitized?.cursor,
+      limit: validation.sanitized?.limit
+    });
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Competition not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/competitions/:id/leaderboard', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to fetch leaderboard', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/competitions/:id/leaderboard/teams
+ * Paginated team standings, highest score first, plus the viewer's team
+ */
+router.get('/:id/leaderboard/teams', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const validation = validateCompetitionListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await getTeamLeaderboard(user.id, id, {
+      cursor: validation.sanitized?.cursor,
+      limit: validation.sanitized?.limit
+    });
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Competition not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('GET /api/competitions/:id/leaderboard/teams', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to fetch team leaderboard', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/competitions/:id/teams
+ * Teams with their rosters, by name
+ */
+router.get('/:id/teams', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await getTeams(user.id, id);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Competition not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/competitions/:id/teams', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to fetch teams', error, correlationId);
+  }
+});
+
+// ============ Write Routes (with rate limiting) ============
+
+/**
+ * POST /api/competitions
+ * Create a draft competition; the creator joins it automatically
+ */
+router.post('/', competitionWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateCreateCompetition(req.body);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid request data', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const competition = await createCompetition(user.id, validation.sanitized!);
+
+    logInfo('POST /api/competitions', 'Competition created', correlationId, {
+      userId: user.id,
+      competitionId: competition.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { competition },
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/competitions', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to create competition', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/competitions/join
+ * Join a competition with its entry code
+ */
+router.post('/join', competitionWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const entryCode = normalizeEntryCode(req.body?.entryCode);
+    if (!entryCode) {
+      sendErrorResponse(res, 400, 'entryCode is required', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const competition = await joinCompetitionByCode(user.id, entryCode);
+
+    logInfo('POST /api/competitions/join', 'Competition joined by code', correlationId, {
+      userId: user.id,
+      competitionId: competition.id
+    });
+
+    res.json({
+      success: true,
+      data: { competition },
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/competitions/join', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to join competition', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/competitions/:id/publish
+ * Open a draft for joining and scoring (creator only)
+ */
+router.post('/:id/publish', competitionWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const competition = await publishCompetition(user.id, id);
+
+    logInfo('POST /api/competitions/:id/publish', 'Competition published', correlationId, {
+      userId: user.id,
+      competitionId: id
+    });
+
+    res.json({
+      success: true,
+      data: { competition },
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/competitions/:id/publish', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to publish competition', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/competitions/:id/join
+ * Join a public competition
+ */
+router.post('/:id/join', competitionWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const competition = await joinCompetition(user.id, id);
+
+    logInfo('POST /api/competitions/:id/join', 'Competition joined', correlationId, {
+      userId: user.id,
+      competitionId: id
+    });
+
+    res.json({
+      success: true,
+      data: { competition },
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/competitions/:id/join', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to join competition', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/competitions/:id/leave
+ * Leave a competition that hasn't completed yet
+ */
+router.post('/:id/leave', competitionWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    await leaveCompetition(user.id, id);
+
+    logInfo('POST /api/competitions/:id/leave', 'Competition left', correlationId, {
+      userId: user.id,
+      competitionId: id
+    });
+
+    res.json({
+      success: true,
+      message: 'Left competition',
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/competitions/:id/leave', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to leave competition', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/competitions/:id/cancel
+ * Cancel a draft or active competition (creator only)
+ */
+router.post('/:id/cancel', competitionWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    await cancelCompetition(user.id, id);
+
+    logInfo('POST /api/competitions/:id/cancel', 'Competition cancelled', correlationId, {
+      userId: user.id,
+      competitionId: id
+    });
+
+    res.json({
+      success: true,
+      message: 'Competition cancelled',
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/competitions/:id/cancel', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to cancel competition', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/competitions/:id/teams
+ * Create a team in a team competition and become its captain
+ */
+router.post('/:id/teams', competitionWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const validation = validateCreateTeam(req.body);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid request data', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const team = await createTeam(user.id, id, validation.sanitized!);
+
+    logInfo('POST /api/competitions/:id/teams', 'Team created', correlationId, {
+      userId: user.id,
+      competitionId: id,
+      teamId: team.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { team },
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/competitions/:id/teams', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to create team', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/competitions/:id/teams/leave
+ * Leave your team but stay in the competition
+ */
+router.post('/:id/teams/leave', competitionWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid competition ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    await leaveTeam(user.id, id);
+
+    logInfo('POST /api/competitions/:id/teams/leave', 'Team left', correlationId, {
+      userId: user.id,
+      competitionId: id
+    });
+
+    res.json({
+      success: true,
+      message: 'Left team',
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/competitions/:id/teams/leave', error, correlationId, { competitionId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to leave team', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/competitions/:id/teams/:teamId/join
+ * Join a team, leaving your current one
+ */
+router.post('/:id/teams/:teamId/join', competitionWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id, teamId } = req.params;
+
+    if (!isValidUuid(id) || !isValidUuid(teamId)) {
+      sendErrorResponse(res, 400, 'Invalid ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const team = await joinTeam(user.id, id, teamId);
+
+    logInfo('POST /api/competitions/:id/teams/:teamId/join', 'Team joined', correlationId, {
+      userId: user.id,
+      competitionId: id,
+      teamId
+    });
+
+    res.json({
+      success: true,
+      data: { team },
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof CompetitionError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/competitions/:id/teams/:teamId/join', error, correlationId, {
+      competitionId: req.params.id,
+      teamId: req.params.teamId
+    });
+    sendErrorResponse(res, 500, 'Failed to join team', error, correlationId);
+  }
+});
+
+export default router;
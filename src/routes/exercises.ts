@@ -1,4 +1,5 @@
 import { Router, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
 import { AuthenticatedRequest, firebaseAuthMiddleware } from '../middleware/auth';
 import { optionalAuthMiddleware } from '../middleware/optionalAuth';
 import { getOrCreateUser } from '../services/userService';
@@ -6,18 +7,66 @@ import {
   getExercises,
   getExerciseById,
   getFilterMetadata,
-  recordExerciseUsage
+  recordExerciseUsage,
+  createCustomExercise,
+  updateCustomExercise,
+  deleteCustomExercise,
+  getExerciseAlternatives,
+  CustomExerciseError
 } from '../services/exerciseService';
-import { ExerciseListQuery, ExerciseSortOption } from '../models/exercise.types';
-import { validateExerciseListQuery } from '../utils/validation';
+import { proposeAlias, AliasProposalError } from '../services/exerciseAliasService';
+import { getExerciseHistory } from '../services/exerciseProgressService';
+import {
+  ExerciseListQuery,
+  ExerciseSortOption,
+  CreateCustomExerciseInput,
+  UpdateCustomExerciseInput
+} from '../models/exercise.types';
+import {
+  validateExerciseListQuery,
+  validateCreateCustomExercise,
+  validateUpdateCustomExercise,
+  validateExerciseAlternativesQuery,
+  validateProposeAlias,
+  validateExerciseHistoryQuery
+} from '../utils/validation';
 import {
   generateCorrelationId,
   logError,
+  logInfo,
   logWarn,
   sendErrorResponse
 } from '../utils/errorResponse';
+import { config } from '../config';
 
 const router = Router();
+const isDevelopment = config.env === 'development';
+
+// Rate limiter for alias proposals
+const aliasProposalLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 100 : 20, // 20 alias proposals per hour
+  message: {
+    success: false,
+    message: 'Too many alias proposals, please try again later',
+    correlationId: 'rate-limit-alias-proposal'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Rate limiter for custom exercise writes (POST, PUT, DELETE)
+const customExerciseWriteLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 200 : 50, // 50 custom exercise writes per hour
+  message: {
+    success: false,
+    message: 'Too many custom exercise operations, please try again later',
+    correlationId: 'rate-limit-custom-exercise'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
 
 // UUID validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
@@ -29,6 +78,26 @@ function isValidUuid(id: string): boolean {
   return UUID_REGEX.test(id);
 }
 
+/**
+ * Resolves the caller's user ID on optionally authenticated routes. Without
+ * it only library exercises are visible, so a lookup failure just narrows
+ * what the caller can see.
+ */
+async function getOptionalUserId(req: AuthenticatedRequest, route: string, correlationId: string): Promise<string | undefined> {
+  if (!req.user) {
+    return undefined;
+  }
+  try {
+    const user = await getOrCreateUser(req.user);
+    return user.id;
+  } catch (error) {
+    logWarn(route, 'Failed to get user context, continuing with library exercises only', correlationId, {
+      errorMessage: error instanceof Error ? error.message : 'Unknown error'
+    });
+    return undefined;
+  }
+}
+
 /**
  * GET /api/exercises
  * List exercises with pagination, filtering, and search
@@ -57,6 +126,7 @@ router.get('/', optionalAuthMiddleware, async (req: AuthenticatedRequest, res: R
       movementPattern: validation.sanitized?.movementPattern,
       exerciseType: validation.sanitized?.exerciseType,
       search: validation.sanitized?.search,
+      includeCustom: validation.sanitized?.includeCustom,
       sort: validation.sanitized?.sort || 'name',
       order: validation.sanitized?.order || 'asc'
     };
@@ -74,9 +144,9 @@ router.get('/', optionalAuthMiddleware, async (req: AuthenticatedRequest, res: R
         });
         // If user auth was attempted but failed with a real error (not just missing user),
         // and they need user-specific features, we should handle that
-        if (query.sort === 'recently_used') {
-          // For recently_used, we need auth - re-throw to trigger proper error
-          throw new Error('User authentication required for recently_used sort');
+        if (query.sort === 'recently_used' || query.includeCustom) {
+          // recently_used and includeCustom need auth - re-throw to trigger proper error
+          throw new Error('User authentication required for personalized exercise listing');
         }
       }
     }
@@ -91,6 +161,16 @@ router.get('/', optionalAuthMiddleware, async (req: AuthenticatedRequest, res: R
       return;
     }
 
+    // Custom exercises are only listed for their owner
+    if (query.includeCustom && !userId) {
+      res.status(401).json({
+        success: false,
+        message: 'Authentication required for "includeCustom" option',
+        correlationId
+      });
+      return;
+    }
+
     const result = await getExercises(query, userId);
 
     res.json({
@@ -125,13 +205,169 @@ router.get('/filters', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/exercises/custom
+ * Create a custom exercise owned by the user
+ * Requires authentication
+ */
+router.post(
+  '/custom',
+  firebaseAuthMiddleware,
+  customExerciseWriteLimiter,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId || generateCorrelationId();
+    try {
+      const validation = validateCreateCustomExercise(req.body);
+      if (!validation.valid) {
+        sendErrorResponse(res, 400, 'Invalid request data', undefined, correlationId, {
+          validationErrors: validation.errors
+        });
+        return;
+      }
+
+      const user = await getOrCreateUser(req.user!);
+      const exercise = await createCustomExercise(user.id, validation.sanitized as CreateCustomExerciseInput);
+
+      logInfo('POST /api/exercises/custom', 'Custom exercise created', correlationId, {
+        userId: user.id,
+        exerciseId: exercise.id
+      });
+
+      res.status(201).json({
+        success: true,
+        data: { exercise },
+        correlationId
+      });
+    } catch (error) {
+      if (error instanceof CustomExerciseError) {
+        sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+        return;
+      }
+      logError('POST /api/exercises/custom', error, correlationId);
+      sendErrorResponse(res, 500, 'Failed to create custom exercise', error, correlationId);
+    }
+  }
+);
+
+/**
+ * PUT /api/exercises/custom/:id
+ * Update one of the user's custom exercises
+ * Requires authentication
+ */
+router.put(
+  '/custom/:id',
+  firebaseAuthMiddleware,
+  customExerciseWriteLimiter,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId || generateCorrelationId();
+    try {
+      const { id } = req.params;
+
+      if (!isValidUuid(id)) {
+        sendErrorResponse(res, 400, 'Invalid exercise ID format', undefined, correlationId);
+        return;
+      }
+
+      const validation = validateUpdateCustomExercise(req.body);
+      if (!validation.valid) {
+        sendErrorResponse(res, 400, 'Invalid request data', undefined, correlationId, {
+          validationErrors: validation.errors
+        });
+        return;
+      }
+
+      const user = await getOrCreateUser(req.user!);
+      const exercise = await updateCustomExercise(id, user.id, validation.sanitized as UpdateCustomExerciseInput);
+
+      if (!exercise) {
+        res.status(404).json({
+          success: false,
+          message: 'Custom exercise not found',
+          correlationId
+        });
+        return;
+      }
+
+      logInfo('PUT /api/exercises/custom/:id', 'Custom exercise updated', correlationId, {
+        userId: user.id,
+        exerciseId: id
+      });
+
+      res.json({
+        success: true,
+        data: { exercise },
+        correlationId
+      });
+    } catch (error) {
+      if (error instanceof CustomExerciseError) {
+        sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+        return;
+      }
+      logError('PUT /api/exercises/custom/:id', error, correlationId, { exerciseId: req.params.id });
+      sendErrorResponse(res, 500, 'Failed to update custom exercise', error, correlationId);
+    }
+  }
+);
+
+/**
+ * DELETE /api/exercises/custom/:id
+ * Delete one of the user's custom exercises (409 while it's still in use)
+ * Requires authentication
+ */
+router.delete(
+  '/custom/:id',
+  firebaseAuthMiddleware,
+  customExerciseWriteLimiter,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId || generateCorrelationId();
+    try {
+      const { id } = req.params;
+
+      if (!isValidUuid(id)) {
+        sendErrorResponse(res, 400, 'Invalid exercise ID format', undefined, correlationId);
+        return;
+      }
+
+      const user = await getOrCreateUser(req.user!);
+      const deleted = await deleteCustomExercise(id, user.id);
+
+      if (!deleted) {
+        res.status(404).json({
+          success: false,
+          message: 'Custom exercise not found',
+          correlationId
+        });
+        return;
+      }
+
+      logInfo('DELETE /api/exercises/custom/:id', 'Custom exercise deleted', correlationId, {
+        userId: user.id,
+        exerciseId: id
+      });
+
+      res.json({
+        success: true,
+        message: 'Custom exercise deleted successfully',
+        correlationId
+      });
+    } catch (error) {
+      if (error instanceof CustomExerciseError) {
+        sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+        return;
+      }
+      logError('DELETE /api/exercises/custom/:id', error, correlationId, { exerciseId: req.params.id });
+      sendErrorResponse(res, 500, 'Failed to delete custom exercise', error, correlationId);
+    }
+  }
+);
+
 /**
  * GET /api/exercises/:id
  * Get single exercise details
- * Public endpoint
+ * Public endpoint; custom exercises are only returned to their owner
  */
-router.get('/:id', async (req: Request, res: Response) => {
-  const correlationId = (req as Request & { correlationId: string }).correlationId || generateCorrelationId();
+router.get('/:id', optionalAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId || generateCorrelationId();
   try {
     const { id } = req.params;
 
@@ -140,7 +376,8 @@ router.get('/:id', async (req: Request, res: Response) => {
       return;
     }
 
-    const exercise = await getExerciseById(id);
+    const userId = await getOptionalUserId(req, 'GET /api/exercises/:id', correlationId);
+    const exercise = await getExerciseById(id, userId);
 
     if (!exercise) {
       res.status(404).json({
@@ -162,6 +399,159 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/exercises/:id/alternatives
+ * Rank library exercises that can stand in for this one
+ * Public endpoint; alternatives for a custom exercise are only returned to its owner
+ */
+router.get('/:id/alternatives', optionalAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId || generateCorrelationId();
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid exercise ID format', undefined, correlationId);
+      return;
+    }
+
+    const validation = validateExerciseAlternativesQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const userId = await getOptionalUserId(req, 'GET /api/exercises/:id/alternatives', correlationId);
+    const result = await getExerciseAlternatives(id, validation.sanitized!, userId);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Exercise not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/exercises/:id/alternatives', error, correlationId, { exerciseId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to fetch exercise alternatives', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/exercises/:id/history
+ * The user's progress on this exercise (best set, e1RM, volume) and their records for it
+ * Requires authentication
+ */
+router.get('/:id/history', firebaseAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId || generateCorrelationId();
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid exercise ID format', undefined, correlationId);
+      return;
+    }
+
+    const validation = validateExerciseHistoryQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await getExerciseHistory(user.id, id, validation.sanitized!);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Exercise not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/exercises/:id/history', error, correlationId, { exerciseId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to fetch exercise history', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/exercises/:id/aliases
+ * Propose an alias for a library exercise; admins approve it before it's searchable
+ * Requires authentication
+ */
+router.post(
+  '/:id/aliases',
+  firebaseAuthMiddleware,
+  aliasProposalLimiter,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const correlationId = (req as AuthenticatedRequest & { correlationId: string }).correlationId || generateCorrelationId();
+    try {
+      const { id } = req.params;
+
+      if (!isValidUuid(id)) {
+        sendErrorResponse(res, 400, 'Invalid exercise ID format', undefined, correlationId);
+        return;
+      }
+
+      const validation = validateProposeAlias(req.body);
+      if (!validation.valid) {
+        sendErrorResponse(res, 400, 'Invalid request data', undefined, correlationId, {
+          validationErrors: validation.errors
+        });
+        return;
+      }
+
+      const user = await getOrCreateUser(req.user!);
+      const result = await proposeAlias(id, user.id, validation.sanitized!.alias);
+
+      if (!result) {
+        res.status(404).json({
+          success: false,
+          message: 'Exercise not found',
+          correlationId
+        });
+        return;
+      }
+
+      logInfo('POST /api/exercises/:id/aliases', 'Alias proposed', correlationId, {
+        userId: user.id,
+        exerciseId: id,
+        proposalId: result.proposal.id
+      });
+
+      res.status(result.created ? 201 : 200).json({
+        success: true,
+        data: result,
+        correlationId
+      });
+    } catch (error) {
+      if (error instanceof AliasProposalError) {
+        sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+        return;
+      }
+      logError('POST /api/exercises/:id/aliases', error, correlationId, { exerciseId: req.params.id });
+      sendErrorResponse(res, 500, 'Failed to propose alias', error, correlationId);
+    }
+  }
+);
+
 /**
  * POST /api/exercises/:id/record-usage
  * Record that a user used an exercise (for recently_used sorting)
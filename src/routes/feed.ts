@@ -0,0 +1,62 @@
+import { Router, Response, Request } from 'express';
+import { AuthenticatedRequest, firebaseAuthMiddleware } from '../middleware/auth';
+import { getOrCreateUser } from '../services/userService';
+import { getFeed } from '../services/feedService';
+import { validateFeedQuery } from '../utils/validation';
+import {
+  generateCorrelationId,
+  logError,
+  sendErrorResponse,
+} from '../utils/errorResponse';
+
+const router = Router();
+
+// ============ Helpers ============
+
+/**
+ * Extract correlation ID from request
+ */
+function getCorrelationId(req: Request): string {
+  return (req as Request & { correlationId?: string }).correlationId || generateCorrelationId();
+}
+
+// ============ Middleware ============
+
+// All routes require authentication
+router.use(firebaseAuthMiddleware);
+
+// ============ Read Routes (no rate limiting) ============
+
+/**
+ * GET /api/feed
+ * Completed workouts, personal records and program starts of followed users, newest first
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateFeedQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await getFeed(user.id, {
+      cursor: validation.sanitized?.cursor,
+      limit: validation.sanitized?.limit
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/feed', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch feed', error, correlationId);
+  }
+});
+
+export default router;
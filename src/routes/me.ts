@@ -0,0 +1,295 @@
+import { Router, Response, Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthenticatedRequest, firebaseAuthMiddleware } from '../middleware/auth';
+import { getOrCreateUser } from '../services/userService';
+import { getPersonalRecords } from '../services/personalRecordService';
+import { getUserDevices, revokeDevice } from '../services/deviceService';
+import { getFollowRequests, respondToFollowRequest, getBlockedUsers } from '../services/followService';
+import { isValidUuid, isValidHandle, validateFollowListQuery } from '../utils/validation';
+import {
+  generateCorrelationId,
+  logError,
+  logInfo,
+  sendErrorResponse,
+} from '../utils/errorResponse';
+import { config } from '../config';
+
+const router = Router();
+const isDevelopment = config.env === 'development';
+
+// ============ Helpers ============
+
+/**
+ * Extract correlation ID from request
+ */
+function getCorrelationId(req: Request): string {
+  return (req as Request & { correlationId?: string }).correlationId || generateCorrelationId();
+}
+
+// ============ Rate Limiting ============
+
+// Rate limiter for write operations only (DELETE)
+const deviceWriteLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 100 : 20, // 20 device operations per hour
+  message: {
+    success: false,
+    message: 'Too many device operations, please try again later',
+    correlationId: 'rate-limit-device'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Rate limiter for answering follow requests
+const followRequestLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 500 : 100, // 100 follow request responses per hour
+  message: {
+    success: false,
+    message: 'Too many follow request operations, please try again later',
+    correlationId: 'rate-limit-follow-request'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// ============ Middleware ============
+
+// All routes require authentication
+router.use(firebaseAuthMiddleware);
+
+// ============ Read Routes (no rate limiting) ============
+
+/**
+ * GET /api/me/records
+ * List the user's personal records, optionally filtered by exercise
+ */
+router.get('/records', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { exerciseId } = req.query;
+
+    if (exerciseId !== undefined && (typeof exerciseId !== 'string' || !isValidUuid(exerciseId))) {
+      sendErrorResponse(res, 400, 'Invalid exercise ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await getPersonalRecords(user.id, { exerciseId });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/me/records', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch personal records', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/me/devices
+ * List the devices registered through sync, with their sync checkpoints
+ */
+router.get('/devices', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const user = await getOrCreateUser(req.user!);
+    const result = await getUserDevices(user.id);
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/me/devices', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch devices', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/me/follow-requests
+ * Pending requests to follow the user (private profiles only receive these)
+ */
+router.get('/follow-requests', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateFollowListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await getFollowRequests(user.id, {
+      cursor: validation.sanitized?.cursor,
+      limit: validation.sanitized?.limit
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/me/follow-requests', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch follow requests', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/me/blocks
+ * List the users the user has blocked
+ */
+router.get('/blocks', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const user = await getOrCreateUser(req.user!);
+    const result = await getBlockedUsers(user.id);
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/me/blocks', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch blocked users', error, correlationId);
+  }
+});
+
+// ============ Write Routes (with rate limiting) ============
+
+/**
+ * DELETE /api/me/devices/:id
+ * Revoke a device (removes its push token and sync checkpoint)
+ */
+router.delete('/devices/:id', deviceWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid device ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+
+    const revoked = await revokeDevice(user.id, id);
+
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        message: 'Device not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('DELETE /api/me/devices/:id', 'Device revoked', correlationId, {
+      userId: user.id,
+      deviceId: id
+    });
+
+    res.json({
+      success: true,
+      message: 'Device revoked successfully',
+      correlationId
+    });
+  } catch (error) {
+    logError('DELETE /api/me/devices/:id', error, correlationId, { deviceId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to revoke device', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/me/follow-requests/:handle/approve
+ * Approve a pending follow request
+ */
+router.post('/follow-requests/:handle/approve', followRequestLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { handle } = req.params;
+
+    if (!isValidHandle(handle)) {
+      sendErrorResponse(res, 400, 'Invalid handle format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const approved = await respondToFollowRequest(user.id, handle, true);
+
+    if (!approved) {
+      res.status(404).json({
+        success: false,
+        message: 'Follow request not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('POST /api/me/follow-requests/:handle/approve', 'Follow request approved', correlationId, {
+      userId: user.id,
+      handle
+    });
+
+    res.json({
+      success: true,
+      message: 'Follow request approved',
+      correlationId
+    });
+  } catch (error) {
+    logError('POST /api/me/follow-requests/:handle/approve', error, correlationId, { handle: req.params.handle });
+    sendErrorResponse(res, 500, 'Failed to approve follow request', error, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/me/follow-requests/:handle
+ * Decline a pending follow request
+ */
+router.delete('/follow-requests/:handle', followRequestLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { handle } = req.params;
+
+    if (!isValidHandle(handle)) {
+      sendErrorResponse(res, 400, 'Invalid handle format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const declined = await respondToFollowRequest(user.id, handle, false);
+
+    if (!declined) {
+      res.status(404).json({
+        success: false,
+        message: 'Follow request not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('DELETE /api/me/follow-requests/:handle', 'Follow request declined', correlationId, {
+      userId: user.id,
+      handle
+    });
+
+    res.json({
+      success: true,
+      message: 'Follow request declined',
+      correlationId
+    });
+  } catch (error) {
+    logError('DELETE /api/me/follow-requests/:handle', error, correlationId, { handle: req.params.handle });
+    sendErrorResponse(res, 500, 'Failed to decline follow request', error, correlationId);
+  }
+});
+
+export default router;
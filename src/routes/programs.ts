@@ -15,6 +15,9 @@ import {
   advanceDay,
   resetProgress,
   verifyProgramOwnership,
+  getPublicPrograms,
+  getPublicProgramById,
+  cloneProgram,
 } from '../services/programService';
 import { ProgramListQuery } from '../models/program.types';
 import {
@@ -22,6 +25,8 @@ import {
   validateCreateProgram,
   validateUpdateProgram,
   validateProgramWorkouts,
+  validatePublicProgramListQuery,
+  validateCloneProgram,
   isValidUuid,
 } from '../utils/validation';
 import {
@@ -138,6 +143,79 @@ router.get('/active', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+/**
+ * GET /api/programs/public
+ * Browse and search public programs
+ */
+router.get('/public', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validatePublicProgramListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await getPublicPrograms(user.id, {
+      ...validation.sanitized,
+      sort: validation.sanitized?.sort || 'downloads'
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/programs/public', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch public programs', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/programs/public/:id
+ * Get a public program with its workouts and author
+ */
+router.get('/public/:id', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid program ID format', undefined, correlationId);
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const program = await getPublicProgramById(id, user.id);
+
+    if (!program) {
+      res.status(404).json({
+        success: false,
+        message: 'Program not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { program },
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/programs/public/:id', error, correlationId, { programId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to fetch program', error, correlationId);
+  }
+});
+
 /**
  * GET /api/programs/:id
  * Get program with all workouts
@@ -423,6 +501,61 @@ router.put('/:id/workouts', programWriteLimiter, async (req: AuthenticatedReques
   }
 });
 
+/**
+ * POST /api/programs/:id/clone
+ * Clone one of your programs, or another user's public program, together
+ * with copies of its templates
+ */
+router.post('/:id/clone', programWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid program ID format', undefined, correlationId);
+      return;
+    }
+
+    // Validate request body (optional name)
+    const validation = validateCloneProgram(req.body);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid request data', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const program = await cloneProgram(id, user.id, validation.sanitized?.name);
+
+    if (!program) {
+      res.status(404).json({
+        success: false,
+        message: 'Program not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('POST /api/programs/:id/clone', 'Program cloned', correlationId, {
+      userId: user.id,
+      sourceProgramId: id,
+      newProgramId: program.id
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { program },
+      correlationId
+    });
+  } catch (error) {
+    logError('POST /api/programs/:id/clone', error, correlationId, { programId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to clone program', error, correlationId);
+  }
+});
+
 /**
  * POST /api/programs/:id/activate
  * Set program as active (deactivates any other active program)
@@ -2,8 +2,16 @@ import { Router, Response, Request } from 'express';
 import rateLimit from 'express-rate-limit';
 import { AuthenticatedRequest, firebaseAuthMiddleware } from '../middleware/auth';
 import { getOrCreateUser } from '../services/userService';
-import { createShare, getShareByToken, ShareNotFoundError } from '../services/shareService';
-import { validateCreateShare, validateShareToken } from '../utils/validation';
+import {
+  createShare,
+  getShareByToken,
+  getMyShares,
+  deleteShare,
+  importShare,
+  republishShare,
+  ShareNotFoundError,
+} from '../services/shareService';
+import { validateCreateShare, validateShareListQuery, validateShareToken } from '../utils/validation';
 import {
   generateCorrelationId,
   logError,
@@ -23,7 +31,7 @@ function getCorrelationId(req: Request): string {
 
 // ============ Rate Limiting ============
 
-// Rate limiter for share creation only (not GET lookups)
+// Rate limiter for share creation and revocation (not GET lookups)
 const shareCreateLimiter = rateLimit({
   windowMs: 60 * 60 * 1000, // 1 hour
   max: isDevelopment ? 200 : 30, // 30 share creations per hour in production
@@ -36,14 +44,59 @@ const shareCreateLimiter = rateLimit({
   legacyHeaders: false
 });
 
+// Rate limiter for imports (each one can create a program and up to 7 templates)
+const shareImportLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 200 : 30, // 30 imports per hour in production
+  message: {
+    success: false,
+    message: 'Too many import requests, please try again later',
+    correlationId: 'rate-limit-share-import'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
 // ============ Routes ============
 // NOTE: Unlike template/program routes that apply router.use(firebaseAuthMiddleware),
 // shares need mixed auth — POST requires auth, GET is public.
 // Auth middleware is applied per-route, not at router level.
 
+/**
+ * GET /api/shares
+ * List the caller's shares with view and import counts.
+ * Requires authentication.
+ */
+router.get('/', firebaseAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateShareListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await getMyShares(user.id, validation.sanitized!);
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/shares', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch shares', error, correlationId);
+  }
+});
+
 /**
  * POST /api/shares
- * Create a share link for a program or template.
+ * Create a share link for a program or template, or return the live one.
  * Requires authentication (must own the item being shared).
  */
 router.post('/', shareCreateLimiter, firebaseAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
@@ -67,10 +120,11 @@ router.post('/', shareCreateLimiter, firebaseAuthMiddleware, async (req: Authent
       userId: user.id,
       type: validation.sanitized!.type,
       itemId: validation.sanitized!.itemId,
-      token: result.token
+      token: result.token,
+      reused: result.reused
     });
 
-    res.status(201).json({
+    res.status(result.reused ? 200 : 201).json({
       success: true,
       data: result,
       correlationId
@@ -124,4 +178,152 @@ router.get('/:token', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * DELETE /api/shares/:token
+ * Revoke one of the caller's shares.
+ * Requires authentication.
+ */
+router.delete('/:token', shareCreateLimiter, firebaseAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { token } = req.params;
+
+    if (!validateShareToken(token)) {
+      sendErrorResponse(res, 400, 'Invalid share token format', undefined, correlationId);
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const deleted = await deleteShare(token, user.id);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        message: 'Share not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('DELETE /api/shares/:token', 'Share revoked', correlationId, {
+      userId: user.id,
+      token
+    });
+
+    res.json({
+      success: true,
+      message: 'Share revoked',
+      correlationId
+    });
+  } catch (error) {
+    logError('DELETE /api/shares/:token', error, correlationId, { token: req.params.token });
+    sendErrorResponse(res, 500, 'Failed to revoke share', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/shares/:token/republish
+ * Refresh one of the caller's shares from the current template or program.
+ * Requires authentication.
+ */
+router.post('/:token/republish', shareCreateLimiter, firebaseAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { token } = req.params;
+
+    if (!validateShareToken(token)) {
+      sendErrorResponse(res, 400, 'Invalid share token format', undefined, correlationId);
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await republishShare(token, user.id);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Share not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('POST /api/shares/:token/republish', 'Share republished', correlationId, {
+      userId: user.id,
+      token,
+      version: result.version,
+      changed: result.changed
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('POST /api/shares/:token/republish', error, correlationId, { token: req.params.token });
+
+    if (error instanceof ShareNotFoundError) {
+      sendErrorResponse(res, 404, error.message, undefined, correlationId);
+      return;
+    }
+
+    sendErrorResponse(res, 500, 'Failed to republish share', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/shares/:token/import
+ * Copy a shared template or program into the caller's account.
+ * Requires authentication. Importing the same share again returns the earlier copy.
+ */
+router.post('/:token/import', shareImportLimiter, firebaseAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { token } = req.params;
+
+    if (!validateShareToken(token)) {
+      sendErrorResponse(res, 400, 'Invalid share token format', undefined, correlationId);
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await importShare(token, user.id);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Share not found or has expired',
+        correlationId
+      });
+      return;
+    }
+
+    if (!result.alreadyImported) {
+      logInfo('POST /api/shares/:token/import', 'Share imported', correlationId, {
+        userId: user.id,
+        token,
+        type: result.type,
+        itemId: result.template?.id ?? result.program?.id,
+        unmatchedExercises: result.unmatchedExercises.length
+      });
+    }
+
+    res.status(result.alreadyImported ? 200 : 201).json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('POST /api/shares/:token/import', error, correlationId, { token: req.params.token });
+    sendErrorResponse(res, 500, 'Failed to import share', error, correlationId);
+  }
+});
+
 export default router;
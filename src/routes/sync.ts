@@ -0,0 +1,250 @@
+import { Router, Response, Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthenticatedRequest, firebaseAuthMiddleware } from '../middleware/auth';
+import { getOrCreateUser } from '../services/userService';
+import { getChangesSince } from '../services/changeFeedService';
+import { advanceDeviceCheckpoint, resetDeviceCheckpoint } from '../services/deviceService';
+import {
+  getUnresolvedConflicts,
+  resolveConflict,
+  SyncConflictError,
+} from '../services/syncConflictService';
+import { WorkoutSyncData } from '../services/syncService';
+import {
+  validateChangeFeedQuery,
+  validateConflictListQuery,
+  validateResolveConflict,
+  isValidUuid,
+} from '../utils/validation';
+import {
+  generateCorrelationId,
+  logError,
+  logInfo,
+  sendErrorResponse,
+} from '../utils/errorResponse';
+import { config } from '../config';
+
+const router = Router();
+const isDevelopment = config.env === 'development';
+
+// ============ Helpers ============
+
+/**
+ * Extract correlation ID from request
+ */
+function getCorrelationId(req: Request): string {
+  return (req as Request & { correlationId?: string }).correlationId || generateCorrelationId();
+}
+
+// ============ Rate Limiting ============
+
+// Resets force a full download on the next sync, so keep them infrequent
+const syncResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 50 : 10, // 10 resets per hour
+  message: {
+    success: false,
+    message: 'Too many sync reset requests, please try again later',
+    correlationId: 'rate-limit-sync-reset'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Conflict resolutions rewrite whole workouts
+const conflictResolveLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 200 : 50, // 50 resolutions per hour
+  message: {
+    success: false,
+    message: 'Too many conflict resolutions, please try again later',
+    correlationId: 'rate-limit-sync-conflict'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// ============ Middleware ============
+
+// All routes require authentication
+router.use(firebaseAuthMiddleware);
+
+// ============ Read Routes (no rate limiting) ============
+
+/**
+ * GET /api/sync/changes?after=<sequence>&limit=&deviceId=
+ * Ordered workout/exercise/set changes after a feed sequence.
+ * Pass deviceId to skip changes that device uploaded itself and to advance
+ * its checkpoint past the returned page.
+ */
+router.get('/changes', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateChangeFeedQuery(req.query as Record<string, unknown>);
+    if (!validation.valid || !validation.sanitized) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+
+    const { after, limit, deviceId } = validation.sanitized;
+    const result = await getChangesSince(user.id, after, { limit, excludeDeviceId: deviceId });
+
+    if (deviceId) {
+      await advanceDeviceCheckpoint(user.id, deviceId, { lastChangeSequence: result.lastSequence });
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/sync/changes', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch changes', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/sync/conflicts
+ * List unresolved sync conflicts with a client vs server diff
+ */
+router.get('/conflicts', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateConflictListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await getUnresolvedConflicts(user.id, {
+      cursor: validation.sanitized?.cursor,
+      limit: validation.sanitized?.limit
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/sync/conflicts', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch sync conflicts', error, correlationId);
+  }
+});
+
+// ============ Write Routes (with rate limiting) ============
+
+/**
+ * POST /api/sync/conflicts/:id/resolve
+ * Resolve a conflict with the client, server or a merged version
+ */
+router.post('/conflicts/:id/resolve', conflictResolveLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid conflict ID format', undefined, correlationId);
+      return;
+    }
+
+    const validation = validateResolveConflict(req.body);
+    if (!validation.valid || !validation.sanitized) {
+      sendErrorResponse(res, 400, 'Invalid resolution', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await resolveConflict(
+      user.id,
+      id,
+      validation.sanitized.resolution,
+      validation.sanitized.data as WorkoutSyncData | undefined
+    );
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Conflict not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('POST /api/sync/conflicts/:id/resolve', 'Sync conflict resolved', correlationId, {
+      userId: user.id,
+      conflictId: id,
+      resolution: result.resolution
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof SyncConflictError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/sync/conflicts/:id/resolve', error, correlationId, { conflictId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to resolve sync conflict', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/sync/reset
+ * Rewind a device's checkpoint so its next sync downloads everything
+ */
+router.post('/reset', syncResetLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { deviceId } = req.body ?? {};
+
+    if (typeof deviceId !== 'string' || deviceId.length === 0 || deviceId.length > 100) {
+      sendErrorResponse(res, 400, 'deviceId is required and must be a string of at most 100 characters', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+
+    const checkpoint = await resetDeviceCheckpoint(user.id, deviceId);
+
+    if (!checkpoint) {
+      res.status(404).json({
+        success: false,
+        message: 'Device not found',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('POST /api/sync/reset', 'Device sync checkpoint reset', correlationId, {
+      userId: user.id,
+      deviceId
+    });
+
+    res.json({
+      success: true,
+      data: { deviceId, checkpoint },
+      correlationId
+    });
+  } catch (error) {
+    logError('POST /api/sync/reset', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to reset sync checkpoint', error, correlationId);
+  }
+});
+
+export default router;
@@ -10,6 +10,11 @@ import {
   deleteTemplate,
   cloneTemplate,
   updateTemplateExercises,
+  swapTemplateExercise,
+  getPublicTemplates,
+  getPublicTemplateById,
+  likeTemplate,
+  unlikeTemplate,
 } from '../services/templateService';
 import { TemplateListQuery } from '../models/template.types';
 import {
@@ -18,6 +23,8 @@ import {
   validateUpdateTemplate,
   validateTemplateExercises,
   validateCloneTemplate,
+  validatePublicTemplateListQuery,
+  validateSwapTemplateExercise,
   isValidUuid,
 } from '../utils/validation';
 import {
@@ -55,6 +62,19 @@ const templateWriteLimiter = rateLimit({
   legacyHeaders: false
 });
 
+// Rate limiter for liking/unliking public templates
+const templateLikeLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 500 : 200, // 200 like operations per hour
+  message: {
+    success: false,
+    message: 'Too many like operations, please try again later',
+    correlationId: 'rate-limit-template-like'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
 // ============ Middleware ============
 
 // All routes require authentication
@@ -102,6 +122,79 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+/**
+ * GET /api/templates/public
+ * Browse and search public templates
+ */
+router.get('/public', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validatePublicTemplateListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await getPublicTemplates(user.id, {
+      ...validation.sanitized,
+      sort: validation.sanitized?.sort || 'likes'
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/templates/public', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch public templates', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/templates/public/:id
+ * Get a public template with its exercises and author
+ */
+router.get('/public/:id', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid template ID format', undefined, correlationId);
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const template = await getPublicTemplateById(id, user.id);
+
+    if (!template) {
+      res.status(404).json({
+        success: false,
+        message: 'Template not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { template },
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/templates/public/:id', error, correlationId, { templateId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to fetch template', error, correlationId);
+  }
+});
+
 /**
  * GET /api/templates/:id
  * Get template with all exercises
@@ -294,7 +387,8 @@ router.delete('/:id', templateWriteLimiter, async (req: AuthenticatedRequest, re
 
 /**
  * POST /api/templates/:id/clone
- * Clone a template
+ * Clone one of your templates, or another user's public template
+ * (which counts towards its downloads)
  */
 router.post('/:id/clone', templateWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
   const correlationId = getCorrelationId(req);
@@ -346,6 +440,84 @@ router.post('/:id/clone', templateWriteLimiter, async (req: AuthenticatedRequest
   }
 });
 
+/**
+ * POST /api/templates/:id/like
+ * Like a public template
+ */
+router.post('/:id/like', templateLikeLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid template ID format', undefined, correlationId);
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await likeTemplate(id, user.id);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Template not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('POST /api/templates/:id/like', error, correlationId, { templateId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to like template', error, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/templates/:id/like
+ * Remove your like from a template
+ */
+router.delete('/:id/like', templateLikeLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid template ID format', undefined, correlationId);
+      return;
+    }
+
+    // Get user
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await unlikeTemplate(id, user.id);
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'Like not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('DELETE /api/templates/:id/like', error, correlationId, { templateId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to unlike template', error, correlationId);
+  }
+});
+
 /**
  * PUT /api/templates/:id/exercises
  * Bulk update/reorder exercises
@@ -407,4 +579,81 @@ router.put('/:id/exercises', templateWriteLimiter, async (req: AuthenticatedRequ
   }
 });
 
+/**
+ * POST /api/templates/:id/exercises/:templateExerciseId/swap
+ * Replace the exercise in one slot, keeping sets, reps and rest
+ */
+router.post(
+  '/:id/exercises/:templateExerciseId/swap',
+  templateWriteLimiter,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const correlationId = getCorrelationId(req);
+    try {
+      const { id, templateExerciseId } = req.params;
+
+      if (!isValidUuid(id)) {
+        sendErrorResponse(res, 400, 'Invalid template ID format', undefined, correlationId);
+        return;
+      }
+      if (!isValidUuid(templateExerciseId)) {
+        sendErrorResponse(res, 400, 'Invalid template exercise ID format', undefined, correlationId);
+        return;
+      }
+
+      // Validate request body
+      const validation = validateSwapTemplateExercise(req.body);
+      if (!validation.valid) {
+        sendErrorResponse(res, 400, 'Invalid request data', undefined, correlationId, {
+          validationErrors: validation.errors
+        });
+        return;
+      }
+
+      // Get user
+      const user = await getOrCreateUser(req.user!);
+
+      const template = await swapTemplateExercise(
+        id,
+        user.id,
+        templateExerciseId,
+        validation.sanitized!.exerciseId
+      );
+
+      if (!template) {
+        res.status(404).json({
+          success: false,
+          message: 'Template exercise not found',
+          correlationId
+        });
+        return;
+      }
+
+      logInfo('POST /api/templates/:id/exercises/:templateExerciseId/swap', 'Template exercise swapped', correlationId, {
+        userId: user.id,
+        templateId: id,
+        templateExerciseId,
+        exerciseId: validation.sanitized!.exerciseId
+      });
+
+      res.json({
+        success: true,
+        data: { template },
+        correlationId
+      });
+    } catch (error) {
+      logError('POST /api/templates/:id/exercises/:templateExerciseId/swap', error, correlationId, {
+        templateId: req.params.id
+      });
+
+      // Handle specific errors
+      if (error instanceof Error && error.message.includes('Exercises not found')) {
+        sendErrorResponse(res, 400, error.message, undefined, correlationId);
+        return;
+      }
+
+      sendErrorResponse(res, 500, 'Failed to swap template exercise', error, correlationId);
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,362 @@
+import { Router, Response, Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthenticatedRequest, firebaseAuthMiddleware } from '../middleware/auth';
+import { getOrCreateUser } from '../services/userService';
+import {
+  getUserProfile,
+  getFollowers,
+  getFollowing,
+  followUser,
+  unfollowUser,
+  blockUser,
+  unblockUser,
+  FollowError,
+} from '../services/followService';
+import { isValidHandle, validateFollowListQuery } from '../utils/validation';
+import {
+  generateCorrelationId,
+  logError,
+  logInfo,
+  sendErrorResponse,
+} from '../utils/errorResponse';
+import { config } from '../config';
+
+const router = Router();
+const isDevelopment = config.env === 'development';
+
+// ============ Helpers ============
+
+/**
+ * Extract correlation ID from request
+ */
+function getCorrelationId(req: Request): string {
+  return (req as Request & { correlationId?: string }).correlationId || generateCorrelationId();
+}
+
+// ============ Rate Limiting ============
+
+// Rate limiter for write operations only (POST, DELETE)
+const socialWriteLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: isDevelopment ? 500 : 100, // 100 follow/block operations per hour
+  message: {
+    success: false,
+    message: 'Too many follow operations, please try again later',
+    correlationId: 'rate-limit-social'
+  },
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// ============ Middleware ============
+
+// All routes require authentication
+router.use(firebaseAuthMiddleware);
+
+// ============ Read Routes (no rate limiting) ============
+
+/**
+ * GET /api/users/:handle
+ * Public profile with follower counts and aggregate stats.
+ * Stats are hidden for private profiles unless the viewer is an approved follower.
+ */
+router.get('/:handle', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { handle } = req.params;
+
+    if (!isValidHandle(handle)) {
+      sendErrorResponse(res, 400, 'Invalid handle format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const profile = await getUserProfile(user.id, handle);
+
+    if (!profile) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: profile,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/users/:handle', error, correlationId, { handle: req.params.handle });
+    sendErrorResponse(res, 500, 'Failed to fetch user profile', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/users/:handle/followers
+ * Paginated list of approved followers
+ */
+router.get('/:handle/followers', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { handle } = req.params;
+
+    if (!isValidHandle(handle)) {
+      sendErrorResponse(res, 400, 'Invalid handle format', undefined, correlationId);
+      return;
+    }
+
+    const validation = validateFollowListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await getFollowers(user.id, handle, {
+      cursor: validation.sanitized?.cursor,
+      limit: validation.sanitized?.limit
+    });
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof FollowError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('GET /api/users/:handle/followers', error, correlationId, { handle: req.params.handle });
+    sendErrorResponse(res, 500, 'Failed to fetch followers', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/users/:handle/following
+ * Paginated list of users this user follows (approved follows only)
+ */
+router.get('/:handle/following', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { handle } = req.params;
+
+    if (!isValidHandle(handle)) {
+      sendErrorResponse(res, 400, 'Invalid handle format', undefined, correlationId);
+      return;
+    }
+
+    const validation = validateFollowListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await getFollowing(user.id, handle, {
+      cursor: validation.sanitized?.cursor,
+      limit: validation.sanitized?.limit
+    });
+
+    if (!result) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof FollowError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('GET /api/users/:handle/following', error, correlationId, { handle: req.params.handle });
+    sendErrorResponse(res, 500, 'Failed to fetch following', error, correlationId);
+  }
+});
+
+// ============ Write Routes (with rate limiting) ============
+
+/**
+ * POST /api/users/:handle/follow
+ * Follow a user. Private profiles get a pending follow request instead.
+ */
+router.post('/:handle/follow', socialWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { handle } = req.params;
+
+    if (!isValidHandle(handle)) {
+      sendErrorResponse(res, 400, 'Invalid handle format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const result = await followUser(user.id, handle);
+
+    logInfo('POST /api/users/:handle/follow', 'User followed', correlationId, {
+      userId: user.id,
+      handle,
+      status: result.status
+    });
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof FollowError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/users/:handle/follow', error, correlationId, { handle: req.params.handle });
+    sendErrorResponse(res, 500, 'Failed to follow user', error, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/users/:handle/follow
+ * Unfollow a user or withdraw a pending follow request
+ */
+router.delete('/:handle/follow', socialWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { handle } = req.params;
+
+    if (!isValidHandle(handle)) {
+      sendErrorResponse(res, 400, 'Invalid handle format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const removed = await unfollowUser(user.id, handle);
+
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        message: 'Not following this user',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('DELETE /api/users/:handle/follow', 'User unfollowed', correlationId, {
+      userId: user.id,
+      handle
+    });
+
+    res.json({
+      success: true,
+      message: 'User unfollowed successfully',
+      correlationId
+    });
+  } catch (error) {
+    logError('DELETE /api/users/:handle/follow', error, correlationId, { handle: req.params.handle });
+    sendErrorResponse(res, 500, 'Failed to unfollow user', error, correlationId);
+  }
+});
+
+/**
+ * POST /api/users/:handle/block
+ * Block a user. Removes follows in both directions; the blocked user can no
+ * longer follow or view the blocker.
+ */
+router.post('/:handle/block', socialWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { handle } = req.params;
+
+    if (!isValidHandle(handle)) {
+      sendErrorResponse(res, 400, 'Invalid handle format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const blocked = await blockUser(user.id, handle);
+
+    logInfo('POST /api/users/:handle/block', 'User blocked', correlationId, {
+      userId: user.id,
+      blockedUserId: blocked.id
+    });
+
+    res.json({
+      success: true,
+      data: blocked,
+      correlationId
+    });
+  } catch (error) {
+    if (error instanceof FollowError) {
+      sendErrorResponse(res, error.statusCode, error.message, undefined, correlationId);
+      return;
+    }
+    logError('POST /api/users/:handle/block', error, correlationId, { handle: req.params.handle });
+    sendErrorResponse(res, 500, 'Failed to block user', error, correlationId);
+  }
+});
+
+/**
+ * DELETE /api/users/:handle/block
+ * Unblock a user
+ */
+router.delete('/:handle/block', socialWriteLimiter, async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { handle } = req.params;
+
+    if (!isValidHandle(handle)) {
+      sendErrorResponse(res, 400, 'Invalid handle format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+    const removed = await unblockUser(user.id, handle);
+
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        message: 'User is not blocked',
+        correlationId
+      });
+      return;
+    }
+
+    logInfo('DELETE /api/users/:handle/block', 'User unblocked', correlationId, {
+      userId: user.id,
+      handle
+    });
+
+    res.json({
+      success: true,
+      message: 'User unblocked successfully',
+      correlationId
+    });
+  } catch (error) {
+    logError('DELETE /api/users/:handle/block', error, correlationId, { handle: req.params.handle });
+    sendErrorResponse(res, 500, 'Failed to unblock user', error, correlationId);
+  }
+});
+
+export default router;
@@ -0,0 +1,147 @@
+import { Router, Response, Request } from 'express';
+import { AuthenticatedRequest, firebaseAuthMiddleware } from '../middleware/auth';
+import { getOrCreateUser } from '../services/userService';
+import {
+  getWorkouts,
+  getWorkoutById,
+  getWorkoutCalendar,
+} from '../services/workoutService';
+import { WorkoutListQuery } from '../models/workout.types';
+import {
+  validateWorkoutListQuery,
+  validateWorkoutCalendarQuery,
+  isValidUuid,
+} from '../utils/validation';
+import {
+  generateCorrelationId,
+  logError,
+  sendErrorResponse,
+} from '../utils/errorResponse';
+
+const router = Router();
+
+// ============ Helpers ============
+
+/**
+ * Extract correlation ID from request
+ */
+function getCorrelationId(req: Request): string {
+  return (req as Request & { correlationId?: string }).correlationId || generateCorrelationId();
+}
+
+// ============ Middleware ============
+
+// All routes require authentication
+router.use(firebaseAuthMiddleware);
+
+// ============ Read Routes (no rate limiting) ============
+
+/**
+ * GET /api/workouts
+ * List user's workout history with pagination and filters
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateWorkoutListQuery(req.query as Record<string, unknown>);
+    if (!validation.valid) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+
+    const query: WorkoutListQuery = {
+      cursor: validation.sanitized?.cursor,
+      limit: validation.sanitized?.limit,
+      order: validation.sanitized?.order || 'desc',
+      from: validation.sanitized?.from,
+      to: validation.sanitized?.to,
+      templateId: validation.sanitized?.templateId,
+      exerciseId: validation.sanitized?.exerciseId
+    };
+
+    const result = await getWorkouts(user.id, query);
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/workouts', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch workouts', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/workouts/calendar?month=YYYY-MM
+ * Per-day workout counts and volume for a month
+ */
+router.get('/calendar', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const validation = validateWorkoutCalendarQuery(req.query as Record<string, unknown>);
+    if (!validation.valid || !validation.sanitized) {
+      sendErrorResponse(res, 400, 'Invalid query parameters', undefined, correlationId, {
+        validationErrors: validation.errors
+      });
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+
+    const result = await getWorkoutCalendar(user.id, validation.sanitized.month, user.timezone);
+
+    res.json({
+      success: true,
+      data: result,
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/workouts/calendar', error, correlationId);
+    sendErrorResponse(res, 500, 'Failed to fetch workout calendar', error, correlationId);
+  }
+});
+
+/**
+ * GET /api/workouts/:id
+ * Get workout with all exercises and sets
+ */
+router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  const correlationId = getCorrelationId(req);
+  try {
+    const { id } = req.params;
+
+    if (!isValidUuid(id)) {
+      sendErrorResponse(res, 400, 'Invalid workout ID format', undefined, correlationId);
+      return;
+    }
+
+    const user = await getOrCreateUser(req.user!);
+
+    const workout = await getWorkoutById(id, user.id);
+
+    if (!workout) {
+      res.status(404).json({
+        success: false,
+        message: 'Workout not found',
+        correlationId
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { workout },
+      correlationId
+    });
+  } catch (error) {
+    logError('GET /api/workouts/:id', error, correlationId, { workoutId: req.params.id });
+    sendErrorResponse(res, 500, 'Failed to fetch workout', error, correlationId);
+  }
+});
+
+export default router;
@@ -274,7 +274,8 @@ async function fetchExerciseCatalog(equipmentFilter: string[]): Promise<Exercise
       movementPattern: exercises.movementPattern,
       exerciseType: exercises.exerciseType,
     })
-    .from(exercises);
+    .from(exercises)
+    .where(eq(exercises.isCustom, false));
 
   // Filter to exercises that match the user's equipment and have required fields
   return allExercises
@@ -728,6 +729,7 @@ export async function generateProgram(
     description: parsedResponse.programDescription || undefined,
     daysPerWeek: input.daysPerWeek,
     durationWeeks: parsedResponse.durationWeeks ?? undefined,
+    goal: input.goal,
     isAiGenerated: true,
     aiPrompt: input.inspirationSource,
     aiModel: aiConfig.gemini.model,
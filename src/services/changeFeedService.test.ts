@@ -0,0 +1,165 @@
+// Mock the database module before importing changeFeedService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  syncQueue: {},
+  workouts: {},
+  workoutExercises: {},
+  sets: {}
+}));
+
+import {
+  toWorkoutChangeData,
+  toExerciseChangeData,
+  toSetChangeData,
+  workoutClientIdOf
+} from './changeFeedService';
+import { validateChangeFeedQuery, validateSyncPayload } from '../utils/validation';
+
+const updatedAt = new Date('2024-01-15T10:00:00.000Z');
+
+describe('changeFeedService', () => {
+  describe('toWorkoutChangeData', () => {
+    const workout = {
+      id: 'server-workout-id',
+      clientId: 'workout-1',
+      date: new Date('2024-01-15T09:00:00.000Z'),
+      name: 'Push Day',
+      durationSeconds: 3600,
+      isCompleted: true,
+      startTime: null,
+      endTime: null,
+      templateId: null,
+      deletedAt: null,
+      updatedAt
+    } as Parameters<typeof toWorkoutChangeData>[0];
+
+    it('should use client IDs and ISO timestamps', () => {
+      expect(toWorkoutChangeData(workout)).toEqual({
+        clientId: 'workout-1',
+        date: '2024-01-15T09:00:00.000Z',
+        name: 'Push Day',
+        durationSeconds: 3600,
+        isCompleted: true,
+        startTime: null,
+        endTime: null,
+        templateId: null,
+        deletedAt: null,
+        updatedAt: '2024-01-15T10:00:00.000Z'
+      });
+    });
+
+    it('should fall back to the server ID when there is no client ID', () => {
+      expect(toWorkoutChangeData({ ...workout, clientId: null }).clientId).toBe('server-workout-id');
+    });
+  });
+
+  describe('toExerciseChangeData', () => {
+    it('should carry the parent workout client ID', () => {
+      const data = toExerciseChangeData({
+        id: 'server-exercise-id',
+        clientId: 'exercise-1',
+        exerciseId: 'library-id',
+        exerciseName: 'Bench Press',
+        primaryMuscles: ['chest'],
+        orderIndex: 0,
+        updatedAt
+      } as Parameters<typeof toExerciseChangeData>[0], 'workout-1');
+
+      expect(data.workoutClientId).toBe('workout-1');
+      expect(data.clientId).toBe('exercise-1');
+    });
+  });
+
+  describe('toSetChangeData', () => {
+    it('should convert weight and distance to numbers', () => {
+      const data = toSetChangeData({
+        id: 'server-set-id',
+        clientId: 'set-1',
+        setNumber: 1,
+        reps: 8,
+        weightLbs: '135.50',
+        setType: 'working',
+        loadType: 'external',
+        durationSeconds: null,
+        distanceMeters: '400.00',
+        rpe: 8,
+        notes: null,
+        updatedAt
+      } as Parameters<typeof toSetChangeData>[0], 'exercise-1', 'workout-1');
+
+      expect(data).toEqual({
+        clientId: 'set-1',
+        exerciseClientId: 'exercise-1',
+        workoutClientId: 'workout-1',
+        setNumber: 1,
+        reps: 8,
+        weight: 135.5,
+        setType: 'working',
+        loadType: 'external',
+        durationSeconds: null,
+        distanceMeters: 400,
+        rpe: 8,
+        notes: null,
+        updatedAt: '2024-01-15T10:00:00.000Z'
+      });
+    });
+  });
+
+  describe('workoutClientIdOf', () => {
+    it("should use a workout's own client ID", () => {
+      expect(workoutClientIdOf({ entityType: 'workout', data: { clientId: 'w-1' } })).toBe('w-1');
+    });
+
+    it('should use the workoutClientId of exercises and sets', () => {
+      expect(workoutClientIdOf({ entityType: 'exercise', data: { clientId: 'e-1', workoutClientId: 'w-1' } })).toBe('w-1');
+      expect(workoutClientIdOf({ entityType: 'set', data: { clientId: 's-1', workoutClientId: 'w-1' } })).toBe('w-1');
+    });
+
+    it('should return null when the payload has no workout', () => {
+      expect(workoutClientIdOf({ entityType: 'set', data: { clientId: 's-1' } })).toBeNull();
+    });
+  });
+});
+
+describe('validateChangeFeedQuery', () => {
+  it('should default after to the start of the feed', () => {
+    const result = validateChangeFeedQuery({});
+    expect(result.valid).toBe(true);
+    expect(result.sanitized).toEqual({ after: 0 });
+  });
+
+  it('should parse after, limit and deviceId', () => {
+    const result = validateChangeFeedQuery({ after: '42', limit: '100', deviceId: 'device-1' });
+    expect(result.sanitized).toEqual({ after: 42, limit: 100, deviceId: 'device-1' });
+  });
+
+  it('should reject negative or non-integer sequences', () => {
+    expect(validateChangeFeedQuery({ after: '-1' }).valid).toBe(false);
+    expect(validateChangeFeedQuery({ after: '1.5' }).valid).toBe(false);
+    expect(validateChangeFeedQuery({ after: 'abc' }).valid).toBe(false);
+  });
+
+  it('should enforce limit bounds', () => {
+    expect(validateChangeFeedQuery({ limit: '0' }).errors).toContain('limit must be at least 1');
+    expect(validateChangeFeedQuery({ limit: '1001' }).errors).toContain('limit cannot exceed 1000');
+  });
+});
+
+describe('validateSyncPayload lastChangeSequence', () => {
+  const basePayload = { deviceId: 'device-1', workouts: [] };
+
+  it('should accept a non-negative integer', () => {
+    expect(validateSyncPayload({ ...basePayload, lastChangeSequence: 0 }).valid).toBe(true);
+    expect(validateSyncPayload({ ...basePayload, lastChangeSequence: 120 }).valid).toBe(true);
+  });
+
+  it('should reject other values', () => {
+    const result = validateSyncPayload({ ...basePayload, lastChangeSequence: '120' });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('lastChangeSequence must be a non-negative integer');
+  });
+});
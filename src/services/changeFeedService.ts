@@ -0,0 +1,290 @@
+import { db } from '../db';
+import { syncQueue, workouts, workoutExercises, sets } from '../db/schema';
+import { eq, and, gt, lte, asc, desc, or, ne, not, isNull, sql, SQL } from 'drizzle-orm';
+import { ChangeHistoryEntry, SyncBaseline } from './syncMerge';
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type ChangeEntityType = 'workout' | 'exercise' | 'set';
+export type ChangeOperation = 'create' | 'update' | 'delete';
+
+/**
+ * A mutation to append to a user's change feed
+ */
+export interface ChangeInput {
+  userId: string;
+  entityType: ChangeEntityType;
+  entityId: string;
+  operation: ChangeOperation;
+  data: Record<string, unknown>;
+  clientTimestamp?: Date; // When the change was made on the client, if it came from one
+  sourceDeviceId?: string | null; // Omitted for server-side edits (REST, admin scripts)
+}
+
+export interface ChangeFeedEntry {
+  sequence: number;
+  entityType: ChangeEntityType;
+  entityId: string;
+  operation: ChangeOperation;
+  data: Record<string, unknown>;
+  changedAt: string;
+}
+
+export interface ChangeFeedPage {
+  changes: ChangeFeedEntry[];
+  lastSequence: number; // Cursor to pass as `after` next time
+  hasMore: boolean;
+}
+
+// ============ Constants ============
+
+export const DEFAULT_CHANGE_FEED_LIMIT = 500;
+export const MAX_CHANGE_FEED_LIMIT = 1000;
+
+// ============ Change Payload Builders ============
+
+/**
+ * Feed payloads mirror the sync client format (client IDs, weight in lbs as a
+ * number) and carry parent client IDs so a device can apply a single change
+ * without fetching the whole workout.
+ */
+export function toWorkoutChangeData(workout: typeof workouts.$inferSelect): Record<string, unknown> {
+  return {
+    clientId: workout.clientId || workout.id,
+    date: workout.date.toISOString(),
+    name: workout.name,
+    durationSeconds: workout.durationSeconds,
+    isCompleted: workout.isCompleted ?? false,
+    startTime: workout.startTime?.toISOString() ?? null,
+    endTime: workout.endTime?.toISOString() ?? null,
+    notes: workout.notes,
+    templateId: workout.templateId,
+    programId: workout.programId,
+    dayNumber: workout.programDayNumber,
+    deletedAt: workout.deletedAt?.toISOString() ?? null,
+    updatedAt: workout.updatedAt.toISOString(),
+  };
+}
+
+export function toExerciseChangeData(
+  exercise: typeof workoutExercises.$inferSelect,
+  workoutClientId: string
+): Record<string, unknown> {
+  return {
+    clientId: exercise.clientId || exercise.id,
+    workoutClientId,
+    exerciseId: exercise.exerciseId,
+    exerciseName: exercise.exerciseName,
+    primaryMuscles: exercise.primaryMuscles,
+    orderIndex: exercise.orderIndex,
+    notes: exercise.notes,
+    updatedAt: exercise.updatedAt.toISOString(),
+  };
+}
+
+export function toSetChangeData(
+  set: typeof sets.$inferSelect,
+  exerciseClientId: string,
+  workoutClientId: string
+): Record<string, unknown> {
+  return {
+    clientId: set.clientId || set.id,
+    exerciseClientId,
+    workoutClientId,
+    setNumber: set.setNumber,
+    reps: set.reps,
+    weight: parseFloat(set.weightLbs),
+    setType: set.setType,
+    loadType: set.loadType,
+    durationSeconds: set.durationSeconds,
+    distanceMeters: set.distanceMeters !== null ? parseFloat(set.distanceMeters) : null,
+    rpe: set.rpe,
+    notes: set.notes,
+    updatedAt: set.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * The workout a change belongs to: the workout's own client ID, or the
+ * workoutClientId its exercise/set payload carries
+ */
+export function workoutClientIdOf(change: Pick<ChangeInput, 'entityType' | 'data'>): string | null {
+  const value = change.entityType === 'workout' ? change.data.clientId : change.data.workoutClientId;
+  return typeof value === 'string' ? value : null;
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * Appends changes to the feed. Pass the transaction that performed the
+ * mutation so the change is only visible if the mutation commits.
+ *
+ * Takes a per-user transaction lock first: sequences are allocated at insert
+ * time, so without it a slower concurrent transaction could commit a lower
+ * sequence after a reader had already moved past it.
+ */
+export async function recordChanges(executor: DbExecutor, changes: ChangeInput[]): Promise<void> {
+  if (changes.length === 0) return;
+
+  const userIds = [...new Set(changes.map(c => c.userId))].sort();
+  for (const userId of userIds) {
+    await executor.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`sync_queue:${userId}`}))`);
+  }
+
+  const now = new Date();
+  await executor.insert(syncQueue).values(changes.map(change => ({
+    userId: change.userId,
+    entityType: change.entityType,
+    entityId: change.entityId,
+    operation: change.operation,
+    workoutClientId: workoutClientIdOf(change),
+    data: change.data,
+    clientTimestamp: change.clientTimestamp ?? now,
+    sourceDeviceId: change.sourceDeviceId ?? null,
+    // The mutation is already committed with this row, so there is nothing left to deliver
+    status: 'completed' as const,
+  })));
+}
+
+/**
+ * Reads a user's changes after the given sequence, in order.
+ *
+ * When `excludeDeviceId` is set, that device's own changes are skipped, but
+ * the returned cursor still moves past them so they aren't rescanned.
+ */
+export async function getChangesSince(
+  userId: string,
+  afterSequence: number,
+  options: { limit?: number; excludeDeviceId?: string } = {}
+): Promise<ChangeFeedPage> {
+  const limit = Math.min(options.limit || DEFAULT_CHANGE_FEED_LIMIT, MAX_CHANGE_FEED_LIMIT);
+
+  // Snapshot the head of the feed first so the cursor never skips changes
+  // committed while this page is being read
+  const [head] = await db
+    .select({ maxSequence: sql<string | null>`max(${syncQueue.sequence})` })
+    .from(syncQueue)
+    .where(eq(syncQueue.userId, userId));
+  const headSequence = Number(head?.maxSequence ?? 0);
+
+  const conditions: SQL[] = [
+    eq(syncQueue.userId, userId),
+    gt(syncQueue.sequence, afterSequence),
+    lte(syncQueue.sequence, headSequence)
+  ];
+  if (options.excludeDeviceId) {
+    conditions.push(or(
+      isNull(syncQueue.sourceDeviceId),
+      ne(syncQueue.sourceDeviceId, options.excludeDeviceId)
+    )!);
+  }
+
+  const rows = await db
+    .select({
+      sequence: syncQueue.sequence,
+      entityType: syncQueue.entityType,
+      entityId: syncQueue.entityId,
+      operation: syncQueue.operation,
+      data: syncQueue.data,
+      createdAt: syncQueue.createdAt,
+    })
+    .from(syncQueue)
+    .where(and(...conditions))
+    .orderBy(asc(syncQueue.sequence))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  // Once caught up, jump past any trailing changes that were filtered out
+  const lastSequence = hasMore
+    ? page[page.length - 1].sequence
+    : Math.max(afterSequence, headSequence);
+
+  return {
+    changes: page.map(row => ({
+      sequence: row.sequence,
+      entityType: row.entityType as ChangeEntityType,
+      entityId: row.entityId,
+      operation: row.operation,
+      data: row.data as Record<string, unknown>,
+      changedAt: row.createdAt.toISOString(),
+    })),
+    lastSequence,
+    hasMore
+  };
+}
+
+/**
+ * SQL twin of isVisibleToDevice: changes the device had already seen at its
+ * baseline, or made itself
+ */
+function visibleToDeviceCondition(baseline: SyncBaseline): SQL {
+  const seen = baseline.sequence !== null
+    ? lte(syncQueue.sequence, baseline.sequence)
+    : baseline.syncedAt !== null
+      ? lte(syncQueue.createdAt, baseline.syncedAt)
+      : sql`false`;
+  // IS NOT DISTINCT FROM so server-side changes (null device) compare false, not null
+  return baseline.deviceId
+    ? or(seen, sql`${syncQueue.sourceDeviceId} IS NOT DISTINCT FROM ${baseline.deviceId}`)!
+    : seen;
+}
+
+/**
+ * The changes of one workout and its exercises/sets needed to rebuild the
+ * version a device last saw, in sequence order: every change the device
+ * hasn't seen, plus the latest seen change of each entity and the workout's
+ * create entry. Replaying these gives the same base as replaying the full
+ * history, without reading changes the base doesn't depend on.
+ */
+export async function getWorkoutChangeHistory(
+  userId: string,
+  workoutClientId: string,
+  baseline: SyncBaseline
+): Promise<ChangeHistoryEntry[]> {
+  const fields = {
+    sequence: syncQueue.sequence,
+    entityType: syncQueue.entityType,
+    operation: syncQueue.operation,
+    data: syncQueue.data,
+    sourceDeviceId: syncQueue.sourceDeviceId,
+    createdAt: syncQueue.createdAt,
+  };
+  const belongsToWorkout = and(
+    eq(syncQueue.userId, userId),
+    eq(syncQueue.workoutClientId, workoutClientId)
+  );
+  const visible = visibleToDeviceCondition(baseline);
+  const entityClientId = sql`${syncQueue.data}->>'clientId'`;
+
+  const unseen = await db
+    .select(fields)
+    .from(syncQueue)
+    .where(and(belongsToWorkout, not(visible)));
+
+  const latestSeen = await db
+    .selectDistinctOn([syncQueue.entityType, entityClientId], fields)
+    .from(syncQueue)
+    .where(and(belongsToWorkout, visible))
+    .orderBy(syncQueue.entityType, entityClientId, desc(syncQueue.sequence));
+
+  // buildBaseSnapshot needs the create entry to know the base is complete
+  const created = await db
+    .select(fields)
+    .from(syncQueue)
+    .where(and(
+      belongsToWorkout,
+      visible,
+      eq(syncQueue.entityType, 'workout'),
+      eq(syncQueue.operation, 'create')
+    ))
+    .limit(1);
+
+  const bySequence = new Map<number, ChangeHistoryEntry>();
+  for (const row of [...unseen, ...latestSeen, ...created]) {
+    bySequence.set(row.sequence, { ...row, data: row.data as Record<string, unknown> });
+  }
+
+  return Array.from(bySequence.values()).sort((a, b) => a.sequence - b.sequence);
+}
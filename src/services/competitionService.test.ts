@@ -0,0 +1,198 @@
+// Mock the database module before importing competitionService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  competitions: {},
+  competitionParticipants: {},
+  competitionTeams: {},
+  users: {},
+  userFollows: {},
+  userBlocks: {},
+  exercises: {},
+  workouts: {},
+  workoutExercises: {},
+  sets: {},
+  personalRecords: {}
+}));
+
+import {
+  rankParticipants,
+  generateEntryCode,
+  canViewCompetition,
+  aggregateTeamScore,
+  toTeamRules,
+  encodeCursor,
+  decodeCursor,
+} from './competitionService';
+import {
+  normalizeEntryCode,
+  validateCreateCompetition,
+  validateCompetitionListQuery,
+  validateCreateTeam,
+} from '../utils/validation';
+
+describe('competitionService', () => {
+  describe('rankParticipants', () => {
+    it('should rank by score, highest first, with shared ranks for ties', () => {
+      const ranks = rankParticipants([
+        { id: 'a', score: 100 },
+        { id: 'b', score: 250 },
+        { id: 'c', score: 100 },
+        { id: 'd', score: 50 },
+      ]);
+
+      expect(Object.fromEntries(ranks)).toEqual({ b: 1, a: 2, c: 2, d: 4 });
+    });
+
+    it('should handle an empty competition', () => {
+      expect(rankParticipants([]).size).toBe(0);
+    });
+  });
+
+  describe('generateEntryCode', () => {
+    it('should generate 8 unambiguous uppercase characters', () => {
+      const code = generateEntryCode();
+      expect(code).toMatch(/^[A-HJKMNP-Z2-9]{8}$/);
+      expect(normalizeEntryCode(code.toLowerCase())).toBe(code);
+    });
+  });
+
+  describe('canViewCompetition', () => {
+    const competition = { creatorId: 'creator', status: 'active' as const, isPublic: true };
+
+    it('should only show drafts to their creator', () => {
+      const draft = { ...competition, status: 'draft' as const };
+      expect(canViewCompetition(draft, 'creator', true)).toBe(true);
+      expect(canViewCompetition(draft, 'other', true)).toBe(false);
+    });
+
+    it('should only show private competitions to participants', () => {
+      const privateCompetition = { ...competition, isPublic: false };
+      expect(canViewCompetition(privateCompetition, 'other', true)).toBe(true);
+      expect(canViewCompetition(privateCompetition, 'other', false)).toBe(false);
+      expect(canViewCompetition(competition, 'other', false)).toBe(true);
+    });
+  });
+
+  describe('aggregateTeamScore', () => {
+    const scores = [100, 400, 250, 50];
+
+    it('should sum or average member scores', () => {
+      expect(aggregateTeamScore(scores, 'sum', null)).toBe(800);
+      expect(aggregateTeamScore(scores, 'average', null)).toBe(200);
+      expect(aggregateTeamScore([10, 10, 11], 'average', null)).toBe(10.33);
+    });
+
+    it('should add up the best N members, or all of a smaller team', () => {
+      expect(aggregateTeamScore(scores, 'best_n', 2)).toBe(650);
+      expect(aggregateTeamScore([100], 'best_n', 3)).toBe(100);
+    });
+
+    it('should score empty teams 0', () => {
+      expect(aggregateTeamScore([], 'average', null)).toBe(0);
+    });
+  });
+
+  describe('toTeamRules', () => {
+    it('should only return rules for team competitions', () => {
+      expect(toTeamRules({ type: 'team', teamScoring: 'best_n', teamScoringTopN: 3, maxTeamSize: 5 }))
+        .toEqual({ scoring: 'best_n', topN: 3, maxTeamSize: 5 });
+      expect(toTeamRules({ type: 'individual', teamScoring: null, teamScoringTopN: null, maxTeamSize: null })).toBeNull();
+    });
+  });
+
+  describe('cursor utilities', () => {
+    it('should round-trip score and date cursors', () => {
+      const scoreCursor = { id: 'p-1', sortValue: 1250.5, sortField: 'score' as const };
+      const dateCursor = { id: 'c-1', sortValue: '2026-01-10T10:00:00.000Z', sortField: 'startDate' as const };
+      expect(decodeCursor(encodeCursor(scoreCursor))).toEqual(scoreCursor);
+      expect(decodeCursor(encodeCursor(dateCursor))).toEqual(dateCursor);
+    });
+
+    it('should reject cursors whose value does not match the sort field', () => {
+      expect(decodeCursor(encodeCursor({ id: 'p-1', sortValue: '100', sortField: 'score' }))).toBeNull();
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+    });
+  });
+});
+
+describe('competition validation', () => {
+  const now = new Date('2026-01-10T00:00:00Z');
+  const valid = {
+    name: '  January Volume  ',
+    type: 'individual',
+    metric: 'total_volume',
+    startDate: '2026-01-01T00:00:00Z',
+    endDate: '2026-02-01T00:00:00Z',
+  };
+
+  it('should accept a competition and default to public', () => {
+    const result = validateCreateCompetition(valid, now);
+    expect(result.sanitized).toEqual({
+      name: 'January Volume',
+      type: 'individual',
+      metric: 'total_volume',
+      startDate: '2026-01-01T00:00:00.000Z',
+      endDate: '2026-02-01T00:00:00.000Z',
+      isPublic: true,
+    });
+  });
+
+  it('should require a target exercise only for best_e1rm', () => {
+    expect(validateCreateCompetition({ ...valid, metric: 'best_e1rm' }, now).valid).toBe(false);
+    expect(validateCreateCompetition({
+      ...valid,
+      metric: 'best_e1rm',
+      targetExerciseId: '123e4567-e89b-12d3-a456-426614174000',
+    }, now).valid).toBe(true);
+    expect(validateCreateCompetition({
+      ...valid,
+      targetExerciseId: '123e4567-e89b-12d3-a456-426614174000',
+    }, now).valid).toBe(false);
+  });
+
+  it('should reject ended or inverted date ranges', () => {
+    expect(validateCreateCompetition({ ...valid, endDate: '2026-01-05T00:00:00Z' }, now).errors)
+      .toContain('endDate must be in the future');
+    expect(validateCreateCompetition({ ...valid, startDate: '2026-03-01T00:00:00Z' }, now).errors)
+      .toContain('endDate must be after startDate');
+  });
+
+  it('should bound maxParticipants', () => {
+    expect(validateCreateCompetition({ ...valid, maxParticipants: 1 }, now).valid).toBe(false);
+    expect(validateCreateCompetition({ ...valid, maxParticipants: 10 }, now).sanitized?.maxParticipants).toBe(10);
+  });
+
+  it('should require team rules for team competitions only', () => {
+    expect(validateCreateCompetition({ ...valid, type: 'team' }, now).valid).toBe(false);
+    expect(validateCreateCompetition({ ...valid, type: 'team', teamScoring: 'best_n' }, now).valid).toBe(false);
+    expect(validateCreateCompetition({
+      ...valid,
+      type: 'team',
+      teamScoring: 'best_n',
+      teamScoringTopN: 3,
+      maxTeamSize: 5,
+    }, now).sanitized).toMatchObject({ type: 'team', teamScoring: 'best_n', teamScoringTopN: 3, maxTeamSize: 5 });
+    expect(validateCreateCompetition({ ...valid, teamScoring: 'sum' }, now).valid).toBe(false);
+  });
+
+  it('should validate team names', () => {
+    expect(validateCreateTeam({ name: '  Iron Crew ' }).sanitized).toEqual({ name: 'Iron Crew' });
+    expect(validateCreateTeam({ name: 'a'.repeat(101) }).valid).toBe(false);
+  });
+
+  it('should validate list queries', () => {
+    expect(validateCompetitionListQuery({ limit: '10', metric: 'workout_count' }).sanitized)
+      .toEqual({ limit: 10, metric: 'workout_count' });
+    expect(validateCompetitionListQuery({ metric: 'steps' }).valid).toBe(false);
+  });
+
+  it('should normalize entry codes', () => {
+    expect(normalizeEntryCode(' abcd2345 ')).toBe('ABCD2345');
+    expect(normalizeEntryCode('abc-123')).toBeNull();
+    expect(normalizeEntryCode(42)).toBeNull();
+  });
+});
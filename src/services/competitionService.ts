@@ -0,0 +1,1302 @@
+import { randomInt } from 'crypto';
+import { db } from '../db';
+import {
+  competitions,
+  competitionParticipants,
+  competitionTeams,
+  users,
+  exercises,
+  workouts,
+  workoutExercises,
+  sets,
+} from '../db/schema';
+import { eq, and, or, asc, desc, gt, gte, lt, lte, ne, inArray, isNull, sql, SQL } from 'drizzle-orm';
+import {
+  CompetitionMetric,
+  CompetitionType,
+  TeamRules,
+  TeamScoring,
+  CompetitionListItem,
+  CompetitionDetail,
+  CompetitionListQuery,
+  CompetitionListResponse,
+  MyCompetitionsResponse,
+  LeaderboardQuery,
+  LeaderboardEntry,
+  LeaderboardResponse,
+  CompetitionCursorData,
+  CompetitionSortOption,
+  CreateCompetitionInput,
+  CreateTeamInput,
+  CompetitionTeam,
+  CompetitionTeamListResponse,
+  TeamLeaderboardEntry,
+  TeamLeaderboardResponse,
+  TeamReference,
+} from '../models/competition.types';
+import { computeRecordsFromSets, RecordCandidateSet } from './personalRecordService';
+import { recordLoadLbs } from './setMetrics';
+import { toUserSummary } from './followService';
+import { logInfo, logError } from '../utils/errorResponse';
+
+type CompetitionRecord = typeof competitions.$inferSelect;
+type ParticipantRecord = typeof competitionParticipants.$inferSelect;
+type TeamRecord = typeof competitionTeams.$inferSelect;
+type ScoringCompetition = Pick<CompetitionRecord, 'id' | 'type' | 'teamScoring' | 'teamScoringTopN'>;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// ============ Constants ============
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_CURSOR_LENGTH = 500;
+
+// Uppercase letters and digits without look-alikes (0/O, 1/I/L)
+const ENTRY_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const ENTRY_CODE_LENGTH = 8;
+const ENTRY_CODE_ATTEMPTS = 5;
+
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000;
+
+// ============ Cursor Utilities ============
+
+export function encodeCursor(data: CompetitionCursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): CompetitionCursorData | null {
+  try {
+    if (cursor.length > MAX_CURSOR_LENGTH) {
+      return null;
+    }
+
+    const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+    const parsed = JSON.parse(decoded);
+
+    if (!isValidCursorData(parsed)) {
+      return null;
+    }
+
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function isValidCursorData(data: unknown): data is CompetitionCursorData {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const cursor = data as Record<string, unknown>;
+
+  if (typeof cursor.id !== 'string' || cursor.id.length === 0) {
+    return false;
+  }
+
+  const validSortFields: CompetitionSortOption[] = ['startDate', 'score'];
+  if (typeof cursor.sortField !== 'string' || !validSortFields.includes(cursor.sortField as CompetitionSortOption)) {
+    return false;
+  }
+
+  // Dates page by ISO string, scores by number
+  if (cursor.sortField === 'score') {
+    return typeof cursor.sortValue === 'number' && Number.isFinite(cursor.sortValue);
+  }
+  return typeof cursor.sortValue === 'string';
+}
+
+// ============ Rules ============
+
+/**
+ * Standard competition ranking by score, highest first: tied scores share
+ * a rank and the next rank skips ahead (1, 2, 2, 4)
+ */
+export function rankParticipants(entries: { id: string; score: number }[]): Map<string, number> {
+  const sorted = [...entries].sort((a, b) => b.score - a.score);
+  const ranks = new Map<string, number>();
+
+  sorted.forEach((entry, index) => {
+    const previous = sorted[index - 1];
+    const rank = previous && previous.score === entry.score ? ranks.get(previous.id)! : index + 1;
+    ranks.set(entry.id, rank);
+  });
+
+  return ranks;
+}
+
+export function generateEntryCode(): string {
+  let code = '';
+  for (let i = 0; i < ENTRY_CODE_LENGTH; i++) {
+    code += ENTRY_CODE_ALPHABET[randomInt(ENTRY_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Drafts are only visible to their creator; private competitions to their
+ * creator and participants; public ones to everyone
+ */
+export function canViewCompetition(
+  competition: Pick<CompetitionRecord, 'creatorId' | 'status' | 'isPublic'>,
+  viewerId: string,
+  isParticipant: boolean
+): boolean {
+  if (competition.creatorId === viewerId) return true;
+  if (competition.status === 'draft') return false;
+  return competition.isPublic !== false || isParticipant;
+}
+
+/**
+ * A team's score from its members' scores, per the competition's team rules.
+ * Teams with fewer than N members count what they have for best_n.
+ */
+export function aggregateTeamScore(memberScores: number[], scoring: TeamScoring, topN: number | null): number {
+  if (memberScores.length === 0) return 0;
+
+  let score: number;
+  switch (scoring) {
+    case 'sum':
+      score = memberScores.reduce((total, s) => total + s, 0);
+      break;
+    case 'average':
+      score = memberScores.reduce((total, s) => total + s, 0) / memberScores.length;
+      break;
+    case 'best_n':
+      score = [...memberScores]
+        .sort((a, b) => b - a)
+        .slice(0, topN ?? memberScores.length)
+        .reduce((total, s) => total + s, 0);
+      break;
+  }
+  return Math.round(score * 100) / 100;
+}
+
+export function toTeamRules(competition: Pick<CompetitionRecord, 'type' | 'teamScoring' | 'teamScoringTopN' | 'maxTeamSize'>): TeamRules | null {
+  if (competition.type !== 'team' || !competition.teamScoring) return null;
+  return {
+    scoring: competition.teamScoring,
+    topN: competition.teamScoringTopN,
+    maxTeamSize: competition.maxTeamSize,
+  };
+}
+
+function parseScore(value: string | null): number {
+  return parseFloat(value ?? '0') || 0;
+}
+
+// ============ Scoring ============
+
+/**
+ * Scores of the given users in a competition, from their completed workouts
+ * dated between startDate (inclusive) and endDate (exclusive). Users with
+ * no qualifying workouts score 0.
+ */
+async function computeScores(
+  competition: Pick<CompetitionRecord, 'metric' | 'targetExerciseId' | 'startDate' | 'endDate'>,
+  userIds: string[]
+): Promise<Map<string, number>> {
+  const scores = new Map(userIds.map(id => [id, 0]));
+  if (userIds.length === 0) return scores;
+
+  const workoutConditions = and(
+    inArray(workouts.userId, userIds),
+    eq(workouts.isCompleted, true),
+    isNull(workouts.deletedAt),
+    gte(workouts.date, competition.startDate),
+    lt(workouts.date, competition.endDate)
+  );
+
+  const metric = competition.metric as CompetitionMetric;
+
+  if (metric === 'total_volume' || metric === 'workout_count') {
+    const rows = await db
+      .select({
+        userId: workouts.userId,
+        totalVolume: sql<string>`COALESCE(SUM(${workouts.totalVolumeLbs}), 0)`,
+        workoutCount: sql<number>`COUNT(*)::int`,
+      })
+      .from(workouts)
+      .where(workoutConditions)
+      .groupBy(workouts.userId);
+
+    for (const row of rows) {
+      const score = metric === 'total_volume'
+        ? Math.round(parseFloat(row.totalVolume) * 100) / 100
+        : row.workoutCount;
+      scores.set(row.userId, score);
+    }
+    return scores;
+  }
+
+  // best_e1rm: the '1rm' personal record over the window's sets of the target exercise
+  if (!competition.targetExerciseId) return scores;
+
+  const setRows = await db
+    .select({
+      userId: workouts.userId,
+      setId: sets.id,
+      reps: sets.reps,
+      weightLbs: sets.weightLbs,
+      loadType: sets.loadType,
+      achievedAt: workouts.date,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(and(
+      workoutConditions,
+      eq(workoutExercises.exerciseId, competition.targetExerciseId),
+      ne(sets.setType, 'warmup')
+    ));
+
+  const setsByUser = new Map<string, RecordCandidateSet[]>();
+  for (const row of setRows) {
+    const candidates = setsByUser.get(row.userId) ?? [];
+    candidates.push({
+      setId: row.setId,
+      reps: row.reps,
+      weightLbs: recordLoadLbs({ weightLbs: parseFloat(row.weightLbs) || 0, loadType: row.loadType }),
+      achievedAt: row.achievedAt,
+    });
+    setsByUser.set(row.userId, candidates);
+  }
+
+  for (const [userId, candidates] of setsByUser) {
+    scores.set(userId, computeRecordsFromSets(candidates).get('1rm')?.value ?? 0);
+  }
+  return scores;
+}
+
+/**
+ * Writes changed scores, then re-ranks the whole competition and, for team
+ * competitions, its teams. Pass an empty map to only re-rank.
+ */
+async function applyScores(competition: ScoringCompetition, scores: Map<string, number>): Promise<void> {
+  const participants = await db
+    .select()
+    .from(competitionParticipants)
+    .where(eq(competitionParticipants.competitionId, competition.id));
+
+  const now = new Date();
+  const entries = participants.map(p => ({
+    participant: p,
+    score: scores.get(p.userId) ?? parseScore(p.currentScore),
+  }));
+  const ranks = rankParticipants(entries.map(e => ({ id: e.participant.id, score: e.score })));
+
+  await db.transaction(async (tx) => {
+    for (const { participant, score } of entries) {
+      const rank = ranks.get(participant.id) ?? null;
+      const scoreChanged = scores.has(participant.userId) && score !== parseScore(participant.currentScore);
+      if (!scoreChanged && rank === participant.rank) continue;
+
+      await tx
+        .update(competitionParticipants)
+        .set({
+          currentScore: score.toFixed(2),
+          rank,
+          ...(scoreChanged ? { lastUpdatedAt: now } : {}),
+        })
+        .where(eq(competitionParticipants.id, participant.id));
+    }
+
+    if (competition.type === 'team' && competition.teamScoring) {
+      const teams = await tx
+        .select()
+        .from(competitionTeams)
+        .where(eq(competitionTeams.competitionId, competition.id));
+
+      const teamScores = teams.map(team => ({
+        team,
+        score: aggregateTeamScore(
+          entries.filter(e => e.participant.teamId === team.id).map(e => e.score),
+          competition.teamScoring!,
+          competition.teamScoringTopN
+        ),
+      }));
+      const teamRanks = rankParticipants(teamScores.map(t => ({ id: t.team.id, score: t.score })));
+
+      for (const { team, score } of teamScores) {
+        const rank = teamRanks.get(team.id) ?? null;
+        if (score === parseScore(team.currentScore) && rank === team.rank) continue;
+
+        await tx
+          .update(competitionTeams)
+          .set({ currentScore: score.toFixed(2), rank, updatedAt: now })
+          .where(eq(competitionTeams.id, team.id));
+      }
+    }
+  });
+}
+
+/**
+ * Recomputes the user's score in every active competition they're in.
+ * Called after a sync writes workouts.
+ */
+export async function refreshCompetitionScoresForUser(userId: string): Promise<void> {
+  const rows = await db
+    .select({ competition: competitions })
+    .from(competitionParticipants)
+    .innerJoin(competitions, eq(competitionParticipants.competitionId, competitions.id))
+    .where(and(
+      eq(competitionParticipants.userId, userId),
+      eq(competitions.status, 'active')
+    ));
+
+  for (const { competition } of rows) {
+    const scores = await computeScores(competition, [userId]);
+    await applyScores(competition, scores);
+  }
+}
+
+/**
+ * Completes active competitions whose endDate has passed. Every participant
+ * is rescored one last time; ranks are final from then on, since scores
+ * are only refreshed while a competition is active.
+ */
+export async function completeEndedCompetitions(now: Date = new Date()): Promise<number> {
+  const ended = await db
+    .select()
+    .from(competitions)
+    .where(and(eq(competitions.status, 'active'), lte(competitions.endDate, now)));
+
+  for (const competition of ended) {
+    const participants = await db
+      .select({ userId: competitionParticipants.userId })
+      .from(competitionParticipants)
+      .where(eq(competitionParticipants.competitionId, competition.id));
+
+    const scores = await computeScores(competition, participants.map(p => p.userId));
+    await applyScores(competition, scores);
+
+    await db
+      .update(competitions)
+      .set({ status: 'completed', updatedAt: new Date() })
+      .where(and(eq(competitions.id, competition.id), eq(competitions.status, 'active')));
+  }
+
+  return ended.length;
+}
+
+/**
+ * Runs completeEndedCompetitions now and then every few minutes.
+ * The timer doesn't keep the process alive on shutdown.
+ */
+export function startCompetitionScheduler(intervalMs: number = SCHEDULER_INTERVAL_MS): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      const completed = await completeEndedCompetitions();
+      if (completed > 0) {
+        logInfo('CompetitionScheduler', `Completed ${completed} ended competition(s)`);
+      }
+    } catch (error) {
+      logError('CompetitionScheduler', error, 'competition-scheduler');
+    }
+  };
+
+  void run();
+  const timer = setInterval(run, intervalMs);
+  timer.unref();
+  return timer;
+}
+
+// ============ Response Helpers ============
+
+async function toListItems(rows: CompetitionRecord[]): Promise<CompetitionListItem[]> {
+  if (rows.length === 0) return [];
+
+  const competitionIds = rows.map(c => c.id);
+  const creatorIds = [...new Set(rows.map(c => c.creatorId))];
+  const exerciseIds = [...new Set(rows.map(c => c.targetExerciseId).filter((id): id is string => id !== null))];
+
+  const [creators, targetExercises, counts] = await Promise.all([
+    db
+      .select({ id: users.id, handle: users.handle, displayName: users.displayName, profilePictureUrl: users.profilePictureUrl })
+      .from(users)
+      .where(inArray(users.id, creatorIds)),
+    exerciseIds.length > 0
+      ? db.select({ id: exercises.id, name: exercises.name }).from(exercises).where(inArray(exercises.id, exerciseIds))
+      : Promise.resolve([]),
+    db
+      .select({ competitionId: competitionParticipants.competitionId, count: sql<number>`COUNT(*)::int` })
+      .from(competitionParticipants)
+      .where(inArray(competitionParticipants.competitionId, competitionIds))
+      .groupBy(competitionParticipants.competitionId),
+  ]);
+
+  const creatorMap = new Map(creators.map(u => [u.id, u]));
+  const exerciseMap = new Map(targetExercises.map(e => [e.id, e]));
+  const countMap = new Map(counts.map(c => [c.competitionId, c.count]));
+
+  return rows.map(c => ({
+    id: c.id,
+    name: c.name,
+    description: c.description,
+    type: c.type,
+    status: c.status,
+    metric: c.metric as CompetitionMetric,
+    targetExercise: c.targetExerciseId ? exerciseMap.get(c.targetExerciseId) ?? null : null,
+    startDate: c.startDate.toISOString(),
+    endDate: c.endDate.toISOString(),
+    maxParticipants: c.maxParticipants,
+    isPublic: c.isPublic !== false,
+    teamRules: toTeamRules(c),
+    participantCount: countMap.get(c.id) ?? 0,
+    creator: toUserSummary(creatorMap.get(c.creatorId)!),
+    createdAt: c.createdAt.toISOString(),
+  }));
+}
+
+async function toDetails(rows: CompetitionRecord[], viewerId: string): Promise<CompetitionDetail[]> {
+  if (rows.length === 0) return [];
+
+  const items = await toListItems(rows);
+  const standings = await db
+    .select()
+    .from(competitionParticipants)
+    .where(and(
+      eq(competitionParticipants.userId, viewerId),
+      inArray(competitionParticipants.competitionId, rows.map(c => c.id))
+    ));
+  const standingMap = new Map(standings.map(s => [s.competitionId, s]));
+  const teamMap = await loadTeamReferences(standings.map(s => s.teamId));
+
+  return items.map((item, index) => {
+    const competition = rows[index];
+    const standing = standingMap.get(competition.id);
+    const isCreator = competition.creatorId === viewerId;
+    return {
+      ...item,
+      entryCode: isCreator ? competition.entryCode : null,
+      isCreator,
+      myStanding: standing
+        ? {
+          score: parseScore(standing.currentScore),
+          rank: standing.rank,
+          team: standing.teamId ? teamMap.get(standing.teamId) ?? null : null,
+          joinedAt: standing.joinedAt.toISOString(),
+        }
+        : null,
+      updatedAt: competition.updatedAt.toISOString(),
+    };
+  });
+}
+
+async function loadTeamReferences(teamIds: (string | null)[]): Promise<Map<string, TeamReference>> {
+  const ids = [...new Set(teamIds.filter((id): id is string => id !== null))];
+  if (ids.length === 0) return new Map();
+
+  const rows = await db
+    .select({ id: competitionTeams.id, name: competitionTeams.name })
+    .from(competitionTeams)
+    .where(inArray(competitionTeams.id, ids));
+  return new Map(rows.map(t => [t.id, t]));
+}
+
+function toLeaderboardEntry(row: Pick<ParticipantRecord, 'rank' | 'currentScore' | 'joinedAt' | 'teamId'> & {
+  userId: string;
+  handle: string;
+  displayName: string | null;
+  profilePictureUrl: string | null;
+  teamName: string | null;
+}): LeaderboardEntry {
+  return {
+    rank: row.rank,
+    score: parseScore(row.currentScore),
+    user: toUserSummary({
+      id: row.userId,
+      handle: row.handle,
+      displayName: row.displayName,
+      profilePictureUrl: row.profilePictureUrl,
+    }),
+    team: row.teamId && row.teamName ? { id: row.teamId, name: row.teamName } : null,
+    joinedAt: row.joinedAt.toISOString(),
+  };
+}
+
+function toTeamLeaderboardEntry(team: Pick<TeamRecord, 'id' | 'name' | 'rank' | 'currentScore'> & { memberCount: number }): TeamLeaderboardEntry {
+  return {
+    rank: team.rank,
+    score: parseScore(team.currentScore),
+    team: { id: team.id, name: team.name, memberCount: team.memberCount },
+  };
+}
+
+async function findTeams(competitionId: string, teamIds?: string[]): Promise<TeamRecord[]> {
+  const conditions: SQL[] = [eq(competitionTeams.competitionId, competitionId)];
+  if (teamIds) {
+    conditions.push(inArray(competitionTeams.id, teamIds));
+  }
+
+  return db
+    .select()
+    .from(competitionTeams)
+    .where(and(...conditions))
+    .orderBy(asc(competitionTeams.name));
+}
+
+async function toTeams(teams: TeamRecord[]): Promise<CompetitionTeam[]> {
+  if (teams.length === 0) return [];
+
+  const members = await db
+    .select({
+      teamId: competitionParticipants.teamId,
+      id: users.id,
+      handle: users.handle,
+      displayName: users.displayName,
+      profilePictureUrl: users.profilePictureUrl,
+    })
+    .from(competitionParticipants)
+    .innerJoin(users, eq(competitionParticipants.userId, users.id))
+    .where(inArray(competitionParticipants.teamId, teams.map(t => t.id)))
+    .orderBy(asc(competitionParticipants.joinedAt));
+
+  const captainIds = [...new Set(teams.map(t => t.captainId))];
+  const captains = await db
+    .select({ id: users.id, handle: users.handle, displayName: users.displayName, profilePictureUrl: users.profilePictureUrl })
+    .from(users)
+    .where(inArray(users.id, captainIds));
+  const captainMap = new Map(captains.map(u => [u.id, u]));
+
+  return teams.map(team => {
+    const roster = members.filter(m => m.teamId === team.id).map(toUserSummary);
+    return {
+      id: team.id,
+      name: team.name,
+      captain: toUserSummary(captainMap.get(team.captainId)!),
+      score: parseScore(team.currentScore),
+      rank: team.rank,
+      memberCount: roster.length,
+      members: roster,
+      createdAt: team.createdAt.toISOString(),
+    };
+  });
+}
+
+// ============ Internal Helpers ============
+
+async function findCompetition(competitionId: string): Promise<CompetitionRecord | null> {
+  const [competition] = await db
+    .select()
+    .from(competitions)
+    .where(eq(competitions.id, competitionId))
+    .limit(1);
+
+  return competition || null;
+}
+
+async function isParticipant(competitionId: string, userId: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: competitionParticipants.id })
+    .from(competitionParticipants)
+    .where(and(
+      eq(competitionParticipants.competitionId, competitionId),
+      eq(competitionParticipants.userId, userId)
+    ))
+    .limit(1);
+
+  return !!row;
+}
+
+/**
+ * The competition if the viewer may see it, else null
+ */
+async function findVisibleCompetition(competitionId: string, viewerId: string): Promise<CompetitionRecord | null> {
+  const competition = await findCompetition(competitionId);
+  if (!competition) return null;
+
+  const joined = await isParticipant(competitionId, viewerId);
+  return canViewCompetition(competition, viewerId, joined) ? competition : null;
+}
+
+async function findOwnCompetition(competitionId: string, userId: string): Promise<CompetitionRecord> {
+  const competition = await findVisibleCompetition(competitionId, userId);
+  if (!competition) {
+    throw new CompetitionError('Competition not found', 404);
+  }
+  if (competition.creatorId !== userId) {
+    throw new CompetitionError('Only the creator can manage this competition', 403);
+  }
+  return competition;
+}
+
+async function generateUniqueEntryCode(): Promise<string> {
+  for (let attempt = 0; attempt < ENTRY_CODE_ATTEMPTS; attempt++) {
+    const code = generateEntryCode();
+    const [existing] = await db
+      .select({ id: competitions.id })
+      .from(competitions)
+      .where(eq(competitions.entryCode, code))
+      .limit(1);
+    if (!existing) return code;
+  }
+  throw new Error('Could not generate a unique entry code');
+}
+
+/**
+ * Adds the user to an active competition, holding a lock on the competition
+ * so concurrent joins can't go over maxParticipants
+ */
+async function addParticipant(competition: CompetitionRecord, userId: string): Promise<void> {
+  if (competition.status !== 'active' || competition.endDate <= new Date()) {
+    throw new CompetitionError('This competition is not open for joining', 409);
+  }
+
+  await db.transaction(async (tx) => {
+    const [locked] = await tx
+      .select()
+      .from(competitions)
+      .where(eq(competitions.id, competition.id))
+      .for('update');
+
+    if (locked.status !== 'active') {
+      throw new CompetitionError('This competition is not open for joining', 409);
+    }
+
+    const [existing] = await tx
+      .select({ id: competitionParticipants.id })
+      .from(competitionParticipants)
+      .where(and(
+        eq(competitionParticipants.competitionId, competition.id),
+        eq(competitionParticipants.userId, userId)
+      ))
+      .limit(1);
+    if (existing) {
+      throw new CompetitionError('Already joined this competition', 409);
+    }
+
+    if (locked.maxParticipants !== null) {
+      const [{ count }] = await tx
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(competitionParticipants)
+        .where(eq(competitionParticipants.competitionId, competition.id));
+      if (count >= locked.maxParticipants) {
+        throw new CompetitionError('This competition is full', 409);
+      }
+    }
+
+    await tx.insert(competitionParticipants).values({ competitionId: competition.id, userId });
+  });
+
+  // Count workouts already logged since the start
+  const scores = await computeScores(competition, [userId]);
+  await applyScores(competition, scores);
+}
+
+async function findParticipantForUpdate(
+  tx: Transaction,
+  competitionId: string,
+  userId: string
+): Promise<ParticipantRecord | null> {
+  const [participant] = await tx
+    .select()
+    .from(competitionParticipants)
+    .where(and(
+      eq(competitionParticipants.competitionId, competitionId),
+      eq(competitionParticipants.userId, userId)
+    ))
+    .for('update');
+
+  return participant || null;
+}
+
+/**
+ * Takes a participant off their team. The longest-standing remaining member
+ * becomes captain if the captain leaves; a team left empty is deleted.
+ */
+async function detachFromTeam(tx: Transaction, participant: ParticipantRecord): Promise<void> {
+  if (!participant.teamId) return;
+
+  const [team] = await tx
+    .select()
+    .from(competitionTeams)
+    .where(eq(competitionTeams.id, participant.teamId))
+    .for('update');
+
+  await tx
+    .update(competitionParticipants)
+    .set({ teamId: null })
+    .where(eq(competitionParticipants.id, participant.id));
+
+  if (!team) return;
+
+  const [nextCaptain] = await tx
+    .select({ userId: competitionParticipants.userId })
+    .from(competitionParticipants)
+    .where(eq(competitionParticipants.teamId, team.id))
+    .orderBy(asc(competitionParticipants.joinedAt), asc(competitionParticipants.id))
+    .limit(1);
+
+  if (!nextCaptain) {
+    await tx.delete(competitionTeams).where(eq(competitionTeams.id, team.id));
+  } else if (team.captainId === participant.userId) {
+    await tx
+      .update(competitionTeams)
+      .set({ captainId: nextCaptain.userId, updatedAt: new Date() })
+      .where(eq(competitionTeams.id, team.id));
+  }
+}
+
+/**
+ * A team competition the viewer may see and whose teams can still change
+ */
+async function findOpenTeamCompetition(competitionId: string, viewerId: string): Promise<CompetitionRecord> {
+  const competition = await findVisibleCompetition(competitionId, viewerId);
+  if (!competition) {
+    throw new CompetitionError('Competition not found', 404);
+  }
+  if (competition.type !== 'team') {
+    throw new CompetitionError('This is not a team competition', 400);
+  }
+  if (competition.status !== 'draft' && competition.status !== 'active') {
+    throw new CompetitionError(`Teams can no longer change in a ${competition.status} competition`, 409);
+  }
+  return competition;
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * Create a competition as a draft. The creator joins it right away;
+ * private competitions get an entry code for inviting others.
+ */
+export async function createCompetition(userId: string, input: CreateCompetitionInput): Promise<CompetitionDetail> {
+  const isPublicCompetition = input.isPublic !== false;
+  const entryCode = isPublicCompetition ? null : await generateUniqueEntryCode();
+
+  // Other participants can't log the creator's custom exercise, and listings would reveal its name
+  if (input.targetExerciseId) {
+    const [exercise] = await db
+      .select({ id: exercises.id })
+      .from(exercises)
+      .where(and(eq(exercises.id, input.targetExerciseId), eq(exercises.isCustom, false)))
+      .limit(1);
+    if (!exercise) {
+      throw new CompetitionError('Target exercise not found', 404);
+    }
+  }
+
+  const competition = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(competitions)
+      .values({
+        creatorId: userId,
+        name: input.name,
+        description: input.description ?? null,
+        type: input.type as CompetitionType,
+        metric: input.metric,
+        targetExerciseId: input.targetExerciseId ?? null,
+        startDate: new Date(input.startDate),
+        endDate: new Date(input.endDate),
+        maxParticipants: input.maxParticipants ?? null,
+        isPublic: isPublicCompetition,
+        entryCode,
+        teamScoring: input.teamScoring ?? null,
+        teamScoringTopN: input.teamScoringTopN ?? null,
+        maxTeamSize: input.maxTeamSize ?? null,
+      })
+      .returning();
+
+    await tx.insert(competitionParticipants).values({ competitionId: created.id, userId, rank: 1 });
+
+    return created;
+  });
+
+  const [detail] = await toDetails([competition], userId);
+  return detail;
+}
+
+/**
+ * Open a draft for joining and scoring (creator only)
+ */
+export async function publishCompetition(userId: string, competitionId: string): Promise<CompetitionDetail> {
+  const competition = await findOwnCompetition(competitionId, userId);
+  if (competition.status !== 'draft') {
+    throw new CompetitionError('Only draft competitions can be published', 409);
+  }
+  if (competition.endDate <= new Date()) {
+    throw new CompetitionError('This competition has already ended', 409);
+  }
+
+  const [published] = await db
+    .update(competitions)
+    .set({ status: 'active', updatedAt: new Date() })
+    .where(and(eq(competitions.id, competitionId), eq(competitions.status, 'draft')))
+    .returning();
+  if (!published) {
+    throw new CompetitionError('Only draft competitions can be published', 409);
+  }
+
+  // The creator's workouts since the start count from now on
+  const scores = await computeScores(published, [userId]);
+  await applyScores(published, scores);
+
+  const [detail] = await toDetails([published], userId);
+  return detail;
+}
+
+/**
+ * Cancel a draft or active competition (creator only). Standings are kept.
+ */
+export async function cancelCompetition(userId: string, competitionId: string): Promise<void> {
+  const competition = await findOwnCompetition(competitionId, userId);
+  if (competition.status !== 'draft' && competition.status !== 'active') {
+    throw new CompetitionError(`Cannot cancel a ${competition.status} competition`, 409);
+  }
+
+  await db
+    .update(competitions)
+    .set({ status: 'cancelled', updatedAt: new Date() })
+    .where(eq(competitions.id, competitionId));
+}
+
+/**
+ * Join a public competition from the listing
+ */
+export async function joinCompetition(userId: string, competitionId: string): Promise<CompetitionDetail> {
+  const competition = await findVisibleCompetition(competitionId, userId);
+  if (!competition) {
+    throw new CompetitionError('Competition not found', 404);
+  }
+  if (competition.isPublic === false) {
+    throw new CompetitionError('This competition requires an entry code', 403);
+  }
+
+  await addParticipant(competition, userId);
+
+  const [detail] = await toDetails([competition], userId);
+  return detail;
+}
+
+/**
+ * Join any competition with its entry code (codes are case-insensitive)
+ */
+export async function joinCompetitionByCode(userId: string, entryCode: string): Promise<CompetitionDetail> {
+  const [competition] = await db
+    .select()
+    .from(competitions)
+    .where(eq(competitions.entryCode, entryCode))
+    .limit(1);
+  if (!competition || competition.status === 'draft') {
+    throw new CompetitionError('Invalid entry code', 404);
+  }
+
+  await addParticipant(competition, userId);
+
+  const [detail] = await toDetails([competition], userId);
+  return detail;
+}
+
+/**
+ * Leave a competition before it completes. The creator can't leave their
+ * own competition; they cancel it instead.
+ */
+export async function leaveCompetition(userId: string, competitionId: string): Promise<void> {
+  const competition = await findVisibleCompetition(competitionId, userId);
+  if (!competition) {
+    throw new CompetitionError('Competition not found', 404);
+  }
+  if (competition.creatorId === userId) {
+    throw new CompetitionError('The creator cannot leave; cancel the competition instead', 400);
+  }
+  if (competition.status === 'completed') {
+    throw new CompetitionError('Cannot leave a completed competition', 409);
+  }
+
+  await db.transaction(async (tx) => {
+    const participant = await findParticipantForUpdate(tx, competitionId, userId);
+    if (!participant) {
+      throw new CompetitionError('Not a participant of this competition', 404);
+    }
+
+    await detachFromTeam(tx, participant);
+    await tx.delete(competitionParticipants).where(eq(competitionParticipants.id, participant.id));
+  });
+
+  await applyScores(competition, new Map());
+}
+
+/**
+ * Get a competition as seen by the viewer, or null if it's hidden from them
+ */
+export async function getCompetition(viewerId: string, competitionId: string): Promise<CompetitionDetail | null> {
+  const competition = await findVisibleCompetition(competitionId, viewerId);
+  if (!competition) return null;
+
+  const [detail] = await toDetails([competition], viewerId);
+  return detail;
+}
+
+/**
+ * Public competitions that can still be joined, soonest start first
+ */
+export async function listPublicCompetitions(query: CompetitionListQuery): Promise<CompetitionListResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+  const conditions: SQL[] = [
+    eq(competitions.status, 'active'),
+    eq(competitions.isPublic, true),
+    gt(competitions.endDate, new Date()),
+  ];
+
+  if (query.metric) {
+    conditions.push(eq(competitions.metric, query.metric));
+  }
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData && cursorData.sortField === 'startDate') {
+      conditions.push(or(
+        gt(competitions.startDate, new Date(cursorData.sortValue as string)),
+        and(eq(competitions.startDate, new Date(cursorData.sortValue as string)), gt(competitions.id, cursorData.id))
+      )!);
+    }
+  }
+
+  const rows = await db
+    .select()
+    .from(competitions)
+    .where(and(...conditions))
+    .orderBy(asc(competitions.startDate), asc(competitions.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1];
+    nextCursor = encodeCursor({
+      id: last.id,
+      sortValue: last.startDate.toISOString(),
+      sortField: 'startDate'
+    });
+  }
+
+  return {
+    competitions: await toListItems(page),
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+/**
+ * Competitions the user created or joined, latest start first
+ */
+export async function getMyCompetitions(userId: string): Promise<MyCompetitionsResponse> {
+  const rows = await db
+    .select()
+    .from(competitions)
+    .where(or(
+      eq(competitions.creatorId, userId),
+      sql`EXISTS (
+        SELECT 1 FROM competition_participants
+        WHERE competition_id = ${competitions.id} AND user_id = ${userId}
+      )`
+    ))
+    .orderBy(desc(competitions.startDate), asc(competitions.id));
+
+  return { competitions: await toDetails(rows, userId) };
+}
+
+/**
+ * Leaderboard page, highest score first, plus the viewer's own entry.
+ * Returns null if the competition is hidden from the viewer.
+ */
+export async function getLeaderboard(
+  viewerId: string,
+  competitionId: string,
+  query: LeaderboardQuery
+): Promise<LeaderboardResponse | null> {
+  const competition = await findVisibleCompetition(competitionId, viewerId);
+  if (!competition) return null;
+
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+  const conditions: SQL[] = [eq(competitionParticipants.competitionId, competitionId)];
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData && cursorData.sortField === 'score') {
+      conditions.push(sql`(${competitionParticipants.currentScore} < ${cursorData.sortValue}::numeric OR (${competitionParticipants.currentScore} = ${cursorData.sortValue}::numeric AND ${competitionParticipants.id} > ${cursorData.id}))`);
+    }
+  }
+
+  const selection = {
+    id: competitionParticipants.id,
+    rank: competitionParticipants.rank,
+    currentScore: competitionParticipants.currentScore,
+    joinedAt: competitionParticipants.joinedAt,
+    teamId: competitionParticipants.teamId,
+    teamName: competitionTeams.name,
+    userId: users.id,
+    handle: users.handle,
+    displayName: users.displayName,
+    profilePictureUrl: users.profilePictureUrl,
+  };
+
+  const rows = await db
+    .select(selection)
+    .from(competitionParticipants)
+    .innerJoin(users, eq(competitionParticipants.userId, users.id))
+    .leftJoin(competitionTeams, eq(competitionParticipants.teamId, competitionTeams.id))
+    .where(and(...conditions))
+    .orderBy(desc(competitionParticipants.currentScore), asc(competitionParticipants.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  const [me] = await db
+    .select(selection)
+    .from(competitionParticipants)
+    .innerJoin(users, eq(competitionParticipants.userId, users.id))
+    .leftJoin(competitionTeams, eq(competitionParticipants.teamId, competitionTeams.id))
+    .where(and(
+      eq(competitionParticipants.competitionId, competitionId),
+      eq(competitionParticipants.userId, viewerId)
+    ))
+    .limit(1);
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1];
+    nextCursor = encodeCursor({
+      id: last.id,
+      sortValue: parseScore(last.currentScore),
+      sortField: 'score'
+    });
+  }
+
+  return {
+    competitionId,
+    status: competition.status,
+    metric: competition.metric as CompetitionMetric,
+    entries: page.map(toLeaderboardEntry),
+    me: me ? toLeaderboardEntry(me) : null,
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+// ============ Team Functions ============
+
+/**
+ * Create a team and move the creator onto it as captain.
+ * Only participants can create teams, while the competition is open.
+ */
+export async function createTeam(userId: string, competitionId: string, input: CreateTeamInput): Promise<CompetitionTeam> {
+  const competition = await findOpenTeamCompetition(competitionId, userId);
+
+  const team = await db.transaction(async (tx) => {
+    const participant = await findParticipantForUpdate(tx, competitionId, userId);
+    if (!participant) {
+      throw new CompetitionError('Join the competition before creating a team', 403);
+    }
+
+    const [existing] = await tx
+      .select({ id: competitionTeams.id })
+      .from(competitionTeams)
+      .where(and(eq(competitionTeams.competitionId, competitionId), eq(competitionTeams.name, input.name)))
+      .limit(1);
+    if (existing) {
+      throw new CompetitionError('A team with this name already exists', 409);
+    }
+
+    await detachFromTeam(tx, participant);
+
+    const [created] = await tx
+      .insert(competitionTeams)
+      .values({ competitionId, captainId: userId, name: input.name })
+      .returning();
+
+    await tx
+      .update(competitionParticipants)
+      .set({ teamId: created.id })
+      .where(eq(competitionParticipants.id, participant.id));
+
+    return created;
+  });
+
+  await applyScores(competition, new Map());
+
+  const [result] = await toTeams(await findTeams(competitionId, [team.id]));
+  return result;
+}
+
+/**
+ * Join a team, leaving the current one. Holds a lock on the team so
+ * concurrent joins can't go over maxTeamSize.
+ */
+export async function joinTeam(userId: string, competitionId: string, teamId: string): Promise<CompetitionTeam> {
+  const competition = await findOpenTeamCompetition(competitionId, userId);
+
+  await db.transaction(async (tx) => {
+    const participant = await findParticipantForUpdate(tx, competitionId, userId);
+    if (!participant) {
+      throw new CompetitionError('Join the competition before joining a team', 403);
+    }
+    if (participant.teamId === teamId) {
+      throw new CompetitionError('Already on this team', 409);
+    }
+
+    const [team] = await tx
+      .select()
+      .from(competitionTeams)
+      .where(and(eq(competitionTeams.id, teamId), eq(competitionTeams.competitionId, competitionId)))
+      .for('update');
+    if (!team) {
+      throw new CompetitionError('Team not found', 404);
+    }
+
+    if (competition.maxTeamSize !== null) {
+      const [{ count }] = await tx
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(competitionParticipants)
+        .where(eq(competitionParticipants.teamId, teamId));
+      if (count >= competition.maxTeamSize) {
+        throw new CompetitionError('This team is full', 409);
+      }
+    }
+
+    await detachFromTeam(tx, participant);
+    await tx
+      .update(competitionParticipants)
+      .set({ teamId })
+      .where(eq(competitionParticipants.id, participant.id));
+  });
+
+  await applyScores(competition, new Map());
+
+  const [result] = await toTeams(await findTeams(competitionId, [teamId]));
+  return result;
+}
+
+/**
+ * Leave your team but stay in the competition
+ */
+export async function leaveTeam(userId: string, competitionId: string): Promise<void> {
+  const competition = await findOpenTeamCompetition(competitionId, userId);
+
+  await db.transaction(async (tx) => {
+    const participant = await findParticipantForUpdate(tx, competitionId, userId);
+    if (!participant?.teamId) {
+      throw new CompetitionError('Not on a team in this competition', 404);
+    }
+    await detachFromTeam(tx, participant);
+  });
+
+  await applyScores(competition, new Map());
+}
+
+/**
+ * All teams of a competition with their rosters, by name.
+ * Returns null if the competition is hidden from the viewer.
+ */
+export async function getTeams(viewerId: string, competitionId: string): Promise<CompetitionTeamListResponse | null> {
+  const competition = await findVisibleCompetition(competitionId, viewerId);
+  if (!competition) return null;
+
+  return { teams: await toTeams(await findTeams(competitionId)) };
+}
+
+/**
+ * Team leaderboard page, highest score first, plus the viewer's team.
+ * Returns null if the competition is hidden from the viewer.
+ */
+export async function getTeamLeaderboard(
+  viewerId: string,
+  competitionId: string,
+  query: LeaderboardQuery
+): Promise<TeamLeaderboardResponse | null> {
+  const competition = await findVisibleCompetition(competitionId, viewerId);
+  if (!competition) return null;
+
+  const teamRules = toTeamRules(competition);
+  if (!teamRules) {
+    throw new CompetitionError('This is not a team competition', 400);
+  }
+
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+  const conditions: SQL[] = [eq(competitionTeams.competitionId, competitionId)];
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData && cursorData.sortField === 'score') {
+      conditions.push(sql`(${competitionTeams.currentScore} < ${cursorData.sortValue}::numeric OR (${competitionTeams.currentScore} = ${cursorData.sortValue}::numeric AND ${competitionTeams.id} > ${cursorData.id}))`);
+    }
+  }
+
+  const selection = {
+    id: competitionTeams.id,
+    name: competitionTeams.name,
+    rank: competitionTeams.rank,
+    currentScore: competitionTeams.currentScore,
+    memberCount: sql<number>`(SELECT COUNT(*)::int FROM competition_participants WHERE team_id = ${competitionTeams.id})`,
+  };
+
+  const rows = await db
+    .select(selection)
+    .from(competitionTeams)
+    .where(and(...conditions))
+    .orderBy(desc(competitionTeams.currentScore), asc(competitionTeams.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  const [myTeam] = await db
+    .select(selection)
+    .from(competitionTeams)
+    .innerJoin(competitionParticipants, eq(competitionParticipants.teamId, competitionTeams.id))
+    .where(and(
+      eq(competitionTeams.competitionId, competitionId),
+      eq(competitionParticipants.userId, viewerId)
+    ))
+    .limit(1);
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1];
+    nextCursor = encodeCursor({
+      id: last.id,
+      sortValue: parseScore(last.currentScore),
+      sortField: 'score'
+    });
+  }
+
+  return {
+    competitionId,
+    status: competition.status,
+    metric: competition.metric as CompetitionMetric,
+    teamRules,
+    entries: page.map(toTeamLeaderboardEntry),
+    myTeam: myTeam ? toTeamLeaderboardEntry(myTeam) : null,
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+// ============ Custom Errors ============
+
+/**
+ * Thrown when a competition action isn't allowed.
+ * The route layer responds with `statusCode`.
+ */
+export class CompetitionError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'CompetitionError';
+    this.statusCode = statusCode;
+  }
+}
@@ -0,0 +1,65 @@
+// Mock the database module before importing deviceService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  userDevices: {}
+}));
+
+import { resolveDownloadCursor, toDeviceCheckpoint } from './deviceService';
+
+describe('deviceService', () => {
+  describe('resolveDownloadCursor', () => {
+    it('should use the server checkpoint when the client sends no cursor', () => {
+      expect(resolveDownloadCursor(undefined, 42)).toBe(42);
+    });
+
+    it('should use the client cursor when the server has no checkpoint', () => {
+      expect(resolveDownloadCursor(42, null)).toBe(42);
+    });
+
+    it('should return null when neither side has a cursor', () => {
+      expect(resolveDownloadCursor<number>(undefined, null)).toBeNull();
+    });
+
+    it('should not let a client cursor skip past the server checkpoint', () => {
+      expect(resolveDownloadCursor(100, 42)).toBe(42);
+    });
+
+    it('should honor an earlier client cursor', () => {
+      expect(resolveDownloadCursor(10, 42)).toBe(10);
+    });
+
+    it('should let a reset checkpoint override the client cursor', () => {
+      expect(resolveDownloadCursor(100, 0)).toBe(0);
+    });
+
+    it('should compare timestamps', () => {
+      const client = new Date('2024-01-20T00:00:00.000Z');
+      const server = new Date('2024-01-15T00:00:00.000Z');
+      expect(resolveDownloadCursor(client, server)).toBe(server);
+      expect(resolveDownloadCursor(server, client)).toBe(server);
+    });
+  });
+
+  describe('toDeviceCheckpoint', () => {
+    it('should serialize the checkpoint', () => {
+      expect(toDeviceCheckpoint({
+        syncCheckpointAt: new Date('2024-01-15T10:00:00.000Z'),
+        lastChangeSequence: 12
+      })).toEqual({
+        lastServerSync: '2024-01-15T10:00:00.000Z',
+        lastChangeSequence: 12
+      });
+    });
+
+    it('should report missing checkpoints as null', () => {
+      expect(toDeviceCheckpoint({ syncCheckpointAt: null, lastChangeSequence: null })).toEqual({
+        lastServerSync: null,
+        lastChangeSequence: null
+      });
+    });
+  });
+});
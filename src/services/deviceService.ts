@@ -0,0 +1,144 @@
+import { db } from '../db';
+import { userDevices } from '../db/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import {
+  DeviceCheckpoint,
+  UserDeviceItem,
+  UserDeviceListResponse,
+} from '../models/device.types';
+
+type UserDeviceRecord = typeof userDevices.$inferSelect;
+
+// ============ Constants ============
+
+// Checkpoint a reset rewinds to; unlike a missing checkpoint, it overrides the client's cursor
+const RESET_CHECKPOINT_AT = new Date(0);
+const RESET_CHANGE_SEQUENCE = 0;
+
+// ============ Helper Functions ============
+
+export function toDeviceCheckpoint(device: Pick<UserDeviceRecord, 'syncCheckpointAt' | 'lastChangeSequence'>): DeviceCheckpoint {
+  return {
+    lastServerSync: device.syncCheckpointAt?.toISOString() ?? null,
+    lastChangeSequence: device.lastChangeSequence,
+  };
+}
+
+/**
+ * Picks where a download should start from, given the cursor the client sent
+ * and the checkpoint the server recorded for the device.
+ *
+ * The earlier of the two wins: a client cursor that runs ahead of the server
+ * (clock skew, a bug, a restored backup) must not skip data, while a client that
+ * lost its cursor (reinstall) resumes from the server checkpoint instead of
+ * redownloading everything. A full resync goes through POST /api/sync/reset.
+ */
+export function resolveDownloadCursor<T extends number | Date>(
+  clientCursor: T | undefined,
+  serverCheckpoint: T | null
+): T | null {
+  if (clientCursor === undefined) return serverCheckpoint;
+  if (serverCheckpoint === null) return clientCursor;
+  return clientCursor < serverCheckpoint ? clientCursor : serverCheckpoint;
+}
+
+function toUserDeviceItem(device: UserDeviceRecord): UserDeviceItem {
+  return {
+    id: device.id,
+    deviceId: device.deviceId,
+    deviceName: device.deviceName,
+    deviceType: device.deviceType,
+    appVersion: device.appVersion,
+    osVersion: device.osVersion,
+    isActive: device.isActive ?? true,
+    lastActiveAt: device.lastActiveAt?.toISOString() ?? null,
+    lastSyncAt: device.lastSyncAt?.toISOString() ?? null,
+    checkpoint: toDeviceCheckpoint(device),
+    createdAt: device.createdAt.toISOString(),
+  };
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * List the user's registered devices, most recently active first
+ */
+export async function getUserDevices(userId: string): Promise<UserDeviceListResponse> {
+  const devices = await db
+    .select()
+    .from(userDevices)
+    .where(eq(userDevices.userId, userId))
+    .orderBy(desc(userDevices.lastActiveAt), desc(userDevices.createdAt));
+
+  return { devices: devices.map(toUserDeviceItem) };
+}
+
+/**
+ * Records what a device received in a download. The change sequence only
+ * moves forward so an out-of-order request can't rewind it; resets go
+ * through resetDeviceCheckpoint.
+ */
+export async function advanceDeviceCheckpoint(
+  userId: string,
+  deviceId: string,
+  update: { syncedAt?: Date; lastChangeSequence?: number }
+): Promise<DeviceCheckpoint | null> {
+  const [device] = await db
+    .update(userDevices)
+    .set({
+      ...(update.syncedAt && { syncCheckpointAt: update.syncedAt }),
+      ...(update.lastChangeSequence !== undefined && {
+        lastChangeSequence: sql`GREATEST(COALESCE(${userDevices.lastChangeSequence}, 0), ${update.lastChangeSequence})`,
+      }),
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(userDevices.userId, userId),
+      eq(userDevices.deviceId, deviceId)
+    ))
+    .returning();
+
+  return device ? toDeviceCheckpoint(device) : null;
+}
+
+/**
+ * Rewinds a device's checkpoint to the start of history so its next sync
+ * downloads everything, whatever cursor the client sends.
+ * Returns null if the device isn't registered to the user.
+ */
+export async function resetDeviceCheckpoint(
+  userId: string,
+  deviceId: string
+): Promise<DeviceCheckpoint | null> {
+  const [device] = await db
+    .update(userDevices)
+    .set({
+      syncCheckpointAt: RESET_CHECKPOINT_AT,
+      lastChangeSequence: RESET_CHANGE_SEQUENCE,
+      updatedAt: new Date(),
+    })
+    .where(and(
+      eq(userDevices.userId, userId),
+      eq(userDevices.deviceId, deviceId)
+    ))
+    .returning();
+
+  return device ? toDeviceCheckpoint(device) : null;
+}
+
+/**
+ * Revokes a device by removing its registration, push token and checkpoint.
+ * If the device syncs again it is registered afresh.
+ * Returns false if the device doesn't exist or belongs to another user.
+ */
+export async function revokeDevice(userId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(userDevices)
+    .where(and(
+      eq(userDevices.id, id),
+      eq(userDevices.userId, userId)
+    ))
+    .returning();
+
+  return deleted.length > 0;
+}
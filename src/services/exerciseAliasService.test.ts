@@ -0,0 +1,196 @@
+// Mock the database module before importing exerciseAliasService
+jest.mock('../db', () => ({
+  db: { select: jest.fn(), transaction: jest.fn() }
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  exercises: {},
+  exerciseAliases: {},
+  exerciseAliasProposals: {},
+  exerciseAliasProposers: {},
+  users: {},
+  userFollows: {},
+  userBlocks: {}
+}));
+
+import { db } from '../db';
+import { exercises, exerciseAliasProposers } from '../db/schema';
+import { encodeCursor, decodeCursor, proposeAlias } from './exerciseAliasService';
+import {
+  normalizeAlias,
+  validateProposeAlias,
+  validateAliasProposalListQuery,
+} from '../utils/validation';
+
+describe('exerciseAliasService', () => {
+  describe('cursor utilities', () => {
+    it('should round-trip cursor data', () => {
+      const data = { id: 'abc-123', sortValue: 7, sortField: 'occurrences' as const };
+      expect(decodeCursor(encodeCursor(data))).toEqual(data);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+    });
+
+    it('should reject cursors with a non-integer sort value', () => {
+      const cursor = Buffer.from(JSON.stringify({ id: 'abc', sortValue: 1.5, sortField: 'occurrences' })).toString('base64url');
+      expect(decodeCursor(cursor)).toBeNull();
+    });
+
+    it('should reject cursors with an unknown sort field', () => {
+      const cursor = Buffer.from(JSON.stringify({ id: 'abc', sortValue: 1, sortField: 'name' })).toString('base64url');
+      expect(decodeCursor(cursor)).toBeNull();
+    });
+
+    it('should reject oversized cursors', () => {
+      expect(decodeCursor('a'.repeat(501))).toBeNull();
+    });
+  });
+
+  describe('proposeAlias', () => {
+    const mockDb = db as unknown as { select: jest.Mock; transaction: jest.Mock };
+    let proposal: { id: string; exerciseId: string; alias: string; source: string; status: string; occurrences: number; createdAt: Date; updatedAt: Date } | null;
+    let proposers: Set<string>;
+
+    // Keeps one proposal and its proposers in memory, the way the unique keys would
+    beforeEach(() => {
+      proposal = null;
+      proposers = new Set();
+
+      mockDb.select.mockReturnValue({
+        from: (table: unknown) => ({
+          where: () => ({
+            limit: async () => (table === exercises ? [{ id: 'exercise-1', name: 'Bench Press' }] : [])
+          })
+        })
+      });
+
+      const tx = {
+        insert: (table: unknown) => ({
+          values: (values: { userId?: string }) => ({
+            onConflictDoUpdate: () => ({
+              returning: async () => {
+                proposal = proposal ?? {
+                  id: 'proposal-1',
+                  exerciseId: 'exercise-1',
+                  alias: 'bench',
+                  source: 'user',
+                  status: 'pending',
+                  occurrences: 0,
+                  createdAt: new Date(),
+                  updatedAt: new Date()
+                };
+                return [{ ...proposal }];
+              }
+            }),
+            onConflictDoNothing: () => ({
+              returning: async () => {
+                if (table !== exerciseAliasProposers || proposers.has(values.userId!)) {
+                  return [];
+                }
+                proposers.add(values.userId!);
+                return [values];
+              }
+            })
+          })
+        }),
+        update: () => ({
+          set: () => ({
+            where: () => ({
+              returning: async () => {
+                proposal!.occurrences++;
+                return [{ ...proposal! }];
+              }
+            })
+          })
+        })
+      };
+      mockDb.transaction.mockImplementation((callback: (t: typeof tx) => unknown) => callback(tx));
+    });
+
+    it('should create a proposal for its first proposer', async () => {
+      const result = await proposeAlias('exercise-1', 'user-1', 'bench');
+      expect(result).toMatchObject({ created: true, proposal: { occurrences: 1 } });
+    });
+
+    it('should count each other user once', async () => {
+      await proposeAlias('exercise-1', 'user-1', 'bench');
+      const result = await proposeAlias('exercise-1', 'user-2', 'bench');
+      expect(result).toMatchObject({ created: false, proposal: { occurrences: 2 } });
+    });
+
+    it("should not count a user re-proposing someone else's alias again", async () => {
+      await proposeAlias('exercise-1', 'user-1', 'bench');
+      await proposeAlias('exercise-1', 'user-2', 'bench');
+      const result = await proposeAlias('exercise-1', 'user-2', 'bench');
+      expect(result).toMatchObject({ created: false, proposal: { occurrences: 2 } });
+    });
+  });
+
+  describe('normalizeAlias', () => {
+    it('should trim, collapse whitespace and lowercase', () => {
+      expect(normalizeAlias('  Skull   Crushers ')).toBe('skull crushers');
+    });
+
+    it('should leave a normalized alias unchanged', () => {
+      expect(normalizeAlias('rdl')).toBe('rdl');
+    });
+  });
+
+  describe('validateProposeAlias', () => {
+    it('should accept and normalize a valid alias', () => {
+      const result = validateProposeAlias({ alias: ' RDL ' });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ alias: 'rdl' });
+    });
+
+    it('should reject a non-object body', () => {
+      expect(validateProposeAlias(null).valid).toBe(false);
+    });
+
+    it('should reject a missing alias', () => {
+      const result = validateProposeAlias({});
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('alias is required and must be a string');
+    });
+
+    it('should reject an alias that is too short after trimming', () => {
+      expect(validateProposeAlias({ alias: ' a ' }).valid).toBe(false);
+    });
+
+    it('should reject an alias that is too long', () => {
+      expect(validateProposeAlias({ alias: 'a'.repeat(101) }).valid).toBe(false);
+    });
+  });
+
+  describe('validateAliasProposalListQuery', () => {
+    it('should accept an empty query', () => {
+      const result = validateAliasProposalListQuery({});
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({});
+    });
+
+    it('should accept status, source and limit', () => {
+      const result = validateAliasProposalListQuery({ status: 'approved', source: 'sync', limit: '50' });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ status: 'approved', source: 'sync', limit: 50 });
+    });
+
+    it('should reject an unknown status', () => {
+      const result = validateAliasProposalListQuery({ status: 'archived' });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('status must be one of: pending, approved, rejected');
+    });
+
+    it('should reject an unknown source', () => {
+      expect(validateAliasProposalListQuery({ source: 'admin' }).valid).toBe(false);
+    });
+
+    it('should reject out-of-range limits', () => {
+      expect(validateAliasProposalListQuery({ limit: '0' }).valid).toBe(false);
+      expect(validateAliasProposalListQuery({ limit: '101' }).valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,422 @@
+import { db } from '../db';
+import {
+  exercises,
+  exerciseAliases,
+  exerciseAliasProposals,
+  exerciseAliasProposers,
+  users
+} from '../db/schema';
+import { eq, and, sql, desc, SQL } from 'drizzle-orm';
+import {
+  AliasProposal,
+  AliasProposalQueueItem,
+  AliasProposalListQuery,
+  AliasProposalListResponse,
+  AliasProposalCursorData,
+  AliasProposalSortOption,
+  ProposeAliasResponse
+} from '../models/exerciseAlias.types';
+import { normalizeAlias, EXERCISE_LIMITS } from '../utils/validation';
+import { toUserSummary } from './followService';
+
+// ============ Constants ============
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_CURSOR_LENGTH = 500;
+
+// Sync names at least this similar to a library exercise become alias
+// candidates. Stricter than the 0.3 search threshold, since a candidate
+// claims the name means that exercise rather than merely resembling it.
+const MINING_SIMILARITY_THRESHOLD = 0.5;
+
+type ProposalRecord = typeof exerciseAliasProposals.$inferSelect;
+
+// ============ Cursor Utilities ============
+
+export function encodeCursor(data: AliasProposalCursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): AliasProposalCursorData | null {
+  try {
+    if (cursor.length > MAX_CURSOR_LENGTH) {
+      return null;
+    }
+
+    const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+    const parsed = JSON.parse(decoded);
+
+    if (!isValidCursorData(parsed)) {
+      return null;
+    }
+
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function isValidCursorData(data: unknown): data is AliasProposalCursorData {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const cursor = data as Record<string, unknown>;
+
+  if (typeof cursor.id !== 'string' || cursor.id.length === 0) {
+    return false;
+  }
+
+  if (typeof cursor.sortValue !== 'number' || !Number.isInteger(cursor.sortValue)) {
+    return false;
+  }
+
+  const validSortFields: AliasProposalSortOption[] = ['occurrences'];
+  if (typeof cursor.sortField !== 'string' || !validSortFields.includes(cursor.sortField as AliasProposalSortOption)) {
+    return false;
+  }
+
+  return true;
+}
+
+// ============ Proposal Functions ============
+
+/**
+ * Propose an alias for a library exercise. Proposing an alias someone else
+ * already proposed (or sync already mined) adds to its occurrences instead,
+ * once per user.
+ * Returns null if the exercise doesn't exist or isn't a library exercise.
+ */
+export async function proposeAlias(
+  exerciseId: string,
+  userId: string,
+  alias: string
+): Promise<ProposeAliasResponse | null> {
+  const [exercise] = await db
+    .select({ id: exercises.id, name: exercises.name })
+    .from(exercises)
+    .where(and(eq(exercises.id, exerciseId), eq(exercises.isCustom, false)))
+    .limit(1);
+
+  if (!exercise) {
+    return null;
+  }
+
+  if (alias === normalizeAlias(exercise.name)) {
+    throw new AliasProposalError('An alias cannot repeat the exercise name', 409);
+  }
+  if (await isExistingAlias(exerciseId, alias)) {
+    throw new AliasProposalError(`"${alias}" is already an alias for this exercise`, 409);
+  }
+
+  return db.transaction(async (tx) => {
+    // Creates the proposal, or locks the existing one until this proposer is counted
+    const [proposal] = await tx
+      .insert(exerciseAliasProposals)
+      .values({
+        exerciseId,
+        alias,
+        source: 'user',
+        proposedBy: userId,
+        occurrences: 0
+      })
+      .onConflictDoUpdate({
+        target: [exerciseAliasProposals.exerciseId, exerciseAliasProposals.alias],
+        set: {
+          proposedBy: sql`COALESCE(${exerciseAliasProposals.proposedBy}, ${userId}::uuid)`
+        }
+      })
+      .returning();
+
+    // Each user counts once, however often they propose it
+    const [proposer] = await tx
+      .insert(exerciseAliasProposers)
+      .values({ proposalId: proposal.id, userId })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!proposer) {
+      return { proposal: toAliasProposal(proposal), created: false };
+    }
+
+    const [counted] = await tx
+      .update(exerciseAliasProposals)
+      .set({
+        occurrences: sql`${exerciseAliasProposals.occurrences} + 1`,
+        updatedAt: new Date()
+      })
+      .where(eq(exerciseAliasProposals.id, proposal.id))
+      .returning();
+
+    return { proposal: toAliasProposal(counted), created: counted.occurrences === 1 };
+  });
+}
+
+/**
+ * Record a free-text exercise name from sync that matched nothing exactly.
+ * If it fuzzy-matches a library exercise closely enough, it becomes (or adds
+ * an occurrence to) a sync-sourced alias candidate for moderation.
+ */
+export async function recordSyncAliasCandidate(name: string): Promise<void> {
+  const alias = normalizeAlias(name);
+  if (alias.length < EXERCISE_LIMITS.MIN_ALIAS_LENGTH || alias.length > EXERCISE_LIMITS.MAX_NAME_LENGTH) {
+    return;
+  }
+
+  const similarity = sql<number>`GREATEST(
+    word_similarity(${alias}, ${exercises.name}),
+    COALESCE((
+      SELECT MAX(word_similarity(${alias}, ea.alias))
+      FROM exercise_aliases ea
+      WHERE ea.exercise_id = ${exercises.id}
+    ), 0)
+  )`;
+
+  const [match] = await db
+    .select({ id: exercises.id, similarity })
+    .from(exercises)
+    .where(and(
+      eq(exercises.isCustom, false),
+      sql`${similarity} >= ${MINING_SIMILARITY_THRESHOLD}`
+    ))
+    .orderBy(desc(similarity), desc(exercises.popularityScore))
+    .limit(1);
+
+  if (!match || await isExistingAlias(match.id, alias)) {
+    return;
+  }
+
+  await db
+    .insert(exerciseAliasProposals)
+    .values({
+      exerciseId: match.id,
+      alias,
+      source: 'sync',
+      similarity: Number(match.similarity)
+    })
+    .onConflictDoUpdate({
+      target: [exerciseAliasProposals.exerciseId, exerciseAliasProposals.alias],
+      set: {
+        occurrences: sql`${exerciseAliasProposals.occurrences} + 1`,
+        similarity: sql`GREATEST(${exerciseAliasProposals.similarity}, excluded.similarity)`,
+        updatedAt: new Date()
+      }
+    });
+}
+
+/**
+ * Find the library exercise an approved alias exactly names (case-insensitive).
+ * If several exercises share the alias, the most popular wins.
+ */
+export async function findExerciseIdByAlias(name: string): Promise<string | null> {
+  const [match] = await db
+    .select({ id: exercises.id })
+    .from(exerciseAliases)
+    .innerJoin(exercises, eq(exerciseAliases.exerciseId, exercises.id))
+    .where(and(
+      eq(exerciseAliases.alias, normalizeAlias(name)),
+      eq(exercises.isCustom, false)
+    ))
+    .orderBy(desc(exercises.popularityScore))
+    .limit(1);
+
+  return match?.id ?? null;
+}
+
+// ============ Moderation Functions ============
+
+/**
+ * Moderation queue, most frequently proposed or seen first
+ */
+export async function getAliasProposals(query: AliasProposalListQuery): Promise<AliasProposalListResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const conditions: SQL[] = [eq(exerciseAliasProposals.status, query.status || 'pending')];
+
+  if (query.source) {
+    conditions.push(eq(exerciseAliasProposals.source, query.source));
+  }
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData) {
+      conditions.push(sql`(${exerciseAliasProposals.occurrences} < ${cursorData.sortValue} OR (${exerciseAliasProposals.occurrences} = ${cursorData.sortValue} AND ${exerciseAliasProposals.id} > ${cursorData.id}))`);
+    }
+  }
+
+  const results = await db
+    .select({
+      proposal: exerciseAliasProposals,
+      exerciseName: exercises.name,
+      proposer: {
+        id: users.id,
+        handle: users.handle,
+        displayName: users.displayName,
+        profilePictureUrl: users.profilePictureUrl
+      }
+    })
+    .from(exerciseAliasProposals)
+    .innerJoin(exercises, eq(exerciseAliasProposals.exerciseId, exercises.id))
+    .leftJoin(users, eq(exerciseAliasProposals.proposedBy, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(exerciseAliasProposals.occurrences), exerciseAliasProposals.id)
+    .limit(limit + 1);
+
+  const hasMore = results.length > limit;
+  const page = hasMore ? results.slice(0, limit) : results;
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1].proposal;
+    nextCursor = encodeCursor({ id: last.id, sortValue: last.occurrences, sortField: 'occurrences' });
+  }
+
+  const proposals: AliasProposalQueueItem[] = page.map(row => ({
+    ...toAliasProposal(row.proposal),
+    exercise: {
+      id: row.proposal.exerciseId,
+      name: row.exerciseName
+    },
+    similarity: row.proposal.similarity,
+    proposedBy: row.proposer ? toUserSummary(row.proposer) : null,
+    reviewedAt: row.proposal.reviewedAt ? row.proposal.reviewedAt.toISOString() : null
+  }));
+
+  return {
+    proposals,
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+/**
+ * Approve a proposal, adding it to exercise_aliases so search picks it up
+ * immediately. Approving an approved proposal changes nothing.
+ * Returns null if the proposal doesn't exist.
+ */
+export async function approveAliasProposal(proposalId: string, adminId: string): Promise<AliasProposal | null> {
+  return db.transaction(async (tx) => {
+    const [proposal] = await tx
+      .select()
+      .from(exerciseAliasProposals)
+      .where(eq(exerciseAliasProposals.id, proposalId))
+      .for('update')
+      .limit(1);
+
+    if (!proposal) {
+      return null;
+    }
+    if (proposal.status === 'approved') {
+      return toAliasProposal(proposal);
+    }
+
+    await tx
+      .insert(exerciseAliases)
+      .values({ exerciseId: proposal.exerciseId, alias: proposal.alias })
+      .onConflictDoNothing();
+
+    const [approved] = await tx
+      .update(exerciseAliasProposals)
+      .set({
+        status: 'approved',
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(exerciseAliasProposals.id, proposalId))
+      .returning();
+
+    return toAliasProposal(approved);
+  });
+}
+
+/**
+ * Reject a proposal. Rejecting an approved proposal also removes the alias.
+ * Rejected aliases stay rejected when proposed or mined again.
+ * Returns null if the proposal doesn't exist.
+ */
+export async function rejectAliasProposal(proposalId: string, adminId: string): Promise<AliasProposal | null> {
+  return db.transaction(async (tx) => {
+    const [proposal] = await tx
+      .select()
+      .from(exerciseAliasProposals)
+      .where(eq(exerciseAliasProposals.id, proposalId))
+      .for('update')
+      .limit(1);
+
+    if (!proposal) {
+      return null;
+    }
+    if (proposal.status === 'rejected') {
+      return toAliasProposal(proposal);
+    }
+
+    if (proposal.status === 'approved') {
+      await tx
+        .delete(exerciseAliases)
+        .where(and(
+          eq(exerciseAliases.exerciseId, proposal.exerciseId),
+          eq(exerciseAliases.alias, proposal.alias)
+        ));
+    }
+
+    const [rejected] = await tx
+      .update(exerciseAliasProposals)
+      .set({
+        status: 'rejected',
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(exerciseAliasProposals.id, proposalId))
+      .returning();
+
+    return toAliasProposal(rejected);
+  });
+}
+
+// ============ Helper Functions ============
+
+async function isExistingAlias(exerciseId: string, alias: string): Promise<boolean> {
+  const [existing] = await db
+    .select({ id: exerciseAliases.id })
+    .from(exerciseAliases)
+    .where(and(
+      eq(exerciseAliases.exerciseId, exerciseId),
+      eq(exerciseAliases.alias, alias)
+    ))
+    .limit(1);
+
+  return !!existing;
+}
+
+function toAliasProposal(proposal: ProposalRecord): AliasProposal {
+  return {
+    id: proposal.id,
+    exerciseId: proposal.exerciseId,
+    alias: proposal.alias,
+    source: proposal.source,
+    status: proposal.status,
+    occurrences: proposal.occurrences,
+    createdAt: proposal.createdAt.toISOString(),
+    updatedAt: proposal.updatedAt.toISOString()
+  };
+}
+
+// ============ Custom Errors ============
+
+/**
+ * Thrown when an alias can't be proposed.
+ * The route layer responds with `statusCode`.
+ */
+export class AliasProposalError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'AliasProposalError';
+    this.statusCode = statusCode;
+  }
+}
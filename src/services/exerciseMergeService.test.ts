@@ -0,0 +1,133 @@
+// Mock the database module before importing exerciseMergeService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  exercises: {},
+  exerciseAliases: {},
+  workouts: {},
+  workoutExercises: {},
+  templateExercises: {},
+  userExerciseHistory: {},
+  personalRecords: {},
+  userStrengthProfiles: {},
+  competitions: {},
+  syncQueue: {},
+  sets: {}
+}));
+
+import { repointStrengthEntries, mergeAliasFor } from './exerciseMergeService';
+import { StrengthEntry } from './strengthProfileService';
+import {
+  validateDuplicateCandidateQuery,
+  validateMergeExercises,
+} from '../utils/validation';
+
+const SOURCE_ID = '11111111-1111-4111-8111-111111111111';
+const TARGET_ID = '22222222-2222-4222-8222-222222222222';
+
+function entry(exerciseId: string, exerciseName: string): StrengthEntry {
+  return { exerciseId, exerciseName, weight: 225, unit: 'lb', reps: 5, sets: 3 };
+}
+
+describe('exerciseMergeService', () => {
+  describe('repointStrengthEntries', () => {
+    const target = { id: TARGET_ID, name: 'Barbell Bench Press' };
+
+    it('should repoint entries for the merged exercise', () => {
+      const result = repointStrengthEntries(
+        [entry(SOURCE_ID, 'Bench press'), entry('other', 'Squat')],
+        SOURCE_ID,
+        target
+      );
+
+      expect(result).toEqual([
+        entry(TARGET_ID, 'Barbell Bench Press'),
+        entry('other', 'Squat')
+      ]);
+    });
+
+    it('should keep weights, reps and sets', () => {
+      const [result] = repointStrengthEntries([entry(SOURCE_ID, 'Bench press')], SOURCE_ID, target)!;
+      expect(result).toMatchObject({ weight: 225, unit: 'lb', reps: 5, sets: 3 });
+    });
+
+    it('should return null when no entry references the merged exercise', () => {
+      expect(repointStrengthEntries([entry('other', 'Squat')], SOURCE_ID, target)).toBeNull();
+    });
+
+    it('should return null for an empty profile', () => {
+      expect(repointStrengthEntries([], SOURCE_ID, target)).toBeNull();
+    });
+  });
+
+  describe('mergeAliasFor', () => {
+    it('should normalize the merged name into an alias', () => {
+      expect(mergeAliasFor('  Bench   Press ', 'Barbell Bench Press')).toBe('bench press');
+    });
+
+    it('should return null when the names only differ in case or spacing', () => {
+      expect(mergeAliasFor('barbell  bench press', 'Barbell Bench Press')).toBeNull();
+    });
+  });
+
+  describe('validateDuplicateCandidateQuery', () => {
+    it('should accept an empty query', () => {
+      const result = validateDuplicateCandidateQuery({});
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({});
+    });
+
+    it('should parse limit and minSimilarity', () => {
+      const result = validateDuplicateCandidateQuery({ limit: '50', minSimilarity: '0.7' });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ limit: 50, minSimilarity: 0.7 });
+    });
+
+    it('should reject a non-numeric minSimilarity', () => {
+      const result = validateDuplicateCandidateQuery({ minSimilarity: 'high' });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('minSimilarity must be a number');
+    });
+
+    it('should reject an empty minSimilarity', () => {
+      expect(validateDuplicateCandidateQuery({ minSimilarity: '' }).valid).toBe(false);
+    });
+
+    it('should reject minSimilarity outside (0, 1]', () => {
+      expect(validateDuplicateCandidateQuery({ minSimilarity: '0' }).valid).toBe(false);
+      expect(validateDuplicateCandidateQuery({ minSimilarity: '1.5' }).valid).toBe(false);
+      expect(validateDuplicateCandidateQuery({ minSimilarity: '1' }).valid).toBe(true);
+    });
+
+    it('should reject out-of-range limits', () => {
+      expect(validateDuplicateCandidateQuery({ limit: '0' }).valid).toBe(false);
+      expect(validateDuplicateCandidateQuery({ limit: '101' }).valid).toBe(false);
+    });
+  });
+
+  describe('validateMergeExercises', () => {
+    it('should accept a different target exercise', () => {
+      const result = validateMergeExercises({ targetExerciseId: TARGET_ID }, SOURCE_ID);
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ targetExerciseId: TARGET_ID });
+    });
+
+    it('should reject a missing or invalid target', () => {
+      expect(validateMergeExercises({}, SOURCE_ID).valid).toBe(false);
+      expect(validateMergeExercises({ targetExerciseId: 'not-a-uuid' }, SOURCE_ID).valid).toBe(false);
+    });
+
+    it('should reject merging an exercise into itself', () => {
+      const result = validateMergeExercises({ targetExerciseId: SOURCE_ID.toUpperCase() }, SOURCE_ID);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('Cannot merge an exercise into itself');
+    });
+
+    it('should reject a non-object body', () => {
+      expect(validateMergeExercises(null, SOURCE_ID).valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,444 @@
+import { db } from '../db';
+import {
+  exercises,
+  exerciseAliases,
+  workouts,
+  workoutExercises,
+  templateExercises,
+  userExerciseHistory,
+  personalRecords,
+  userStrengthProfiles,
+  competitions
+} from '../db/schema';
+import { eq, and, sql, inArray } from 'drizzle-orm';
+import {
+  DuplicateCandidate,
+  DuplicateCandidateQuery,
+  DuplicateCandidateListResponse,
+  ExerciseMergeResult
+} from '../models/exerciseMerge.types';
+import { normalizeAlias } from '../utils/validation';
+import { recordChanges, toExerciseChangeData, ChangeInput } from './changeFeedService';
+import { StrengthEntry } from './strengthProfileService';
+
+// ============ Constants ============
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const DEFAULT_MIN_SIMILARITY = 0.5;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+type ExerciseRecord = typeof exercises.$inferSelect;
+
+// ============ Helper Functions ============
+
+/**
+ * Point strength entries for the merged exercise at the canonical one.
+ * Returns null when no entry referenced the merged exercise.
+ */
+export function repointStrengthEntries(
+  entries: StrengthEntry[],
+  sourceExerciseId: string,
+  target: { id: string; name: string }
+): StrengthEntry[] | null {
+  if (!entries.some(entry => entry.exerciseId === sourceExerciseId)) {
+    return null;
+  }
+
+  return entries.map(entry =>
+    entry.exerciseId === sourceExerciseId
+      ? { ...entry, exerciseId: target.id, exerciseName: target.name }
+      : entry
+  );
+}
+
+/**
+ * The alias to keep for the merged exercise's name, or null if it would
+ * only repeat the canonical exercise's name
+ */
+export function mergeAliasFor(sourceName: string, targetName: string): string | null {
+  const alias = normalizeAlias(sourceName);
+  return alias === normalizeAlias(targetName) ? null : alias;
+}
+
+function latest(a: Date | null, b: Date | null): Date | null {
+  if (!a) return b;
+  if (!b) return a;
+  return a > b ? a : b;
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * Custom exercises whose name (or one of the library exercise's aliases)
+ * is trigram-similar to a library exercise, most similar first. Each
+ * candidate is paired with its single best library match.
+ */
+export async function getDuplicateCandidates(query: DuplicateCandidateQuery): Promise<DuplicateCandidateListResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const minSimilarity = query.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+  const result = await db.execute(sql`
+    SELECT
+      s.id,
+      s.name,
+      s.created_by,
+      COALESCE(s.total_times_used, 0) AS total_times_used,
+      c.id AS canonical_id,
+      c.name AS canonical_name,
+      c.similarity
+    FROM exercises s
+    CROSS JOIN LATERAL (
+      SELECT
+        l.id,
+        l.name,
+        GREATEST(
+          similarity(LOWER(s.name), LOWER(l.name)),
+          COALESCE((
+            SELECT MAX(similarity(LOWER(s.name), ea.alias))
+            FROM exercise_aliases ea
+            WHERE ea.exercise_id = l.id
+          ), 0)
+        ) AS similarity
+      FROM exercises l
+      WHERE l.is_custom = false
+      ORDER BY similarity DESC, l.popularity_score DESC
+      LIMIT 1
+    ) c
+    WHERE s.is_custom = true
+      AND c.similarity >= ${minSimilarity}
+    ORDER BY c.similarity DESC, total_times_used DESC, s.id ASC
+    LIMIT ${limit}
+  `);
+
+  // Handle both array result and object with rows property
+  const rows = Array.isArray(result) ? result : (result as unknown as { rows: unknown[] }).rows;
+
+  const candidates: DuplicateCandidate[] = (rows as {
+    id: string;
+    name: string;
+    created_by: string | null;
+    total_times_used: string | number;
+    canonical_id: string;
+    canonical_name: string;
+    similarity: string | number;
+  }[]).map(row => ({
+    exercise: {
+      id: row.id,
+      name: row.name,
+      createdBy: row.created_by,
+      totalTimesUsed: Number(row.total_times_used)
+    },
+    canonical: {
+      id: row.canonical_id,
+      name: row.canonical_name
+    },
+    similarity: Number(row.similarity)
+  }));
+
+  return { candidates };
+}
+
+/**
+ * Merge one exercise into a library exercise in a single transaction.
+ *
+ * Workouts, templates, exercise history, personal records, strength profiles
+ * and competitions that used the merged exercise are repointed, its name and
+ * aliases become aliases of the target, and it is deleted. Where a user has
+ * history or a record for both, the two are combined. Repointed workout
+ * exercises are written to the change feed so devices pick up the new ID.
+ *
+ * Returns null if the source exercise doesn't exist.
+ */
+export async function mergeExercises(sourceExerciseId: string, targetExerciseId: string): Promise<ExerciseMergeResult | null> {
+  return db.transaction(async (tx) => {
+    const locked = await tx
+      .select()
+      .from(exercises)
+      .where(inArray(exercises.id, [sourceExerciseId, targetExerciseId]))
+      .for('update');
+
+    const source = locked.find(e => e.id === sourceExerciseId);
+    const target = locked.find(e => e.id === targetExerciseId);
+
+    if (!source) {
+      return null;
+    }
+    if (!target) {
+      throw new ExerciseMergeError('Target exercise not found', 404);
+    }
+    if (target.isCustom) {
+      throw new ExerciseMergeError('Target exercise must be a library exercise', 400);
+    }
+
+    const workoutExerciseCount = await repointWorkoutExercises(tx, source.id, target);
+
+    const movedTemplateExercises = await tx
+      .update(templateExercises)
+      .set({ exerciseId: target.id })
+      .where(eq(templateExercises.exerciseId, source.id))
+      .returning();
+
+    const exerciseHistoryCount = await mergeExerciseHistory(tx, source.id, target.id);
+    const personalRecordCount = await mergePersonalRecords(tx, source.id, target.id);
+    const strengthProfileCount = await repointStrengthProfiles(tx, source.id, target);
+
+    const movedCompetitions = await tx
+      .update(competitions)
+      .set({ targetExerciseId: target.id, updatedAt: new Date() })
+      .where(eq(competitions.targetExerciseId, source.id))
+      .returning();
+
+    const { aliasAdded, aliasCount } = await mergeAliases(tx, source, target);
+
+    await tx
+      .update(exercises)
+      .set({
+        totalTimesUsed: (target.totalTimesUsed ?? 0) + (source.totalTimesUsed ?? 0),
+        lastUsedAt: latest(target.lastUsedAt, source.lastUsedAt),
+        updatedAt: new Date()
+      })
+      .where(eq(exercises.id, target.id));
+
+    // Its old aliases and any alias proposals cascade
+    await tx.delete(exercises).where(eq(exercises.id, source.id));
+
+    return {
+      sourceExerciseId: source.id,
+      targetExerciseId: target.id,
+      aliasAdded,
+      repointed: {
+        workoutExercises: workoutExerciseCount,
+        templateExercises: movedTemplateExercises.length,
+        exerciseHistory: exerciseHistoryCount,
+        personalRecords: personalRecordCount,
+        strengthProfiles: strengthProfileCount,
+        competitions: movedCompetitions.length,
+        aliases: aliasCount
+      }
+    };
+  });
+}
+
+// ============ Merge Steps ============
+
+/**
+ * Repoint logged exercises and record the change for each owner's devices.
+ * The denormalized name follows the canonical exercise.
+ */
+async function repointWorkoutExercises(
+  tx: Transaction,
+  sourceExerciseId: string,
+  target: ExerciseRecord
+): Promise<number> {
+  const moved = await tx
+    .update(workoutExercises)
+    .set({
+      exerciseId: target.id,
+      exerciseName: target.name,
+      updatedAt: new Date()
+    })
+    .where(eq(workoutExercises.exerciseId, sourceExerciseId))
+    .returning();
+
+  if (moved.length === 0) {
+    return 0;
+  }
+
+  const workoutIds = [...new Set(moved.map(we => we.workoutId))];
+  const owners = await tx
+    .select({ id: workouts.id, userId: workouts.userId, clientId: workouts.clientId })
+    .from(workouts)
+    .where(inArray(workouts.id, workoutIds));
+  const ownerByWorkoutId = new Map(owners.map(w => [w.id, w]));
+
+  const changes: ChangeInput[] = [];
+  for (const workoutExercise of moved) {
+    const workout = ownerByWorkoutId.get(workoutExercise.workoutId);
+    if (!workout) continue;
+    changes.push({
+      userId: workout.userId,
+      entityType: 'exercise',
+      entityId: workoutExercise.id,
+      operation: 'update',
+      data: toExerciseChangeData(workoutExercise, workout.clientId || workout.id)
+    });
+  }
+
+  await recordChanges(tx, changes);
+  return moved.length;
+}
+
+/**
+ * History is unique per user and exercise, so a user who used both keeps
+ * one row with the counts added together
+ */
+async function mergeExerciseHistory(tx: Transaction, sourceExerciseId: string, targetExerciseId: string): Promise<number> {
+  await tx
+    .update(userExerciseHistory)
+    .set({
+      useCount: sql`${userExerciseHistory.useCount} + (
+        SELECT s.use_count FROM user_exercise_history s
+        WHERE s.exercise_id = ${sourceExerciseId} AND s.user_id = ${userExerciseHistory.userId}
+      )`,
+      lastUsedAt: sql`GREATEST(${userExerciseHistory.lastUsedAt}, (
+        SELECT s.last_used_at FROM user_exercise_history s
+        WHERE s.exercise_id = ${sourceExerciseId} AND s.user_id = ${userExerciseHistory.userId}
+      ))`,
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(userExerciseHistory.exerciseId, targetExerciseId),
+      sql`EXISTS (
+        SELECT 1 FROM user_exercise_history s
+        WHERE s.exercise_id = ${sourceExerciseId} AND s.user_id = ${userExerciseHistory.userId}
+      )`
+    ));
+
+  const combined = await tx
+    .delete(userExerciseHistory)
+    .where(and(
+      eq(userExerciseHistory.exerciseId, sourceExerciseId),
+      sql`EXISTS (
+        SELECT 1 FROM user_exercise_history t
+        WHERE t.exercise_id = ${targetExerciseId} AND t.user_id = ${userExerciseHistory.userId}
+      )`
+    ))
+    .returning();
+
+  const moved = await tx
+    .update(userExerciseHistory)
+    .set({ exerciseId: targetExerciseId, updatedAt: new Date() })
+    .where(eq(userExerciseHistory.exerciseId, sourceExerciseId))
+    .returning();
+
+  return combined.length + moved.length;
+}
+
+/**
+ * Records are unique per user, exercise and type, so where a user holds
+ * both the better one survives
+ */
+async function mergePersonalRecords(tx: Transaction, sourceExerciseId: string, targetExerciseId: string): Promise<number> {
+  const beaten = await tx
+    .delete(personalRecords)
+    .where(and(
+      eq(personalRecords.exerciseId, sourceExerciseId),
+      sql`EXISTS (
+        SELECT 1 FROM personal_records t
+        WHERE t.exercise_id = ${targetExerciseId}
+          AND t.user_id = ${personalRecords.userId}
+          AND t.record_type = ${personalRecords.recordType}
+          AND t.value >= ${personalRecords.value}
+      )`
+    ))
+    .returning();
+
+  // Whatever source records remain beat the target's, so drop the target's
+  await tx
+    .delete(personalRecords)
+    .where(and(
+      eq(personalRecords.exerciseId, targetExerciseId),
+      sql`EXISTS (
+        SELECT 1 FROM personal_records s
+        WHERE s.exercise_id = ${sourceExerciseId}
+          AND s.user_id = ${personalRecords.userId}
+          AND s.record_type = ${personalRecords.recordType}
+      )`
+    ));
+
+  const moved = await tx
+    .update(personalRecords)
+    .set({ exerciseId: targetExerciseId })
+    .where(eq(personalRecords.exerciseId, sourceExerciseId))
+    .returning();
+
+  return beaten.length + moved.length;
+}
+
+/**
+ * Strength entries live in a JSON array, so matching profiles are rewritten
+ */
+async function repointStrengthProfiles(
+  tx: Transaction,
+  sourceExerciseId: string,
+  target: ExerciseRecord
+): Promise<number> {
+  const profiles = await tx
+    .select({ id: userStrengthProfiles.id, strengthEntries: userStrengthProfiles.strengthEntries })
+    .from(userStrengthProfiles)
+    .where(sql`${userStrengthProfiles.strengthEntries} @> ${JSON.stringify([{ exerciseId: sourceExerciseId }])}::jsonb`)
+    .for('update');
+
+  let count = 0;
+  for (const profile of profiles) {
+    const entries = repointStrengthEntries(
+      (profile.strengthEntries || []) as StrengthEntry[],
+      sourceExerciseId,
+      target
+    );
+    if (!entries) continue;
+
+    await tx
+      .update(userStrengthProfiles)
+      .set({ strengthEntries: entries, updatedAt: new Date() })
+      .where(eq(userStrengthProfiles.id, profile.id));
+    count++;
+  }
+
+  return count;
+}
+
+/**
+ * Keep the merged exercise's name and aliases as aliases of the target so
+ * search and sync still find it by its old names
+ */
+async function mergeAliases(
+  tx: Transaction,
+  source: ExerciseRecord,
+  target: ExerciseRecord
+): Promise<{ aliasAdded: boolean; aliasCount: number }> {
+  const targetName = normalizeAlias(target.name);
+
+  const sourceAliases = await tx
+    .select({ alias: exerciseAliases.alias })
+    .from(exerciseAliases)
+    .where(eq(exerciseAliases.exerciseId, source.id));
+
+  const nameAlias = mergeAliasFor(source.name, target.name);
+  const aliases = [...new Set([
+    ...(nameAlias ? [nameAlias] : []),
+    ...sourceAliases.map(a => a.alias).filter(alias => alias !== targetName)
+  ])];
+
+  if (aliases.length === 0) {
+    return { aliasAdded: false, aliasCount: 0 };
+  }
+
+  const inserted = await tx
+    .insert(exerciseAliases)
+    .values(aliases.map(alias => ({ exerciseId: target.id, alias })))
+    .onConflictDoNothing()
+    .returning();
+
+  return {
+    aliasAdded: nameAlias !== null && inserted.some(a => a.alias === nameAlias),
+    aliasCount: inserted.length
+  };
+}
+
+// ============ Custom Errors ============
+
+/**
+ * Thrown when two exercises can't be merged.
+ * The route layer responds with `statusCode`.
+ */
+export class ExerciseMergeError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'ExerciseMergeError';
+    this.statusCode = statusCode;
+  }
+}
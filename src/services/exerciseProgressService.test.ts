@@ -0,0 +1,175 @@
+// Mock the database module before importing exerciseProgressService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  exercises: {},
+  exerciseAliases: {},
+  userExerciseHistory: {},
+  personalRecords: {},
+  workouts: {},
+  workoutExercises: {},
+  sets: {},
+  users: {},
+  difficultyLevelEnum: { enumValues: ['beginner', 'intermediate', 'advanced'] },
+  movementPatternEnum: { enumValues: ['push', 'pull', 'hinge', 'squat', 'lunge', 'carry', 'rotation', 'core'] },
+  exerciseTypeEnum: { enumValues: ['compound', 'isolation', 'cardio', 'plyometric', 'stretch'] },
+  muscleGroupEnum: { enumValues: ['chest', 'back', 'shoulders', 'biceps', 'triceps', 'quads', 'hamstrings', 'glutes', 'calves', 'abs', 'forearms', 'traps', 'lats'] }
+}));
+
+import { buildExerciseHistoryPoints, bucketStart, ProgressSet } from './exerciseProgressService';
+import { validateExerciseHistoryQuery } from '../utils/validation';
+
+function set(overrides: Partial<ProgressSet>): ProgressSet {
+  return {
+    workoutId: 'w1',
+    date: new Date('2026-03-04T18:00:00.000Z'), // Wednesday
+    reps: 5,
+    weightLbs: 200,
+    setType: 'working',
+    loadType: 'external',
+    ...overrides
+  };
+}
+
+describe('exerciseProgressService', () => {
+  describe('bucketStart', () => {
+    it('should start weeks on Monday (UTC)', () => {
+      expect(bucketStart(new Date('2026-03-04T18:00:00.000Z'), 'week').toISOString()).toBe('2026-03-02T00:00:00.000Z');
+    });
+
+    it('should put Sunday in the week that started the previous Monday', () => {
+      expect(bucketStart(new Date('2026-03-08T23:00:00.000Z'), 'week').toISOString()).toBe('2026-03-02T00:00:00.000Z');
+    });
+
+    it('should start months on the 1st (UTC)', () => {
+      expect(bucketStart(new Date('2026-03-31T12:00:00.000Z'), 'month').toISOString()).toBe('2026-03-01T00:00:00.000Z');
+    });
+  });
+
+  describe('buildExerciseHistoryPoints', () => {
+    it('should summarize a session', () => {
+      const [point] = buildExerciseHistoryPoints([
+        set({ reps: 5, weightLbs: 200 }),
+        set({ reps: 3, weightLbs: 220 }),
+        set({ reps: 8, weightLbs: 180 })
+      ], 'session', null);
+
+      expect(point).toEqual({
+        date: '2026-03-04T18:00:00.000Z',
+        workoutId: 'w1',
+        sessionCount: 1,
+        bestSet: { weightLbs: 220, reps: 3 },
+        estimatedOneRepMaxLbs: 242, // 220 × (1 + 3/30) beats 200 × (1 + 5/30) and 180 × (1 + 8/30)
+        totalVolumeLbs: 1000 + 660 + 1440,
+        setCount: 3
+      });
+    });
+
+    it('should break best set ties on reps', () => {
+      const [point] = buildExerciseHistoryPoints([
+        set({ reps: 5, weightLbs: 200 }),
+        set({ reps: 6, weightLbs: 200 })
+      ], 'session', null);
+
+      expect(point.bestSet).toEqual({ weightLbs: 200, reps: 6 });
+    });
+
+    it('should skip high-rep sets for e1RM but count their volume', () => {
+      const [point] = buildExerciseHistoryPoints([
+        set({ reps: 20, weightLbs: 100 })
+      ], 'session', null);
+
+      expect(point.estimatedOneRepMaxLbs).toBeNull();
+      expect(point.totalVolumeLbs).toBe(2000);
+    });
+
+    it('should use bodyweight for volume but not for best set or e1RM', () => {
+      const [point] = buildExerciseHistoryPoints([
+        set({ reps: 10, weightLbs: 0, loadType: 'bodyweight' })
+      ], 'session', 180);
+
+      expect(point.bestSet).toEqual({ weightLbs: 0, reps: 10 });
+      expect(point.estimatedOneRepMaxLbs).toBeNull();
+      expect(point.totalVolumeLbs).toBe(1800);
+    });
+
+    it('should return sessions oldest first', () => {
+      const points = buildExerciseHistoryPoints([
+        set({ workoutId: 'w2', date: new Date('2026-03-06T18:00:00.000Z') }),
+        set({ workoutId: 'w1', date: new Date('2026-03-04T18:00:00.000Z') })
+      ], 'session', null);
+
+      expect(points.map(p => p.workoutId)).toEqual(['w1', 'w2']);
+    });
+
+    it('should combine the sessions of a week', () => {
+      const points = buildExerciseHistoryPoints([
+        set({ workoutId: 'w1', date: new Date('2026-03-02T18:00:00.000Z'), reps: 5, weightLbs: 200 }),
+        set({ workoutId: 'w2', date: new Date('2026-03-05T18:00:00.000Z'), reps: 5, weightLbs: 210 }),
+        set({ workoutId: 'w3', date: new Date('2026-03-09T18:00:00.000Z'), reps: 5, weightLbs: 215 })
+      ], 'week', null);
+
+      expect(points).toHaveLength(2);
+      expect(points[0]).toMatchObject({
+        date: '2026-03-02T00:00:00.000Z',
+        workoutId: null,
+        sessionCount: 2,
+        bestSet: { weightLbs: 210, reps: 5 },
+        totalVolumeLbs: 2050,
+        setCount: 2
+      });
+      expect(points[1]).toMatchObject({ date: '2026-03-09T00:00:00.000Z', sessionCount: 1 });
+    });
+
+    it('should combine the sessions of a month', () => {
+      const points = buildExerciseHistoryPoints([
+        set({ workoutId: 'w1', date: new Date('2026-03-02T18:00:00.000Z') }),
+        set({ workoutId: 'w2', date: new Date('2026-03-30T18:00:00.000Z') })
+      ], 'month', null);
+
+      expect(points).toHaveLength(1);
+      expect(points[0]).toMatchObject({ date: '2026-03-01T00:00:00.000Z', sessionCount: 2, setCount: 2 });
+    });
+
+    it('should return no points without sets', () => {
+      expect(buildExerciseHistoryPoints([], 'week', null)).toEqual([]);
+    });
+  });
+
+  describe('validateExerciseHistoryQuery', () => {
+    it('should accept an empty query', () => {
+      const result = validateExerciseHistoryQuery({});
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({});
+    });
+
+    it('should accept a date range and bucket', () => {
+      const result = validateExerciseHistoryQuery({ from: '2026-01-01', to: '2026-03-31', bucket: 'week' });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({
+        from: '2026-01-01T00:00:00.000Z',
+        to: '2026-04-01T00:00:00.000Z', // A bare `to` date includes the whole day
+        bucket: 'week'
+      });
+    });
+
+    it('should reject an unknown bucket', () => {
+      const result = validateExerciseHistoryQuery({ bucket: 'year' });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('bucket must be one of: session, week, month');
+    });
+
+    it('should reject invalid dates', () => {
+      expect(validateExerciseHistoryQuery({ from: 'yesterday' }).valid).toBe(false);
+    });
+
+    it('should reject from after to', () => {
+      const result = validateExerciseHistoryQuery({ from: '2026-03-01', to: '2026-01-01' });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('from must be before to');
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { db } from '../db';
+import { exercises, workouts, workoutExercises, sets, users } from '../db/schema';
+import { eq, and, gte, lt, ne, isNull, SQL } from 'drizzle-orm';
+import {
+  ExerciseHistoryBucket,
+  ExerciseHistoryPoint,
+  ExerciseHistoryQuery,
+  ExerciseHistoryResponse
+} from '../models/exercise.types';
+import { recordLoadLbs, setVolumeLbs, SetLoad } from './setMetrics';
+import { estimateOneRepMax, getPersonalRecords, MAX_REPS_FOR_E1RM } from './personalRecordService';
+import { visibleExerciseCondition } from './exerciseService';
+
+// ============ Types ============
+
+/**
+ * A working set of the exercise, with the workout it was logged in
+ */
+export interface ProgressSet extends SetLoad {
+  workoutId: string;
+  date: Date;
+}
+
+// ============ Calculation Helpers ============
+
+function roundToHundredths(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Start of the week (Monday 00:00 UTC) or month (the 1st, 00:00 UTC) a
+ * workout falls in
+ */
+export function bucketStart(date: Date, bucket: Exclude<ExerciseHistoryBucket, 'session'>): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (bucket === 'week') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+/**
+ * Builds the chart series from an exercise's working sets, oldest first.
+ *
+ * Load follows the personal record rules: best set and e1RM use plate load
+ * (so bodyweight sets only show reps), e1RM ignores sets above
+ * MAX_REPS_FOR_E1RM, and volume counts bodyweight when the profile has it.
+ */
+export function buildExerciseHistoryPoints(
+  progressSets: ProgressSet[],
+  bucket: ExerciseHistoryBucket,
+  bodyweightLbs: number | null
+): ExerciseHistoryPoint[] {
+  const buckets = new Map<string, { point: ExerciseHistoryPoint; workoutIds: Set<string>; volumeLbs: number }>();
+
+  for (const set of progressSets) {
+    const start = bucket === 'session' ? set.date : bucketStart(set.date, bucket);
+    const key = bucket === 'session' ? set.workoutId : start.toISOString();
+
+    let entry = buckets.get(key);
+    if (!entry) {
+      entry = {
+        point: {
+          date: start.toISOString(),
+          workoutId: bucket === 'session' ? set.workoutId : null,
+          sessionCount: 0,
+          bestSet: null,
+          estimatedOneRepMaxLbs: null,
+          totalVolumeLbs: 0,
+          setCount: 0
+        },
+        workoutIds: new Set(),
+        volumeLbs: 0
+      };
+      buckets.set(key, entry);
+    }
+
+    const { point } = entry;
+    entry.workoutIds.add(set.workoutId);
+    entry.volumeLbs += setVolumeLbs(set, bodyweightLbs);
+    point.setCount++;
+
+    const weightLbs = recordLoadLbs(set);
+    if (!point.bestSet
+      || weightLbs > point.bestSet.weightLbs
+      || (weightLbs === point.bestSet.weightLbs && set.reps > point.bestSet.reps)) {
+      point.bestSet = { weightLbs, reps: set.reps };
+    }
+
+    if (weightLbs > 0 && set.reps >= 1 && set.reps <= MAX_REPS_FOR_E1RM) {
+      const e1rm = roundToHundredths(estimateOneRepMax(weightLbs, set.reps));
+      if (point.estimatedOneRepMaxLbs === null || e1rm > point.estimatedOneRepMaxLbs) {
+        point.estimatedOneRepMaxLbs = e1rm;
+      }
+    }
+  }
+
+  return Array.from(buckets.values())
+    .map(({ point, workoutIds, volumeLbs }) => ({
+      ...point,
+      sessionCount: workoutIds.size,
+      totalVolumeLbs: roundToHundredths(volumeLbs)
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * A user's progress on one exercise over time, with their current records
+ * for it. Returns null if the exercise doesn't exist or isn't visible to them.
+ */
+export async function getExerciseHistory(
+  userId: string,
+  exerciseId: string,
+  query: ExerciseHistoryQuery
+): Promise<ExerciseHistoryResponse | null> {
+  const [exercise] = await db
+    .select({ id: exercises.id, name: exercises.name })
+    .from(exercises)
+    .where(and(eq(exercises.id, exerciseId), visibleExerciseCondition(userId)))
+    .limit(1);
+
+  if (!exercise) {
+    return null;
+  }
+
+  const bucket = query.bucket || 'session';
+  const conditions: SQL[] = [
+    eq(workouts.userId, userId),
+    isNull(workouts.deletedAt),
+    eq(workoutExercises.exerciseId, exerciseId),
+    ne(sets.setType, 'warmup')
+  ];
+  if (query.from) {
+    conditions.push(gte(workouts.date, new Date(query.from)));
+  }
+  if (query.to) {
+    conditions.push(lt(workouts.date, new Date(query.to)));
+  }
+
+  const rows = await db
+    .select({
+      workoutId: workouts.id,
+      date: workouts.date,
+      reps: sets.reps,
+      weightLbs: sets.weightLbs,
+      setType: sets.setType,
+      loadType: sets.loadType
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(and(...conditions));
+
+  // Bodyweight sets need the user's weight to count towards volume load
+  const [profile] = await db
+    .select({ weight: users.weight })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  const points = buildExerciseHistoryPoints(
+    rows.map(row => ({ ...row, weightLbs: parseFloat(row.weightLbs) || 0 })),
+    bucket,
+    profile?.weight ?? null
+  );
+
+  const { records } = await getPersonalRecords(userId, { exerciseId });
+
+  return {
+    exercise,
+    bucket,
+    points,
+    personalRecords: records
+  };
+}
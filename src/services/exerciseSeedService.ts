@@ -7,6 +7,7 @@
  * because the standalone seed script requires tsx (a devDependency).
  */
 
+import { sql } from 'drizzle-orm';
 import { db } from '../db';
 import { exercises } from '../db/schema';
 import {
@@ -25,6 +26,7 @@ export async function seedExercisesOnStartup(): Promise<void> {
         .values(buildExerciseInsertValues(exercise))
         .onConflictDoUpdate({
           target: exercises.name,
+          targetWhere: sql`${exercises.isCustom} = false`,
           set: buildExerciseConflictSet(exercise),
         });
     }
@@ -14,8 +14,14 @@ jest.mock('../db/schema', () => ({
   muscleGroupEnum: { enumValues: ['chest', 'back', 'shoulders', 'biceps', 'triceps', 'quads', 'hamstrings', 'glutes', 'calves', 'abs', 'forearms', 'traps', 'lats'] }
 }));
 
-import { encodeCursor, decodeCursor } from './exerciseService';
+import { encodeCursor, decodeCursor, scoreAlternative } from './exerciseService';
 import { CursorData } from '../models/exercise.types';
+import {
+  validateExerciseListQuery,
+  validateCreateCustomExercise,
+  validateUpdateCustomExercise,
+  validateExerciseAlternativesQuery
+} from '../utils/validation';
 
 describe('exerciseService', () => {
   describe('cursor encoding/decoding', () => {
@@ -153,4 +159,164 @@ describe('exerciseService', () => {
       expect(finalDecoded).toEqual(originalData);
     });
   });
+
+  describe('validateExerciseListQuery includeCustom', () => {
+    it('should parse includeCustom as a boolean', () => {
+      expect(validateExerciseListQuery({ includeCustom: 'true' }).sanitized?.includeCustom).toBe(true);
+      expect(validateExerciseListQuery({ includeCustom: 'false' }).sanitized?.includeCustom).toBe(false);
+    });
+
+    it('should reject non-boolean includeCustom values', () => {
+      const result = validateExerciseListQuery({ includeCustom: 'yes' });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('includeCustom must be "true" or "false"');
+    });
+  });
+
+  describe('validateCreateCustomExercise', () => {
+    it('should accept a complete custom exercise', () => {
+      const result = validateCreateCustomExercise({
+        name: '  Zercher   Hold ',
+        primaryMuscles: ['abs', 'quads', 'abs'],
+        secondaryMuscles: ['back'],
+        equipment: ' Barbell ',
+        movementPattern: 'carry',
+        exerciseType: 'compound'
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({
+        name: 'Zercher Hold',
+        primaryMuscles: ['abs', 'quads'],
+        secondaryMuscles: ['back'],
+        equipment: 'barbell',
+        movementPattern: 'carry',
+        exerciseType: 'compound'
+      });
+    });
+
+    it('should require name and primaryMuscles', () => {
+      const result = validateCreateCustomExercise({});
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual(expect.arrayContaining([
+        'name is required',
+        'primaryMuscles is required'
+      ]));
+    });
+
+    it('should reject empty or unknown muscle groups', () => {
+      expect(validateCreateCustomExercise({ name: 'Hold', primaryMuscles: [] }).errors)
+        .toContain('primaryMuscles must contain at least one muscle group');
+      expect(validateCreateCustomExercise({ name: 'Hold', primaryMuscles: ['neck'] }).valid).toBe(false);
+    });
+
+    it('should reject invalid enums, null fields and unknown fields', () => {
+      const result = validateCreateCustomExercise({
+        name: 'Hold',
+        primaryMuscles: ['abs'],
+        movementPattern: 'twist',
+        exerciseType: null,
+        difficulty: 'advanced'
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(3);
+    });
+
+    it('should reject names over the length limit', () => {
+      const result = validateCreateCustomExercise({ name: 'x'.repeat(101), primaryMuscles: ['abs'] });
+      expect(result.errors).toContain('name cannot exceed 100 characters');
+    });
+  });
+
+  describe('validateUpdateCustomExercise', () => {
+    it('should allow clearing optional fields with null', () => {
+      const result = validateUpdateCustomExercise({ equipment: null, movementPattern: null });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ equipment: null, movementPattern: null });
+    });
+
+    it('should not allow clearing primaryMuscles', () => {
+      expect(validateUpdateCustomExercise({ primaryMuscles: null }).valid).toBe(false);
+      expect(validateUpdateCustomExercise({ primaryMuscles: [] }).valid).toBe(false);
+    });
+
+    it('should reject an empty update', () => {
+      expect(validateUpdateCustomExercise({}).errors).toEqual(['No valid fields to update']);
+    });
+  });
+
+  describe('scoreAlternative', () => {
+    const benchPress = {
+      primaryMuscles: ['chest'],
+      secondaryMuscles: ['triceps', 'shoulders'],
+      movementPattern: 'push' as const,
+      exerciseType: 'compound' as const,
+      equipment: 'barbell'
+    };
+
+    it('should give a full score to an exercise with identical traits', () => {
+      const result = scoreAlternative(benchPress, { ...benchPress, equipment: 'dumbbell' });
+      expect(result?.score).toBe(100);
+      expect(result?.matches).toEqual({
+        primaryMuscles: ['chest'],
+        secondaryMuscles: ['triceps', 'shoulders'],
+        movementPattern: true,
+        exerciseType: true,
+        equipment: false
+      });
+    });
+
+    it('should rank partial matches lower', () => {
+      const fly = {
+        primaryMuscles: ['chest'],
+        secondaryMuscles: ['shoulders'],
+        movementPattern: 'push' as const,
+        exerciseType: 'isolation' as const,
+        equipment: 'cable'
+      };
+      const pushUp = { ...benchPress, equipment: 'bodyweight' };
+
+      const flyScore = scoreAlternative(benchPress, fly)!.score;
+      expect(flyScore).toBeLessThan(scoreAlternative(benchPress, pushUp)!.score);
+      // 50 primary + 20 * 2/3 muscles + 20 movement pattern
+      expect(flyScore).toBe(83);
+    });
+
+    it('should reject candidates without a shared primary muscle', () => {
+      const dip = { ...benchPress, primaryMuscles: ['triceps'], secondaryMuscles: ['chest'] };
+      expect(scoreAlternative(benchPress, dip)).toBeNull();
+    });
+
+    it('should handle missing secondary muscles and classification', () => {
+      const result = scoreAlternative(
+        { primaryMuscles: ['chest', 'triceps'], secondaryMuscles: null, movementPattern: null, exerciseType: null, equipment: null },
+        { primaryMuscles: ['chest'], secondaryMuscles: null, movementPattern: null, exerciseType: null, equipment: null }
+      );
+      expect(result?.score).toBe(35);
+      expect(result?.matches.movementPattern).toBe(false);
+      expect(result?.matches.equipment).toBe(false);
+    });
+  });
+
+  describe('validateExerciseAlternativesQuery', () => {
+    it('should accept repeated and comma-separated equipment', () => {
+      expect(validateExerciseAlternativesQuery({ equipment: 'dumbbell,smith_machine' }).sanitized?.equipment)
+        .toEqual(['dumbbell', 'smith_machine']);
+      expect(validateExerciseAlternativesQuery({ equipment: ['cable', 'cable', 'bands'] }).sanitized?.equipment)
+        .toEqual(['cable', 'bands']);
+    });
+
+    it('should reject unknown equipment', () => {
+      const result = validateExerciseAlternativesQuery({ equipment: 'trx' });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('Invalid equipment: trx');
+    });
+
+    it('should bound limit', () => {
+      expect(validateExerciseAlternativesQuery({ limit: '5' }).sanitized?.limit).toBe(5);
+      expect(validateExerciseAlternativesQuery({ limit: '0' }).valid).toBe(false);
+      expect(validateExerciseAlternativesQuery({ limit: '51' }).valid).toBe(false);
+    });
+  });
 });
@@ -16,6 +16,7 @@ import {
   asc,
   inArray,
   isNotNull,
+  ne,
   SQL
 } from 'drizzle-orm';
 import {
@@ -26,14 +27,31 @@ import {
   FilterMetadata,
   FilterOption,
   CursorData,
-  ExerciseSortOption
+  ExerciseSortOption,
+  CreateCustomExerciseInput,
+  UpdateCustomExerciseInput,
+  ExerciseAlternativesQuery,
+  ExerciseAlternativesResponse,
+  ExerciseAlternative,
+  AlternativeMatch
 } from '../models/exercise.types';
+import { equipmentArrayToDb } from '../config/ai';
 
 // ============ Constants ============
 
 const DEFAULT_LIMIT = 20;
 const MAX_LIMIT = 100;
 const WORD_SIMILARITY_THRESHOLD = 0.3;
+const DEFAULT_ALTERNATIVES_LIMIT = 10;
+const MAX_ALTERNATIVES_LIMIT = 50;
+
+// Alternative scoring weights (sum to 100)
+const ALTERNATIVE_WEIGHTS = {
+  PRIMARY_MUSCLES: 50, // Overlap of primary muscles
+  ALL_MUSCLES: 20, // Overlap of primary + secondary muscles
+  MOVEMENT_PATTERN: 20,
+  EXERCISE_TYPE: 10
+} as const;
 
 // Difficulty order for sorting
 const DIFFICULTY_ORDER: Record<string, number> = {
@@ -111,8 +129,12 @@ export async function getExercises(
     throw new Error('Authentication required for "recently_used" sort');
   }
 
-  // Build conditions array
-  const conditions: SQL[] = [eq(exercises.isCustom, false)];
+  if (query.includeCustom && !userId) {
+    throw new Error('Authentication required for "includeCustom"');
+  }
+
+  // Build conditions array: the library, plus the caller's own custom exercises if asked
+  const conditions: SQL[] = [visibleExerciseCondition(query.includeCustom ? userId : undefined)];
 
   // Add filter conditions
   addFilterConditions(conditions, query);
@@ -181,19 +203,7 @@ export async function getExercises(
 
   // Build the query
   let baseQuery = db
-    .select({
-      id: exercises.id,
-      name: exercises.name,
-      primaryMuscles: exercises.primaryMuscles,
-      secondaryMuscles: exercises.secondaryMuscles,
-      equipment: exercises.equipment,
-      difficulty: exercises.difficulty,
-      movementPattern: exercises.movementPattern,
-      exerciseType: exercises.exerciseType,
-      thumbnailUrl: exercises.thumbnailUrl,
-      videoUrl: exercises.videoUrl,
-      popularityScore: exercises.popularityScore
-    })
+    .select(exerciseListFields)
     .from(exercises)
     .where(and(...conditions))
     .limit(useOffsetPagination ? limit : limit + 1); // Fetch one extra for cursor pagination to determine hasMore
@@ -244,19 +254,7 @@ export async function getExercises(
   }
 
   // Transform to response format
-  const exerciseItems: ExerciseListItem[] = exerciseList.map((e) => ({
-    id: e.id,
-    name: e.name,
-    primaryMuscles: (e.primaryMuscles as string[]) || [],
-    secondaryMuscles: (e.secondaryMuscles as string[]) || [],
-    equipment: e.equipment,
-    difficulty: e.difficulty,
-    movementPattern: e.movementPattern,
-    exerciseType: e.exerciseType,
-    thumbnailUrl: e.thumbnailUrl,
-    videoUrl: e.videoUrl,
-    popularityScore: parseFloat(e.popularityScore?.toString() || '0')
-  }));
+  const exerciseItems: ExerciseListItem[] = exerciseList.map(toExerciseListItem);
 
   // Build pagination response
   const pagination: ExerciseListResponse['pagination'] = {
@@ -282,33 +280,20 @@ export async function getExercises(
   };
 }
 
-export async function getExerciseById(id: string): Promise<ExerciseDetail | null> {
+/**
+ * Get an exercise visible to the caller: any library exercise, plus their own
+ * custom exercises when signed in. Returns null otherwise.
+ */
+export async function getExerciseById(id: string, userId?: string): Promise<ExerciseDetail | null> {
   const result = await db
     .select()
     .from(exercises)
-    .where(eq(exercises.id, id))
+    .where(and(eq(exercises.id, id), visibleExerciseCondition(userId)))
     .limit(1);
 
   if (result.length === 0) return null;
 
-  const e = result[0];
-  return {
-    id: e.id,
-    name: e.name,
-    primaryMuscles: (e.primaryMuscles as string[]) || [],
-    secondaryMuscles: (e.secondaryMuscles as string[]) || [],
-    equipment: e.equipment,
-    difficulty: e.difficulty,
-    movementPattern: e.movementPattern,
-    exerciseType: e.exerciseType,
-    thumbnailUrl: e.thumbnailUrl,
-    popularityScore: parseFloat(e.popularityScore?.toString() || '0'),
-    instructions: e.instructions,
-    videoUrl: e.videoUrl,
-    totalTimesUsed: e.totalTimesUsed || 0,
-    createdAt: e.createdAt.toISOString(),
-    updatedAt: e.updatedAt.toISOString()
-  };
+  return toExerciseDetail(result[0]);
 }
 
 export async function getFilterMetadata(): Promise<FilterMetadata> {
@@ -336,6 +321,329 @@ export async function getFilterMetadata(): Promise<FilterMetadata> {
   };
 }
 
+/**
+ * Rank other library exercises as swaps for the given one. Candidates must
+ * share at least one primary muscle; see scoreAlternative for the ranking.
+ * Returns null if the exercise doesn't exist or isn't visible to the caller.
+ */
+export async function getExerciseAlternatives(
+  exerciseId: string,
+  query: ExerciseAlternativesQuery,
+  userId?: string
+): Promise<ExerciseAlternativesResponse | null> {
+  const [source] = await db
+    .select()
+    .from(exercises)
+    .where(and(eq(exercises.id, exerciseId), visibleExerciseCondition(userId)))
+    .limit(1);
+
+  if (!source) return null;
+
+  const primaryMuscles = (source.primaryMuscles as string[]) || [];
+  if (primaryMuscles.length === 0) {
+    return { exerciseId, alternatives: [] };
+  }
+
+  const conditions: SQL[] = [
+    eq(exercises.isCustom, false),
+    ne(exercises.id, exerciseId),
+    sql`${exercises.primaryMuscles} ?| array[${sql.join(
+      primaryMuscles.map((m) => sql`${m}`),
+      sql`, `
+    )}]::text[]`
+  ];
+  if (query.equipment && query.equipment.length > 0) {
+    conditions.push(inArray(exercises.equipment, equipmentArrayToDb(query.equipment)));
+  }
+
+  const candidates = await db
+    .select(exerciseListFields)
+    .from(exercises)
+    .where(and(...conditions));
+
+  const limit = Math.min(query.limit || DEFAULT_ALTERNATIVES_LIMIT, MAX_ALTERNATIVES_LIMIT);
+  const alternatives: ExerciseAlternative[] = [];
+  for (const candidate of candidates) {
+    const item = toExerciseListItem(candidate);
+    const scored = scoreAlternative(source, item);
+    if (scored) {
+      alternatives.push({ exercise: item, ...scored });
+    }
+  }
+
+  alternatives.sort((a, b) =>
+    b.score - a.score ||
+    b.exercise.popularityScore - a.exercise.popularityScore ||
+    a.exercise.name.localeCompare(b.exercise.name)
+  );
+
+  return { exerciseId, alternatives: alternatives.slice(0, limit) };
+}
+
+/**
+ * Score a candidate as a swap for the source exercise (0-100):
+ * primary muscle overlap (Jaccard) is worth 50, overlap of all trained
+ * muscles 20, the same movement pattern 20 and the same exercise type 10.
+ * Equipment is reported but not scored, since callers filter on it.
+ * Returns null when the two share no primary muscle.
+ */
+export function scoreAlternative(
+  source: ExerciseTraits,
+  candidate: ExerciseTraits
+): { score: number; matches: AlternativeMatch } | null {
+  const sourcePrimary = (source.primaryMuscles as string[] | null) || [];
+  const candidatePrimary = (candidate.primaryMuscles as string[] | null) || [];
+  const sharedPrimary = sourcePrimary.filter(m => candidatePrimary.includes(m));
+  if (sharedPrimary.length === 0) {
+    return null;
+  }
+
+  const sourceAll = [...new Set([...sourcePrimary, ...((source.secondaryMuscles as string[] | null) || [])])];
+  const candidateAll = new Set([...candidatePrimary, ...((candidate.secondaryMuscles as string[] | null) || [])]);
+  const sharedAll = sourceAll.filter(m => candidateAll.has(m));
+
+  const movementPattern = !!source.movementPattern && source.movementPattern === candidate.movementPattern;
+  const exerciseType = !!source.exerciseType && source.exerciseType === candidate.exerciseType;
+
+  const score =
+    ALTERNATIVE_WEIGHTS.PRIMARY_MUSCLES * jaccard(sharedPrimary.length, sourcePrimary.length, candidatePrimary.length) +
+    ALTERNATIVE_WEIGHTS.ALL_MUSCLES * jaccard(sharedAll.length, sourceAll.length, candidateAll.size) +
+    (movementPattern ? ALTERNATIVE_WEIGHTS.MOVEMENT_PATTERN : 0) +
+    (exerciseType ? ALTERNATIVE_WEIGHTS.EXERCISE_TYPE : 0);
+
+  return {
+    score: Math.round(score),
+    matches: {
+      primaryMuscles: sharedPrimary,
+      secondaryMuscles: sharedAll.filter(m => !sharedPrimary.includes(m)),
+      movementPattern,
+      exerciseType,
+      equipment: !!source.equipment && source.equipment === candidate.equipment
+    }
+  };
+}
+
+// ============ Custom Exercise Functions ============
+
+/**
+ * Create a custom exercise owned by the user. Names must not clash with the
+ * library or with the user's other custom exercises (case-insensitively).
+ */
+export async function createCustomExercise(
+  userId: string,
+  input: CreateCustomExerciseInput
+): Promise<ExerciseDetail> {
+  await assertCustomNameAvailable(userId, input.name);
+
+  const [created] = await db
+    .insert(exercises)
+    .values({
+      name: input.name,
+      primaryMuscles: input.primaryMuscles,
+      secondaryMuscles: input.secondaryMuscles ?? [],
+      equipment: input.equipment ?? null,
+      movementPattern: input.movementPattern ?? null,
+      exerciseType: input.exerciseType ?? null,
+      isCustom: true,
+      createdBy: userId
+    })
+    .onConflictDoNothing({
+      target: [exercises.createdBy, exercises.name],
+      where: sql`${exercises.isCustom} = true`
+    })
+    .returning();
+
+  // A concurrent request created the same name between the check and the insert
+  if (!created) {
+    throw new CustomExerciseError(`You already have an exercise named "${input.name}"`, 409);
+  }
+
+  return toExerciseDetail(created);
+}
+
+/**
+ * Update one of the user's custom exercises.
+ * Returns null if it doesn't exist or belongs to someone else.
+ */
+export async function updateCustomExercise(
+  exerciseId: string,
+  userId: string,
+  input: UpdateCustomExerciseInput
+): Promise<ExerciseDetail | null> {
+  const existing = await findOwnedCustomExercise(exerciseId, userId);
+  if (!existing) {
+    return null;
+  }
+
+  if (input.name !== undefined && input.name.toLowerCase() !== existing.name.toLowerCase()) {
+    await assertCustomNameAvailable(userId, input.name, exerciseId);
+  }
+
+  try {
+    const [updated] = await db
+      .update(exercises)
+      .set({
+        ...input,
+        updatedAt: new Date()
+      })
+      .where(eq(exercises.id, exerciseId))
+      .returning();
+
+    return toExerciseDetail(updated);
+  } catch (error) {
+    if (hasPgErrorCode(error, '23505')) {
+      throw new CustomExerciseError(`You already have an exercise named "${input.name}"`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete one of the user's custom exercises. Exercises still referenced by
+ * templates, workouts, records or competitions can't be deleted.
+ * Returns false if it doesn't exist or belongs to someone else.
+ */
+export async function deleteCustomExercise(exerciseId: string, userId: string): Promise<boolean> {
+  const [exercise] = await db
+    .select({
+      id: exercises.id,
+      inUse: sql<boolean>`(
+        EXISTS (SELECT 1 FROM template_exercises WHERE exercise_id = ${exercises.id})
+        OR EXISTS (SELECT 1 FROM workout_exercises WHERE exercise_id = ${exercises.id})
+        OR EXISTS (SELECT 1 FROM personal_records WHERE exercise_id = ${exercises.id})
+        OR EXISTS (SELECT 1 FROM competitions WHERE target_exercise_id = ${exercises.id})
+      )`
+    })
+    .from(exercises)
+    .where(ownedCustomExerciseCondition(exerciseId, userId))
+    .limit(1);
+
+  if (!exercise) {
+    return false;
+  }
+
+  const inUseError = new CustomExerciseError(
+    'Exercise is used by templates or workouts and cannot be deleted',
+    409
+  );
+  if (exercise.inUse) {
+    throw inUseError;
+  }
+
+  try {
+    await db.delete(exercises).where(eq(exercises.id, exerciseId));
+  } catch (error) {
+    // Referenced between the check and the delete
+    if (hasPgErrorCode(error, '23503')) {
+      throw inUseError;
+    }
+    throw error;
+  }
+
+  return true;
+}
+
+/**
+ * Exercises a user can see and use: the shared library plus their own custom
+ * exercises. Without a user, the library only.
+ */
+export function visibleExerciseCondition(userId?: string): SQL {
+  if (!userId) {
+    return eq(exercises.isCustom, false);
+  }
+  return or(
+    eq(exercises.isCustom, false),
+    and(eq(exercises.isCustom, true), eq(exercises.createdBy, userId))
+  )!;
+}
+
+/**
+ * Maps exercise IDs from another user's content onto exercises the user can
+ * use, for copying that content into their account. Visible exercises map to
+ * themselves; someone else's custom exercise maps to the library or user's
+ * own exercise of the same name (case-insensitive), or to a new custom copy
+ * owned by the user. IDs that don't exist are missing from the map.
+ */
+export async function mapExercisesForUser(
+  exerciseIds: string[],
+  userId: string
+): Promise<Map<string, string>> {
+  const uniqueIds = [...new Set(exerciseIds)];
+  const exerciseIdMap = new Map<string, string>();
+  if (uniqueIds.length === 0) {
+    return exerciseIdMap;
+  }
+
+  const sourceExercises = await db
+    .select()
+    .from(exercises)
+    .where(inArray(exercises.id, uniqueIds));
+
+  const foreign = sourceExercises.filter(e => e.isCustom && e.createdBy !== userId);
+  sourceExercises
+    .filter(e => !foreign.includes(e))
+    .forEach(e => exerciseIdMap.set(e.id, e.id));
+
+  if (foreign.length === 0) {
+    return exerciseIdMap;
+  }
+
+  const names = [...new Set(foreign.map(e => e.name.toLowerCase()))];
+  const byName = await db
+    .select({ id: exercises.id, name: exercises.name })
+    .from(exercises)
+    .where(and(
+      sql`LOWER(${exercises.name}) IN (${sql.join(names.map(n => sql`${n}`), sql`, `)})`,
+      visibleExerciseCondition(userId)
+    ))
+    // Library rows come last so they win over a custom exercise of the same name
+    .orderBy(desc(exercises.isCustom));
+  const idsByName = new Map<string, string>();
+  byName.forEach(e => idsByName.set(e.name.toLowerCase(), e.id));
+
+  for (const exercise of foreign) {
+    const key = exercise.name.toLowerCase();
+    let matchedId = idsByName.get(key);
+
+    if (!matchedId) {
+      // A concurrent copy may have just created the same name
+      await db
+        .insert(exercises)
+        .values({
+          name: exercise.name,
+          primaryMuscles: exercise.primaryMuscles,
+          secondaryMuscles: exercise.secondaryMuscles,
+          equipment: exercise.equipment,
+          movementPattern: exercise.movementPattern,
+          exerciseType: exercise.exerciseType,
+          isCustom: true,
+          createdBy: userId
+        })
+        .onConflictDoNothing({
+          target: [exercises.createdBy, exercises.name],
+          where: sql`${exercises.isCustom} = true`
+        });
+
+      const [copy] = await db
+        .select({ id: exercises.id })
+        .from(exercises)
+        .where(and(
+          eq(exercises.isCustom, true),
+          eq(exercises.createdBy, userId),
+          eq(exercises.name, exercise.name)
+        ))
+        .limit(1);
+
+      matchedId = copy.id;
+      idsByName.set(key, matchedId);
+    }
+
+    exerciseIdMap.set(exercise.id, matchedId);
+  }
+
+  return exerciseIdMap;
+}
+
 // ============ User History Functions ============
 
 export async function recordExerciseUsage(
@@ -362,6 +670,132 @@ export async function recordExerciseUsage(
 
 // ============ Helper Functions ============
 
+/**
+ * The exercise attributes alternatives are scored on
+ */
+type ExerciseTraits = Pick<
+  typeof exercises.$inferSelect,
+  'primaryMuscles' | 'secondaryMuscles' | 'movementPattern' | 'exerciseType' | 'equipment'
+>;
+
+const exerciseListFields = {
+  id: exercises.id,
+  name: exercises.name,
+  primaryMuscles: exercises.primaryMuscles,
+  secondaryMuscles: exercises.secondaryMuscles,
+  equipment: exercises.equipment,
+  difficulty: exercises.difficulty,
+  movementPattern: exercises.movementPattern,
+  exerciseType: exercises.exerciseType,
+  thumbnailUrl: exercises.thumbnailUrl,
+  videoUrl: exercises.videoUrl,
+  popularityScore: exercises.popularityScore,
+  isCustom: exercises.isCustom
+};
+
+function toExerciseListItem(e: {
+  [K in keyof typeof exerciseListFields]: (typeof exercises.$inferSelect)[K]
+}): ExerciseListItem {
+  return {
+    id: e.id,
+    name: e.name,
+    primaryMuscles: (e.primaryMuscles as string[]) || [],
+    secondaryMuscles: (e.secondaryMuscles as string[]) || [],
+    equipment: e.equipment,
+    difficulty: e.difficulty,
+    movementPattern: e.movementPattern,
+    exerciseType: e.exerciseType,
+    thumbnailUrl: e.thumbnailUrl,
+    videoUrl: e.videoUrl,
+    popularityScore: parseFloat(e.popularityScore?.toString() || '0'),
+    isCustom: e.isCustom ?? false
+  };
+}
+
+function jaccard(shared: number, sizeA: number, sizeB: number): number {
+  const union = sizeA + sizeB - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+function toExerciseDetail(e: typeof exercises.$inferSelect): ExerciseDetail {
+  return {
+    id: e.id,
+    name: e.name,
+    primaryMuscles: (e.primaryMuscles as string[]) || [],
+    secondaryMuscles: (e.secondaryMuscles as string[]) || [],
+    equipment: e.equipment,
+    difficulty: e.difficulty,
+    movementPattern: e.movementPattern,
+    exerciseType: e.exerciseType,
+    thumbnailUrl: e.thumbnailUrl,
+    popularityScore: parseFloat(e.popularityScore?.toString() || '0'),
+    isCustom: e.isCustom ?? false,
+    instructions: e.instructions,
+    videoUrl: e.videoUrl,
+    totalTimesUsed: e.totalTimesUsed || 0,
+    createdAt: e.createdAt.toISOString(),
+    updatedAt: e.updatedAt.toISOString()
+  };
+}
+
+function ownedCustomExerciseCondition(exerciseId: string, userId: string): SQL {
+  return and(
+    eq(exercises.id, exerciseId),
+    eq(exercises.isCustom, true),
+    eq(exercises.createdBy, userId)
+  )!;
+}
+
+async function findOwnedCustomExercise(
+  exerciseId: string,
+  userId: string
+): Promise<{ id: string; name: string } | null> {
+  const [exercise] = await db
+    .select({ id: exercises.id, name: exercises.name })
+    .from(exercises)
+    .where(ownedCustomExerciseCondition(exerciseId, userId))
+    .limit(1);
+
+  return exercise ?? null;
+}
+
+/**
+ * Throws a 409 if the name is taken by a library exercise or by another of
+ * the user's custom exercises
+ */
+async function assertCustomNameAvailable(
+  userId: string,
+  name: string,
+  excludeId?: string
+): Promise<void> {
+  const conditions: SQL[] = [
+    sql`LOWER(${exercises.name}) = LOWER(${name})`,
+    visibleExerciseCondition(userId)
+  ];
+  if (excludeId) {
+    conditions.push(ne(exercises.id, excludeId));
+  }
+
+  const [clash] = await db
+    .select({ isCustom: exercises.isCustom })
+    .from(exercises)
+    .where(and(...conditions))
+    .limit(1);
+
+  if (!clash) return;
+
+  throw new CustomExerciseError(
+    clash.isCustom
+      ? `You already have an exercise named "${name}"`
+      : `"${name}" already exists in the exercise library`,
+    409
+  );
+}
+
+function hasPgErrorCode(error: unknown, code: string): boolean {
+  return error instanceof Error && 'code' in error && (error as { code: string }).code === code;
+}
+
 function addFilterConditions(conditions: SQL[], query: ExerciseListQuery): void {
   // Muscle group filter (checks both primary and secondary)
   if (query.muscleGroup) {
@@ -789,3 +1223,19 @@ function formatEnumLabel(value: string): string {
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
     .join(' ');
 }
+
+// ============ Custom Errors ============
+
+/**
+ * Thrown when a custom exercise can't be created, renamed or deleted.
+ * The route layer responds with `statusCode`.
+ */
+export class CustomExerciseError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'CustomExerciseError';
+    this.statusCode = statusCode;
+  }
+}
@@ -0,0 +1,120 @@
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { SQL } from 'drizzle-orm';
+
+// A fake db that renders the WHERE clause and applies the visibility rule it
+// expresses to a fixture row, so the tests check the query that is actually built
+const dialect = new PgDialect();
+const OWNER_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_USER_ID = '22222222-2222-4222-8222-222222222222';
+const CUSTOM_EXERCISE_ID = '33333333-3333-4333-8333-333333333333';
+
+const customExercise = {
+  id: CUSTOM_EXERCISE_ID,
+  name: 'Zercher Hold',
+  primaryMuscles: ['abs'],
+  secondaryMuscles: [],
+  equipment: 'barbell',
+  difficulty: null,
+  movementPattern: 'carry',
+  exerciseType: 'compound',
+  instructions: null,
+  videoUrl: null,
+  thumbnailUrl: null,
+  totalTimesUsed: 0,
+  lastUsedAt: null,
+  popularityScore: '0',
+  isCustom: true,
+  createdBy: OWNER_ID,
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T00:00:00.000Z')
+};
+
+// Custom copies inserted by the code under test
+const inserted: Array<typeof customExercise> = [];
+
+function rowsVisibleUnder(condition: SQL) {
+  const { sql: text, params } = dialect.sqlToQuery(condition);
+  const matchesId = params.includes(customExercise.id);
+  // Without an is_custom filter any row matching the ID comes back
+  const restricted = text.includes('"is_custom"');
+  const ownerAllowed = text.includes('"created_by"') && params.includes(customExercise.createdBy);
+  const fixtureRows = matchesId && (!restricted || ownerAllowed) ? [customExercise] : [];
+  // Copies are looked up by owner and exact name
+  const copies = inserted.filter(row => params.includes(row.createdBy) && params.includes(row.name));
+  return [...fixtureRows, ...copies];
+}
+
+function query(condition: SQL) {
+  const rows = rowsVisibleUnder(condition);
+  return {
+    limit: async () => rows,
+    orderBy: async () => rows,
+    then: (resolve: (value: unknown) => void) => resolve(rows)
+  };
+}
+
+jest.mock('../db', () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        where: (condition: SQL) => query(condition)
+      })
+    }),
+    insert: () => ({
+      values: (values: typeof customExercise) => ({
+        onConflictDoNothing: async () => {
+          inserted.push({ ...customExercise, ...values, id: '44444444-4444-4444-8444-444444444444' });
+        }
+      })
+    })
+  }
+}));
+
+import { getExerciseById, getExerciseAlternatives, mapExercisesForUser } from './exerciseService';
+
+describe('exerciseService visibility', () => {
+  beforeEach(() => {
+    inserted.length = 0;
+  });
+
+  describe('getExerciseById', () => {
+    it('should return a custom exercise to its owner', async () => {
+      const exercise = await getExerciseById(CUSTOM_EXERCISE_ID, OWNER_ID);
+      expect(exercise?.id).toBe(CUSTOM_EXERCISE_ID);
+    });
+
+    it("should not return another user's custom exercise", async () => {
+      expect(await getExerciseById(CUSTOM_EXERCISE_ID, OTHER_USER_ID)).toBeNull();
+    });
+
+    it('should not return a custom exercise to anonymous callers', async () => {
+      expect(await getExerciseById(CUSTOM_EXERCISE_ID)).toBeNull();
+    });
+  });
+
+  describe('getExerciseAlternatives', () => {
+    it("should not rank alternatives for another user's custom exercise", async () => {
+      expect(await getExerciseAlternatives(CUSTOM_EXERCISE_ID, {}, OTHER_USER_ID)).toBeNull();
+    });
+
+    it('should not rank alternatives for a custom exercise for anonymous callers', async () => {
+      expect(await getExerciseAlternatives(CUSTOM_EXERCISE_ID, {})).toBeNull();
+    });
+  });
+
+  describe('mapExercisesForUser', () => {
+    it("should keep the user's own custom exercise", async () => {
+      const map = await mapExercisesForUser([CUSTOM_EXERCISE_ID], OWNER_ID);
+      expect(map.get(CUSTOM_EXERCISE_ID)).toBe(CUSTOM_EXERCISE_ID);
+      expect(inserted).toHaveLength(0);
+    });
+
+    it("should copy another user's custom exercise into the user's account", async () => {
+      const map = await mapExercisesForUser([CUSTOM_EXERCISE_ID], OTHER_USER_ID);
+
+      expect(inserted).toHaveLength(1);
+      expect(inserted[0]).toMatchObject({ name: 'Zercher Hold', isCustom: true, createdBy: OTHER_USER_ID });
+      expect(map.get(CUSTOM_EXERCISE_ID)).toBe(inserted[0].id);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+// Mock the database module before importing feedService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  feedEvents: {},
+  users: {},
+  userFollows: {},
+  userBlocks: {},
+  workouts: {},
+  workoutExercises: {},
+  workoutPrograms: {},
+  sets: {}
+}));
+
+import {
+  selectTopSets,
+  workoutDurationSeconds,
+  buildWorkoutCompletedData,
+  mergeFeedRecords,
+  encodeCursor,
+  decodeCursor,
+  TopSetCandidate,
+} from './feedService';
+import { FeedPersonalRecord } from '../models/feed.types';
+import { validateFeedQuery, validateUserProfileUpdate } from '../utils/validation';
+
+describe('feedService', () => {
+  const set = (overrides: Partial<TopSetCandidate>): TopSetCandidate => ({
+    exerciseName: 'Bench Press',
+    reps: 5,
+    weightLbs: 185,
+    setType: 'working',
+    loadType: 'external',
+    ...overrides,
+  });
+
+  describe('selectTopSets', () => {
+    it('should keep the heaviest set of each exercise, heaviest first', () => {
+      const topSets = selectTopSets([
+        set({ weightLbs: 185 }),
+        set({ weightLbs: 205, reps: 3 }),
+        set({ exerciseName: 'Squat', weightLbs: 275 }),
+        set({ exerciseName: 'Curl', weightLbs: 30, reps: 12 }),
+        set({ exerciseName: 'Row', weightLbs: 135 }),
+      ]);
+
+      expect(topSets).toEqual([
+        { exerciseName: 'Squat', reps: 5, weightLbs: 275, loadType: 'external' },
+        { exerciseName: 'Bench Press', reps: 3, weightLbs: 205, loadType: 'external' },
+        { exerciseName: 'Row', reps: 5, weightLbs: 135, loadType: 'external' },
+      ]);
+    });
+
+    it('should ignore warmups and sets without reps', () => {
+      const topSets = selectTopSets([
+        set({ setType: 'warmup', weightLbs: 300 }),
+        set({ reps: 0, weightLbs: 250 }),
+        set({ weightLbs: 185 }),
+      ]);
+
+      expect(topSets.map(s => s.weightLbs)).toEqual([185]);
+    });
+
+    it('should rank bodyweight sets by reps after loaded sets', () => {
+      const topSets = selectTopSets([
+        set({ exerciseName: 'Pull-up', loadType: 'bodyweight', weightLbs: 0, reps: 12 }),
+        set({ exerciseName: 'Pull-up', loadType: 'bodyweight', weightLbs: 0, reps: 15 }),
+        set({ exerciseName: 'Curl', weightLbs: 25, reps: 10 }),
+      ]);
+
+      expect(topSets.map(s => [s.exerciseName, s.reps])).toEqual([['Curl', 10], ['Pull-up', 15]]);
+    });
+  });
+
+  describe('workoutDurationSeconds', () => {
+    it('should prefer the logged duration', () => {
+      expect(workoutDurationSeconds({ durationSeconds: 3600, startTime: null, endTime: null })).toBe(3600);
+    });
+
+    it('should fall back to end minus start', () => {
+      expect(workoutDurationSeconds({
+        durationSeconds: null,
+        startTime: new Date('2026-01-10T10:00:00Z'),
+        endTime: new Date('2026-01-10T11:15:00Z'),
+      })).toBe(4500);
+      expect(workoutDurationSeconds({ durationSeconds: null, startTime: null, endTime: null })).toBeNull();
+    });
+  });
+
+  describe('buildWorkoutCompletedData', () => {
+    it('should summarize volume, duration and top sets', () => {
+      const data = buildWorkoutCompletedData({
+        id: 'workout-1',
+        name: 'Push Day',
+        durationSeconds: 3600,
+        startTime: null,
+        endTime: null,
+        totalVolumeLbs: '12500.50',
+        totalSets: 15,
+        totalReps: 120,
+      }, 4, [set({})]);
+
+      expect(data).toEqual({
+        workoutId: 'workout-1',
+        name: 'Push Day',
+        durationSeconds: 3600,
+        totalVolumeLbs: 12500.5,
+        totalSets: 15,
+        totalReps: 120,
+        exerciseCount: 4,
+        topSets: [{ exerciseName: 'Bench Press', reps: 5, weightLbs: 185, loadType: 'external' }],
+      });
+    });
+  });
+
+  describe('mergeFeedRecords', () => {
+    const record = (overrides: Partial<FeedPersonalRecord>): FeedPersonalRecord => ({
+      exerciseName: 'Squat',
+      recordType: '1rm',
+      value: 300,
+      unit: 'lbs',
+      previousValue: 280,
+      ...overrides,
+    });
+
+    it('should add new records and replace improved ones, keeping the original previous value', () => {
+      const merged = mergeFeedRecords(
+        [record({}), record({ recordType: 'max_reps', value: 12, unit: 'reps', previousValue: null })],
+        [record({ value: 310, previousValue: 300 }), record({ exerciseName: 'Bench Press', value: 225 })]
+      );
+
+      expect(merged).toEqual([
+        record({ value: 310, previousValue: 280 }),
+        record({ recordType: 'max_reps', value: 12, unit: 'reps', previousValue: null }),
+        record({ exerciseName: 'Bench Press', value: 225 }),
+      ]);
+    });
+  });
+
+  describe('cursor utilities', () => {
+    it('should round-trip a cursor', () => {
+      const data = { id: 'event-1', sortValue: '2026-01-10T10:00:00.000Z', sortField: 'occurredAt' as const };
+      expect(decodeCursor(encodeCursor(data))).toEqual(data);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+    });
+  });
+});
+
+describe('feed validation', () => {
+  it('should cap the page size at 50', () => {
+    expect(validateFeedQuery({ limit: '50' }).sanitized).toEqual({ limit: 50 });
+    expect(validateFeedQuery({ limit: '51' }).valid).toBe(false);
+  });
+
+  it('should accept activity privacy levels on the profile', () => {
+    expect(validateUserProfileUpdate({ activityPrivacy: 'friends' }).sanitized).toEqual({ activityPrivacy: 'friends' });
+    expect(validateUserProfileUpdate({ activityPrivacy: 'everyone' }).valid).toBe(false);
+  });
+});
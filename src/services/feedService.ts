@@ -0,0 +1,479 @@
+import { db } from '../db';
+import {
+  feedEvents,
+  users,
+  userFollows,
+  workouts,
+  workoutExercises,
+  workoutPrograms,
+  sets,
+} from '../db/schema';
+import { eq, and, or, asc, desc, inArray, sql, SQL } from 'drizzle-orm';
+import {
+  FeedEventType,
+  FeedEventData,
+  FeedItem,
+  FeedQuery,
+  FeedResponse,
+  FeedCursorData,
+  FeedSortOption,
+  FeedTopSet,
+  FeedPersonalRecord,
+  WorkoutCompletedEventData,
+  PersonalRecordEventData,
+  ProgramStartedEventData,
+} from '../models/feed.types';
+import { NewPersonalRecord } from '../models/personalRecord.types';
+import { isWorkingSet, recordLoadLbs } from './setMetrics';
+import { toUserSummary } from './followService';
+
+type WorkoutRecord = typeof workouts.$inferSelect;
+
+// ============ Constants ============
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+const MAX_CURSOR_LENGTH = 500;
+const TOP_SETS_PER_WORKOUT = 3;
+
+// ============ Cursor Utilities ============
+
+export function encodeCursor(data: FeedCursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): FeedCursorData | null {
+  try {
+    if (cursor.length > MAX_CURSOR_LENGTH) {
+      return null;
+    }
+
+    const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+    const parsed = JSON.parse(decoded);
+
+    if (!isValidCursorData(parsed)) {
+      return null;
+    }
+
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function isValidCursorData(data: unknown): data is FeedCursorData {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const cursor = data as Record<string, unknown>;
+
+  if (typeof cursor.id !== 'string' || cursor.id.length === 0) {
+    return false;
+  }
+
+  if (typeof cursor.sortValue !== 'string') {
+    return false;
+  }
+
+  const validSortFields: FeedSortOption[] = ['occurredAt'];
+  if (typeof cursor.sortField !== 'string' || !validSortFields.includes(cursor.sortField as FeedSortOption)) {
+    return false;
+  }
+
+  return true;
+}
+
+// ============ Event Keys ============
+
+// At most one event per key and user; re-publishing updates it in place
+function workoutCompletedKey(workoutId: string): string {
+  return `workout:${workoutId}`;
+}
+
+function personalRecordsKey(workoutId: string): string {
+  return `records:${workoutId}`;
+}
+
+function programStartedKey(programId: string): string {
+  return `program:${programId}`;
+}
+
+// ============ Summary Helpers ============
+
+/**
+ * A logged set considered for a workout's top sets
+ */
+export interface TopSetCandidate {
+  exerciseName: string;
+  reps: number;
+  weightLbs: number;
+  setType: string;
+  loadType: string;
+}
+
+/**
+ * Picks the heaviest working set of each exercise, then the heaviest of those.
+ * Weight is compared by plate load (see setMetrics), so bodyweight sets rank
+ * by reps after loaded sets.
+ */
+export function selectTopSets(candidates: TopSetCandidate[], limit: number = TOP_SETS_PER_WORKOUT): FeedTopSet[] {
+  const isHeavier = (a: TopSetCandidate, b: TopSetCandidate): boolean => {
+    const loadA = recordLoadLbs(a);
+    const loadB = recordLoadLbs(b);
+    return loadA !== loadB ? loadA > loadB : a.reps > b.reps;
+  };
+
+  const bestByExercise = new Map<string, TopSetCandidate>();
+  for (const set of candidates) {
+    if (!isWorkingSet(set.setType) || set.reps <= 0) continue;
+    const current = bestByExercise.get(set.exerciseName);
+    if (!current || isHeavier(set, current)) {
+      bestByExercise.set(set.exerciseName, set);
+    }
+  }
+
+  return [...bestByExercise.values()]
+    .sort((a, b) => (isHeavier(a, b) ? -1 : isHeavier(b, a) ? 1 : 0))
+    .slice(0, limit)
+    .map(set => ({
+      exerciseName: set.exerciseName,
+      reps: set.reps,
+      weightLbs: set.weightLbs,
+      loadType: set.loadType,
+    }));
+}
+
+/**
+ * Workout duration in seconds: the logged duration, else end minus start
+ */
+export function workoutDurationSeconds(
+  workout: Pick<WorkoutRecord, 'durationSeconds' | 'startTime' | 'endTime'>
+): number | null {
+  if (workout.durationSeconds !== null) return workout.durationSeconds;
+  if (workout.startTime && workout.endTime) {
+    return Math.max(0, Math.round((workout.endTime.getTime() - workout.startTime.getTime()) / 1000));
+  }
+  return null;
+}
+
+export function buildWorkoutCompletedData(
+  workout: Pick<WorkoutRecord, 'id' | 'name' | 'durationSeconds' | 'startTime' | 'endTime' | 'totalVolumeLbs' | 'totalSets' | 'totalReps'>,
+  exerciseCount: number,
+  setCandidates: TopSetCandidate[]
+): WorkoutCompletedEventData {
+  return {
+    workoutId: workout.id,
+    name: workout.name,
+    durationSeconds: workoutDurationSeconds(workout),
+    totalVolumeLbs: parseFloat(workout.totalVolumeLbs ?? '0') || 0,
+    totalSets: workout.totalSets ?? 0,
+    totalReps: workout.totalReps ?? 0,
+    exerciseCount,
+    topSets: selectTopSets(setCandidates),
+  };
+}
+
+/**
+ * Adds newly set records to those already shown for a workout; a newer
+ * record of the same exercise and type replaces the old one
+ */
+export function mergeFeedRecords(existing: FeedPersonalRecord[], incoming: FeedPersonalRecord[]): FeedPersonalRecord[] {
+  const key = (r: FeedPersonalRecord) => `${r.exerciseName}:${r.recordType}`;
+  const merged = new Map(existing.map(r => [key(r), r]));
+  for (const record of incoming) {
+    const previous = merged.get(key(record));
+    merged.set(key(record), previous ? { ...record, previousValue: previous.previousValue } : record);
+  }
+  return [...merged.values()];
+}
+
+function occurredAt(workout: Pick<WorkoutRecord, 'date' | 'endTime'>): Date {
+  return workout.endTime ?? workout.date;
+}
+
+// ============ Publishing ============
+
+/**
+ * Writes feed events for the workouts a sync wrote and the records it set.
+ *
+ * - Completed workouts get one 'workout_completed' event each, refreshed when
+ *   the workout is edited and removed if it is marked incomplete again.
+ * - The first completed workout of a program adds a 'program_started' event.
+ * - New records are grouped into one 'personal_record' event per workout.
+ *
+ * Deleted workouts are filtered out when the feed is read, so their events
+ * come back if the deletion is undone.
+ */
+export async function publishWorkoutActivity(
+  userId: string,
+  workoutIds: string[],
+  newPersonalRecords: NewPersonalRecord[]
+): Promise<void> {
+  const uniqueIds = [...new Set(workoutIds)];
+  if (uniqueIds.length > 0) {
+    await publishWorkoutEvents(userId, uniqueIds);
+  }
+  if (newPersonalRecords.length > 0) {
+    await publishRecordEvents(userId, newPersonalRecords);
+  }
+}
+
+async function publishWorkoutEvents(userId: string, workoutIds: string[]): Promise<void> {
+  const workoutRows = await db
+    .select()
+    .from(workouts)
+    .where(and(eq(workouts.userId, userId), inArray(workouts.id, workoutIds)));
+
+  const completed = workoutRows.filter(w => w.isCompleted && !w.deletedAt);
+  const incompleteIds = workoutRows.filter(w => !w.isCompleted).map(w => w.id);
+
+  if (incompleteIds.length > 0) {
+    await db
+      .delete(feedEvents)
+      .where(and(
+        eq(feedEvents.userId, userId),
+        inArray(feedEvents.dedupeKey, incompleteIds.map(workoutCompletedKey))
+      ));
+  }
+
+  if (completed.length === 0) return;
+
+  const setRows = await db
+    .select({
+      workoutId: workoutExercises.workoutId,
+      workoutExerciseId: workoutExercises.id,
+      exerciseName: workoutExercises.exerciseName,
+      reps: sets.reps,
+      weightLbs: sets.weightLbs,
+      setType: sets.setType,
+      loadType: sets.loadType,
+    })
+    .from(workoutExercises)
+    .leftJoin(sets, eq(sets.workoutExerciseId, workoutExercises.id))
+    .where(inArray(workoutExercises.workoutId, completed.map(w => w.id)));
+
+  for (const workout of completed) {
+    const rows = setRows.filter(r => r.workoutId === workout.id);
+    const exerciseCount = new Set(rows.map(r => r.workoutExerciseId)).size;
+    const candidates: TopSetCandidate[] = rows
+      .filter(r => r.reps !== null)
+      .map(r => ({
+        exerciseName: r.exerciseName,
+        reps: r.reps ?? 0,
+        weightLbs: parseFloat(r.weightLbs ?? '0') || 0,
+        setType: r.setType ?? 'working',
+        loadType: r.loadType ?? 'external',
+      }));
+
+    await upsertEvent(userId, 'workout_completed', workoutCompletedKey(workout.id), {
+      workoutId: workout.id,
+      data: buildWorkoutCompletedData(workout, exerciseCount, candidates),
+      occurredAt: occurredAt(workout),
+    });
+  }
+
+  const programIds = [...new Set(completed.map(w => w.programId).filter((id): id is string => id !== null))];
+  if (programIds.length === 0) return;
+
+  const programs = await db
+    .select()
+    .from(workoutPrograms)
+    .where(and(eq(workoutPrograms.userId, userId), inArray(workoutPrograms.id, programIds)));
+
+  for (const program of programs) {
+    const firstWorkout = completed
+      .filter(w => w.programId === program.id)
+      .sort((a, b) => occurredAt(a).getTime() - occurredAt(b).getTime())[0];
+
+    const data: ProgramStartedEventData = {
+      programId: program.id,
+      name: program.name,
+      daysPerWeek: program.daysPerWeek,
+      durationWeeks: program.durationWeeks,
+    };
+
+    // Only the first completed workout of a program starts it
+    await db
+      .insert(feedEvents)
+      .values({
+        userId,
+        type: 'program_started',
+        programId: program.id,
+        data,
+        dedupeKey: programStartedKey(program.id),
+        occurredAt: occurredAt(firstWorkout),
+      })
+      .onConflictDoNothing();
+  }
+}
+
+async function publishRecordEvents(userId: string, records: NewPersonalRecord[]): Promise<void> {
+  const setIds = records.map(r => r.setId).filter((id): id is string => id !== null);
+  if (setIds.length === 0) return;
+
+  const setWorkouts = await db
+    .select({
+      setId: sets.id,
+      workoutId: workouts.id,
+      workoutName: workouts.name,
+      date: workouts.date,
+      endTime: workouts.endTime,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(and(eq(workouts.userId, userId), inArray(sets.id, setIds)));
+  const workoutBySet = new Map(setWorkouts.map(row => [row.setId, row]));
+
+  const recordsByWorkout = new Map<string, { workout: typeof setWorkouts[0]; records: FeedPersonalRecord[] }>();
+  for (const record of records) {
+    const workout = record.setId ? workoutBySet.get(record.setId) : undefined;
+    if (!workout) continue;
+
+    const group = recordsByWorkout.get(workout.workoutId) ?? { workout, records: [] };
+    group.records.push({
+      exerciseName: record.exerciseName,
+      recordType: record.recordType,
+      value: record.value,
+      unit: record.unit,
+      previousValue: record.previousValue,
+    });
+    recordsByWorkout.set(workout.workoutId, group);
+  }
+
+  for (const [workoutId, { workout, records: workoutRecords }] of recordsByWorkout) {
+    const key = personalRecordsKey(workoutId);
+    const [existing] = await db
+      .select({ data: feedEvents.data })
+      .from(feedEvents)
+      .where(and(eq(feedEvents.userId, userId), eq(feedEvents.dedupeKey, key)))
+      .limit(1);
+    const existingRecords = (existing?.data as PersonalRecordEventData | undefined)?.records ?? [];
+
+    await upsertEvent(userId, 'personal_record', key, {
+      workoutId,
+      data: {
+        workoutId,
+        workoutName: workout.workoutName,
+        records: mergeFeedRecords(existingRecords, workoutRecords),
+      },
+      occurredAt: occurredAt(workout),
+    });
+  }
+}
+
+async function upsertEvent(
+  userId: string,
+  type: FeedEventType,
+  dedupeKey: string,
+  event: { workoutId: string; data: FeedEventData; occurredAt: Date }
+): Promise<void> {
+  await db
+    .insert(feedEvents)
+    .values({
+      userId,
+      type,
+      workoutId: event.workoutId,
+      data: event.data,
+      dedupeKey,
+      occurredAt: event.occurredAt,
+    })
+    .onConflictDoUpdate({
+      target: [feedEvents.userId, feedEvents.dedupeKey],
+      set: {
+        data: event.data,
+        occurredAt: event.occurredAt,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * The viewer's feed: events of users they follow (approved follows only),
+ * newest first. Each author's current activity privacy applies, so changing
+ * it also hides or shows their past events.
+ */
+export async function getFeed(viewerId: string, query: FeedQuery): Promise<FeedResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+  const conditions: SQL[] = [
+    or(
+      eq(users.activityPrivacy, 'public'),
+      and(
+        eq(users.activityPrivacy, 'friends'),
+        sql`EXISTS (
+          SELECT 1 FROM user_follows
+          WHERE follower_id = ${feedEvents.userId} AND following_id = ${viewerId} AND status = 'accepted'
+        )`
+      )
+    )!,
+    sql`(${feedEvents.workoutId} IS NULL OR ${workouts.deletedAt} IS NULL)`,
+  ];
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData) {
+      conditions.push(sql`(${feedEvents.occurredAt} < ${cursorData.sortValue}::timestamp OR (${feedEvents.occurredAt} = ${cursorData.sortValue}::timestamp AND ${feedEvents.id} > ${cursorData.id}))`);
+    }
+  }
+
+  const rows = await db
+    .select({
+      id: feedEvents.id,
+      type: feedEvents.type,
+      data: feedEvents.data,
+      occurredAt: feedEvents.occurredAt,
+      userId: users.id,
+      handle: users.handle,
+      displayName: users.displayName,
+      profilePictureUrl: users.profilePictureUrl,
+    })
+    .from(feedEvents)
+    .innerJoin(userFollows, and(
+      eq(userFollows.followingId, feedEvents.userId),
+      eq(userFollows.followerId, viewerId),
+      eq(userFollows.status, 'accepted')
+    ))
+    .innerJoin(users, eq(feedEvents.userId, users.id))
+    .leftJoin(workouts, eq(feedEvents.workoutId, workouts.id))
+    .where(and(...conditions))
+    .orderBy(desc(feedEvents.occurredAt), asc(feedEvents.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  const items: FeedItem[] = page.map(row => ({
+    id: row.id,
+    type: row.type,
+    user: toUserSummary({
+      id: row.userId,
+      handle: row.handle,
+      displayName: row.displayName,
+      profilePictureUrl: row.profilePictureUrl,
+    }),
+    data: row.data as FeedEventData,
+    occurredAt: row.occurredAt.toISOString(),
+  }));
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1];
+    nextCursor = encodeCursor({
+      id: last.id,
+      sortValue: last.occurredAt.toISOString(),
+      sortField: 'occurredAt'
+    });
+  }
+
+  return {
+    items,
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
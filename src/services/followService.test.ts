@@ -0,0 +1,96 @@
+// Mock the database module before importing followService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  users: {},
+  userFollows: {},
+  userBlocks: {}
+}));
+
+import {
+  isPublic,
+  initialFollowStatus,
+  canViewProfileDetails,
+  toUserSummary,
+  encodeCursor,
+  decodeCursor,
+} from './followService';
+import { isValidHandle, validateFollowListQuery } from '../utils/validation';
+
+describe('followService', () => {
+  describe('isPublic', () => {
+    it('should treat profiles as public unless explicitly turned off', () => {
+      expect(isPublic({ isPublicProfile: true })).toBe(true);
+      expect(isPublic({ isPublicProfile: null })).toBe(true);
+      expect(isPublic({ isPublicProfile: false })).toBe(false);
+    });
+  });
+
+  describe('initialFollowStatus', () => {
+    it('should accept follows of public profiles right away', () => {
+      expect(initialFollowStatus({ isPublicProfile: true })).toBe('accepted');
+    });
+
+    it('should hold follows of private profiles for approval', () => {
+      expect(initialFollowStatus({ isPublicProfile: false })).toBe('pending');
+    });
+  });
+
+  describe('canViewProfileDetails', () => {
+    it('should always show public profiles and your own', () => {
+      expect(canViewProfileDetails(false, true, 'none')).toBe(true);
+      expect(canViewProfileDetails(true, false, 'none')).toBe(true);
+    });
+
+    it('should only show private profiles to approved followers', () => {
+      expect(canViewProfileDetails(false, false, 'accepted')).toBe(true);
+      expect(canViewProfileDetails(false, false, 'pending')).toBe(false);
+      expect(canViewProfileDetails(false, false, 'none')).toBe(false);
+    });
+  });
+
+  describe('toUserSummary', () => {
+    it('should expose the profile picture as avatarUrl', () => {
+      expect(toUserSummary({
+        id: 'user-1',
+        handle: 'lifter_1a2b3c4d',
+        displayName: 'Lifter',
+        profilePictureUrl: 'https://example.com/a.png',
+      })).toEqual({
+        id: 'user-1',
+        handle: 'lifter_1a2b3c4d',
+        displayName: 'Lifter',
+        avatarUrl: 'https://example.com/a.png',
+      });
+    });
+  });
+
+  describe('cursor utilities', () => {
+    it('should round-trip a cursor', () => {
+      const data = { id: 'user-1', sortValue: '2026-01-10T10:00:00.000Z', sortField: 'createdAt' as const };
+      expect(decodeCursor(encodeCursor(data))).toEqual(data);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(decodeCursor(Buffer.from(JSON.stringify({ id: 'x', sortValue: '2026-01-10', sortField: 'handle' })).toString('base64url'))).toBeNull();
+    });
+  });
+});
+
+describe('follow validation', () => {
+  it('should accept handles up to 50 characters', () => {
+    expect(isValidHandle('lifter_1a2b3c4d')).toBe(true);
+    expect(isValidHandle('')).toBe(false);
+    expect(isValidHandle('a'.repeat(51))).toBe(false);
+  });
+
+  it('should validate list pagination', () => {
+    expect(validateFollowListQuery({ limit: '10', cursor: 'abc' }).sanitized).toEqual({ limit: 10, cursor: 'abc' });
+    expect(validateFollowListQuery({ limit: '0' }).valid).toBe(false);
+    expect(validateFollowListQuery({ limit: '101' }).valid).toBe(false);
+  });
+});
@@ -0,0 +1,540 @@
+import { db } from '../db';
+import { users, userFollows, userBlocks } from '../db/schema';
+import { eq, and, or, asc, desc, sql, SQL, AnyColumn } from 'drizzle-orm';
+import {
+  FollowStatus,
+  ViewerFollowStatus,
+  FollowListQuery,
+  FollowListItem,
+  FollowListResponse,
+  FollowResponse,
+  FollowCursorData,
+  FollowSortOption,
+  PublicUserProfile,
+  UserSummary,
+  BlockedUserListResponse,
+} from '../models/follow.types';
+
+type UserRecord = typeof users.$inferSelect;
+
+// ============ Constants ============
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_CURSOR_LENGTH = 500;
+
+// ============ Cursor Utilities ============
+
+export function encodeCursor(data: FollowCursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): FollowCursorData | null {
+  try {
+    if (cursor.length > MAX_CURSOR_LENGTH) {
+      return null;
+    }
+
+    const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+    const parsed = JSON.parse(decoded);
+
+    if (!isValidCursorData(parsed)) {
+      return null;
+    }
+
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function isValidCursorData(data: unknown): data is FollowCursorData {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const cursor = data as Record<string, unknown>;
+
+  if (typeof cursor.id !== 'string' || cursor.id.length === 0) {
+    return false;
+  }
+
+  if (typeof cursor.sortValue !== 'string') {
+    return false;
+  }
+
+  const validSortFields: FollowSortOption[] = ['createdAt'];
+  if (typeof cursor.sortField !== 'string' || !validSortFields.includes(cursor.sortField as FollowSortOption)) {
+    return false;
+  }
+
+  return true;
+}
+
+// ============ Visibility Rules ============
+
+/**
+ * Profiles are public unless the user turned it off (the column defaults to true)
+ */
+export function isPublic(user: Pick<UserRecord, 'isPublicProfile'>): boolean {
+  return user.isPublicProfile !== false;
+}
+
+/**
+ * New follows of a private profile wait for the owner's approval
+ */
+export function initialFollowStatus(target: Pick<UserRecord, 'isPublicProfile'>): FollowStatus {
+  return isPublic(target) ? 'accepted' : 'pending';
+}
+
+/**
+ * Whether the viewer may see a profile's stats and connections: always for
+ * public profiles and your own, otherwise only once a follow is approved
+ */
+export function canViewProfileDetails(
+  isSelf: boolean,
+  isPublicProfile: boolean,
+  followStatus: ViewerFollowStatus
+): boolean {
+  return isSelf || isPublicProfile || followStatus === 'accepted';
+}
+
+// ============ Helper Functions ============
+
+export function toUserSummary(user: Pick<UserRecord, 'id' | 'handle' | 'displayName' | 'profilePictureUrl'>): UserSummary {
+  return {
+    id: user.id,
+    handle: user.handle,
+    displayName: user.displayName,
+    avatarUrl: user.profilePictureUrl,
+  };
+}
+
+export async function findUserByHandle(handle: string): Promise<UserRecord | null> {
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.handle, handle))
+    .limit(1);
+
+  return user || null;
+}
+
+/**
+ * Condition for queries over other users' content: no block stands between
+ * the viewer and the content's owner, in either direction
+ */
+export function notBlockedCondition(viewerId: string, ownerColumn: AnyColumn): SQL {
+  return sql`NOT EXISTS (
+    SELECT 1 FROM user_blocks
+    WHERE (blocker_id = ${ownerColumn} AND blocked_id = ${viewerId})
+       OR (blocker_id = ${viewerId} AND blocked_id = ${ownerColumn})
+  )`;
+}
+
+/**
+ * Block state between two users, in both directions
+ */
+async function getBlockState(
+  viewerId: string,
+  otherId: string
+): Promise<{ viewerBlocked: boolean; blockedByOther: boolean }> {
+  const rows = await db
+    .select({ blockerId: userBlocks.blockerId })
+    .from(userBlocks)
+    .where(or(
+      and(eq(userBlocks.blockerId, viewerId), eq(userBlocks.blockedId, otherId)),
+      and(eq(userBlocks.blockerId, otherId), eq(userBlocks.blockedId, viewerId))
+    ));
+
+  return {
+    viewerBlocked: rows.some(r => r.blockerId === viewerId),
+    blockedByOther: rows.some(r => r.blockerId === otherId),
+  };
+}
+
+async function getFollowStatus(followerId: string, followingId: string): Promise<FollowStatus | null> {
+  const [row] = await db
+    .select({ status: userFollows.status })
+    .from(userFollows)
+    .where(and(eq(userFollows.followerId, followerId), eq(userFollows.followingId, followingId)))
+    .limit(1);
+
+  return row?.status ?? null;
+}
+
+async function countConnections(column: typeof userFollows.followerId | typeof userFollows.followingId, userId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`COUNT(*)::int` })
+    .from(userFollows)
+    .where(and(eq(column, userId), eq(userFollows.status, 'accepted')));
+
+  return row?.count ?? 0;
+}
+
+/**
+ * Looks up a profile the viewer is allowed to see. Users who blocked the
+ * viewer are reported as not found, so a block isn't revealed.
+ */
+async function findVisibleUser(viewerId: string, handle: string): Promise<{
+  target: UserRecord;
+  isSelf: boolean;
+  viewerBlocked: boolean;
+} | null> {
+  const target = await findUserByHandle(handle);
+  if (!target) return null;
+
+  const isSelf = target.id === viewerId;
+  if (isSelf) return { target, isSelf, viewerBlocked: false };
+
+  const { viewerBlocked, blockedByOther } = await getBlockState(viewerId, target.id);
+  if (blockedByOther) return null;
+
+  return { target, isSelf, viewerBlocked };
+}
+
+/**
+ * One page of a user's connections, newest first.
+ * 'followers' lists who follows the user; 'following' lists who the user follows.
+ * Users with a block between them and the viewer are left out.
+ */
+async function listConnections(
+  viewerId: string,
+  userId: string,
+  direction: 'followers' | 'following',
+  status: FollowStatus,
+  query: FollowListQuery
+): Promise<FollowListResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const [ownColumn, otherColumn] = direction === 'followers'
+    ? [userFollows.followingId, userFollows.followerId]
+    : [userFollows.followerId, userFollows.followingId];
+
+  const conditions: SQL[] = [
+    eq(ownColumn, userId),
+    eq(userFollows.status, status),
+    notBlockedCondition(viewerId, otherColumn)
+  ];
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData) {
+      conditions.push(sql`(${userFollows.createdAt} < ${cursorData.sortValue}::timestamp OR (${userFollows.createdAt} = ${cursorData.sortValue}::timestamp AND ${users.id} > ${cursorData.id}))`);
+    }
+  }
+
+  const rows = await db
+    .select({
+      id: users.id,
+      handle: users.handle,
+      displayName: users.displayName,
+      profilePictureUrl: users.profilePictureUrl,
+      followedAt: userFollows.createdAt,
+    })
+    .from(userFollows)
+    .innerJoin(users, eq(otherColumn, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(userFollows.createdAt), asc(users.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  const items: FollowListItem[] = page.map(row => ({
+    ...toUserSummary(row),
+    followedAt: row.followedAt.toISOString(),
+  }));
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1];
+    nextCursor = encodeCursor({
+      id: last.id,
+      sortValue: last.followedAt.toISOString(),
+      sortField: 'createdAt'
+    });
+  }
+
+  return {
+    users: items,
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+// ============ Profile ============
+
+/**
+ * Get a user's profile as seen by the viewer.
+ * Returns null if the user doesn't exist or has blocked the viewer.
+ */
+export async function getUserProfile(viewerId: string, handle: string): Promise<PublicUserProfile | null> {
+  const visible = await findVisibleUser(viewerId, handle);
+  if (!visible) return null;
+
+  const { target, isSelf, viewerBlocked } = visible;
+
+  const [followStatus, followedBack, followerCount, followingCount] = await Promise.all([
+    isSelf ? Promise.resolve(null) : getFollowStatus(viewerId, target.id),
+    isSelf ? Promise.resolve(null) : getFollowStatus(target.id, viewerId),
+    countConnections(userFollows.followingId, target.id),
+    countConnections(userFollows.followerId, target.id),
+  ]);
+
+  const isPublicProfile = isPublic(target);
+  const viewerFollowStatus: ViewerFollowStatus = followStatus ?? 'none';
+  const showDetails = canViewProfileDetails(isSelf, isPublicProfile, viewerFollowStatus);
+
+  return {
+    ...toUserSummary(target),
+    bio: target.bio,
+    isPublicProfile,
+    followerCount,
+    followingCount,
+    stats: showDetails
+      ? {
+          totalWorkouts: target.totalWorkouts ?? 0,
+          totalVolumeLbs: parseFloat(target.totalVolumeLiftedLbs ?? '0'),
+          currentWorkoutStreak: target.currentWorkoutStreak ?? 0,
+          longestWorkoutStreak: target.longestWorkoutStreak ?? 0,
+          lastWorkoutDate: target.lastWorkoutDate?.toISOString() ?? null,
+        }
+      : null,
+    relationship: {
+      isSelf,
+      followStatus: viewerFollowStatus,
+      followsYou: followedBack === 'accepted',
+      isBlocked: viewerBlocked,
+    },
+    memberSince: target.createdAt.toISOString(),
+  };
+}
+
+// ============ Follows ============
+
+/**
+ * Follow a user. Following a private profile creates a pending request.
+ * Following someone you already follow (or requested) returns the current status.
+ */
+export async function followUser(followerId: string, handle: string): Promise<FollowResponse> {
+  const visible = await findVisibleUser(followerId, handle);
+  if (!visible) {
+    throw new FollowError('User not found', 404);
+  }
+
+  const { target, isSelf, viewerBlocked } = visible;
+
+  if (isSelf) {
+    throw new FollowError('You cannot follow yourself', 400);
+  }
+  if (viewerBlocked) {
+    throw new FollowError('Unblock this user before following them', 409);
+  }
+
+  const [created] = await db
+    .insert(userFollows)
+    .values({
+      followerId,
+      followingId: target.id,
+      status: initialFollowStatus(target),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  const status = created?.status ?? await getFollowStatus(followerId, target.id);
+
+  return { handle: target.handle, status: status ?? initialFollowStatus(target) };
+}
+
+/**
+ * Unfollow a user, or withdraw a pending follow request.
+ * Returns false if the user doesn't exist or wasn't followed.
+ */
+export async function unfollowUser(followerId: string, handle: string): Promise<boolean> {
+  const target = await findUserByHandle(handle);
+  if (!target) return false;
+
+  const deleted = await db
+    .delete(userFollows)
+    .where(and(eq(userFollows.followerId, followerId), eq(userFollows.followingId, target.id)))
+    .returning();
+
+  return deleted.length > 0;
+}
+
+/**
+ * List who follows a user (approved follows only).
+ * Returns null if the user doesn't exist or has blocked the viewer;
+ * throws a 403 FollowError for private profiles the viewer can't see.
+ */
+export async function getFollowers(
+  viewerId: string,
+  handle: string,
+  query: FollowListQuery
+): Promise<FollowListResponse | null> {
+  const targetId = await resolveConnectionsOwner(viewerId, handle);
+  if (!targetId) return null;
+
+  return listConnections(viewerId, targetId, 'followers', 'accepted', query);
+}
+
+/**
+ * List who a user follows (approved follows only). Same visibility rules as getFollowers.
+ */
+export async function getFollowing(
+  viewerId: string,
+  handle: string,
+  query: FollowListQuery
+): Promise<FollowListResponse | null> {
+  const targetId = await resolveConnectionsOwner(viewerId, handle);
+  if (!targetId) return null;
+
+  return listConnections(viewerId, targetId, 'following', 'accepted', query);
+}
+
+async function resolveConnectionsOwner(viewerId: string, handle: string): Promise<string | null> {
+  const visible = await findVisibleUser(viewerId, handle);
+  if (!visible) return null;
+
+  const { target, isSelf } = visible;
+  const followStatus = isSelf ? null : await getFollowStatus(viewerId, target.id);
+
+  if (!canViewProfileDetails(isSelf, isPublic(target), followStatus ?? 'none')) {
+    throw new FollowError('This profile is private', 403);
+  }
+
+  return target.id;
+}
+
+// ============ Follow Requests ============
+
+/**
+ * List pending requests to follow the user, newest first
+ */
+export async function getFollowRequests(userId: string, query: FollowListQuery): Promise<FollowListResponse> {
+  return listConnections(userId, userId, 'followers', 'pending', query);
+}
+
+/**
+ * Approve or decline a pending follow request from the given user.
+ * Returns false if there's no pending request from them.
+ */
+export async function respondToFollowRequest(userId: string, requesterHandle: string, approve: boolean): Promise<boolean> {
+  const requester = await findUserByHandle(requesterHandle);
+  if (!requester) return false;
+
+  const pendingRequest = and(
+    eq(userFollows.followerId, requester.id),
+    eq(userFollows.followingId, userId),
+    eq(userFollows.status, 'pending')
+  );
+
+  const affected = approve
+    ? await db.update(userFollows).set({ status: 'accepted' }).where(pendingRequest).returning()
+    : await db.delete(userFollows).where(pendingRequest).returning();
+
+  return affected.length > 0;
+}
+
+/**
+ * Approves every pending request, used when a private profile goes public
+ */
+export async function approveAllFollowRequests(userId: string): Promise<number> {
+  const approved = await db
+    .update(userFollows)
+    .set({ status: 'accepted' })
+    .where(and(eq(userFollows.followingId, userId), eq(userFollows.status, 'pending')))
+    .returning();
+
+  return approved.length;
+}
+
+// ============ Blocking ============
+
+/**
+ * Block a user. Removes follows and follow requests in both directions.
+ */
+export async function blockUser(blockerId: string, handle: string): Promise<UserSummary> {
+  const target = await findUserByHandle(handle);
+  if (!target) {
+    throw new FollowError('User not found', 404);
+  }
+  if (target.id === blockerId) {
+    throw new FollowError('You cannot block yourself', 400);
+  }
+
+  await db.transaction(async (tx) => {
+    await tx
+      .insert(userBlocks)
+      .values({ blockerId, blockedId: target.id })
+      .onConflictDoNothing();
+
+    await tx
+      .delete(userFollows)
+      .where(or(
+        and(eq(userFollows.followerId, blockerId), eq(userFollows.followingId, target.id)),
+        and(eq(userFollows.followerId, target.id), eq(userFollows.followingId, blockerId))
+      ));
+  });
+
+  return toUserSummary(target);
+}
+
+/**
+ * Unblock a user. Follows removed by the block are not restored.
+ * Returns false if the user doesn't exist or wasn't blocked.
+ */
+export async function unblockUser(blockerId: string, handle: string): Promise<boolean> {
+  const target = await findUserByHandle(handle);
+  if (!target) return false;
+
+  const deleted = await db
+    .delete(userBlocks)
+    .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, target.id)))
+    .returning();
+
+  return deleted.length > 0;
+}
+
+/**
+ * List the users the viewer has blocked, most recent first
+ */
+export async function getBlockedUsers(blockerId: string): Promise<BlockedUserListResponse> {
+  const rows = await db
+    .select({
+      id: users.id,
+      handle: users.handle,
+      displayName: users.displayName,
+      profilePictureUrl: users.profilePictureUrl,
+      blockedAt: userBlocks.createdAt,
+    })
+    .from(userBlocks)
+    .innerJoin(users, eq(userBlocks.blockedId, users.id))
+    .where(eq(userBlocks.blockerId, blockerId))
+    .orderBy(desc(userBlocks.createdAt));
+
+  return {
+    users: rows.map(row => ({
+      ...toUserSummary(row),
+      blockedAt: row.blockedAt.toISOString(),
+    })),
+  };
+}
+
+// ============ Custom Errors ============
+
+/**
+ * Thrown when a follow or block can't be performed.
+ * The route layer responds with `statusCode`.
+ */
+export class FollowError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'FollowError';
+    this.statusCode = statusCode;
+  }
+}
@@ -0,0 +1,112 @@
+// Mock the database module before importing personalRecordService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  personalRecords: {},
+  exercises: {},
+  workouts: {},
+  workoutExercises: {},
+  sets: {}
+}));
+
+import {
+  estimateOneRepMax,
+  computeRecordsFromSets,
+  RecordCandidateSet
+} from './personalRecordService';
+
+function makeSet(overrides: Partial<RecordCandidateSet> = {}): RecordCandidateSet {
+  return {
+    setId: 'set-1',
+    reps: 5,
+    weightLbs: 225,
+    achievedAt: new Date('2024-01-15T10:00:00.000Z'),
+    ...overrides
+  };
+}
+
+describe('personalRecordService', () => {
+  describe('estimateOneRepMax', () => {
+    it('should return the weight itself for a single rep', () => {
+      expect(estimateOneRepMax(315, 1)).toBe(315);
+    });
+
+    it('should apply the Epley formula for multiple reps', () => {
+      expect(estimateOneRepMax(300, 10)).toBeCloseTo(400);
+      expect(estimateOneRepMax(225, 5)).toBeCloseTo(262.5);
+    });
+
+    it('should return 0 for zero reps or zero weight', () => {
+      expect(estimateOneRepMax(225, 0)).toBe(0);
+      expect(estimateOneRepMax(0, 10)).toBe(0);
+    });
+  });
+
+  describe('computeRecordsFromSets', () => {
+    it('should return no records for an empty set list', () => {
+      expect(computeRecordsFromSets([]).size).toBe(0);
+    });
+
+    it('should compute every record type from a single set', () => {
+      const records = computeRecordsFromSets([makeSet({ reps: 5, weightLbs: 225 })]);
+
+      expect(records.get('1rm')?.value).toBe(262.5);
+      expect(records.get('3rm')?.value).toBe(225);
+      expect(records.get('5rm')?.value).toBe(225);
+      expect(records.get('max_reps')?.value).toBe(5);
+      expect(records.get('max_volume')?.value).toBe(1125);
+    });
+
+    it('should only count sets with enough reps for rep-max records', () => {
+      const records = computeRecordsFromSets([
+        makeSet({ setId: 'heavy-triple', reps: 3, weightLbs: 275 }),
+        makeSet({ setId: 'five', reps: 5, weightLbs: 245 })
+      ]);
+
+      expect(records.get('3rm')?.setId).toBe('heavy-triple');
+      expect(records.get('3rm')?.value).toBe(275);
+      expect(records.get('5rm')?.setId).toBe('five');
+      expect(records.get('5rm')?.value).toBe(245);
+    });
+
+    it('should ignore high-rep sets for the 1rm record', () => {
+      const records = computeRecordsFromSets([
+        makeSet({ setId: 'high-rep', reps: 20, weightLbs: 200 })
+      ]);
+
+      expect(records.has('1rm')).toBe(false);
+      expect(records.get('max_reps')?.value).toBe(20);
+    });
+
+    it('should track bodyweight sets for max_reps only', () => {
+      const records = computeRecordsFromSets([
+        makeSet({ setId: 'pullups', reps: 15, weightLbs: 0 })
+      ]);
+
+      expect(records.get('max_reps')?.value).toBe(15);
+      expect(records.has('1rm')).toBe(false);
+      expect(records.has('3rm')).toBe(false);
+      expect(records.has('max_volume')).toBe(false);
+    });
+
+    it('should keep the earliest set on ties', () => {
+      const records = computeRecordsFromSets([
+        makeSet({ setId: 'later', achievedAt: new Date('2024-02-01T00:00:00.000Z') }),
+        makeSet({ setId: 'earlier', achievedAt: new Date('2024-01-01T00:00:00.000Z') })
+      ]);
+
+      expect(records.get('5rm')?.setId).toBe('earlier');
+      expect(records.get('max_volume')?.setId).toBe('earlier');
+    });
+
+    it('should round estimated values to two decimals', () => {
+      const records = computeRecordsFromSets([makeSet({ reps: 7, weightLbs: 185 })]);
+
+      // 185 * (1 + 7/30) = 228.1666...
+      expect(records.get('1rm')?.value).toBe(228.17);
+    });
+  });
+});
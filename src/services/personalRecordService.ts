@@ -0,0 +1,307 @@
+import { db } from '../db';
+import {
+  personalRecords,
+  exercises,
+  workouts,
+  workoutExercises,
+  sets,
+} from '../db/schema';
+import { eq, and, asc, ne, inArray, isNull, SQL } from 'drizzle-orm';
+import {
+  PersonalRecordType,
+  PersonalRecordListQuery,
+  PersonalRecordListResponse,
+  NewPersonalRecord,
+  PERSONAL_RECORD_TYPES,
+} from '../models/personalRecord.types';
+import { recordLoadLbs } from './setMetrics';
+
+// ============ Constants ============
+
+/**
+ * e1RM formulas lose accuracy quickly at high rep counts, so sets above this
+ * are ignored for the '1rm' record (they still count for max_reps/max_volume).
+ */
+export const MAX_REPS_FOR_E1RM = 12;
+
+const RECORD_UNITS: Record<PersonalRecordType, string> = {
+  '1rm': 'lbs',
+  '3rm': 'lbs',
+  '5rm': 'lbs',
+  max_reps: 'reps',
+  max_volume: 'lbs',
+};
+
+// ============ Internal Types ============
+
+/**
+ * A single working set considered when computing records
+ */
+export interface RecordCandidateSet {
+  setId: string;
+  reps: number;
+  weightLbs: number;
+  achievedAt: Date;
+}
+
+export interface ComputedRecord {
+  value: number;
+  setId: string;
+  achievedAt: Date;
+}
+
+// ============ Calculation Helpers ============
+
+/**
+ * Estimates a one-rep max using the Epley formula: weight × (1 + reps / 30).
+ * A single rep is returned as-is, since it already is a 1RM.
+ */
+export function estimateOneRepMax(weightLbs: number, reps: number): number {
+  if (reps <= 0 || weightLbs <= 0) return 0;
+  if (reps === 1) return weightLbs;
+  return weightLbs * (1 + reps / 30);
+}
+
+function roundToHundredths(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Returns the value a set contributes to a record type, or null if the set
+ * doesn't qualify for that record.
+ */
+function getRecordValue(set: RecordCandidateSet, recordType: PersonalRecordType): number | null {
+  switch (recordType) {
+    case '1rm':
+      if (set.weightLbs <= 0 || set.reps < 1 || set.reps > MAX_REPS_FOR_E1RM) return null;
+      return roundToHundredths(estimateOneRepMax(set.weightLbs, set.reps));
+    case '3rm':
+      return set.weightLbs > 0 && set.reps >= 3 ? set.weightLbs : null;
+    case '5rm':
+      return set.weightLbs > 0 && set.reps >= 5 ? set.weightLbs : null;
+    case 'max_reps':
+      return set.reps > 0 ? set.reps : null;
+    case 'max_volume':
+      return set.weightLbs > 0 && set.reps > 0 ? roundToHundredths(set.weightLbs * set.reps) : null;
+  }
+}
+
+/**
+ * Computes the best value of every record type from a list of sets.
+ *
+ * Ties go to the earliest set, so re-syncing an identical lift later doesn't
+ * move the record. Record types with no qualifying set are omitted.
+ */
+export function computeRecordsFromSets(
+  candidateSets: RecordCandidateSet[]
+): Map<PersonalRecordType, ComputedRecord> {
+  const best = new Map<PersonalRecordType, ComputedRecord>();
+
+  for (const set of candidateSets) {
+    for (const recordType of PERSONAL_RECORD_TYPES) {
+      const value = getRecordValue(set, recordType);
+      if (value === null) continue;
+
+      const current = best.get(recordType);
+      const isBetter = !current
+        || value > current.value
+        || (value === current.value && set.achievedAt < current.achievedAt);
+
+      if (isBetter) {
+        best.set(recordType, { value, setId: set.setId, achievedAt: set.achievedAt });
+      }
+    }
+  }
+
+  return best;
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * Get the user's current personal records, optionally for a single exercise
+ */
+export async function getPersonalRecords(
+  userId: string,
+  query: PersonalRecordListQuery = {}
+): Promise<PersonalRecordListResponse> {
+  const conditions: SQL[] = [eq(personalRecords.userId, userId)];
+  if (query.exerciseId) {
+    conditions.push(eq(personalRecords.exerciseId, query.exerciseId));
+  }
+
+  const rows = await db
+    .select({
+      id: personalRecords.id,
+      exerciseId: personalRecords.exerciseId,
+      exerciseName: exercises.name,
+      recordType: personalRecords.recordType,
+      value: personalRecords.value,
+      unit: personalRecords.unit,
+      setId: personalRecords.setId,
+      achievedAt: personalRecords.achievedAt,
+    })
+    .from(personalRecords)
+    .innerJoin(exercises, eq(personalRecords.exerciseId, exercises.id))
+    .where(and(...conditions))
+    .orderBy(asc(exercises.name), asc(personalRecords.recordType));
+
+  return {
+    records: rows.map((r) => ({
+      id: r.id,
+      exerciseId: r.exerciseId,
+      exerciseName: r.exerciseName,
+      recordType: r.recordType as PersonalRecordType,
+      value: parseFloat(r.value),
+      unit: r.unit,
+      setId: r.setId,
+      achievedAt: r.achievedAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Recomputes a user's personal records for the given exercises from their
+ * full set history and writes the result to personal_records.
+ *
+ * Records are always rebuilt from scratch rather than compared against the
+ * incoming sets only, so a PR-setting set that is later edited down or
+ * deleted correctly hands the record back to the next best set (or removes
+ * it when nothing qualifies anymore).
+ *
+ * Returns only records that were newly set or beaten — downgrades caused by
+ * edits/deletes are applied silently.
+ */
+export async function recalculatePersonalRecords(
+  userId: string,
+  exerciseIds: string[]
+): Promise<NewPersonalRecord[]> {
+  const uniqueIds = [...new Set(exerciseIds)];
+  if (uniqueIds.length === 0) return [];
+
+  // Single query for all working sets (every type but warmups) of the affected exercises
+  const setRows = await db
+    .select({
+      exerciseId: workoutExercises.exerciseId,
+      setId: sets.id,
+      reps: sets.reps,
+      weightLbs: sets.weightLbs,
+      loadType: sets.loadType,
+      achievedAt: workouts.date,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(and(
+      eq(workouts.userId, userId),
+      isNull(workouts.deletedAt),
+      inArray(workoutExercises.exerciseId, uniqueIds),
+      ne(sets.setType, 'warmup')
+    ));
+
+  const setsByExercise = new Map<string, RecordCandidateSet[]>();
+  for (const row of setRows) {
+    const candidate: RecordCandidateSet = {
+      setId: row.setId,
+      reps: row.reps,
+      // Bodyweight and assisted sets only count towards rep records
+      weightLbs: recordLoadLbs({ weightLbs: parseFloat(row.weightLbs) || 0, loadType: row.loadType }),
+      achievedAt: row.achievedAt,
+    };
+    const existing = setsByExercise.get(row.exerciseId);
+    if (existing) {
+      existing.push(candidate);
+    } else {
+      setsByExercise.set(row.exerciseId, [candidate]);
+    }
+  }
+
+  const existingRecords = await db
+    .select({
+      id: personalRecords.id,
+      exerciseId: personalRecords.exerciseId,
+      recordType: personalRecords.recordType,
+      value: personalRecords.value,
+      setId: personalRecords.setId,
+      achievedAt: personalRecords.achievedAt,
+    })
+    .from(personalRecords)
+    .where(and(
+      eq(personalRecords.userId, userId),
+      inArray(personalRecords.exerciseId, uniqueIds)
+    ));
+
+  const existingByKey = new Map(existingRecords.map(r => [`${r.exerciseId}:${r.recordType}`, r]));
+
+  const exerciseNames = await db
+    .select({ id: exercises.id, name: exercises.name })
+    .from(exercises)
+    .where(inArray(exercises.id, uniqueIds));
+  const exerciseNameMap = new Map(exerciseNames.map(e => [e.id, e.name]));
+
+  const newRecords: NewPersonalRecord[] = [];
+
+  await db.transaction(async (tx) => {
+    for (const exerciseId of uniqueIds) {
+      const computed = computeRecordsFromSets(setsByExercise.get(exerciseId) || []);
+
+      for (const recordType of PERSONAL_RECORD_TYPES) {
+        const existing = existingByKey.get(`${exerciseId}:${recordType}`);
+        const record = computed.get(recordType);
+
+        if (!record) {
+          // No qualifying sets left (e.g. the only PR set was deleted)
+          if (existing) {
+            await tx.delete(personalRecords).where(eq(personalRecords.id, existing.id));
+          }
+          continue;
+        }
+
+        const previousValue = existing ? parseFloat(existing.value) : null;
+        const unchanged = existing
+          && previousValue === record.value
+          && existing.setId === record.setId
+          && existing.achievedAt.getTime() === record.achievedAt.getTime();
+        if (unchanged) continue;
+
+        const [saved] = await tx
+          .insert(personalRecords)
+          .values({
+            userId,
+            exerciseId,
+            recordType,
+            value: record.value.toString(),
+            unit: RECORD_UNITS[recordType],
+            setId: record.setId,
+            achievedAt: record.achievedAt,
+          })
+          .onConflictDoUpdate({
+            target: [personalRecords.userId, personalRecords.exerciseId, personalRecords.recordType],
+            set: {
+              value: record.value.toString(),
+              unit: RECORD_UNITS[recordType],
+              setId: record.setId,
+              achievedAt: record.achievedAt,
+            },
+          })
+          .returning();
+
+        if (previousValue === null || record.value > previousValue) {
+          newRecords.push({
+            id: saved.id,
+            exerciseId,
+            exerciseName: exerciseNameMap.get(exerciseId) || '',
+            recordType,
+            value: record.value,
+            unit: RECORD_UNITS[recordType],
+            setId: record.setId,
+            achievedAt: record.achievedAt.toISOString(),
+            previousValue,
+          });
+        }
+      }
+    }
+  });
+
+  return newRecords;
+}
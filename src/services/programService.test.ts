@@ -8,7 +8,11 @@ jest.mock('../db/schema', () => ({
   workoutPrograms: {},
   programWeeks: {},
   workoutTemplates: {},
-  templateExercises: {}
+  templateExercises: {},
+  exercises: {},
+  users: {},
+  userFollows: {},
+  userBlocks: {}
 }));
 
 import { encodeCursor, decodeCursor } from './programService';
@@ -18,6 +22,8 @@ import {
   validateCreateProgram,
   validateUpdateProgram,
   validateProgramWorkouts,
+  validatePublicProgramListQuery,
+  validateCloneProgram,
   isValidUuid,
   PROGRAM_LIMITS
 } from '../utils/validation';
@@ -165,6 +171,19 @@ describe('programService', () => {
         expect(decoded?.sortField).toBe(sortField);
       }
     });
+
+    it('should accept public sort fields', () => {
+      const downloadsCursor: ProgramCursorData = { id: 'test-uuid-1234', sortValue: 17, sortField: 'downloads' };
+      const recentCursor: ProgramCursorData = { id: 'test-uuid-1234', sortValue: '2026-01-15T10:30:00.000Z', sortField: 'recent' };
+
+      expect(decodeCursor(encodeCursor(downloadsCursor))).toEqual(downloadsCursor);
+      expect(decodeCursor(encodeCursor(recentCursor))).toEqual(recentCursor);
+    });
+
+    it('should reject public sort cursors whose sortValue has the wrong type', () => {
+      expect(decodeCursor(encodeCursor({ id: 'test-uuid-1234', sortValue: '17', sortField: 'downloads' }))).toBeNull();
+      expect(decodeCursor(encodeCursor({ id: 'test-uuid-1234', sortValue: 'yesterday', sortField: 'recent' }))).toBeNull();
+    });
   });
 
   describe('cursor round-trip integrity', () => {
@@ -475,6 +494,75 @@ describe('program validation', () => {
       expect(result.valid).toBe(false);
       expect(result.errors.some(e => e.includes('daysPerWeek must be between'))).toBe(true);
     });
+
+    it('should accept goal and isPublic', () => {
+      const result = validateUpdateProgram({ goal: 'strength', isPublic: true });
+
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ goal: 'strength', isPublic: true });
+    });
+
+    it('should accept null goal to clear it', () => {
+      const result = validateUpdateProgram({ goal: null });
+
+      expect(result.valid).toBe(true);
+      expect(result.sanitized?.goal).toBeNull();
+    });
+
+    it('should reject unknown goal', () => {
+      const result = validateUpdateProgram({ goal: 'cardio' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some(e => e.includes('goal must be one of'))).toBe(true);
+    });
+  });
+
+  describe('validatePublicProgramListQuery', () => {
+    it('should parse filters from query strings', () => {
+      const result = validatePublicProgramListQuery({
+        sort: 'recent',
+        search: ' ppl ',
+        daysPerWeek: '6',
+        durationWeeks: '12',
+        goal: 'hypertrophy',
+        isAiGenerated: 'false'
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({
+        sort: 'recent',
+        search: 'ppl',
+        daysPerWeek: 6,
+        durationWeeks: 12,
+        goal: 'hypertrophy',
+        isAiGenerated: false
+      });
+    });
+
+    it('should reject out-of-range filters', () => {
+      const result = validatePublicProgramListQuery({ daysPerWeek: '8', durationWeeks: '0' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(2);
+    });
+
+    it('should reject invalid sort, goal and isAiGenerated', () => {
+      const result = validatePublicProgramListQuery({ sort: 'name', goal: 'cardio', isAiGenerated: 'yes' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(3);
+    });
+  });
+
+  describe('validateCloneProgram', () => {
+    it('should accept empty body', () => {
+      expect(validateCloneProgram(undefined).valid).toBe(true);
+    });
+
+    it('should trim and bound the name', () => {
+      expect(validateCloneProgram({ name: '  My PPL  ' }).sanitized?.name).toBe('My PPL');
+      expect(validateCloneProgram({ name: 'a'.repeat(PROGRAM_LIMITS.MAX_NAME_LENGTH + 1) }).valid).toBe(false);
+    });
   });
 
   describe('validateProgramWorkouts', () => {
@@ -4,10 +4,12 @@ import {
   programWeeks,
   workoutTemplates,
   templateExercises,
+  users,
 } from '../db/schema';
 import {
   eq,
   and,
+  or,
   sql,
   desc,
   asc,
@@ -27,7 +29,17 @@ import {
   UpdateProgramInput,
   ProgramWorkoutInput,
   ActiveProgramResponse,
+  WorkoutTemplateHints,
+  WorkoutTemplateLink,
+  PublicProgramListQuery,
+  PublicProgramListItem,
+  PublicProgramListResponse,
+  PublicProgramDetail,
+  PublicProgramSortOption,
 } from '../models/program.types';
+import { PROGRAM_LIMITS } from '../utils/validation';
+import { toUserSummary, notBlockedCondition } from './followService';
+import { mapExercisesForUser } from './exerciseService';
 
 // ============ Constants ============
 
@@ -77,11 +89,21 @@ function isValidCursorData(data: unknown): data is ProgramCursorData {
     return false;
   }
 
-  const validSortFields: ProgramSortOption[] = ['name', 'createdAt', 'updatedAt'];
+  const validSortFields: (ProgramSortOption | PublicProgramSortOption)[] = [
+    'name', 'createdAt', 'updatedAt', 'downloads', 'recent'
+  ];
   if (typeof cursor.sortField !== 'string' || !validSortFields.includes(cursor.sortField as ProgramSortOption)) {
     return false;
   }
 
+  // Public sorts compare the value with a count or timestamp in SQL, so it must be one
+  if (cursor.sortField === 'downloads' && !Number.isInteger(cursor.sortValue)) {
+    return false;
+  }
+  if (cursor.sortField === 'recent' && (typeof cursor.sortValue !== 'string' || isNaN(Date.parse(cursor.sortValue)))) {
+    return false;
+  }
+
   return true;
 }
 
@@ -269,7 +291,28 @@ export async function getProgramById(
     return null;
   }
 
-  // Get program workouts with template details
+  return {
+    id: program.id,
+    name: program.name,
+    description: program.description,
+    daysPerWeek: program.daysPerWeek,
+    durationWeeks: program.durationWeeks,
+    isActive: program.isActive,
+    currentDayIndex: program.currentDayIndex,
+    timesCompleted: program.timesCompleted,
+    goal: program.goal,
+    isPublic: program.isPublic ?? false,
+    isAiGenerated: program.isAiGenerated ?? false,
+    workouts: await getProgramWorkoutDetails(programId),
+    createdAt: program.createdAt.toISOString(),
+    updatedAt: program.updatedAt.toISOString()
+  };
+}
+
+/**
+ * Program workouts with template details, in day order
+ */
+async function getProgramWorkoutDetails(programId: string): Promise<ProgramWorkoutDetail[]> {
   const workoutResults = await db
     .select({
       id: programWeeks.id,
@@ -302,7 +345,7 @@ export async function getProgramById(
 
   const exerciseCountMap = new Map(exerciseCounts.map(e => [e.templateId, e.count]));
 
-  const workouts: ProgramWorkoutDetail[] = workoutResults.map((w) => ({
+  return workoutResults.map((w) => ({
     id: w.id,
     dayNumber: w.dayNumber,
     dayLabel: w.dayLabel,
@@ -314,22 +357,6 @@ export async function getProgramById(
       exerciseCount: exerciseCountMap.get(w.templateId) || 0
     }
   }));
-
-  return {
-    id: program.id,
-    name: program.name,
-    description: program.description,
-    daysPerWeek: program.daysPerWeek,
-    durationWeeks: program.durationWeeks,
-    isActive: program.isActive,
-    currentDayIndex: program.currentDayIndex,
-    timesCompleted: program.timesCompleted,
-    isPublic: program.isPublic ?? false,
-    isAiGenerated: program.isAiGenerated ?? false,
-    workouts,
-    createdAt: program.createdAt.toISOString(),
-    updatedAt: program.updatedAt.toISOString()
-  };
 }
 
 /**
@@ -403,6 +430,7 @@ export async function createProgram(
         description: input.description || null,
         daysPerWeek: input.daysPerWeek,
         durationWeeks: input.durationWeeks ?? null,
+        goal: input.goal ?? null,
         isAiGenerated: input.isAiGenerated ?? false,
         aiPrompt: input.aiPrompt || null,
         aiModel: input.aiModel || null,
@@ -486,6 +514,13 @@ export async function updateProgram(
   if (updates.durationWeeks !== undefined) {
     updateData.durationWeeks = updates.durationWeeks;
   }
+  if (updates.goal !== undefined) {
+    updateData.goal = updates.goal;
+  }
+  if (updates.isPublic !== undefined) {
+    updateData.isPublic = updates.isPublic;
+    updateData.privacyLevel = updates.isPublic ? 'public' : 'private';
+  }
 
   await db
     .update(workoutPrograms)
@@ -705,6 +740,110 @@ export async function advanceDay(
   return getProgramById(programId, userId);
 }
 
+/**
+ * Works out which of the user's templates (and program days) a synced
+ * workout was trained from. An explicit templateId wins for the template,
+ * programId + dayNumber link the program day (and supply its template), and
+ * otherwise the user's most recently updated template with the same name
+ * (case-insensitive) is used. IDs that don't belong to the user are ignored.
+ */
+export async function resolveWorkoutTemplate(
+  userId: string,
+  hints: WorkoutTemplateHints
+): Promise<WorkoutTemplateLink> {
+  const link: WorkoutTemplateLink = { templateId: null, programId: null, programDayNumber: null };
+
+  if (hints.programId && hints.dayNumber !== undefined) {
+    const [day] = await db
+      .select({ templateId: programWeeks.templateId })
+      .from(programWeeks)
+      .innerJoin(workoutPrograms, eq(programWeeks.programId, workoutPrograms.id))
+      .where(and(
+        eq(programWeeks.programId, hints.programId),
+        eq(programWeeks.dayNumber, hints.dayNumber),
+        eq(workoutPrograms.userId, userId)
+      ))
+      .limit(1);
+
+    if (day) {
+      link.templateId = day.templateId;
+      link.programId = hints.programId;
+      link.programDayNumber = hints.dayNumber;
+    }
+  }
+
+  if (hints.templateId) {
+    const missingIds = await validateTemplateIds([hints.templateId], userId);
+    if (missingIds.length === 0) {
+      link.templateId = hints.templateId;
+    }
+  }
+
+  if (!link.templateId && hints.templateName?.trim()) {
+    const [template] = await db
+      .select({ id: workoutTemplates.id })
+      .from(workoutTemplates)
+      .where(and(
+        eq(workoutTemplates.userId, userId),
+        sql`lower(${workoutTemplates.name}) = lower(${hints.templateName.trim()})`
+      ))
+      .orderBy(desc(workoutTemplates.updatedAt))
+      .limit(1);
+
+    link.templateId = template?.id ?? null;
+  }
+
+  return link;
+}
+
+/**
+ * Advances the user's active program after a completed workout, if that
+ * workout was its current day: synced against that program day, or (with no
+ * program day given) trained from the current day's template.
+ * Returns the program ID that advanced, or null if none did.
+ */
+export async function advanceProgramForWorkout(
+  userId: string,
+  link: WorkoutTemplateLink
+): Promise<string | null> {
+  const [program] = await db
+    .select()
+    .from(workoutPrograms)
+    .where(and(
+      eq(workoutPrograms.userId, userId),
+      eq(workoutPrograms.isActive, true)
+    ))
+    .limit(1);
+
+  if (!program) {
+    return null;
+  }
+
+  let isCurrentDay: boolean;
+  if (link.programId) {
+    isCurrentDay = link.programId === program.id && link.programDayNumber === program.currentDayIndex;
+  } else if (link.templateId) {
+    const [day] = await db
+      .select({ templateId: programWeeks.templateId })
+      .from(programWeeks)
+      .where(and(
+        eq(programWeeks.programId, program.id),
+        eq(programWeeks.dayNumber, program.currentDayIndex)
+      ))
+      .limit(1);
+    isCurrentDay = day?.templateId === link.templateId;
+  } else {
+    isCurrentDay = false;
+  }
+
+  if (!isCurrentDay) {
+    return null;
+  }
+
+  await advanceDay(program.id, userId);
+  return program.id;
+}
+
 /**
  * Reset program progress to day 0
  */
@@ -729,6 +868,272 @@ export async function resetProgress(
   return getProgramById(programId, userId);
 }
 
+// ============ Public Programs ============
+
+/**
+ * Browse and search public programs
+ */
+export async function getPublicPrograms(
+  viewerId: string,
+  query: PublicProgramListQuery
+): Promise<PublicProgramListResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const sort = query.sort || 'downloads';
+
+  const conditions: SQL[] = [
+    eq(workoutPrograms.isPublic, true),
+    notBlockedCondition(viewerId, workoutPrograms.userId),
+  ];
+
+  if (query.search) {
+    const pattern = `%${query.search.replace(/[%_\\]/g, '\\$&')}%`;
+    conditions.push(sql`(${workoutPrograms.name} ILIKE ${pattern} OR ${workoutPrograms.description} ILIKE ${pattern})`);
+  }
+  if (query.daysPerWeek !== undefined) {
+    conditions.push(eq(workoutPrograms.daysPerWeek, query.daysPerWeek));
+  }
+  if (query.durationWeeks !== undefined) {
+    conditions.push(eq(workoutPrograms.durationWeeks, query.durationWeeks));
+  }
+  if (query.goal) {
+    conditions.push(eq(workoutPrograms.goal, query.goal));
+  }
+  if (query.isAiGenerated !== undefined) {
+    conditions.push(query.isAiGenerated
+      ? eq(workoutPrograms.isAiGenerated, true)
+      : sql`${workoutPrograms.isAiGenerated} IS NOT TRUE`);
+  }
+
+  const sortColumn = sort === 'recent'
+    ? sql`${workoutPrograms.createdAt}`
+    : sql`COALESCE(${workoutPrograms.downloadCount}, 0)`;
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData && cursorData.sortField === sort && cursorData.sortValue !== null) {
+      const value = sort === 'recent' ? sql`${cursorData.sortValue}::timestamp` : sql`${cursorData.sortValue}`;
+      conditions.push(sql`(${sortColumn} < ${value} OR (${sortColumn} = ${value} AND ${workoutPrograms.id} > ${cursorData.id}))`);
+    }
+  }
+
+  const results = await db
+    .select({
+      program: workoutPrograms,
+      author: users,
+      workoutCount: sql<number>`(
+        SELECT COUNT(*)::int FROM program_weeks
+        WHERE program_id = ${workoutPrograms.id}
+      )`,
+    })
+    .from(workoutPrograms)
+    .innerJoin(users, eq(workoutPrograms.userId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(sortColumn), asc(workoutPrograms.id))
+    .limit(limit + 1);
+
+  const hasMore = results.length > limit;
+  const page = hasMore ? results.slice(0, limit) : results;
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1].program;
+    nextCursor = encodeCursor({
+      id: last.id,
+      sortValue: sort === 'recent' ? last.createdAt.toISOString() : last.downloadCount ?? 0,
+      sortField: sort
+    });
+  }
+
+  return {
+    programs: page.map(r => toPublicProgramListItem(r.program, r.author, r.workoutCount)),
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+/**
+ * Get a public program with its workouts and author
+ */
+export async function getPublicProgramById(
+  programId: string,
+  viewerId: string
+): Promise<PublicProgramDetail | null> {
+  const [result] = await db
+    .select({ program: workoutPrograms, author: users })
+    .from(workoutPrograms)
+    .innerJoin(users, eq(workoutPrograms.userId, users.id))
+    .where(and(
+      eq(workoutPrograms.id, programId),
+      eq(workoutPrograms.isPublic, true),
+      notBlockedCondition(viewerId, workoutPrograms.userId)
+    ))
+    .limit(1);
+
+  if (!result) {
+    return null;
+  }
+
+  const workouts = await getProgramWorkoutDetails(programId);
+  return {
+    ...toPublicProgramListItem(result.program, result.author, workouts.length),
+    workouts
+  };
+}
+
+/**
+ * Clone a program into the user's account. Every template the program uses is
+ * copied too (once, even if it's used on several days), so the clone can be
+ * edited without touching the original. Day numbers and labels are kept.
+ * Other users' public programs can be cloned too, which counts as a download.
+ */
+export async function cloneProgram(
+  programId: string,
+  userId: string,
+  newName?: string
+): Promise<ProgramDetail | null> {
+  const [source] = await db
+    .select()
+    .from(workoutPrograms)
+    .where(and(
+      eq(workoutPrograms.id, programId),
+      or(
+        eq(workoutPrograms.userId, userId),
+        and(eq(workoutPrograms.isPublic, true), notBlockedCondition(userId, workoutPrograms.userId))
+      )
+    ))
+    .limit(1);
+
+  if (!source) {
+    return null;
+  }
+  const isDownload = source.userId !== userId;
+
+  const sourceDays = await db
+    .select()
+    .from(programWeeks)
+    .where(eq(programWeeks.programId, programId))
+    .orderBy(asc(programWeeks.weekNumber), asc(programWeeks.dayNumber));
+
+  const sourceTemplateIds = [...new Set(sourceDays.map(d => d.templateId))];
+  const sourceTemplates = sourceTemplateIds.length > 0
+    ? await db
+        .select()
+        .from(workoutTemplates)
+        .where(inArray(workoutTemplates.id, sourceTemplateIds))
+    : [];
+  const sourceExercises = sourceTemplateIds.length > 0
+    ? await db
+        .select()
+        .from(templateExercises)
+        .where(inArray(templateExercises.templateId, sourceTemplateIds))
+        .orderBy(asc(templateExercises.orderIndex))
+    : [];
+
+  // Another user's custom exercises are swapped for ones the user can use
+  const exerciseIdMap = await mapExercisesForUser(sourceExercises.map(e => e.exerciseId), userId);
+
+  // Generate clone name with length validation
+  let cloneName: string;
+  if (newName) {
+    cloneName = newName;
+  } else {
+    const copySuffix = ' (Copy)';
+    const maxBaseLength = PROGRAM_LIMITS.MAX_NAME_LENGTH - copySuffix.length;
+    cloneName = `${source.name.substring(0, maxBaseLength)}${copySuffix}`;
+  }
+
+  const result = await db.transaction(async (tx) => {
+    // Copy templates, remembering which copy replaces which source
+    const templateIdMap = new Map<string, string>();
+    for (const template of sourceTemplates) {
+      const [copy] = await tx
+        .insert(workoutTemplates)
+        .values({
+          userId,
+          name: template.name,
+          description: template.description,
+          isAiGenerated: template.isAiGenerated ?? false,
+        })
+        .returning();
+      templateIdMap.set(template.id, copy.id);
+    }
+
+    if (sourceExercises.length > 0) {
+      await tx.insert(templateExercises).values(
+        sourceExercises.map((e) => ({
+          templateId: templateIdMap.get(e.templateId)!,
+          exerciseId: exerciseIdMap.get(e.exerciseId)!,
+          orderIndex: e.orderIndex,
+          workingSets: e.workingSets,
+          warmupSets: e.warmupSets ?? 0,
+          targetReps: e.targetReps,
+          restSeconds: e.restSeconds,
+          notes: e.notes,
+        }))
+      );
+    }
+
+    const [program] = await tx
+      .insert(workoutPrograms)
+      .values({
+        userId,
+        name: cloneName,
+        description: source.description,
+        daysPerWeek: source.daysPerWeek,
+        durationWeeks: source.durationWeeks,
+        goal: source.goal,
+        isAiGenerated: source.isAiGenerated ?? false,
+      })
+      .returning();
+
+    if (sourceDays.length > 0) {
+      await tx.insert(programWeeks).values(
+        sourceDays.map((d) => ({
+          programId: program.id,
+          weekNumber: d.weekNumber,
+          dayNumber: d.dayNumber,
+          templateId: templateIdMap.get(d.templateId)!,
+          dayLabel: d.dayLabel,
+        }))
+      );
+    }
+
+    if (isDownload) {
+      await tx
+        .update(workoutPrograms)
+        .set({ downloadCount: sql`COALESCE(${workoutPrograms.downloadCount}, 0) + 1` })
+        .where(eq(workoutPrograms.id, programId));
+    }
+
+    return program;
+  });
+
+  return getProgramById(result.id, userId);
+}
+
+function toPublicProgramListItem(
+  program: typeof workoutPrograms.$inferSelect,
+  author: typeof users.$inferSelect,
+  workoutCount: number
+): PublicProgramListItem {
+  return {
+    id: program.id,
+    name: program.name,
+    description: program.description,
+    daysPerWeek: program.daysPerWeek,
+    durationWeeks: program.durationWeeks,
+    goal: program.goal,
+    isAiGenerated: program.isAiGenerated ?? false,
+    workoutCount,
+    author: toUserSummary(author),
+    downloadCount: program.downloadCount ?? 0,
+    createdAt: program.createdAt.toISOString(),
+    updatedAt: program.updatedAt.toISOString()
+  };
+}
+
 // ============ Sorting Helpers ============
 
 function getOrderByColumns(sort: ProgramSortOption, order: 'asc' | 'desc'): SQL[] {
@@ -0,0 +1,82 @@
+import {
+  isWorkingSet,
+  effectiveLoadLbs,
+  recordLoadLbs,
+  setVolumeLbs,
+  summarizeWorkingSets,
+  SetLoad,
+} from './setMetrics';
+
+describe('setMetrics', () => {
+  const set = (overrides: Partial<SetLoad> = {}): SetLoad => ({
+    reps: 10,
+    weightLbs: 100,
+    setType: 'working',
+    loadType: 'external',
+    ...overrides,
+  });
+
+  describe('isWorkingSet', () => {
+    it('should exclude only warmups', () => {
+      expect(isWorkingSet('warmup')).toBe(false);
+      for (const setType of ['working', 'drop', 'rest_pause', 'amrap', 'failure']) {
+        expect(isWorkingSet(setType)).toBe(true);
+      }
+    });
+  });
+
+  describe('effectiveLoadLbs', () => {
+    it('should read the weight according to the load type', () => {
+      expect(effectiveLoadLbs(set(), 180)).toBe(100);
+      expect(effectiveLoadLbs(set({ loadType: 'bodyweight', weightLbs: 0 }), 180)).toBe(180);
+      expect(effectiveLoadLbs(set({ loadType: 'bodyweight_plus', weightLbs: 45 }), 180)).toBe(225);
+      expect(effectiveLoadLbs(set({ loadType: 'assisted', weightLbs: 50 }), 180)).toBe(130);
+    });
+
+    it('should not go negative when assistance exceeds bodyweight', () => {
+      expect(effectiveLoadLbs(set({ loadType: 'assisted', weightLbs: 200 }), 180)).toBe(0);
+    });
+
+    it('should fall back to the added load without a known bodyweight', () => {
+      expect(effectiveLoadLbs(set({ loadType: 'bodyweight' }), null)).toBe(0);
+      expect(effectiveLoadLbs(set({ loadType: 'bodyweight_plus', weightLbs: 45 }), null)).toBe(45);
+    });
+  });
+
+  describe('recordLoadLbs', () => {
+    it('should only count plate load', () => {
+      expect(recordLoadLbs(set())).toBe(100);
+      expect(recordLoadLbs(set({ loadType: 'bodyweight_plus', weightLbs: 45 }))).toBe(45);
+      expect(recordLoadLbs(set({ loadType: 'assisted', weightLbs: 50 }))).toBe(0);
+      expect(recordLoadLbs(set({ loadType: 'bodyweight' }))).toBe(0);
+    });
+  });
+
+  describe('setVolumeLbs', () => {
+    it('should weigh every working set type by reps and load', () => {
+      expect(setVolumeLbs(set({ setType: 'drop', reps: 8, weightLbs: 80 }), null)).toBe(640);
+      expect(setVolumeLbs(set({ setType: 'amrap', reps: 15 }), null)).toBe(1500);
+    });
+
+    it('should exclude warmups', () => {
+      expect(setVolumeLbs(set({ setType: 'warmup' }), null)).toBe(0);
+    });
+
+    it('should give timed and distance sets without reps no load volume', () => {
+      expect(setVolumeLbs(set({ reps: 0, weightLbs: 0, loadType: 'bodyweight' }), 180)).toBe(0);
+    });
+  });
+
+  describe('summarizeWorkingSets', () => {
+    it('should total working sets only', () => {
+      const totals = summarizeWorkingSets([
+        set({ setType: 'warmup', reps: 10, weightLbs: 45 }),
+        set({ reps: 5, weightLbs: 225 }),
+        set({ setType: 'failure', reps: 8, loadType: 'bodyweight', weightLbs: 0 }),
+        set({ reps: 0, weightLbs: 0, loadType: 'bodyweight' }),
+      ], 180);
+
+      expect(totals).toEqual({ totalVolumeLbs: 1125 + 1440, totalSets: 3, totalReps: 13 });
+    });
+  });
+});
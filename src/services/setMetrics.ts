@@ -0,0 +1,88 @@
+/**
+ * How individual sets count towards volume, totals and records.
+ * Extracted for testability: shared by workout totals, personal records and
+ * training history so they all weigh sets the same way.
+ *
+ * - Warmups are excluded; every other set type (working, drop, rest-pause,
+ *   AMRAP, to failure) is a working set.
+ * - `weightLbs` is read according to the set's load type: the external load,
+ *   nothing (bodyweight), load added to bodyweight, or assistance taken off
+ *   bodyweight. Bodyweight comes from the user's profile; without it,
+ *   bodyweight sets carry only their added load.
+ * - Timed and distance sets count as sets, but only contribute load volume
+ *   when they also have reps.
+ */
+
+import { LoadType, SetType } from '../utils/validation';
+
+// ============ Types ============
+
+export interface SetLoad {
+  reps: number;
+  weightLbs: number;
+  setType: SetType | string;
+  loadType: LoadType | string;
+}
+
+// ============ Set Classification ============
+
+export function isWorkingSet(setType: SetType | string): boolean {
+  return setType !== 'warmup';
+}
+
+// ============ Load Calculations ============
+
+/**
+ * The load actually moved in one rep, in lbs
+ */
+export function effectiveLoadLbs(set: Pick<SetLoad, 'weightLbs' | 'loadType'>, bodyweightLbs: number | null): number {
+  const bodyweight = bodyweightLbs ?? 0;
+  switch (set.loadType) {
+    case 'bodyweight':
+      return bodyweight;
+    case 'bodyweight_plus':
+      return bodyweight + set.weightLbs;
+    case 'assisted':
+      return Math.max(0, bodyweight - set.weightLbs);
+    default:
+      return set.weightLbs;
+  }
+}
+
+/**
+ * The weight that counts for strength records and progression: plate load
+ * for external and weighted-bodyweight sets. Bodyweight and assisted sets
+ * return 0, so they only count towards rep records.
+ */
+export function recordLoadLbs(set: Pick<SetLoad, 'weightLbs' | 'loadType'>): number {
+  return set.loadType === 'external' || set.loadType === 'bodyweight_plus' ? set.weightLbs : 0;
+}
+
+/**
+ * Volume load (reps × load moved) of a set; 0 for warmups
+ */
+export function setVolumeLbs(set: SetLoad, bodyweightLbs: number | null): number {
+  if (!isWorkingSet(set.setType) || set.reps <= 0) return 0;
+  return set.reps * effectiveLoadLbs(set, bodyweightLbs);
+}
+
+/**
+ * Cached workout totals over its working sets
+ */
+export function summarizeWorkingSets(
+  setLoads: SetLoad[],
+  bodyweightLbs: number | null
+): { totalVolumeLbs: number; totalSets: number; totalReps: number } {
+  let totalVolumeLbs = 0;
+  let totalSets = 0;
+  let totalReps = 0;
+
+  for (const set of setLoads) {
+    if (!isWorkingSet(set.setType)) continue;
+    totalSets++;
+    totalReps += set.reps;
+    totalVolumeLbs += setVolumeLbs(set, bodyweightLbs);
+  }
+
+  return { totalVolumeLbs, totalSets, totalReps };
+}
@@ -6,7 +6,11 @@ jest.mock('../db', () => ({
 // Mock the schema module
 jest.mock('../db/schema', () => ({
   shares: {},
+  shareImports: {},
   users: {},
+  userFollows: {},
+  userBlocks: {},
+  templateLikes: {},
   workoutTemplates: {},
   templateExercises: {},
   exercises: {},
@@ -14,9 +18,17 @@ jest.mock('../db/schema', () => ({
   programWeeks: {}
 }));
 
-import { generateShareToken } from './shareService';
+import {
+  generateShareToken,
+  remapSnapshotExercises,
+  canonicalJson,
+  encodeCursor,
+  decodeCursor,
+} from './shareService';
+import { TemplateExerciseDetail } from '../models/template.types';
 import {
   validateCreateShare,
+  validateShareListQuery,
   validateShareToken,
   isValidUuid,
 } from '../utils/validation';
@@ -45,6 +57,82 @@ describe('shareService', () => {
       expect(tokens.size).toBe(100);
     });
   });
+
+  describe('cursor utilities', () => {
+    it('should round-trip a createdAt cursor', () => {
+      const cursor = { id: 'share-1', sortValue: '2026-01-15T10:30:00.000Z', sortField: 'createdAt' as const };
+      expect(decodeCursor(encodeCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(decodeCursor(encodeCursor({ id: 'share-1', sortValue: '2026-01-15', sortField: 'name' as never }))).toBeNull();
+    });
+  });
+
+  describe('canonicalJson', () => {
+    it('should ignore key order at every level', () => {
+      const stored = { workouts: [{ template: { name: 'Push', id: 't-1' }, dayNumber: 0 }], name: 'PPL' };
+      const fresh = { name: 'PPL', workouts: [{ dayNumber: 0, template: { id: 't-1', name: 'Push' } }] };
+
+      expect(canonicalJson(stored)).toBe(canonicalJson(fresh));
+    });
+
+    it('should detect changed values and array order', () => {
+      expect(canonicalJson({ name: 'Push', notes: null })).not.toBe(canonicalJson({ name: 'Push', notes: 'Slow' }));
+      expect(canonicalJson([1, 2])).not.toBe(canonicalJson([2, 1]));
+    });
+
+    it('should skip undefined properties like JSON does', () => {
+      expect(canonicalJson({ a: 1, b: undefined })).toBe(canonicalJson({ a: 1 }));
+    });
+  });
+
+  describe('remapSnapshotExercises', () => {
+    const snapshotExercise = (exerciseId: string, name: string, orderIndex: number): TemplateExerciseDetail => ({
+      id: `te-${orderIndex}`,
+      exerciseId,
+      orderIndex,
+      warmupSets: 1,
+      workingSets: 3,
+      targetReps: '8-12',
+      restSeconds: 90,
+      notes: null,
+      exercise: { id: exerciseId, name, primaryMuscles: ['chest'], equipment: null, thumbnailUrl: null, videoUrl: null },
+    });
+
+    it('should point exercises at their resolved IDs and keep set prescriptions', () => {
+      const result = remapSnapshotExercises(
+        [snapshotExercise('old-bench', 'Bench Press', 0)],
+        new Map([['old-bench', 'new-bench']])
+      );
+
+      expect(result.exercises).toEqual([{
+        exerciseId: 'new-bench',
+        orderIndex: 0,
+        workingSets: 3,
+        warmupSets: 1,
+        targetReps: '8-12',
+        restSeconds: 90,
+        notes: null,
+      }]);
+      expect(result.unmatched).toEqual([]);
+    });
+
+    it('should drop unmatched exercises and renumber the rest in order', () => {
+      const result = remapSnapshotExercises(
+        [
+          snapshotExercise('fly', 'Cable Fly', 2),
+          snapshotExercise('gone', 'Retired Press', 1),
+          snapshotExercise('bench', 'Bench Press', 0),
+        ],
+        new Map([['bench', 'bench'], ['fly', 'fly']])
+      );
+
+      expect(result.exercises.map(e => [e.exerciseId, e.orderIndex])).toEqual([['bench', 0], ['fly', 1]]);
+      expect(result.unmatched).toEqual(['Retired Press']);
+    });
+  });
 });
 
 describe('share validation', () => {
@@ -73,6 +161,18 @@ describe('share validation', () => {
       expect(result.sanitized?.itemId).toBe(validUuid);
     });
 
+    it('should default to snapshot mode and accept live', () => {
+      expect(validateCreateShare({ type: 'program', itemId: validUuid }).sanitized?.mode).toBe('snapshot');
+      expect(validateCreateShare({ type: 'program', itemId: validUuid, mode: 'live' }).sanitized?.mode).toBe('live');
+    });
+
+    it('should reject invalid mode', () => {
+      const result = validateCreateShare({ type: 'program', itemId: validUuid, mode: 'frozen' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('mode must be one of: snapshot, live');
+    });
+
     it('should reject missing type', () => {
       const result = validateCreateShare({
         itemId: validUuid
@@ -142,6 +242,50 @@ describe('share validation', () => {
       expect(result.valid).toBe(false);
       expect(result.errors.some(e => e.includes('itemId'))).toBe(true);
     });
+
+    describe('expiresAt', () => {
+      const now = new Date('2026-01-10T00:00:00Z');
+
+      it('should accept a future expiry and normalize it', () => {
+        const result = validateCreateShare({
+          type: 'template',
+          itemId: validUuid,
+          expiresAt: '2026-02-01T12:00:00+02:00'
+        }, now);
+
+        expect(result.valid).toBe(true);
+        expect(result.sanitized?.expiresAt).toBe('2026-02-01T10:00:00.000Z');
+      });
+
+      it('should treat null as no expiry', () => {
+        const result = validateCreateShare({ type: 'template', itemId: validUuid, expiresAt: null }, now);
+
+        expect(result.valid).toBe(true);
+        expect(result.sanitized).not.toHaveProperty('expiresAt');
+      });
+
+      it('should reject past, distant or malformed expiries', () => {
+        expect(validateCreateShare({ type: 'template', itemId: validUuid, expiresAt: '2026-01-09T00:00:00Z' }, now).errors)
+          .toContain('expiresAt must be in the future');
+        expect(validateCreateShare({ type: 'template', itemId: validUuid, expiresAt: '2027-06-01T00:00:00Z' }, now).errors)
+          .toContain('expiresAt cannot be more than 365 days away');
+        expect(validateCreateShare({ type: 'template', itemId: validUuid, expiresAt: 'tomorrow' }, now).valid)
+          .toBe(false);
+      });
+    });
+  });
+
+  describe('validateShareListQuery', () => {
+    it('should accept type and limit', () => {
+      const result = validateShareListQuery({ type: 'program', limit: '5' });
+
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ type: 'program', limit: 5 });
+    });
+
+    it('should reject unknown types', () => {
+      expect(validateShareListQuery({ type: 'workout' }).valid).toBe(false);
+    });
   });
 
   describe('validateShareToken', () => {
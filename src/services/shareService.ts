@@ -1,17 +1,40 @@
 import crypto from 'crypto';
 import { db } from '../db';
-import { shares, users } from '../db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import {
+  shares,
+  shareImports,
+  users,
+  exercises,
+  workoutTemplates,
+  templateExercises,
+  workoutPrograms,
+  programWeeks,
+} from '../db/schema';
+import { eq, and, or, sql, desc, isNull, gt, SQL } from 'drizzle-orm';
 import {
   CreateShareInput,
   CreateShareResponse,
   ShareResponse,
+  ImportShareResponse,
+  RepublishShareResponse,
+  ShareListQuery,
+  ShareListItem,
+  ShareListResponse,
+  ShareCursorData,
+  ShareSortOption,
   ProgramShareSnapshot,
   ProgramWorkoutShareSnapshot,
 } from '../models/share.types';
-import { TemplateDetail } from '../models/template.types';
+import { TemplateDetail, TemplateExerciseDetail } from '../models/template.types';
 import { verifyTemplateOwnership, getTemplateById } from './templateService';
 import { verifyProgramOwnership, getProgramById } from './programService';
+import { visibleExerciseCondition, mapExercisesForUser } from './exerciseService';
+
+// ============ Constants ============
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_CURSOR_LENGTH = 500;
 
 // ============ Token Generation ============
 
@@ -27,6 +50,58 @@ export function generateShareToken(): string {
   return crypto.randomBytes(9).toString('base64url');
 }
 
+export function toShareUrl(token: string): string {
+  return `nippardation://share/${token}`;
+}
+
+// ============ Cursor Utilities ============
+
+export function encodeCursor(data: ShareCursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): ShareCursorData | null {
+  try {
+    if (cursor.length > MAX_CURSOR_LENGTH) {
+      return null;
+    }
+
+    const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+    const parsed = JSON.parse(decoded);
+
+    if (!isValidCursorData(parsed)) {
+      return null;
+    }
+
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function isValidCursorData(data: unknown): data is ShareCursorData {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const cursor = data as Record<string, unknown>;
+
+  if (typeof cursor.id !== 'string' || cursor.id.length === 0) {
+    return false;
+  }
+
+  if (typeof cursor.sortValue !== 'string') {
+    return false;
+  }
+
+  const validSortFields: ShareSortOption[] = ['createdAt'];
+  if (typeof cursor.sortField !== 'string' || !validSortFields.includes(cursor.sortField as ShareSortOption)) {
+    return false;
+  }
+
+  return true;
+}
+
 // ============ Main Service Functions ============
 
 /**
@@ -34,43 +109,73 @@ export function generateShareToken(): string {
  *
  * Flow:
  * 1. Verify the user owns the item
- * 2. Build a snapshot (full data frozen at this point in time)
- * 3. Generate a unique token and insert into the shares table
+ * 2. For a live share, reuse the user's unexpired live share of the item,
+ *    if there is one. A requested expiry is applied to it. Snapshot shares
+ *    are never reused, since the snapshot would be stale after an edit
+ * 3. Otherwise build a snapshot (full data at this point in time)
+ * 4. Generate a unique token and insert into the shares table
  *
- * The snapshot means edits/deletions of the original don't affect the share.
+ * In snapshot mode, edits/deletions of the original don't affect the share
+ * until it's republished. Live shares refresh the snapshot on each view.
  */
 export async function createShare(
   userId: string,
   input: CreateShareInput
 ): Promise<CreateShareResponse> {
   const { type, itemId } = input;
+  const mode = input.mode ?? 'snapshot';
+  const expiresAt = input.expiresAt ? new Date(input.expiresAt) : null;
 
-  // Step 1: Verify ownership and build snapshot based on type
-  let snapshot: TemplateDetail | ProgramShareSnapshot;
+  // Step 1: Verify ownership
+  const owned = type === 'template'
+    ? await verifyTemplateOwnership(itemId, userId)
+    : await verifyProgramOwnership(itemId, userId);
+  if (!owned) {
+    throw new ShareNotFoundError(
+      `${type === 'template' ? 'Template' : 'Program'} not found or not owned by user`
+    );
+  }
 
-  if (type === 'template') {
-    const owned = await verifyTemplateOwnership(itemId, userId);
-    if (!owned) {
-      throw new ShareNotFoundError('Template not found or not owned by user');
-    }
+  // Step 2: Reuse a live share of the same item
+  const [live] = mode === 'live'
+    ? await db
+        .select()
+        .from(shares)
+        .where(and(
+          eq(shares.sharedBy, userId),
+          eq(shares.type, type),
+          eq(shares.itemId, itemId),
+          eq(shares.mode, 'live'),
+          or(isNull(shares.expiresAt), gt(shares.expiresAt, new Date()))
+        ))
+        .orderBy(desc(shares.createdAt))
+        .limit(1)
+    : [];
 
-    const templateDetail = await getTemplateById(itemId, userId);
-    if (!templateDetail) {
-      throw new ShareNotFoundError('Template not found');
+  if (live) {
+    let liveExpiresAt = live.expiresAt;
+    if (expiresAt) {
+      await db.update(shares).set({ expiresAt }).where(eq(shares.id, live.id));
+      liveExpiresAt = expiresAt;
     }
 
-    snapshot = templateDetail;
-  } else {
-    // type === 'program'
-    const owned = await verifyProgramOwnership(itemId, userId);
-    if (!owned) {
-      throw new ShareNotFoundError('Program not found or not owned by user');
-    }
+    return {
+      token: live.token,
+      shareUrl: toShareUrl(live.token),
+      mode,
+      version: live.version,
+      expiresAt: liveExpiresAt ? liveExpiresAt.toISOString() : null,
+      reused: true,
+    };
+  }
 
-    snapshot = await buildProgramSnapshot(itemId, userId);
+  // Step 3: Build snapshot based on type
+  const snapshot = await buildItemSnapshot(type, itemId, userId);
+  if (!snapshot) {
+    throw new ShareNotFoundError(`${type === 'template' ? 'Template' : 'Program'} not found`);
   }
 
-  // Step 2: Generate token and insert, with retry on (astronomically unlikely) collision
+  // Step 4: Generate token and insert, with retry on (astronomically unlikely) collision
   const MAX_RETRIES = 3;
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
     const token = generateShareToken();
@@ -82,13 +187,17 @@ export async function createShare(
         itemId,
         sharedBy: userId,
         snapshot,
-        expiresAt: null,
+        mode,
+        expiresAt,
       });
 
       return {
         token,
-        shareUrl: `nippardation://share/${token}`,
-        expiresAt: null,
+        shareUrl: toShareUrl(token),
+        mode,
+        version: 1,
+        expiresAt: expiresAt ? expiresAt.toISOString() : null,
+        reused: false,
       };
     } catch (error: unknown) {
       // Retry only on unique constraint violation (token collision)
@@ -113,15 +222,13 @@ export async function createShare(
  *
  * Joins with the users table to get sharer info (handle, displayName, avatarUrl).
  * Returns null if the token doesn't exist or the share has expired.
+ * Each successful lookup counts as a view. Live shares are resolved from the
+ * current item first.
  */
 export async function getShareByToken(token: string): Promise<ShareResponse | null> {
   const results = await db
     .select({
-      token: shares.token,
-      type: shares.type,
-      snapshot: shares.snapshot,
-      expiresAt: shares.expiresAt,
-      createdAt: shares.createdAt,
+      share: shares,
       sharedByHandle: users.handle,
       sharedByDisplayName: users.displayName,
       sharedByAvatar: users.profilePictureUrl,
@@ -136,43 +243,506 @@ export async function getShareByToken(token: string): Promise<ShareResponse | nu
   }
 
   const row = results[0];
+  const share = row.share;
 
   // Check expiration
-  if (row.expiresAt && row.expiresAt < new Date()) {
+  if (share.expiresAt && share.expiresAt < new Date()) {
     return null;
   }
 
+  const content = await resolveShareContent(share);
+
+  await db
+    .update(shares)
+    .set({ viewCount: sql`${shares.viewCount} + 1` })
+    .where(eq(shares.token, token));
+
   const sharedBy = {
     handle: row.sharedByHandle,
     displayName: row.sharedByDisplayName,
     avatarUrl: row.sharedByAvatar,
   };
 
-  if (row.type === 'template') {
+  const base = {
+    token: share.token,
+    mode: share.mode,
+    version: content.version,
+    lastUpdated: content.snapshotUpdatedAt.toISOString(),
+    sharedBy,
+    sharedAt: share.createdAt.toISOString(),
+    expiresAt: share.expiresAt ? share.expiresAt.toISOString() : null,
+  };
+
+  if (share.type === 'template') {
     return {
-      token: row.token,
+      ...base,
       type: 'template',
-      sharedBy,
-      sharedAt: row.createdAt.toISOString(),
-      expiresAt: row.expiresAt ? row.expiresAt.toISOString() : null,
-      template: row.snapshot as TemplateDetail,
+      template: content.snapshot as TemplateDetail,
       program: null,
     };
   } else {
     return {
-      token: row.token,
+      ...base,
       type: 'program',
-      sharedBy,
-      sharedAt: row.createdAt.toISOString(),
-      expiresAt: row.expiresAt ? row.expiresAt.toISOString() : null,
       template: null,
-      program: row.snapshot as ProgramShareSnapshot,
+      program: content.snapshot as ProgramShareSnapshot,
     };
   }
 }
 
+/**
+ * Refreshes a share's snapshot from the current item (owner only).
+ * The version is bumped only if the content changed.
+ */
+export async function republishShare(token: string, userId: string): Promise<RepublishShareResponse | null> {
+  const [share] = await db
+    .select()
+    .from(shares)
+    .where(and(eq(shares.token, token), eq(shares.sharedBy, userId)))
+    .limit(1);
+
+  if (!share) {
+    return null;
+  }
+
+  const snapshot = await buildItemSnapshot(share.type, share.itemId, userId);
+  if (!snapshot) {
+    throw new ShareNotFoundError(`The shared ${share.type} no longer exists`);
+  }
+
+  const content = await storeSnapshot(share, snapshot);
+  return {
+    token: share.token,
+    version: content.version,
+    lastUpdated: content.snapshotUpdatedAt.toISOString(),
+    changed: content.version !== share.version,
+  };
+}
+
+/**
+ * Imports a share into the user's own templates/programs.
+ *
+ * Flow:
+ * 1. Resolve the share's content (refreshing live shares), and match its exercises against the current library. IDs that
+ *    no longer exist are matched by name; exercises with no match are left out
+ * 2. Lock the share, so concurrent imports by the same user can't both copy
+ * 3. If the user already imported it and still has the copy, return that copy
+ * 4. Otherwise create the copy, and record the import on the share
+ *
+ * Returns null if the token doesn't exist or the share has expired.
+ */
+export async function importShare(token: string, userId: string): Promise<ImportShareResponse | null> {
+  const [share] = await db
+    .select()
+    .from(shares)
+    .where(eq(shares.token, token))
+    .limit(1);
+
+  if (!share || (share.expiresAt && share.expiresAt < new Date())) {
+    return null;
+  }
+
+  const content = await resolveShareContent(share);
+  const templates = share.type === 'template'
+    ? [content.snapshot as TemplateDetail]
+    : (content.snapshot as ProgramShareSnapshot).workouts.map(w => w.template);
+  const exerciseIdMap = await resolveSnapshotExercises(templates, userId);
+  const unmatched = new Set<string>();
+
+  const result = await db.transaction(async (tx) => {
+    await tx
+      .select({ id: shares.id })
+      .from(shares)
+      .where(eq(shares.id, share.id))
+      .for('update');
+
+    const [existing] = await tx
+      .select()
+      .from(shareImports)
+      .where(and(eq(shareImports.shareId, share.id), eq(shareImports.userId, userId)))
+      .limit(1);
+
+    if (existing && await importedItemExists(tx, share.type, existing.importedItemId, userId)) {
+      return { itemId: existing.importedItemId, importedVersion: existing.importedVersion, alreadyImported: true };
+    }
+
+    // Copy each snapshot template once, even if a program uses it on several days
+    const templateIdMap = new Map<string, string>();
+    for (const template of templates) {
+      if (templateIdMap.has(template.id)) continue;
+
+      const remapped = remapSnapshotExercises(template.exercises, exerciseIdMap);
+      remapped.unmatched.forEach(name => unmatched.add(name));
+
+      const [copy] = await tx
+        .insert(workoutTemplates)
+        .values({
+          userId,
+          name: template.name,
+          description: template.description,
+          isAiGenerated: template.isAiGenerated,
+        })
+        .returning();
+
+      if (remapped.exercises.length > 0) {
+        await tx.insert(templateExercises).values(
+          remapped.exercises.map(e => ({ ...e, templateId: copy.id }))
+        );
+      }
+      templateIdMap.set(template.id, copy.id);
+    }
+
+    let itemId: string;
+    if (share.type === 'template') {
+      itemId = templateIdMap.get(templates[0].id)!;
+    } else {
+      const snapshot = content.snapshot as ProgramShareSnapshot;
+      const [program] = await tx
+        .insert(workoutPrograms)
+        .values({
+          userId,
+          name: snapshot.name,
+          description: snapshot.description,
+          daysPerWeek: snapshot.daysPerWeek,
+          durationWeeks: snapshot.durationWeeks,
+          isAiGenerated: snapshot.isAiGenerated,
+        })
+        .returning();
+
+      if (snapshot.workouts.length > 0) {
+        await tx.insert(programWeeks).values(
+          snapshot.workouts.map(w => ({
+            programId: program.id,
+            weekNumber: 1,
+            dayNumber: w.dayNumber,
+            templateId: templateIdMap.get(w.template.id)!,
+            dayLabel: w.dayLabel,
+          }))
+        );
+      }
+      itemId = program.id;
+    }
+
+    if (existing) {
+      // The earlier copy was deleted; point the import at the new one
+      await tx
+        .update(shareImports)
+        .set({ importedItemId: itemId, importedVersion: content.version, updatedAt: new Date() })
+        .where(eq(shareImports.id, existing.id));
+    } else {
+      await tx.insert(shareImports).values({
+        shareId: share.id,
+        userId,
+        importedItemId: itemId,
+        importedVersion: content.version,
+      });
+      await tx
+        .update(shares)
+        .set({ importCount: sql`${shares.importCount} + 1` })
+        .where(eq(shares.id, share.id));
+    }
+
+    return { itemId, importedVersion: content.version, alreadyImported: false };
+  });
+
+  const template = share.type === 'template' ? await getTemplateById(result.itemId, userId) : null;
+  const program = share.type === 'program' ? await getProgramById(result.itemId, userId) : null;
+
+  return {
+    type: share.type,
+    alreadyImported: result.alreadyImported,
+    version: content.version,
+    importedVersion: result.importedVersion,
+    template,
+    program,
+    unmatchedExercises: [...unmatched],
+  };
+}
+
+/**
+ * Lists the user's shares, newest first, including expired ones
+ */
+export async function getMyShares(userId: string, query: ShareListQuery): Promise<ShareListResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const conditions: SQL[] = [eq(shares.sharedBy, userId)];
+
+  if (query.type) {
+    conditions.push(eq(shares.type, query.type));
+  }
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData) {
+      conditions.push(sql`(${shares.createdAt} < ${cursorData.sortValue}::timestamp OR (${shares.createdAt} = ${cursorData.sortValue}::timestamp AND ${shares.id} > ${cursorData.id}))`);
+    }
+  }
+
+  const results = await db
+    .select({
+      id: shares.id,
+      token: shares.token,
+      type: shares.type,
+      itemId: shares.itemId,
+      name: sql<string>`${shares.snapshot}->>'name'`,
+      mode: shares.mode,
+      version: shares.version,
+      snapshotUpdatedAt: shares.snapshotUpdatedAt,
+      expiresAt: shares.expiresAt,
+      viewCount: shares.viewCount,
+      importCount: shares.importCount,
+      createdAt: shares.createdAt,
+    })
+    .from(shares)
+    .where(and(...conditions))
+    .orderBy(desc(shares.createdAt), shares.id)
+    .limit(limit + 1);
+
+  const hasMore = results.length > limit;
+  const page = hasMore ? results.slice(0, limit) : results;
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1];
+    nextCursor = encodeCursor({ id: last.id, sortValue: last.createdAt.toISOString(), sortField: 'createdAt' });
+  }
+
+  const now = new Date();
+  const items: ShareListItem[] = page.map(s => ({
+    token: s.token,
+    shareUrl: toShareUrl(s.token),
+    type: s.type,
+    itemId: s.itemId,
+    name: s.name,
+    mode: s.mode,
+    version: s.version,
+    lastUpdated: s.snapshotUpdatedAt.toISOString(),
+    expiresAt: s.expiresAt ? s.expiresAt.toISOString() : null,
+    isExpired: !!s.expiresAt && s.expiresAt < now,
+    viewCount: s.viewCount,
+    importCount: s.importCount,
+    createdAt: s.createdAt.toISOString(),
+  }));
+
+  return {
+    shares: items,
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+/**
+ * Revokes one of the user's shares. The link stops working; templates and
+ * programs already imported from it are kept.
+ * Returns false if the share doesn't exist or belongs to someone else.
+ */
+export async function deleteShare(token: string, userId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(shares)
+    .where(and(eq(shares.token, token), eq(shares.sharedBy, userId)))
+    .returning();
+
+  return deleted.length > 0;
+}
+
+// ============ Import Helpers ============
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Maps each snapshot exercise ID to an exercise the importer can use: see
+ * mapExercisesForUser for ones that still exist. A deleted exercise maps to
+ * the library or importer's custom exercise with the same name
+ * (case-insensitive). Exercises with no match are missing from the map.
+ */
+async function resolveSnapshotExercises(
+  templates: TemplateDetail[],
+  userId: string
+): Promise<Map<string, string>> {
+  const snapshotExercises = templates.flatMap(t => t.exercises.map(e => e.exercise));
+  const ids = [...new Set(snapshotExercises.map(e => e.id))];
+  const exerciseIdMap = await mapExercisesForUser(ids, userId);
+
+  const missing = snapshotExercises.filter(e => !exerciseIdMap.has(e.id));
+  if (missing.length === 0) {
+    return exerciseIdMap;
+  }
+
+  const names = [...new Set(missing.map(e => e.name.toLowerCase()))];
+  const byName = await db
+    .select({ id: exercises.id, name: exercises.name })
+    .from(exercises)
+    .where(and(
+      sql`LOWER(${exercises.name}) IN (${sql.join(names.map(n => sql`${n}`), sql`, `)})`,
+      visibleExerciseCondition(userId)
+    ))
+    // Library rows come last so they win over a custom exercise of the same name
+    .orderBy(desc(exercises.isCustom));
+  const idsByName = new Map<string, string>();
+  byName.forEach(e => idsByName.set(e.name.toLowerCase(), e.id));
+
+  for (const exercise of missing) {
+    const matchedId = idsByName.get(exercise.name.toLowerCase());
+    if (matchedId) {
+      exerciseIdMap.set(exercise.id, matchedId);
+    }
+  }
+
+  return exerciseIdMap;
+}
+
+/**
+ * Rewrites snapshot template exercises onto resolved exercise IDs. Exercises
+ * without a match are dropped (and reported by name); the rest keep their
+ * order, renumbered from 0.
+ */
+export function remapSnapshotExercises(
+  snapshotExercises: TemplateExerciseDetail[],
+  exerciseIdMap: Map<string, string>
+): {
+  exercises: Array<{
+    exerciseId: string;
+    orderIndex: number;
+    workingSets: number;
+    warmupSets: number;
+    targetReps: string | null;
+    restSeconds: number | null;
+    notes: string | null;
+  }>;
+  unmatched: string[];
+} {
+  const ordered = [...snapshotExercises].sort((a, b) => a.orderIndex - b.orderIndex);
+  const matched = ordered.filter(e => exerciseIdMap.has(e.exerciseId));
+
+  return {
+    exercises: matched.map((e, index) => ({
+      exerciseId: exerciseIdMap.get(e.exerciseId)!,
+      orderIndex: index,
+      workingSets: e.workingSets,
+      warmupSets: e.warmupSets ?? 0,
+      targetReps: e.targetReps,
+      restSeconds: e.restSeconds,
+      notes: e.notes,
+    })),
+    unmatched: ordered.filter(e => !exerciseIdMap.has(e.exerciseId)).map(e => e.exercise.name),
+  };
+}
+
+async function importedItemExists(
+  tx: Transaction,
+  type: 'program' | 'template',
+  itemId: string,
+  userId: string
+): Promise<boolean> {
+  const table = type === 'template' ? workoutTemplates : workoutPrograms;
+  const [row] = await tx
+    .select({ id: table.id })
+    .from(table)
+    .where(and(eq(table.id, itemId), eq(table.userId, userId)))
+    .limit(1);
+
+  return !!row;
+}
+
 // ============ Snapshot Builders ============
 
+type ShareRecord = typeof shares.$inferSelect;
+type ShareSnapshot = TemplateDetail | ProgramShareSnapshot;
+
+interface ShareContent {
+  snapshot: ShareSnapshot;
+  version: number;
+  snapshotUpdatedAt: Date;
+}
+
+/**
+ * Builds a snapshot of the item as it is now, or null if the user
+ * no longer has it
+ */
+async function buildItemSnapshot(
+  type: 'program' | 'template',
+  itemId: string,
+  userId: string
+): Promise<ShareSnapshot | null> {
+  if (type === 'template') {
+    return getTemplateById(itemId, userId);
+  }
+
+  const owned = await verifyProgramOwnership(itemId, userId);
+  return owned ? buildProgramSnapshot(itemId, userId) : null;
+}
+
+/**
+ * The content to serve for a share. Live shares are rebuilt from the item
+ * while the sharer still has it, and fall back to the last stored snapshot
+ * once it's gone.
+ */
+async function resolveShareContent(share: ShareRecord): Promise<ShareContent> {
+  if (share.mode === 'live') {
+    const snapshot = await buildItemSnapshot(share.type, share.itemId, share.sharedBy);
+    if (snapshot) {
+      return storeSnapshot(share, snapshot);
+    }
+  }
+
+  return {
+    snapshot: share.snapshot as ShareSnapshot,
+    version: share.version,
+    snapshotUpdatedAt: share.snapshotUpdatedAt,
+  };
+}
+
+/**
+ * Stores a new snapshot if its content differs from the current one, bumping
+ * the version. The version check keeps concurrent refreshes from bumping twice.
+ */
+async function storeSnapshot(share: ShareRecord, snapshot: ShareSnapshot): Promise<ShareContent> {
+  if (canonicalJson(snapshot) === canonicalJson(share.snapshot)) {
+    return { snapshot, version: share.version, snapshotUpdatedAt: share.snapshotUpdatedAt };
+  }
+
+  const [updated] = await db
+    .update(shares)
+    .set({
+      snapshot,
+      version: share.version + 1,
+      snapshotUpdatedAt: new Date(),
+    })
+    .where(and(eq(shares.id, share.id), eq(shares.version, share.version)))
+    .returning();
+
+  if (updated) {
+    return { snapshot, version: updated.version, snapshotUpdatedAt: updated.snapshotUpdatedAt };
+  }
+
+  // Someone else refreshed it first
+  const [current] = await db.select().from(shares).where(eq(shares.id, share.id)).limit(1);
+  return {
+    snapshot: current.snapshot as ShareSnapshot,
+    version: current.version,
+    snapshotUpdatedAt: current.snapshotUpdatedAt,
+  };
+}
+
+/**
+ * JSON with object keys sorted at every level. jsonb doesn't preserve key
+ * order, so stored and freshly built snapshots are compared this way.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
 /**
  * Builds a full program snapshot with complete template exercises for each workout.
  *
@@ -1,6 +1,6 @@
 import { db } from '../db';
 import { userStrengthProfiles, exercises } from '../db/schema';
-import { eq, sql } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
 
 export interface StrengthEntry {
   exerciseId: string;
@@ -28,7 +28,7 @@ async function matchExerciseName(name: string): Promise<{ id: string; name: stri
   const exact = await db
     .select({ id: exercises.id, name: exercises.name })
     .from(exercises)
-    .where(sql`LOWER(${exercises.name}) = LOWER(${name})`)
+    .where(and(eq(exercises.isCustom, false), sql`LOWER(${exercises.name}) = LOWER(${name})`))
     .limit(1);
 
   if (exact.length > 0) return exact[0];
@@ -41,7 +41,7 @@ async function matchExerciseName(name: string): Promise<{ id: string; name: stri
       similarity: sql<number>`word_similarity(${name}, ${exercises.name})`.as('similarity'),
     })
     .from(exercises)
-    .where(sql`word_similarity(${name}, ${exercises.name}) > 0.3`)
+    .where(and(eq(exercises.isCustom, false), sql`word_similarity(${name}, ${exercises.name}) > 0.3`))
     .orderBy(sql`word_similarity(${name}, ${exercises.name}) DESC`)
     .limit(1);
 
@@ -51,7 +51,7 @@ async function matchExerciseName(name: string): Promise<{ id: string; name: stri
   const contains = await db
     .select({ id: exercises.id, name: exercises.name })
     .from(exercises)
-    .where(sql`${exercises.name} ILIKE ${'%' + name + '%'}`)
+    .where(and(eq(exercises.isCustom, false), sql`${exercises.name} ILIKE ${'%' + name + '%'}`))
     .limit(1);
 
   if (contains.length > 0) return contains[0];
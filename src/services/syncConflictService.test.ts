@@ -0,0 +1,227 @@
+// Mock the database module before importing syncConflictService
+jest.mock('../db', () => ({
+  db: { select: jest.fn(), update: jest.fn() }
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  syncConflictLog: {}
+}));
+
+// Only the calls resolveConflict makes into the sync write path are observed
+jest.mock('./syncService', () => ({
+  SyncService: {
+    getWorkoutSnapshot: jest.fn(),
+    applyConflictResolution: jest.fn(),
+    supersedeOpenConflicts: jest.fn()
+  }
+}));
+
+import { db } from '../db';
+import { diffWorkoutSyncData, encodeCursor, decodeCursor, resolveConflict } from './syncConflictService';
+import { SyncService, WorkoutSyncData } from './syncService';
+import { validateResolveConflict } from '../utils/validation';
+
+function makeWorkout(overrides: Partial<WorkoutSyncData> = {}): WorkoutSyncData {
+  return {
+    clientId: 'workout-1',
+    userId: 'user-1',
+    date: '2024-01-15T10:00:00.000Z',
+    name: 'Push Day',
+    isCompleted: true,
+    updatedAt: '2024-01-15T11:00:00.000Z',
+    exercises: [
+      {
+        clientId: 'exercise-1',
+        exerciseName: 'Bench Press',
+        primaryMuscles: ['chest'],
+        updatedAt: '2024-01-15T11:00:00.000Z',
+        sets: [
+          {
+            clientId: 'set-1',
+            reps: 8,
+            weight: 135,
+            setType: 'working',
+            exerciseTypeName: 'Bench Press',
+            exerciseTypePrimaryMuscles: ['chest'],
+            updatedAt: '2024-01-15T11:00:00.000Z'
+          }
+        ]
+      }
+    ],
+    ...overrides
+  };
+}
+
+describe('syncConflictService', () => {
+  describe('diffWorkoutSyncData', () => {
+    it('should report no differences for identical workouts', () => {
+      expect(diffWorkoutSyncData(makeWorkout(), makeWorkout())).toEqual([]);
+    });
+
+    it('should ignore updatedAt and timestamp formatting', () => {
+      const server = makeWorkout({ date: '2024-01-15T10:00:00Z', updatedAt: '2024-01-16T00:00:00.000Z' });
+      expect(diffWorkoutSyncData(makeWorkout(), server)).toEqual([]);
+    });
+
+    it('should treat missing and null optional fields as equal', () => {
+      expect(diffWorkoutSyncData(makeWorkout({ durationSeconds: undefined }), makeWorkout())).toEqual([]);
+    });
+
+    it('should report changed workout fields', () => {
+      const diff = diffWorkoutSyncData(makeWorkout({ name: 'Chest Day' }), makeWorkout());
+      expect(diff).toEqual([{ path: 'name', clientValue: 'Chest Day', serverValue: 'Push Day' }]);
+    });
+
+    it('should address set fields by client ID', () => {
+      const client = makeWorkout();
+      client.exercises[0].sets[0] = { ...client.exercises[0].sets[0], reps: 10 };
+
+      expect(diffWorkoutSyncData(client, makeWorkout())).toEqual([
+        { path: 'exercises[exercise-1].sets[set-1].reps', clientValue: 10, serverValue: 8 }
+      ]);
+    });
+
+    it('should not report notes and RPE an older client left out', () => {
+      const server = makeWorkout({ notes: 'Felt strong' });
+      server.exercises[0].sets[0] = { ...server.exercises[0].sets[0], rpe: 8, notes: 'Paused' };
+
+      expect(diffWorkoutSyncData(makeWorkout(), server)).toEqual([]);
+    });
+
+    it('should report changed RPE', () => {
+      const client = makeWorkout();
+      client.exercises[0].sets[0] = { ...client.exercises[0].sets[0], rpe: 9 };
+      const server = makeWorkout();
+      server.exercises[0].sets[0] = { ...server.exercises[0].sets[0], rpe: 8 };
+
+      expect(diffWorkoutSyncData(client, server)).toEqual([
+        { path: 'exercises[exercise-1].sets[set-1].rpe', clientValue: 9, serverValue: 8 }
+      ]);
+    });
+
+    it('should report exercises that exist on only one side', () => {
+      const server = makeWorkout();
+      const client = makeWorkout({ exercises: [] });
+
+      const diff = diffWorkoutSyncData(client, server);
+      expect(diff).toHaveLength(1);
+      expect(diff[0].path).toBe('exercises[exercise-1]');
+      expect(diff[0].clientValue).toBeNull();
+    });
+
+    it('should describe a rejected deletion', () => {
+      const diff = diffWorkoutSyncData(
+        { clientId: 'workout-1', deletedAt: '2024-01-15T09:00:00.000Z' },
+        makeWorkout()
+      );
+      expect(diff).toEqual([{ path: 'deletedAt', clientValue: '2024-01-15T09:00:00.000Z', serverValue: null }]);
+    });
+  });
+
+  describe('cursor utilities', () => {
+    it('should round-trip a cursor', () => {
+      const data = { id: 'conflict-1', sortValue: '2024-01-15T10:00:00.000Z', sortField: 'createdAt' as const };
+      expect(decodeCursor(encodeCursor(data))).toEqual(data);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(decodeCursor('not-a-cursor')).toBeNull();
+      expect(decodeCursor(encodeCursor({ id: 'x', sortValue: 1, sortField: 'createdAt' }))).toBeNull();
+    });
+  });
+});
+
+describe('resolveConflict', () => {
+  const mockDb = db as unknown as { select: jest.Mock; update: jest.Mock };
+  const mockSyncService = SyncService as unknown as Record<'applyConflictResolution' | 'supersedeOpenConflicts', jest.Mock>;
+
+  function conflictRow(resolvedBy: string) {
+    return {
+      id: 'conflict-1',
+      userId: 'user-1',
+      entityType: 'workout',
+      entityId: 'server-workout-1',
+      clientData: makeWorkout({ name: 'Chest Day' }),
+      resolvedBy,
+      resolvedAt: new Date('2024-01-15T11:05:00.000Z')
+    };
+  }
+
+  // The conflict lookup returns `row`; the claim (setting resolvedBy 'user') returns `claimed`
+  function mockConflict(row: ReturnType<typeof conflictRow>, claimed: boolean) {
+    mockDb.select.mockReturnValue({
+      from: () => ({ where: () => ({ limit: async () => [row] }) })
+    });
+    mockDb.update.mockImplementation(() => ({
+      set: (values: { resolvedBy?: string }) => ({
+        where: () => ({
+          returning: async () => (values.resolvedBy === 'user' && claimed ? [row] : []),
+          then: (resolve: (value: unknown) => void) => resolve(undefined)
+        })
+      })
+    }));
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSyncService.applyConflictResolution.mockResolvedValue([]);
+  });
+
+  it('should apply the change once the conflict is claimed', async () => {
+    mockConflict(conflictRow('system'), true);
+
+    const result = await resolveConflict('user-1', 'conflict-1', 'client');
+
+    expect(result?.resolution).toBe('client_wins');
+    expect(mockSyncService.applyConflictResolution).toHaveBeenCalledTimes(1);
+    expect(mockSyncService.supersedeOpenConflicts).toHaveBeenCalledWith(db, 'user-1', 'server-workout-1');
+  });
+
+  it('should not apply anything when another request claimed the conflict first', async () => {
+    mockConflict(conflictRow('system'), false);
+
+    await expect(resolveConflict('user-1', 'conflict-1', 'client')).rejects.toMatchObject({ statusCode: 409 });
+    expect(mockSyncService.applyConflictResolution).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a conflict superseded by a later write', async () => {
+    mockConflict(conflictRow('superseded'), true);
+
+    await expect(resolveConflict('user-1', 'conflict-1', 'client')).rejects.toMatchObject({ statusCode: 409 });
+    expect(mockDb.update).not.toHaveBeenCalled();
+    expect(mockSyncService.applyConflictResolution).not.toHaveBeenCalled();
+  });
+});
+
+describe('validateResolveConflict', () => {
+  it('should accept client and server without data', () => {
+    expect(validateResolveConflict({ resolution: 'client' }).sanitized).toEqual({ resolution: 'client' });
+    expect(validateResolveConflict({ resolution: 'server' }).valid).toBe(true);
+  });
+
+  it('should reject unknown resolutions', () => {
+    expect(validateResolveConflict({ resolution: 'mine' }).valid).toBe(false);
+  });
+
+  it('should require data for merged', () => {
+    expect(validateResolveConflict({ resolution: 'merged' }).errors).toEqual([
+      'data is required when resolution is merged'
+    ]);
+  });
+
+  it('should validate merged data as a sync workout', () => {
+    const result = validateResolveConflict({
+      resolution: 'merged',
+      data: { clientId: 'workout-1', exercises: [{ clientId: 'exercise-1', sets: [] }] }
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors).toContain('data.exercises[0].exerciseName is required');
+  });
+
+  it('should accept a complete merged workout', () => {
+    const result = validateResolveConflict({ resolution: 'merged', data: makeWorkout() });
+    expect(result.valid).toBe(true);
+    expect(result.sanitized?.data).toBeDefined();
+  });
+});
@@ -0,0 +1,407 @@
+import { db } from '../db';
+import { syncConflictLog } from '../db/schema';
+import { eq, and, asc, sql, SQL } from 'drizzle-orm';
+import {
+  SyncService,
+  WorkoutSyncData,
+  ExerciseSyncData,
+  SetSyncData,
+  DeletedWorkoutSyncData,
+} from './syncService';
+import {
+  ConflictFieldDiff,
+  ConflictResolutionChoice,
+  SyncConflictItem,
+  SyncConflictListQuery,
+  SyncConflictListResponse,
+  SyncConflictCursorData,
+  SyncConflictSortOption,
+  ResolveSyncConflictResponse,
+} from '../models/syncConflict.types';
+
+// ============ Constants ============
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_CURSOR_LENGTH = 500;
+
+const WORKOUT_DIFF_FIELDS = ['date', 'name', 'durationSeconds', 'isCompleted', 'startTime', 'endTime', 'notes'] as const;
+const WORKOUT_TIMESTAMP_FIELDS = new Set<string>(['date', 'startTime', 'endTime']);
+const SET_DIFF_FIELDS = ['reps', 'weight', 'setType', 'loadType', 'durationSeconds', 'distanceMeters', 'rpe', 'notes'] as const;
+// Older clients leave these out, which means "unchanged" rather than "cleared"
+const OMITTABLE_FIELDS = new Set<string>(['notes', 'rpe', 'loadType', 'durationSeconds', 'distanceMeters']);
+
+// ============ Cursor Utilities ============
+
+export function encodeCursor(data: SyncConflictCursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): SyncConflictCursorData | null {
+  try {
+    if (cursor.length > MAX_CURSOR_LENGTH) {
+      return null;
+    }
+
+    const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+    const parsed = JSON.parse(decoded);
+
+    if (!isValidCursorData(parsed)) {
+      return null;
+    }
+
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function isValidCursorData(data: unknown): data is SyncConflictCursorData {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const cursor = data as Record<string, unknown>;
+
+  if (typeof cursor.id !== 'string' || cursor.id.length === 0) {
+    return false;
+  }
+
+  if (typeof cursor.sortValue !== 'string') {
+    return false;
+  }
+
+  const validSortFields: SyncConflictSortOption[] = ['createdAt'];
+  if (typeof cursor.sortField !== 'string' || !validSortFields.includes(cursor.sortField as SyncConflictSortOption)) {
+    return false;
+  }
+
+  return true;
+}
+
+// ============ Diff Helpers ============
+
+/**
+ * Normalizes a value for comparison: missing values become null and
+ * timestamps are compared by instant rather than string format
+ */
+function normalizeValue(value: unknown, isTimestamp = false): unknown {
+  if (value === undefined || value === null) return null;
+  if (isTimestamp && typeof value === 'string') {
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? value : parsed.toISOString();
+  }
+  return value;
+}
+
+function wasOmitted(client: object, field: string): boolean {
+  return OMITTABLE_FIELDS.has(field) && (client as Record<string, unknown>)[field] === undefined;
+}
+
+function pushIfDifferent(diff: ConflictFieldDiff[], path: string, clientValue: unknown, serverValue: unknown): void {
+  if (clientValue !== serverValue) {
+    diff.push({ path, clientValue, serverValue });
+  }
+}
+
+function diffSets(diff: ConflictFieldDiff[], path: string, clientSets: SetSyncData[], serverSets: SetSyncData[]): void {
+  const serverById = new Map(serverSets.map(s => [s.clientId, s]));
+  const clientIds = new Set(clientSets.map(s => s.clientId));
+
+  for (const clientSet of clientSets) {
+    const setPath = `${path}.sets[${clientSet.clientId}]`;
+    const serverSet = serverById.get(clientSet.clientId);
+    if (!serverSet) {
+      diff.push({ path: setPath, clientValue: clientSet, serverValue: null });
+      continue;
+    }
+    for (const field of SET_DIFF_FIELDS) {
+      if (wasOmitted(clientSet, field)) continue;
+      pushIfDifferent(diff, `${setPath}.${field}`, normalizeValue(clientSet[field]), normalizeValue(serverSet[field]));
+    }
+  }
+
+  for (const serverSet of serverSets) {
+    if (!clientIds.has(serverSet.clientId)) {
+      diff.push({ path: `${path}.sets[${serverSet.clientId}]`, clientValue: null, serverValue: serverSet });
+    }
+  }
+}
+
+function diffExercises(diff: ConflictFieldDiff[], clientExercises: ExerciseSyncData[], serverExercises: ExerciseSyncData[]): void {
+  const serverById = new Map(serverExercises.map((e, index) => [e.clientId, { exercise: e, index }]));
+  const clientIds = new Set(clientExercises.map(e => e.clientId));
+
+  for (const [index, clientExercise] of clientExercises.entries()) {
+    const path = `exercises[${clientExercise.clientId}]`;
+    const server = serverById.get(clientExercise.clientId);
+    if (!server) {
+      diff.push({ path, clientValue: clientExercise, serverValue: null });
+      continue;
+    }
+    pushIfDifferent(diff, `${path}.exerciseName`, clientExercise.exerciseName, server.exercise.exerciseName);
+    pushIfDifferent(diff, `${path}.orderIndex`, index, server.index);
+    if (!wasOmitted(clientExercise, 'notes')) {
+      pushIfDifferent(diff, `${path}.notes`, normalizeValue(clientExercise.notes), normalizeValue(server.exercise.notes));
+    }
+    diffSets(diff, path, clientExercise.sets, server.exercise.sets);
+  }
+
+  for (const serverExercise of serverExercises) {
+    if (!clientIds.has(serverExercise.clientId)) {
+      diff.push({ path: `exercises[${serverExercise.clientId}]`, clientValue: null, serverValue: serverExercise });
+    }
+  }
+}
+
+/**
+ * Field-level differences between a rejected client workout (or tombstone)
+ * and the current server copy. Timestamps used for conflict detection
+ * (`updatedAt`) are not reported.
+ */
+export function diffWorkoutSyncData(
+  client: WorkoutSyncData | DeletedWorkoutSyncData,
+  server: WorkoutSyncData | null
+): ConflictFieldDiff[] {
+  const diff: ConflictFieldDiff[] = [];
+
+  if ('deletedAt' in client) {
+    diff.push({ path: 'deletedAt', clientValue: normalizeValue(client.deletedAt, true), serverValue: null });
+    return diff;
+  }
+
+  if (!server) {
+    diff.push({ path: '', clientValue: client, serverValue: null });
+    return diff;
+  }
+
+  for (const field of WORKOUT_DIFF_FIELDS) {
+    if (wasOmitted(client, field)) continue;
+    const isTimestamp = WORKOUT_TIMESTAMP_FIELDS.has(field);
+    pushIfDifferent(diff, field, normalizeValue(client[field], isTimestamp), normalizeValue(server[field], isTimestamp));
+  }
+
+  diffExercises(diff, client.exercises, server.exercises);
+  return diff;
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Conflicts the user still has to look at: ones the server settled in its
+ * own favour that nobody has reviewed yet
+ */
+function unresolvedConditions(userId: string): SQL[] {
+  return [
+    eq(syncConflictLog.userId, userId),
+    eq(syncConflictLog.entityType, 'workout'),
+    eq(syncConflictLog.resolution, 'server_wins'),
+    eq(syncConflictLog.resolvedBy, 'system'),
+  ];
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * List unresolved conflicts, oldest first, each with a diff against the
+ * current server copy of the workout
+ */
+export async function getUnresolvedConflicts(
+  userId: string,
+  query: SyncConflictListQuery
+): Promise<SyncConflictListResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const conditions = unresolvedConditions(userId);
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData) {
+      conditions.push(sql`(${syncConflictLog.createdAt} > ${cursorData.sortValue}::timestamp OR (${syncConflictLog.createdAt} = ${cursorData.sortValue}::timestamp AND ${syncConflictLog.id} > ${cursorData.id}))`);
+    }
+  }
+
+  const rows = await db
+    .select()
+    .from(syncConflictLog)
+    .where(and(...conditions))
+    .orderBy(asc(syncConflictLog.createdAt), asc(syncConflictLog.id))
+    .limit(limit + 1);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  // Several conflicts can point at the same workout; load each copy once
+  const snapshots = new Map<string, WorkoutSyncData | null>();
+  for (const row of page) {
+    if (!snapshots.has(row.entityId)) {
+      snapshots.set(row.entityId, await SyncService.getWorkoutSnapshot(row.entityId));
+    }
+  }
+
+  const conflicts: SyncConflictItem[] = page.map(row => {
+    const clientData = row.clientData as WorkoutSyncData | DeletedWorkoutSyncData;
+    const serverData = snapshots.get(row.entityId) ?? null;
+    return {
+      id: row.id,
+      entityType: row.entityType,
+      entityId: row.entityId,
+      kind: 'deletedAt' in clientData ? 'delete' : 'update',
+      clientData,
+      serverData,
+      diff: diffWorkoutSyncData(clientData, serverData),
+      clientTimestamp: row.clientTimestamp.toISOString(),
+      serverTimestamp: row.serverTimestamp.toISOString(),
+      createdAt: row.createdAt.toISOString(),
+    };
+  });
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1];
+    nextCursor = encodeCursor({
+      id: last.id,
+      sortValue: last.createdAt.toISOString(),
+      sortField: 'createdAt'
+    });
+  }
+
+  return {
+    conflicts,
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+/**
+ * Resolves a conflict with the version the user picked:
+ * - `client`: re-applies the rejected client change
+ * - `server`: keeps the current server copy
+ * - `merged`: applies the workout the user assembled from both
+ *
+ * The conflict is claimed before anything is applied, so of two concurrent
+ * requests only one writes. Conflicts superseded by a later write to the
+ * workout can't be resolved. Resolving one supersedes the workout's other
+ * open conflicts.
+ *
+ * Returns null if the conflict doesn't exist or belongs to another user.
+ */
+export async function resolveConflict(
+  userId: string,
+  conflictId: string,
+  choice: ConflictResolutionChoice,
+  mergedData?: WorkoutSyncData
+): Promise<ResolveSyncConflictResponse | null> {
+  const [conflict] = await db
+    .select()
+    .from(syncConflictLog)
+    .where(and(
+      eq(syncConflictLog.id, conflictId),
+      eq(syncConflictLog.userId, userId)
+    ))
+    .limit(1);
+
+  if (!conflict) {
+    return null;
+  }
+
+  if (conflict.resolvedBy === 'user') {
+    throw new SyncConflictError('Conflict has already been resolved', 409);
+  }
+
+  if (conflict.resolvedBy === 'superseded') {
+    throw new SyncConflictError('Conflict is out of date: the workout has changed since', 409);
+  }
+
+  if (conflict.entityType !== 'workout') {
+    throw new SyncConflictError(`Conflicts on ${conflict.entityType} entities cannot be resolved manually`, 400);
+  }
+
+  const clientData = conflict.clientData as WorkoutSyncData | DeletedWorkoutSyncData;
+  let data: WorkoutSyncData | DeletedWorkoutSyncData = clientData;
+  let resolution: ResolveSyncConflictResponse['resolution'] = choice === 'server' ? 'server_wins' : 'client_wins';
+
+  if (choice === 'merged') {
+    if ('deletedAt' in clientData) {
+      throw new SyncConflictError('Deletion conflicts can only be resolved with client or server', 400);
+    }
+    if (!mergedData || mergedData.clientId !== clientData.clientId) {
+      throw new SyncConflictError('Merged data must be the same workout (matching clientId)', 400);
+    }
+    data = { ...mergedData, userId: clientData.userId };
+    resolution = 'merged';
+  }
+
+  // Claim the conflict in one statement; only the request that gets the row back applies anything
+  const resolvedAt = new Date();
+  const [claimed] = await db
+    .update(syncConflictLog)
+    .set({ resolvedBy: 'user', resolvedAt })
+    .where(and(
+      eq(syncConflictLog.id, conflictId),
+      eq(syncConflictLog.userId, userId),
+      eq(syncConflictLog.resolvedBy, 'system')
+    ))
+    .returning();
+
+  if (!claimed) {
+    throw new SyncConflictError('Conflict has already been resolved', 409);
+  }
+
+  let resolvedData: unknown;
+  let newPersonalRecords: ResolveSyncConflictResponse['newPersonalRecords'] = [];
+
+  try {
+    if (choice === 'server') {
+      resolvedData = await SyncService.getWorkoutSnapshot(conflict.entityId);
+    } else {
+      newPersonalRecords = await SyncService.applyConflictResolution(userId, conflict.entityId, data, resolvedAt);
+      resolvedData = data;
+    }
+  } catch (error) {
+    // Nothing was resolved; release the claim so the user can try again
+    await db
+      .update(syncConflictLog)
+      .set({ resolvedBy: conflict.resolvedBy, resolvedAt: conflict.resolvedAt })
+      .where(and(
+        eq(syncConflictLog.id, conflictId),
+        eq(syncConflictLog.resolvedBy, 'user')
+      ));
+    throw error;
+  }
+
+  await db
+    .update(syncConflictLog)
+    .set({
+      resolution,
+      resolvedData,
+    })
+    .where(eq(syncConflictLog.id, conflictId));
+
+  await SyncService.supersedeOpenConflicts(db, userId, conflict.entityId);
+
+  return {
+    id: conflictId,
+    resolution,
+    resolvedBy: 'user',
+    resolvedAt: resolvedAt.toISOString(),
+    newPersonalRecords,
+  };
+}
+
+// ============ Custom Errors ============
+
+/**
+ * Thrown when a conflict can't be resolved as requested.
+ * The route layer responds with `statusCode`.
+ */
+export class SyncConflictError extends Error {
+  statusCode: number;
+
+  constructor(message: string, statusCode: number = 400) {
+    super(message);
+    this.name = 'SyncConflictError';
+    this.statusCode = statusCode;
+  }
+}
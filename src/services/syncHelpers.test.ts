@@ -3,8 +3,10 @@ import {
   normalizeSetData,
   usesDeprecatedMuscleGroups,
   usesDeprecatedExerciseTypeMuscleGroups,
+  restampWorkoutSyncData,
 } from './syncHelpers';
 import { ExerciseSyncData, SetSyncData } from './syncService';
+import { validateSyncPayload, SYNC_LIMITS } from '../utils/validation';
 
 describe('syncHelpers', () => {
   describe('normalizeExerciseData', () => {
@@ -205,3 +207,180 @@ describe('syncHelpers', () => {
     });
   });
 });
+
+describe('validateSyncPayload', () => {
+  const basePayload = { deviceId: 'device-1', workouts: [] };
+
+  describe('deletedWorkouts', () => {
+    it('should accept payloads without deletedWorkouts (older clients)', () => {
+      expect(validateSyncPayload(basePayload).valid).toBe(true);
+    });
+
+    it('should accept valid tombstones', () => {
+      const result = validateSyncPayload({
+        ...basePayload,
+        deletedWorkouts: [{ clientId: 'workout-1', deletedAt: '2024-01-15T10:00:00.000Z' }]
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject non-array deletedWorkouts', () => {
+      const result = validateSyncPayload({ ...basePayload, deletedWorkouts: {} });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('deletedWorkouts must be an array');
+    });
+
+    it('should require clientId and a valid deletedAt', () => {
+      const result = validateSyncPayload({
+        ...basePayload,
+        deletedWorkouts: [{ deletedAt: 'not-a-date' }]
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'deletedWorkouts[0].clientId is required and must be a string',
+        'deletedWorkouts[0].deletedAt is required and must be an ISO timestamp'
+      ]);
+    });
+
+    it('should reject too many tombstones', () => {
+      const deletedWorkouts = Array.from({ length: SYNC_LIMITS.MAX_DELETED_WORKOUTS_PER_SYNC + 1 }, (_, i) => ({
+        clientId: `workout-${i}`,
+        deletedAt: '2024-01-15T10:00:00.000Z'
+      }));
+      const result = validateSyncPayload({ ...basePayload, deletedWorkouts });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('set details', () => {
+    const set = {
+      clientId: 'set-1',
+      reps: 5,
+      weight: 225,
+      setType: 'working',
+      updatedAt: '2024-01-15T11:00:00.000Z'
+    };
+    const workoutWith = (setOverrides: Record<string, unknown>, notes?: unknown) => ({
+      clientId: 'workout-1',
+      date: '2024-01-15T10:00:00.000Z',
+      isCompleted: true,
+      notes,
+      exercises: [{ clientId: 'exercise-1', exerciseName: 'Squat', sets: [{ ...set, ...setOverrides }] }],
+      updatedAt: '2024-01-15T11:00:00.000Z'
+    });
+
+    it('should accept RPE, notes and explicit nulls', () => {
+      expect(validateSyncPayload({ ...basePayload, workouts: [workoutWith({ rpe: 8.5, notes: 'Belt' }, 'Good day')] }).valid).toBe(true);
+      expect(validateSyncPayload({ ...basePayload, workouts: [workoutWith({ rpe: null, notes: null }, null)] }).valid).toBe(true);
+    });
+
+    it('should accept the richer set types, load types and measurements', () => {
+      const result = validateSyncPayload({
+        ...basePayload,
+        workouts: [workoutWith({ setType: 'amrap', loadType: 'bodyweight_plus', durationSeconds: 60, distanceMeters: 400.5 })]
+      });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject unknown set and load types and bad measurements', () => {
+      const result = validateSyncPayload({
+        ...basePayload,
+        workouts: [workoutWith({ setType: 'superset', loadType: 'band', durationSeconds: 1.5, distanceMeters: -1 })]
+      });
+      expect(result.errors).toEqual([
+        'workouts[0].exercises[0].sets[0].setType must be one of: warmup, working, drop, rest_pause, amrap, failure',
+        'workouts[0].exercises[0].sets[0].loadType must be one of: external, bodyweight, bodyweight_plus, assisted',
+        `workouts[0].exercises[0].sets[0].durationSeconds must be an integer between 0 and ${SYNC_LIMITS.MAX_SET_DURATION_SECONDS}`,
+        `workouts[0].exercises[0].sets[0].distanceMeters must be between 0 and ${SYNC_LIMITS.MAX_SET_DISTANCE_METERS}`
+      ]);
+    });
+
+    it('should reject RPE outside 1-10', () => {
+      const result = validateSyncPayload({ ...basePayload, workouts: [workoutWith({ rpe: 11 })] });
+      expect(result.errors).toEqual(['workouts[0].exercises[0].sets[0].rpe must be between 1 and 10']);
+    });
+
+    it('should reject overlong or non-string notes', () => {
+      const result = validateSyncPayload({
+        ...basePayload,
+        workouts: [workoutWith({ notes: 5 }, 'x'.repeat(SYNC_LIMITS.MAX_NOTES_LENGTH + 1))]
+      });
+      expect(result.errors).toEqual([
+        `workouts[0].notes cannot exceed ${SYNC_LIMITS.MAX_NOTES_LENGTH} characters`,
+        'workouts[0].exercises[0].sets[0].notes must be a string or null'
+      ]);
+    });
+  });
+
+  describe('template and program links', () => {
+    const workout = {
+      clientId: 'workout-1',
+      date: '2024-01-15T10:00:00.000Z',
+      isCompleted: true,
+      exercises: [],
+      updatedAt: '2024-01-15T11:00:00.000Z'
+    };
+    const programId = '5f0e8c1a-2b3c-4d5e-8f90-1a2b3c4d5e6f';
+
+    it('should accept workouts without links (older clients)', () => {
+      expect(validateSyncPayload({ ...basePayload, workouts: [workout] }).valid).toBe(true);
+    });
+
+    it('should accept a program day link', () => {
+      const result = validateSyncPayload({ ...basePayload, workouts: [{ ...workout, programId, dayNumber: 2 }] });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject malformed IDs and day numbers', () => {
+      const result = validateSyncPayload({
+        ...basePayload,
+        workouts: [{ ...workout, templateId: 'abc', programId, dayNumber: 7 }]
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors).toEqual([
+        'workouts[0].templateId must be a valid UUID',
+        'workouts[0].dayNumber must be an integer between 0 and 6'
+      ]);
+    });
+
+    it('should require programId with dayNumber', () => {
+      const result = validateSyncPayload({ ...basePayload, workouts: [{ ...workout, dayNumber: 0 }] });
+      expect(result.errors).toContain('workouts[0].dayNumber requires programId');
+    });
+  });
+});
+
+describe('restampWorkoutSyncData', () => {
+  it('should replace updatedAt on the workout, exercises and sets', () => {
+    const workout = {
+      clientId: 'workout-1',
+      userId: 'user-1',
+      date: '2024-01-15T10:00:00.000Z',
+      isCompleted: true,
+      updatedAt: '2024-01-15T11:00:00.000Z',
+      exercises: [{
+        clientId: 'exercise-1',
+        exerciseName: 'Bench Press',
+        primaryMuscles: ['chest'],
+        updatedAt: '2024-01-15T11:00:00.000Z',
+        sets: [{
+          clientId: 'set-1',
+          reps: 8,
+          weight: 135,
+          setType: 'working' as const,
+          exerciseTypeName: 'Bench Press',
+          exerciseTypePrimaryMuscles: ['chest'],
+          updatedAt: '2024-01-15T11:00:00.000Z'
+        }]
+      }]
+    };
+
+    const restamped = restampWorkoutSyncData(workout, '2024-02-01T00:00:00.000Z');
+
+    expect(restamped.updatedAt).toBe('2024-02-01T00:00:00.000Z');
+    expect(restamped.exercises[0].updatedAt).toBe('2024-02-01T00:00:00.000Z');
+    expect(restamped.exercises[0].sets[0].updatedAt).toBe('2024-02-01T00:00:00.000Z');
+    // The input is left untouched
+    expect(workout.exercises[0].sets[0].updatedAt).toBe('2024-01-15T11:00:00.000Z');
+  });
+});
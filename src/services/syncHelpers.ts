@@ -3,7 +3,7 @@
  * Extracted for testability
  */
 
-import { ExerciseSyncData, SetSyncData } from './syncService';
+import { ExerciseSyncData, SetSyncData, WorkoutSyncData } from './syncService';
 
 /**
  * Normalize exercise data to handle backwards compatibility with older iOS clients
@@ -45,3 +45,19 @@ export function usesDeprecatedMuscleGroups(exerciseData: ExerciseSyncData): bool
 export function usesDeprecatedExerciseTypeMuscleGroups(setData: SetSyncData): boolean {
   return !setData.exerciseTypePrimaryMuscles && !!setData.exerciseTypeMuscleGroups;
 }
+
+/**
+ * Returns a copy of a workout with `updatedAt` replaced at every level
+ * (workout, exercises, sets), so it is treated as the newest edit of each entity
+ */
+export function restampWorkoutSyncData(workout: WorkoutSyncData, updatedAt: string): WorkoutSyncData {
+  return {
+    ...workout,
+    updatedAt,
+    exercises: workout.exercises.map(exercise => ({
+      ...exercise,
+      updatedAt,
+      sets: exercise.sets.map(set => ({ ...set, updatedAt })),
+    })),
+  };
+}
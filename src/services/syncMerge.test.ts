@@ -0,0 +1,252 @@
+import {
+  buildBaseSnapshot,
+  isVisibleToDevice,
+  isClientNewer,
+  mergeFields,
+  resolvePresence,
+  workoutFieldsFromClient,
+  setFieldsFromClient,
+  ChangeHistoryEntry,
+  SyncBaseline,
+  WORKOUT_MERGE_FIELDS,
+  SET_MERGE_FIELDS,
+} from './syncMerge';
+import { SetSyncData, WorkoutSyncData } from './syncService';
+
+describe('syncMerge', () => {
+  const entry = (overrides: Partial<ChangeHistoryEntry>): ChangeHistoryEntry => ({
+    sequence: 1,
+    entityType: 'workout',
+    operation: 'create',
+    data: { clientId: 'w1', name: 'Push' },
+    sourceDeviceId: 'phone',
+    createdAt: new Date('2026-01-10T10:00:00Z'),
+    ...overrides,
+  });
+
+  describe('isVisibleToDevice', () => {
+    it('should count the device\'s own changes regardless of checkpoint', () => {
+      const baseline: SyncBaseline = { deviceId: 'phone', sequence: 0, syncedAt: null };
+      expect(isVisibleToDevice(entry({ sequence: 50 }), baseline)).toBe(true);
+    });
+
+    it('should count other devices\' changes up to the sequence checkpoint', () => {
+      const baseline: SyncBaseline = { deviceId: 'tablet', sequence: 5, syncedAt: null };
+      expect(isVisibleToDevice(entry({ sequence: 5 }), baseline)).toBe(true);
+      expect(isVisibleToDevice(entry({ sequence: 6 }), baseline)).toBe(false);
+    });
+
+    it('should fall back to the timestamp checkpoint for older clients', () => {
+      const baseline: SyncBaseline = { deviceId: 'tablet', sequence: null, syncedAt: new Date('2026-01-10T10:00:00Z') };
+      expect(isVisibleToDevice(entry({}), baseline)).toBe(true);
+      expect(isVisibleToDevice(entry({ createdAt: new Date('2026-01-10T10:00:01Z') }), baseline)).toBe(false);
+    });
+
+    it('should see nothing from other devices without a checkpoint', () => {
+      const baseline: SyncBaseline = { deviceId: 'tablet', sequence: null, syncedAt: null };
+      expect(isVisibleToDevice(entry({}), baseline)).toBe(false);
+    });
+  });
+
+  describe('buildBaseSnapshot', () => {
+    const baseline: SyncBaseline = { deviceId: 'tablet', sequence: 3, syncedAt: null };
+
+    it('should return null when the workout predates the change feed', () => {
+      const history = [entry({ operation: 'update', sequence: 2 })];
+      expect(buildBaseSnapshot(history, baseline)).toBeNull();
+    });
+
+    it('should replay visible changes and ignore later ones', () => {
+      const history = [
+        entry({ sequence: 1 }),
+        entry({ sequence: 2, entityType: 'set', data: { clientId: 's1', reps: 5 } }),
+        entry({ sequence: 3, entityType: 'set', operation: 'update', data: { clientId: 's1', reps: 6 } }),
+        entry({ sequence: 4, entityType: 'set', operation: 'update', data: { clientId: 's1', reps: 7 } }),
+        entry({ sequence: 5, operation: 'update', data: { clientId: 'w1', name: 'Pull' } }),
+      ];
+
+      const base = buildBaseSnapshot(history, baseline);
+
+      expect(base?.workout.name).toBe('Push');
+      expect(base?.sets.get('s1')?.reps).toBe(6);
+    });
+
+    it('should drop children deleted before the checkpoint', () => {
+      const history = [
+        entry({ sequence: 1 }),
+        entry({ sequence: 2, entityType: 'exercise', data: { clientId: 'e1' } }),
+        entry({ sequence: 3, entityType: 'exercise', operation: 'delete', data: { clientId: 'e1' } }),
+      ];
+
+      expect(buildBaseSnapshot(history, baseline)?.exercises.has('e1')).toBe(false);
+    });
+
+    it('should return null when the device saw the workout deleted', () => {
+      const history = [
+        entry({ sequence: 1 }),
+        entry({ sequence: 2, operation: 'delete' }),
+      ];
+
+      expect(buildBaseSnapshot(history, baseline)).toBeNull();
+    });
+  });
+
+  describe('isClientNewer', () => {
+    const server = new Date('2026-01-10T10:00:00Z');
+
+    it('should require the client to be newer by more than the threshold', () => {
+      expect(isClientNewer(new Date('2026-01-10T10:00:05Z'), server, 5000)).toBe(false);
+      expect(isClientNewer(new Date('2026-01-10T10:00:05.001Z'), server, 5000)).toBe(true);
+    });
+
+    it('should not let an older client win', () => {
+      expect(isClientNewer(new Date('2026-01-10T09:00:00Z'), server, 5000)).toBe(false);
+    });
+  });
+
+  describe('mergeFields', () => {
+    const base = { setNumber: 1, reps: 5, weight: 100, setType: 'working' };
+
+    it('should take client-only changes and keep server-only changes without conflicts', () => {
+      const server = { ...base, weight: 105 };
+      const client = { ...base, reps: 6 };
+
+      const result = mergeFields('sets[s1]', SET_MERGE_FIELDS, base, server, client, false);
+
+      expect(result.apply).toEqual({ reps: 6 });
+      expect(result.conflicts).toEqual([]);
+      expect(result.serverChanged).toBe(true);
+    });
+
+    it('should report a field both sides changed and let the server keep it when the client loses', () => {
+      const server = { ...base, reps: 8 };
+      const client = { ...base, reps: 6 };
+
+      const result = mergeFields('sets[s1]', SET_MERGE_FIELDS, base, server, client, false);
+
+      expect(result.apply).toEqual({});
+      expect(result.conflicts).toEqual([
+        { path: 'sets[s1].reps', clientValue: 6, serverValue: 8, winner: 'server' },
+      ]);
+    });
+
+    it('should apply and still report a same-field conflict the client wins', () => {
+      const server = { ...base, reps: 8 };
+      const client = { ...base, reps: 6 };
+
+      const result = mergeFields('sets[s1]', SET_MERGE_FIELDS, base, server, client, true);
+
+      expect(result.apply).toEqual({ reps: 6 });
+      expect(result.conflicts[0].winner).toBe('client');
+    });
+
+    it('should not report fields both sides changed to the same value', () => {
+      const same = { ...base, reps: 6 };
+
+      const result = mergeFields('sets[s1]', SET_MERGE_FIELDS, base, same, same, false);
+
+      expect(result.apply).toEqual({});
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should fall back to last-writer-wins without a base', () => {
+      const server = { ...base, weight: 105 };
+      const client = { ...base, reps: 6 };
+
+      expect(mergeFields('', SET_MERGE_FIELDS, null, server, client, true)).toEqual({
+        apply: { reps: 6, weight: 100 },
+        conflicts: [],
+        serverChanged: false,
+      });
+      expect(mergeFields('', SET_MERGE_FIELDS, null, server, client, false).conflicts.map(c => c.path))
+        .toEqual(['reps', 'weight']);
+    });
+
+    it('should leave fields the client did not send untouched', () => {
+      const withRpe = { ...base, rpe: 8, notes: 'Paused' };
+
+      const result = mergeFields('sets[s1]', SET_MERGE_FIELDS, null, withRpe, base, true);
+
+      expect(result.apply).toEqual({});
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it('should clear a field the client explicitly set to null', () => {
+      const withRpe = { ...base, rpe: 8 };
+
+      const result = mergeFields('sets[s1]', SET_MERGE_FIELDS, withRpe, withRpe, { ...base, rpe: null }, false);
+
+      expect(result.apply).toEqual({ rpe: null });
+    });
+
+    it('should treat missing and null values as equal', () => {
+      const client = workoutFieldsFromClient({
+        clientId: 'w1',
+        userId: 'u1',
+        date: '2026-01-10T10:00:00Z',
+        isCompleted: true,
+        exercises: [],
+        updatedAt: '2026-01-10T11:00:00Z',
+      } as WorkoutSyncData);
+      const server = {
+        date: '2026-01-10T10:00:00.000Z',
+        name: null,
+        durationSeconds: null,
+        isCompleted: true,
+        startTime: null,
+        endTime: null,
+      };
+
+      const result = mergeFields('', WORKOUT_MERGE_FIELDS, null, server, client, false);
+
+      expect(result.conflicts).toEqual([]);
+    });
+  });
+
+  describe('setFieldsFromClient', () => {
+    const set: SetSyncData = {
+      clientId: 's1',
+      reps: 5,
+      weight: 100,
+      setType: 'working',
+      exerciseTypeName: 'Squat',
+      exerciseTypePrimaryMuscles: ['quads'],
+      updatedAt: '2026-01-10T10:00:00Z',
+    };
+
+    it('should omit RPE and notes for older clients', () => {
+      expect(setFieldsFromClient(set, 0)).toEqual({ setNumber: 1, reps: 5, weight: 100, setType: 'working' });
+    });
+
+    it('should include RPE and notes when sent, including null', () => {
+      expect(setFieldsFromClient({ ...set, rpe: 7.5, notes: null }, 1)).toMatchObject({ setNumber: 2, rpe: 7.5, notes: null });
+    });
+  });
+
+  describe('resolvePresence', () => {
+    const values = { reps: 5 };
+
+    it('should create client additions and keep server additions since the base', () => {
+      expect(resolvePresence('clientOnly', undefined, values, true, false)).toEqual({ clientView: true, conflict: false });
+      expect(resolvePresence('serverOnly', undefined, values, true, true)).toEqual({ clientView: false, conflict: false });
+    });
+
+    it('should honor an untouched deletion from either side', () => {
+      // Deleted on the server, unchanged on the client: stays deleted
+      expect(resolvePresence('clientOnly', values, values, true, true)).toEqual({ clientView: false, conflict: false });
+      // Deleted on the client, unchanged on the server: deleted
+      expect(resolvePresence('serverOnly', values, values, true, false)).toEqual({ clientView: true, conflict: false });
+    });
+
+    it('should report an edit against a deletion and settle it by timestamp', () => {
+      expect(resolvePresence('serverOnly', values, { reps: 8 }, true, false)).toEqual({ clientView: false, conflict: true });
+      expect(resolvePresence('clientOnly', values, { reps: 8 }, true, true)).toEqual({ clientView: true, conflict: true });
+    });
+
+    it('should fall back to timestamps without a base', () => {
+      expect(resolvePresence('clientOnly', undefined, values, false, false).clientView).toBe(true);
+      expect(resolvePresence('serverOnly', undefined, values, false, false)).toEqual({ clientView: false, conflict: false });
+      expect(resolvePresence('serverOnly', undefined, values, false, true).clientView).toBe(true);
+    });
+  });
+});
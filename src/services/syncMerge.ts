@@ -0,0 +1,285 @@
+/**
+ * Three-way merge helpers for workout sync.
+ * Extracted for testability: nothing here touches the database.
+ *
+ * The merge base is the version of each entity the syncing device last saw,
+ * reconstructed from the change feed (sync_queue): changes up to the
+ * device's download checkpoint, plus the device's own uploads. Fields only
+ * one side changed since the base are merged automatically; a field both
+ * sides changed to different values is a true conflict, settled by
+ * clientUpdatedAt with CONFLICT_THRESHOLD_MS of tolerance.
+ */
+
+import { ExerciseSyncData, SetSyncData, WorkoutSyncData } from './syncService';
+
+// ============ Types ============
+
+/**
+ * What the syncing device has already seen of the change feed
+ */
+export interface SyncBaseline {
+  deviceId: string | null;
+  sequence: number | null; // Change feed checkpoint (feed clients)
+  syncedAt: Date | null; // Timestamp checkpoint (older clients)
+}
+
+/**
+ * One change feed row belonging to a workout (the workout itself or one of its exercises/sets)
+ */
+export interface ChangeHistoryEntry {
+  sequence: number;
+  entityType: string;
+  operation: 'create' | 'update' | 'delete';
+  data: Record<string, unknown>;
+  sourceDeviceId: string | null;
+  createdAt: Date;
+}
+
+export type FieldValues = Record<string, unknown>;
+
+/**
+ * The workout as the device last saw it, keyed by client ID.
+ * Exercises and sets missing from the maps didn't exist (or were deleted) at the base.
+ */
+export interface BaseSnapshot {
+  workout: FieldValues;
+  exercises: Map<string, FieldValues>;
+  sets: Map<string, FieldValues>;
+}
+
+/**
+ * A field both sides changed to different values
+ */
+export interface FieldConflict {
+  path: string;
+  clientValue: unknown;
+  serverValue: unknown;
+  winner: 'client' | 'server';
+}
+
+export interface FieldMergeResult {
+  apply: FieldValues; // Client values to write over the server copy
+  conflicts: FieldConflict[];
+  serverChanged: boolean; // Server copy has changes since the base that are kept
+}
+
+// ============ Constants ============
+
+// Fields compared during a merge; names match the change feed payloads
+export const WORKOUT_MERGE_FIELDS = ['date', 'name', 'durationSeconds', 'isCompleted', 'startTime', 'endTime', 'notes'] as const;
+export const EXERCISE_MERGE_FIELDS = ['exerciseName', 'primaryMuscles', 'orderIndex', 'notes'] as const;
+export const SET_MERGE_FIELDS = [
+  'setNumber', 'reps', 'weight', 'setType', 'loadType', 'durationSeconds', 'distanceMeters', 'rpe', 'notes'
+] as const;
+
+// ============ Field Extraction ============
+
+// Optional fields an older client doesn't know about are left out, so the merge keeps the server value
+
+function toIsoOrNull(value: string | undefined): string | null {
+  if (!value) return null;
+  const parsed = new Date(value);
+  return isNaN(parsed.getTime()) ? value : parsed.toISOString();
+}
+
+export function workoutFieldsFromClient(workout: WorkoutSyncData): FieldValues {
+  return {
+    date: toIsoOrNull(workout.date),
+    name: workout.name ?? null,
+    durationSeconds: workout.durationSeconds ?? null,
+    isCompleted: workout.isCompleted,
+    startTime: toIsoOrNull(workout.startTime),
+    endTime: toIsoOrNull(workout.endTime),
+    ...(workout.notes !== undefined && { notes: workout.notes }),
+  };
+}
+
+export function exerciseFieldsFromClient(
+  exercise: ExerciseSyncData & { normalizedPrimaryMuscles: string[] },
+  orderIndex: number
+): FieldValues {
+  return {
+    exerciseName: exercise.exerciseName,
+    primaryMuscles: exercise.normalizedPrimaryMuscles,
+    orderIndex,
+    ...(exercise.notes !== undefined && { notes: exercise.notes }),
+  };
+}
+
+export function setFieldsFromClient(set: SetSyncData, setIndex: number): FieldValues {
+  return {
+    setNumber: setIndex + 1,
+    reps: set.reps,
+    weight: set.weight,
+    setType: set.setType,
+    ...(set.loadType !== undefined && { loadType: set.loadType }),
+    ...(set.durationSeconds !== undefined && { durationSeconds: set.durationSeconds }),
+    ...(set.distanceMeters !== undefined && { distanceMeters: set.distanceMeters }),
+    ...(set.rpe !== undefined && { rpe: set.rpe }),
+    ...(set.notes !== undefined && { notes: set.notes }),
+  };
+}
+
+// ============ Base Reconstruction ============
+
+/**
+ * Whether the device had seen a change: its own uploads always count,
+ * others only up to its download checkpoint
+ */
+export function isVisibleToDevice(entry: ChangeHistoryEntry, baseline: SyncBaseline): boolean {
+  if (baseline.deviceId && entry.sourceDeviceId === baseline.deviceId) {
+    return true;
+  }
+  if (baseline.sequence !== null) {
+    return entry.sequence <= baseline.sequence;
+  }
+  if (baseline.syncedAt !== null) {
+    return entry.createdAt <= baseline.syncedAt;
+  }
+  return false;
+}
+
+/**
+ * Rebuilds the workout as the device last saw it from the workout's change
+ * history (in sequence order). Returns null when there is no usable base:
+ * the workout predates the change feed, or the device never saw it.
+ */
+export function buildBaseSnapshot(history: ChangeHistoryEntry[], baseline: SyncBaseline): BaseSnapshot | null {
+  // Without the workout's own create entry, missing children can't be told
+  // apart from children that predate the feed
+  if (!history.some(entry => entry.entityType === 'workout' && entry.operation === 'create')) {
+    return null;
+  }
+
+  let workout: FieldValues | null = null;
+  const exercises = new Map<string, FieldValues>();
+  const sets = new Map<string, FieldValues>();
+
+  for (const entry of history) {
+    if (!isVisibleToDevice(entry, baseline)) continue;
+
+    const clientId = entry.data.clientId as string;
+    if (entry.entityType === 'workout') {
+      workout = entry.operation === 'delete' ? null : entry.data;
+    } else {
+      const target = entry.entityType === 'exercise' ? exercises : sets;
+      if (entry.operation === 'delete') {
+        target.delete(clientId);
+      } else {
+        target.set(clientId, entry.data);
+      }
+    }
+  }
+
+  return workout ? { workout, exercises, sets } : null;
+}
+
+// ============ Merge Functions ============
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Whether a client edit made at `clientTime` should win a true conflict
+ * against the server copy last edited at `serverTime`. Edits closer together
+ * than the threshold are treated as concurrent, and the server copy is kept.
+ */
+export function isClientNewer(clientTime: Date, serverTime: Date, thresholdMs: number): boolean {
+  return clientTime.getTime() - serverTime.getTime() > thresholdMs;
+}
+
+/**
+ * Three-way merge of one entity's fields.
+ *
+ * With a base, a field changed on one side only takes that side's value,
+ * and a field changed differently on both sides is a conflict settled by
+ * `clientWins`. Without a base it falls back to last-writer-wins, where
+ * every differing field the client loses is reported. Fields missing from
+ * `client` weren't sent and are never changed.
+ */
+export function mergeFields(
+  path: string,
+  fields: readonly string[],
+  base: FieldValues | null,
+  server: FieldValues,
+  client: FieldValues,
+  clientWins: boolean
+): FieldMergeResult {
+  const result: FieldMergeResult = { apply: {}, conflicts: [], serverChanged: false };
+  const prefix = path ? `${path}.` : '';
+
+  for (const field of fields) {
+    if (!(field in client)) continue;
+
+    const clientValue = client[field] ?? null;
+    const serverValue = server[field] ?? null;
+    if (valuesEqual(clientValue, serverValue)) continue;
+
+    if (base) {
+      const clientChanged = !valuesEqual(clientValue, base[field]);
+      const serverChanged = !valuesEqual(serverValue, base[field]);
+
+      if (!clientChanged) {
+        result.serverChanged = true;
+        continue;
+      }
+      if (!serverChanged) {
+        result.apply[field] = clientValue;
+        continue;
+      }
+    }
+
+    // Same field changed on both sides (or no base to tell)
+    if (clientWins) {
+      result.apply[field] = clientValue;
+    } else if (base) {
+      result.serverChanged = true;
+    }
+    if (base || !clientWins) {
+      result.conflicts.push({
+        path: `${prefix}${field}`,
+        clientValue,
+        serverValue,
+        winner: clientWins ? 'client' : 'server'
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Decides what happens to an entity that exists on only one side.
+ *
+ * - `clientOnly`: the client has it, the server doesn't
+ * - `serverOnly`: the server has it, the client doesn't
+ *
+ * Returns whether the client's view wins (create it / delete it) and whether
+ * that was a true conflict (an edit on one side against a deletion on the other).
+ */
+export function resolvePresence(
+  side: 'clientOnly' | 'serverOnly',
+  baseValues: FieldValues | undefined,
+  values: FieldValues,
+  hasBase: boolean,
+  clientWins: boolean
+): { clientView: boolean; conflict: boolean } {
+  if (!hasBase) {
+    // No history to tell who changed what: new client entities are created,
+    // and missing ones are deleted if the client is newer
+    return { clientView: side === 'clientOnly' || clientWins, conflict: false };
+  }
+
+  if (!baseValues) {
+    // Added since the base by whichever side has it
+    return { clientView: side === 'clientOnly', conflict: false };
+  }
+
+  // Deleted since the base by the other side; a conflict only if the remaining side edited it
+  const edited = Object.keys(values).some(field => !valuesEqual(values[field], baseValues[field]));
+  if (!edited) {
+    return { clientView: side === 'serverOnly', conflict: false };
+  }
+  return { clientView: clientWins, conflict: true };
+}
@@ -8,7 +8,7 @@ import {
   syncConflictLog,
   userDevices
 } from '../db/schema';
-import { eq, and, gt, asc, inArray } from 'drizzle-orm';
+import { eq, and, gt, asc, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
 
 export interface SyncPayload {
   deviceId: string;
@@ -19,7 +19,14 @@ export interface SyncPayload {
     osVersion?: string;
   };
   lastSyncTimestamp?: string; // ISO string
+  lastChangeSequence?: number; // Change feed cursor; when sent, replaces the lastSyncTimestamp scan
   workouts: WorkoutSyncData[];
+  deletedWorkouts?: DeletedWorkoutSyncData[]; // Optional: older clients don't send tombstones
+}
+
+export interface DeletedWorkoutSyncData {
+  clientId: string;
+  deletedAt: string; // ISO string - when the workout was deleted on the client
 }
 
 export interface WorkoutSyncData {
@@ -31,7 +38,11 @@ export interface WorkoutSyncData {
   isCompleted: boolean;
   startTime?: string; // ISO string
   endTime?: string; // ISO string
-  templateName?: string; // Maps to workoutTemplate field from Core Data
+  notes?: string | null; // Omitted by older clients: leaves the server value alone; null clears it
+  templateName?: string; // Maps to workoutTemplate field from Core Data; matched by name when no IDs are sent
+  templateId?: string; // Template the workout was started from
+  programId?: string; // Program day the workout was started from, with dayNumber
+  dayNumber?: number; // 0-based
   exercises: ExerciseSyncData[];
   updatedAt: string; // ISO string - client timestamp
 }
@@ -41,6 +52,7 @@ export interface ExerciseSyncData {
   exerciseName: string;
   primaryMuscles: string[];
   muscleGroups?: string[]; // Deprecated: for backwards compatibility with older iOS clients
+  notes?: string | null; // Same omission rules as the workout's notes
   sets: SetSyncData[];
   updatedAt: string; // ISO string
 }
@@ -48,8 +60,13 @@ export interface ExerciseSyncData {
 export interface SetSyncData {
   clientId: string;
   reps: number;
-  weight: number; // in lbs
-  setType: 'warmup' | 'working';
+  weight: number; // in lbs; added load for bodyweight_plus, assistance for assisted
+  setType: SetType;
+  loadType?: LoadType; // Omitted by older clients: leaves the server value alone ('external' for new sets)
+  durationSeconds?: number | null; // Timed sets; same omission rules as notes
+  distanceMeters?: number | null; // Distance sets; same omission rules as notes
+  rpe?: number | null; // Rate of Perceived Exertion (1-10); same omission rules as notes
+  notes?: string | null;
   exerciseTypeName: string;
   exerciseTypePrimaryMuscles: string[];
   exerciseTypeMuscleGroups?: string[]; // Deprecated: for backwards compatibility with older iOS clients
@@ -62,8 +79,12 @@ export interface SyncResponse {
   conflicts?: ConflictData[];
   serverData?: {
     workouts: WorkoutSyncData[];
+    deletedWorkouts: DeletedWorkoutSyncData[];
     lastServerSync: string;
   };
+  changeFeed?: ChangeFeedPage;
+  checkpoint: DeviceCheckpoint; // What the server now believes this device has
+  newPersonalRecords: NewPersonalRecord[];
   stats?: {
     uploaded: number;
     downloaded: number;
@@ -74,9 +95,10 @@ export interface SyncResponse {
 export interface ConflictData {
   entityType: 'workout' | 'exercise' | 'set';
   entityId: string;
-  clientData: WorkoutSyncData | ExerciseSyncData | SetSyncData;
+  clientData: WorkoutSyncData | ExerciseSyncData | SetSyncData | DeletedWorkoutSyncData;
   serverData: WorkoutRecord | ExerciseRecord | SetRecord;
   resolution: 'client_wins' | 'server_wins' | 'merged';
+  fields?: FieldConflict[]; // Fields both sides changed; everything else was merged
 }
 
 // Type for workout record from database
@@ -93,6 +115,37 @@ interface WorkoutRecord {
   updatedAt: Date;
   clientUpdatedAt: Date | null;
   lastSyncedAt: Date | null;
+  deletedAt: Date | null;
+}
+
+// Collects change feed entries for one workout while it is being written
+interface SyncChangeContext {
+  userId: string;
+  deviceId: string | null;
+  workoutClientId: string;
+  changes: ChangeInput[];
+}
+
+// 'merge' merges against what the device last saw; 'override' applies the client version as-is
+type SyncWriteMode = 'merge' | 'override';
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Merge state for one workout update: the base it is merged against and what came of it
+interface WorkoutMergeContext {
+  base: BaseSnapshot | null;
+  mode: SyncWriteMode;
+  conflicts: FieldConflict[];
+  applied: boolean; // Some client change was written
+  serverChangesKept: boolean; // Some server change the client hadn't seen was kept
+}
+
+interface WorkoutSyncResult {
+  conflict: ConflictData | null;
+  applied: boolean;
+  affectedExerciseIds: string[];
+  completedLink: WorkoutTemplateLink | null; // Set when this sync marked the workout completed
+  writtenWorkoutId: string | null; // Set when this sync created or changed the workout
 }
 
 // Type for exercise record from database
@@ -119,8 +172,47 @@ interface SetRecord {
   updatedAt: Date;
 }
 
-import { normalizeExerciseData } from './syncHelpers';
-import { recordExerciseUsage } from './exerciseService';
+import { normalizeExerciseData, restampWorkoutSyncData } from './syncHelpers';
+import { recordExerciseUsage, visibleExerciseCondition } from './exerciseService';
+import { findExerciseIdByAlias, recordSyncAliasCandidate } from './exerciseAliasService';
+import { recalculatePersonalRecords } from './personalRecordService';
+import { publishWorkoutActivity } from './feedService';
+import { refreshCompetitionScoresForUser } from './competitionService';
+import { refreshWorkoutTotals, recalculateUserStats } from './userStatsService';
+import {
+  recordChanges,
+  getChangesSince,
+  getWorkoutChangeHistory,
+  toWorkoutChangeData,
+  toExerciseChangeData,
+  toSetChangeData,
+  ChangeInput,
+  ChangeFeedPage,
+} from './changeFeedService';
+import { resolveWorkoutTemplate, advanceProgramForWorkout } from './programService';
+import { advanceDeviceCheckpoint, resolveDownloadCursor, toDeviceCheckpoint } from './deviceService';
+import {
+  SyncBaseline,
+  BaseSnapshot,
+  FieldConflict,
+  FieldMergeResult,
+  FieldValues,
+  WORKOUT_MERGE_FIELDS,
+  EXERCISE_MERGE_FIELDS,
+  SET_MERGE_FIELDS,
+  workoutFieldsFromClient,
+  exerciseFieldsFromClient,
+  setFieldsFromClient,
+  buildBaseSnapshot,
+  isVisibleToDevice,
+  isClientNewer,
+  mergeFields,
+  resolvePresence,
+} from './syncMerge';
+import { DeviceCheckpoint } from '../models/device.types';
+import { NewPersonalRecord } from '../models/personalRecord.types';
+import { WorkoutTemplateLink } from '../models/program.types';
+import { SetType, LoadType } from '../utils/validation';
 import { logWarn } from '../utils/errorResponse';
 
 export class SyncService {
@@ -131,41 +223,122 @@ export class SyncService {
 
     try {
       // Update device info
-      await this.updateDeviceInfo(userId, payload.deviceId, payload.deviceInfo);
+      const device = await this.updateDeviceInfo(userId, payload.deviceId, payload.deviceInfo);
 
       // Start sync tracking
       await this.updateSyncMetadata(userId, 'syncing', payload.deviceId);
 
       const conflicts: ConflictData[] = [];
       const stats = { uploaded: 0, downloaded: 0, conflicts: 0 };
+      const affectedExerciseIds = new Set<string>();
+      const completedLinks: WorkoutTemplateLink[] = [];
+      const writtenWorkoutIds: string[] = [];
+
+      const deletedWorkouts = payload.deletedWorkouts || [];
 
       // FIX N+1: Pre-fetch all existing workouts for this user's clientIds in one query
-      const clientIds = payload.workouts.map(w => w.clientId);
+      const clientIds = [
+        ...payload.workouts.map(w => w.clientId),
+        ...deletedWorkouts.map(d => d.clientId)
+      ];
       const existingWorkoutsMap = await this.getExistingWorkoutsMap(userId, clientIds);
 
+      // What the device had already seen before this sync, reconciled with its
+      // server-side checkpoint: the merge base for its uploads and the start
+      // point for its download
+      const baseline: SyncBaseline = payload.lastChangeSequence !== undefined
+        ? {
+            deviceId: payload.deviceId,
+            sequence: resolveDownloadCursor(payload.lastChangeSequence, device.lastChangeSequence),
+            syncedAt: null
+          }
+        : {
+            deviceId: payload.deviceId,
+            sequence: null,
+            syncedAt: resolveDownloadCursor(
+              payload.lastSyncTimestamp ? new Date(payload.lastSyncTimestamp) : undefined,
+              device.syncCheckpointAt
+            )
+          };
+
       // Process incoming workouts from client using pre-fetched data
       for (const workoutData of payload.workouts) {
         const existingWorkout = existingWorkoutsMap.get(workoutData.clientId);
         const result = await this.processWorkoutSyncWithExisting(
           userId,
           workoutData,
-          existingWorkout || null
+          existingWorkout || null,
+          payload.deviceId,
+          baseline
         );
         if (result.conflict) {
           conflicts.push(result.conflict);
           stats.conflicts++;
-        } else {
+        }
+        if (result.applied) {
           stats.uploaded++;
         }
+        if (result.completedLink) {
+          completedLinks.push(result.completedLink);
+        }
+        if (result.writtenWorkoutId) {
+          writtenWorkoutIds.push(result.writtenWorkoutId);
+        }
+        result.affectedExerciseIds.forEach(id => affectedExerciseIds.add(id));
       }
 
-      // Get server data that client doesn't have
-      const lastSyncTimestamp = payload.lastSyncTimestamp
-        ? new Date(payload.lastSyncTimestamp)
-        : new Date(0);
+      // Apply tombstones for workouts deleted on the client
+      for (const deletion of deletedWorkouts) {
+        const existingWorkout = existingWorkoutsMap.get(deletion.clientId);
+        if (!existingWorkout) {
+          // Never reached the server, so no other device can have it
+          continue;
+        }
+        const result = await this.processWorkoutDeletion(existingWorkout, deletion, payload.deviceId, baseline, 'merge');
+        if (result.conflict) {
+          conflicts.push(result.conflict);
+          stats.conflicts++;
+        } else if (result.deleted) {
+          stats.uploaded++;
+        }
+        result.affectedExerciseIds.forEach(id => affectedExerciseIds.add(id));
+      }
+
+      const newPersonalRecords = await this.updatePersonalRecords(userId, affectedExerciseIds);
+      if (stats.uploaded > 0) {
+        await this.updateUserStats(userId);
+      }
+      await this.advanceActivePrograms(userId, completedLinks);
+      await this.publishActivity(userId, writtenWorkoutIds, newPersonalRecords);
+      if (stats.uploaded > 0) {
+        await this.updateCompetitionScores(userId);
+      }
+
+      // Get server data that client doesn't have. Clients on the change feed
+      // get ordered entity changes; older clients fall back to the timestamp scan.
+      // Either way they start from the baseline resolved above.
+      let serverWorkouts: WorkoutSyncData[] = [];
+      let serverDeletions: DeletedWorkoutSyncData[] = [];
+      let changeFeed: ChangeFeedPage | undefined;
 
-      const serverWorkouts = await this.getServerWorkoutsSince(userId, lastSyncTimestamp);
-      stats.downloaded = serverWorkouts.length;
+      if (payload.lastChangeSequence !== undefined) {
+        changeFeed = await getChangesSince(userId, baseline.sequence ?? 0, {
+          excludeDeviceId: payload.deviceId
+        });
+        stats.downloaded = changeFeed.changes.length;
+      } else {
+        const lastSyncTimestamp = baseline.syncedAt ?? new Date(0);
+
+        serverWorkouts = await this.getServerWorkoutsSince(userId, lastSyncTimestamp);
+        serverDeletions = await this.getServerDeletionsSince(userId, lastSyncTimestamp);
+        stats.downloaded = serverWorkouts.length;
+      }
+
+      const checkpoint = await advanceDeviceCheckpoint(
+        userId,
+        payload.deviceId,
+        changeFeed ? { lastChangeSequence: changeFeed.lastSequence } : { syncedAt: syncStartTime }
+      ) ?? toDeviceCheckpoint(device);
 
       // Complete sync
       await this.updateSyncMetadata(userId, 'completed', payload.deviceId);
@@ -176,8 +349,12 @@ export class SyncService {
         conflicts: conflicts.length > 0 ? conflicts : undefined,
         serverData: {
           workouts: serverWorkouts,
+          deletedWorkouts: serverDeletions,
           lastServerSync: syncStartTime.toISOString()
         },
+        changeFeed,
+        checkpoint,
+        newPersonalRecords,
         stats
       };
 
@@ -187,6 +364,83 @@ export class SyncService {
     }
   }
 
+  /**
+   * Current server copy of a workout in sync format, or null if it no longer exists.
+   * Soft-deleted workouts are still returned (with their last contents).
+   */
+  static async getWorkoutSnapshot(workoutId: string): Promise<WorkoutSyncData | null> {
+    const rows = await db.select()
+      .from(workouts)
+      .leftJoin(workoutExercises, eq(workouts.id, workoutExercises.workoutId))
+      .leftJoin(sets, eq(workoutExercises.id, sets.workoutExerciseId))
+      .where(eq(workouts.id, workoutId))
+      .orderBy(asc(workoutExercises.orderIndex), asc(sets.setNumber));
+
+    return this.transformServerDataToClientFormat(rows)[0] ?? null;
+  }
+
+  /**
+   * Applies the version a user picked when resolving a sync conflict through
+   * the normal sync write path. The resolution is a new edit, so the data is
+   * restamped with `resolvedAt` and applied in 'override' mode, so it wins over
+   * the server copy at every level (workout, exercises and sets) without being
+   * merged. A tombstone soft-deletes the workout.
+   *
+   * Not attributed to a device, so every device receives it in the change feed.
+   * Returns personal records set by the applied data.
+   */
+  static async applyConflictResolution(
+    userId: string,
+    workoutId: string,
+    data: WorkoutSyncData | DeletedWorkoutSyncData,
+    resolvedAt: Date
+  ): Promise<NewPersonalRecord[]> {
+    const [existingWorkout] = await db.select()
+      .from(workouts)
+      .where(and(
+        eq(workouts.id, workoutId),
+        eq(workouts.userId, userId)
+      ))
+      .limit(1);
+
+    let affectedExerciseIds: string[];
+    let completedLink: WorkoutTemplateLink | null = null;
+    let writtenWorkoutId: string | null = null;
+    if ('deletedAt' in data) {
+      if (!existingWorkout) {
+        return [];
+      }
+      const result = await this.processWorkoutDeletion(
+        existingWorkout as WorkoutRecord,
+        { clientId: data.clientId, deletedAt: resolvedAt.toISOString() },
+        null,
+        null,
+        'override'
+      );
+      affectedExerciseIds = result.affectedExerciseIds;
+    } else {
+      const restamped = restampWorkoutSyncData(data, resolvedAt.toISOString());
+      if (existingWorkout) {
+        const result = await this.updateWorkoutFromSync(existingWorkout as WorkoutRecord, restamped, resolvedAt, null, null, 'override');
+        affectedExerciseIds = result.affectedExerciseIds;
+        completedLink = result.completedLink;
+        writtenWorkoutId = result.merge.applied ? existingWorkout.id : null;
+      } else {
+        const result = await this.createWorkoutFromSync(userId, restamped, resolvedAt, null);
+        affectedExerciseIds = result.affectedExerciseIds;
+        completedLink = result.completedLink;
+        writtenWorkoutId = result.writtenWorkoutId;
+      }
+    }
+
+    const newPersonalRecords = await this.updatePersonalRecords(userId, new Set(affectedExerciseIds));
+    await this.updateUserStats(userId);
+    await this.advanceActivePrograms(userId, completedLink ? [completedLink] : []);
+    await this.publishActivity(userId, writtenWorkoutId ? [writtenWorkoutId] : [], newPersonalRecords);
+    await this.updateCompetitionScores(userId);
+    return newPersonalRecords;
+  }
+
   /**
    * Pre-fetch all existing workouts for a user's clientIds in a single query
    * This fixes the N+1 query problem by batching the lookup
@@ -222,56 +476,171 @@ export class SyncService {
   private static async processWorkoutSyncWithExisting(
     userId: string,
     workoutData: WorkoutSyncData,
-    existingWorkout: WorkoutRecord | null
-  ) {
+    existingWorkout: WorkoutRecord | null,
+    deviceId: string | null,
+    baseline: SyncBaseline
+  ): Promise<WorkoutSyncResult> {
     const clientTimestamp = new Date(workoutData.updatedAt);
 
     if (existingWorkout) {
       // Handle update/conflict
-      return await this.handleWorkoutUpdate(existingWorkout, workoutData, clientTimestamp);
+      return await this.handleWorkoutUpdate(existingWorkout, workoutData, clientTimestamp, deviceId, baseline);
     } else {
       // Create new workout
-      return await this.createWorkoutFromSync(userId, workoutData, clientTimestamp);
+      return await this.createWorkoutFromSync(userId, workoutData, clientTimestamp, deviceId);
     }
   }
 
+  /**
+   * Merges a client edit into an existing workout, field by field, against
+   * the version the device last saw (rebuilt from the change feed). Changes
+   * made on only one side are combined and logged as 'merged'; fields both
+   * sides changed are reported as conflicts, settled by clientUpdatedAt.
+   */
   private static async handleWorkoutUpdate(
     existingWorkout: WorkoutRecord,
     clientData: WorkoutSyncData,
-    clientTimestamp: Date
-  ) {
-    const serverTimestamp = existingWorkout.updatedAt;
+    clientTimestamp: Date,
+    deviceId: string | null,
+    baseline: SyncBaseline
+  ): Promise<WorkoutSyncResult> {
+    const history = await getWorkoutChangeHistory(existingWorkout.userId, clientData.clientId, baseline);
+    const base = buildBaseSnapshot(history, baseline);
 
-    // Symmetric resolution: prefer the version with the newer timestamp
-    if (clientTimestamp > serverTimestamp) {
-      // Client has newer timestamp - update server data
-      await this.updateWorkoutFromSync(existingWorkout.id, clientData, clientTimestamp);
-      return { conflict: null };
-    } else {
-      // Server has newer or equal timestamp - log conflict
+    const { affectedExerciseIds, merge, completedLink } = await this.updateWorkoutFromSync(
+      existingWorkout, clientData, clientTimestamp, deviceId, base, 'merge'
+    );
+
+    if (merge.conflicts.length === 0) {
+      if (merge.applied && merge.serverChangesKept) {
+        await this.logSyncConflict(
+          existingWorkout.userId,
+          'workout',
+          existingWorkout.id,
+          clientData,
+          existingWorkout,
+          clientTimestamp,
+          existingWorkout.updatedAt,
+          'merged'
+        );
+      }
+      return { conflict: null, applied: merge.applied, affectedExerciseIds, completedLink, writtenWorkoutId: merge.applied ? existingWorkout.id : null };
+    }
+
+    // Any field kept from the server leaves something for the user to review
+    const resolution = merge.conflicts.some(c => c.winner === 'server') ? 'server_wins' : 'client_wins';
+    const conflict: ConflictData = {
+      entityType: 'workout',
+      entityId: existingWorkout.id,
+      clientData,
+      serverData: existingWorkout,
+      resolution,
+      fields: merge.conflicts
+    };
+
+    await this.logSyncConflict(
+      existingWorkout.userId,
+      'workout',
+      existingWorkout.id,
+      clientData,
+      existingWorkout,
+      clientTimestamp,
+      existingWorkout.updatedAt,
+      resolution
+    );
+
+    return { conflict, applied: merge.applied, affectedExerciseIds, completedLink, writtenWorkoutId: merge.applied ? existingWorkout.id : null };
+  }
+
+  /**
+   * Applies a client tombstone to a workout by soft-deleting it.
+   * The row (with its exercises and sets) is kept so the deletion can be
+   * propagated to the user's other devices. If the server copy changed since
+   * the device last saw it and that edit is not older than the deletion
+   * (within CONFLICT_THRESHOLD_MS), the edit wins and the deletion is logged
+   * as a conflict instead. Pass a null baseline to skip the change history
+   * lookup (every server copy then counts as changed).
+   */
+  private static async processWorkoutDeletion(
+    existingWorkout: WorkoutRecord,
+    deletion: DeletedWorkoutSyncData,
+    deviceId: string | null,
+    baseline: SyncBaseline | null,
+    mode: SyncWriteMode
+  ): Promise<{ conflict: ConflictData | null; deleted: boolean; affectedExerciseIds: string[] }> {
+    if (existingWorkout.deletedAt) {
+      // Already deleted (e.g. retried sync or deleted on another device too)
+      return { conflict: null, deleted: false, affectedExerciseIds: [] };
+    }
+
+    const deletedAt = new Date(deletion.deletedAt);
+    const serverTimestamp = existingWorkout.clientUpdatedAt ?? existingWorkout.updatedAt;
+
+    let serverChanged = true;
+    if (baseline) {
+      const history = await getWorkoutChangeHistory(existingWorkout.userId, deletion.clientId, baseline);
+      serverChanged = buildBaseSnapshot(history, baseline) === null ||
+        history.some(entry => !isVisibleToDevice(entry, baseline));
+    }
+
+    if (mode === 'merge' && serverChanged && !isClientNewer(deletedAt, serverTimestamp, this.CONFLICT_THRESHOLD_MS)) {
       const conflict: ConflictData = {
         entityType: 'workout',
         entityId: existingWorkout.id,
-        clientData,
+        clientData: deletion,
         serverData: existingWorkout,
         resolution: 'server_wins'
       };
-      
+
       await this.logSyncConflict(
         existingWorkout.userId,
         'workout',
         existingWorkout.id,
-        clientData,
+        deletion,
         existingWorkout,
-        clientTimestamp,
+        deletedAt,
         serverTimestamp,
         'server_wins'
       );
-      
-      return { conflict };
+
+      return { conflict, deleted: false, affectedExerciseIds: [] };
     }
+
+    await db.transaction(async (tx) => {
+      await tx.update(workouts)
+        .set({
+          deletedAt,
+          clientUpdatedAt: deletedAt,
+          lastSyncedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(workouts.id, existingWorkout.id));
+
+      await recordChanges(tx, [{
+        userId: existingWorkout.userId,
+        entityType: 'workout',
+        entityId: existingWorkout.id,
+        operation: 'delete',
+        data: { clientId: deletion.clientId, deletedAt: deletedAt.toISOString() },
+        clientTimestamp: deletedAt,
+        sourceDeviceId: deviceId,
+      }]);
+
+      await this.supersedeOpenConflicts(tx, existingWorkout.userId, existingWorkout.id);
+    });
+
+    // Records and stats built on this workout's sets need recomputing
+    const exerciseRows = await db.select({ exerciseId: workoutExercises.exerciseId })
+      .from(workoutExercises)
+      .where(eq(workoutExercises.workoutId, existingWorkout.id));
+
+    return {
+      conflict: null,
+      deleted: true,
+      affectedExerciseIds: exerciseRows.map(e => e.exerciseId)
+    };
   }
-  
+
   /**
    * Creates a new workout from sync data within a transaction
    * This ensures all related data (workout, exercises, sets) is inserted atomically.
@@ -281,8 +650,9 @@ export class SyncService {
     userId: string,
     workoutData: WorkoutSyncData,
     clientTimestamp: Date,
+    deviceId: string | null,
     retryCount = 0
-  ): Promise<{ conflict: ConflictData | null }> {
+  ): Promise<WorkoutSyncResult> {
     const MAX_RETRIES = 2;
     const workoutId = crypto.randomUUID();
 
@@ -291,17 +661,27 @@ export class SyncService {
     for (const exerciseData of workoutData.exercises) {
       const normalized = normalizeExerciseData(exerciseData);
       const libraryExerciseId = await this.getOrCreateExerciseId(
+        userId,
         exerciseData.exerciseName,
         normalized.normalizedPrimaryMuscles
       );
       exerciseLibraryIds.push(libraryExerciseId);
     }
 
+    const link = await resolveWorkoutTemplate(userId, {
+      templateId: workoutData.templateId,
+      programId: workoutData.programId,
+      dayNumber: workoutData.dayNumber,
+      templateName: workoutData.templateName,
+    });
+
     try {
       // Use transaction to ensure atomicity of workout creation
       await db.transaction(async (tx) => {
+        const ctx: SyncChangeContext = { userId, deviceId, workoutClientId: workoutData.clientId, changes: [] };
+
         // Insert workout
-        await tx.insert(workouts).values({
+        const [workout] = await tx.insert(workouts).values({
           id: workoutId,
           userId,
           clientId: workoutData.clientId,
@@ -311,10 +691,14 @@ export class SyncService {
           isCompleted: workoutData.isCompleted,
           startTime: workoutData.startTime ? new Date(workoutData.startTime) : null,
           endTime: workoutData.endTime ? new Date(workoutData.endTime) : null,
+          notes: workoutData.notes ?? null,
+          templateId: link.templateId,
+          programId: link.programId,
+          programDayNumber: link.programDayNumber,
           clientUpdatedAt: clientTimestamp,
           lastSyncedAt: new Date(),
-          // TODO: Look up templateId by templateName if provided
-        });
+        }).returning();
+        this.trackChange(ctx, 'workout', 'create', workout.id, toWorkoutChangeData(workout), clientTimestamp);
 
         // Insert exercises and sets
         for (const [exerciseIndex, exerciseData] of workoutData.exercises.entries()) {
@@ -322,7 +706,7 @@ export class SyncService {
           const normalized = normalizeExerciseData(exerciseData);
           const libraryExerciseId = exerciseLibraryIds[exerciseIndex];
 
-          await tx.insert(workoutExercises).values({
+          const [exercise] = await tx.insert(workoutExercises).values({
             id: exerciseId,
             workoutId,
             clientId: exerciseData.clientId,
@@ -330,13 +714,16 @@ export class SyncService {
             orderIndex: exerciseIndex,
             exerciseName: exerciseData.exerciseName,
             primaryMuscles: normalized.normalizedPrimaryMuscles,
+            notes: exerciseData.notes ?? null,
             clientUpdatedAt: new Date(exerciseData.updatedAt),
             lastSyncedAt: new Date(),
-          });
+          }).returning();
+          this.trackChange(ctx, 'exercise', 'create', exercise.id,
+            toExerciseChangeData(exercise, ctx.workoutClientId), new Date(exerciseData.updatedAt));
 
           // Insert sets
           for (const [setIndex, setData] of exerciseData.sets.entries()) {
-            await tx.insert(sets).values({
+            const [set] = await tx.insert(sets).values({
               id: crypto.randomUUID(),
               workoutExerciseId: exerciseId,
               clientId: setData.clientId,
@@ -344,11 +731,21 @@ export class SyncService {
               reps: setData.reps,
               weightLbs: setData.weight.toString(),
               setType: setData.setType,
+              loadType: setData.loadType ?? 'external',
+              durationSeconds: setData.durationSeconds ?? null,
+              distanceMeters: setData.distanceMeters?.toString() ?? null,
+              rpe: setData.rpe ?? null,
+              notes: setData.notes ?? null,
               clientUpdatedAt: new Date(setData.updatedAt),
               lastSyncedAt: new Date(),
-            });
+            }).returning();
+            this.trackChange(ctx, 'set', 'create', set.id,
+              toSetChangeData(set, exerciseData.clientId, ctx.workoutClientId), new Date(setData.updatedAt));
           }
         }
+
+        await refreshWorkoutTotals(tx, workoutId);
+        await recordChanges(tx, ctx.changes);
       });
 
       // Record exercise usage outside transaction (non-critical, can fail independently)
@@ -364,7 +761,13 @@ export class SyncService {
         }
       }
 
-      return { conflict: null };
+      return {
+        conflict: null,
+        applied: true,
+        affectedExerciseIds: exerciseLibraryIds,
+        completedLink: workoutData.isCompleted ? link : null,
+        writtenWorkoutId: workoutId
+      };
     } catch (error) {
       // Check if this is a foreign key violation (exercise was deleted between lookup and insert)
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -378,7 +781,7 @@ export class SyncService {
           attempt: retryCount + 1,
           maxRetries: MAX_RETRIES
         });
-        return this.createWorkoutFromSync(userId, workoutData, clientTimestamp, retryCount + 1);
+        return this.createWorkoutFromSync(userId, workoutData, clientTimestamp, deviceId, retryCount + 1);
       }
 
       // Re-throw if not a foreign key error or max retries exceeded
@@ -387,49 +790,108 @@ export class SyncService {
   }
 
   /**
-   * Updates an existing workout from sync data with full nested entity conflict resolution.
-   * Uses timestamp-based conflict resolution at each level (workout, exercise, set).
+   * Updates an existing workout from sync data, merging at each level
+   * (workout, exercise, set) against `base`, the version the device last saw.
+   * Without a base each entity falls back to last-writer-wins on
+   * clientUpdatedAt; in 'override' mode the client version wins everywhere.
    * All updates happen within a transaction for atomicity.
+   * Returns the library exercise IDs touched before or after the update, so
+   * derived data (personal records) can be recomputed for all of them.
    */
   private static async updateWorkoutFromSync(
-    workoutId: string,
+    existingWorkout: WorkoutRecord,
     workoutData: WorkoutSyncData,
-    clientTimestamp: Date
-  ) {
+    clientTimestamp: Date,
+    deviceId: string | null,
+    base: BaseSnapshot | null,
+    mode: SyncWriteMode
+  ): Promise<{ affectedExerciseIds: string[]; merge: WorkoutMergeContext; completedLink: WorkoutTemplateLink | null }> {
+    const workoutId = existingWorkout.id;
     // Pre-fetch exercise IDs outside transaction (to avoid nested transaction issues)
     const exerciseLibraryIds: Map<string, string> = new Map();
     for (const exerciseData of workoutData.exercises) {
       const normalized = normalizeExerciseData(exerciseData);
       const libraryExerciseId = await this.getOrCreateExerciseId(
+        existingWorkout.userId,
         exerciseData.exerciseName,
         normalized.normalizedPrimaryMuscles
       );
       exerciseLibraryIds.set(exerciseData.clientId, libraryExerciseId);
     }
 
+    const affectedExerciseIds = new Set<string>(exerciseLibraryIds.values());
+    const merge: WorkoutMergeContext = { base, mode, conflicts: [], applied: false, serverChangesKept: false };
+    let completedLink: WorkoutTemplateLink | null = null;
+
     await db.transaction(async (tx) => {
-      // 1. Update workout-level fields
-      await tx.update(workouts)
-        .set({
-          date: new Date(workoutData.date),
-          name: workoutData.name,
-          durationSeconds: workoutData.durationSeconds,
-          isCompleted: workoutData.isCompleted,
-          startTime: workoutData.startTime ? new Date(workoutData.startTime) : null,
-          endTime: workoutData.endTime ? new Date(workoutData.endTime) : null,
-          clientUpdatedAt: clientTimestamp,
-          lastSyncedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(workouts.id, workoutId));
+      const ctx: SyncChangeContext = {
+        userId: existingWorkout.userId,
+        deviceId,
+        workoutClientId: workoutData.clientId,
+        changes: [],
+      };
+
+      // 1. Lock the current server copy so a concurrent sync can't slip in between merge and write
+      const [serverWorkout] = await tx.select()
+        .from(workouts)
+        .where(eq(workouts.id, workoutId))
+        .for('update');
+      const clientWinsWorkout = this.clientWins(merge, clientTimestamp, serverWorkout);
+
+      if (serverWorkout.deletedAt && !clientWinsWorkout) {
+        // Deleted on the server after this edit: the tombstone stands
+        merge.conflicts.push({
+          path: 'deletedAt',
+          clientValue: null,
+          serverValue: serverWorkout.deletedAt.toISOString(),
+          winner: 'server'
+        });
+        return;
+      }
+
+      // 2. Merge workout-level fields
+      const workoutMerge = mergeFields(
+        '',
+        WORKOUT_MERGE_FIELDS,
+        base?.workout ?? null,
+        toWorkoutChangeData(serverWorkout),
+        workoutFieldsFromClient(workoutData),
+        clientWinsWorkout
+      );
+      let workoutWritten = false;
+      if (this.absorbMerge(merge, workoutMerge) || serverWorkout.deletedAt) {
+        const [workout] = await tx.update(workouts)
+          .set({
+            ...this.toWorkoutColumns(workoutMerge.apply),
+            clientUpdatedAt: this.latestClientTime(serverWorkout.clientUpdatedAt, clientTimestamp),
+            lastSyncedAt: new Date(),
+            updatedAt: new Date(),
+            // An edit newer than the tombstone restores a deleted workout
+            deletedAt: null,
+          })
+          .where(eq(workouts.id, workoutId))
+          .returning();
+        this.trackChange(ctx, 'workout', 'update', workoutId, toWorkoutChangeData(workout), clientTimestamp);
+        merge.applied = true;
+        workoutWritten = true;
+
+        if (workout.isCompleted && !serverWorkout.isCompleted) {
+          completedLink = {
+            templateId: workout.templateId,
+            programId: workout.programId,
+            programDayNumber: workout.programDayNumber,
+          };
+        }
+      }
 
-      // 2. Fetch existing exercises for this workout
+      // 3. Fetch existing exercises for this workout
       const existingExercises = await tx.select()
         .from(workoutExercises)
         .where(eq(workoutExercises.workoutId, workoutId));
 
       const existingExerciseMap = new Map<string, typeof existingExercises[0]>();
       for (const ex of existingExercises) {
+        affectedExerciseIds.add(ex.exerciseId);
         if (ex.clientId) {
           existingExerciseMap.set(ex.clientId, ex);
         }
@@ -438,103 +900,366 @@ export class SyncService {
       // Track which client exercises we've processed (for deletion detection)
       const processedExerciseClientIds = new Set<string>();
 
-      // 3. Process each exercise from client data
+      // 4. Merge each exercise from client data
       for (const [exerciseIndex, exerciseData] of workoutData.exercises.entries()) {
         processedExerciseClientIds.add(exerciseData.clientId);
         const clientExerciseTimestamp = new Date(exerciseData.updatedAt);
         const normalized = normalizeExerciseData(exerciseData);
         const libraryExerciseId = exerciseLibraryIds.get(exerciseData.clientId)!;
+        const clientFields = exerciseFieldsFromClient(normalized, exerciseIndex);
+        const path = `exercises[${exerciseData.clientId}]`;
 
         const existingExercise = existingExerciseMap.get(exerciseData.clientId);
 
         if (existingExercise) {
-          // Exercise exists - check if client version is newer
-          const serverExerciseTimestamp = existingExercise.updatedAt;
+          const exerciseMerge = mergeFields(
+            path,
+            EXERCISE_MERGE_FIELDS,
+            base?.exercises.get(exerciseData.clientId) ?? null,
+            toExerciseChangeData(existingExercise, ctx.workoutClientId),
+            clientFields,
+            this.clientWins(merge, clientExerciseTimestamp, existingExercise)
+          );
 
-          if (clientExerciseTimestamp > serverExerciseTimestamp) {
-            // Client is newer - update exercise
-            await tx.update(workoutExercises)
+          if (this.absorbMerge(merge, exerciseMerge)) {
+            const apply = exerciseMerge.apply;
+            const [exercise] = await tx.update(workoutExercises)
               .set({
-                exerciseId: libraryExerciseId,
-                orderIndex: exerciseIndex,
-                exerciseName: exerciseData.exerciseName,
-                primaryMuscles: normalized.normalizedPrimaryMuscles,
-                clientUpdatedAt: clientExerciseTimestamp,
+                // The library link follows the name
+                ...('exerciseName' in apply && { exerciseName: exerciseData.exerciseName, exerciseId: libraryExerciseId }),
+                ...('primaryMuscles' in apply && { primaryMuscles: normalized.normalizedPrimaryMuscles }),
+                ...('orderIndex' in apply && { orderIndex: exerciseIndex }),
+                ...('notes' in apply && { notes: exerciseData.notes ?? null }),
+                clientUpdatedAt: this.latestClientTime(existingExercise.clientUpdatedAt, clientExerciseTimestamp),
                 lastSyncedAt: new Date(),
                 updatedAt: new Date(),
               })
-              .where(eq(workoutExercises.id, existingExercise.id));
+              .where(eq(workoutExercises.id, existingExercise.id))
+              .returning();
+            this.trackChange(ctx, 'exercise', 'update', exercise.id,
+              toExerciseChangeData(exercise, ctx.workoutClientId), clientExerciseTimestamp);
+            merge.applied = true;
           }
-          // If server is newer, keep server version (don't update)
-
-          // 4. Process sets for this exercise (regardless of exercise update outcome)
-          await this.syncExerciseSets(tx, existingExercise.id, exerciseData.sets, clientExerciseTimestamp);
-        } else {
-          // New exercise - insert it
-          const newExerciseId = crypto.randomUUID();
-          await tx.insert(workoutExercises).values({
-            id: newExerciseId,
-            workoutId,
-            clientId: exerciseData.clientId,
-            exerciseId: libraryExerciseId,
-            orderIndex: exerciseIndex,
-            exerciseName: exerciseData.exerciseName,
-            primaryMuscles: normalized.normalizedPrimaryMuscles,
-            clientUpdatedAt: clientExerciseTimestamp,
-            lastSyncedAt: new Date(),
-          });
 
-          // Insert all sets for new exercise
-          for (const [setIndex, setData] of exerciseData.sets.entries()) {
-            await tx.insert(sets).values({
-              id: crypto.randomUUID(),
-              workoutExerciseId: newExerciseId,
-              clientId: setData.clientId,
-              setNumber: setIndex + 1,
-              reps: setData.reps,
-              weightLbs: setData.weight.toString(),
-              setType: setData.setType,
-              clientUpdatedAt: new Date(setData.updatedAt),
-              lastSyncedAt: new Date(),
-            });
-          }
+          // 5. Merge sets for this exercise (regardless of exercise update outcome)
+          await this.syncExerciseSets(
+            tx, ctx, merge, existingExercise, exerciseData.clientId, exerciseData.sets, clientExerciseTimestamp
+          );
+          continue;
+        }
+
+        // Not on the server: new on the client, or deleted on the server since the base
+        const presence = resolvePresence(
+          'clientOnly',
+          base?.exercises.get(exerciseData.clientId),
+          clientFields,
+          base !== null,
+          this.clientWins(merge, clientExerciseTimestamp, serverWorkout)
+        );
+        if (!this.settlePresence(merge, presence, path, clientFields, null)) {
+          continue;
+        }
+
+        const newExerciseId = crypto.randomUUID();
+        const [exercise] = await tx.insert(workoutExercises).values({
+          id: newExerciseId,
+          workoutId,
+          clientId: exerciseData.clientId,
+          exerciseId: libraryExerciseId,
+          orderIndex: exerciseIndex,
+          exerciseName: exerciseData.exerciseName,
+          primaryMuscles: normalized.normalizedPrimaryMuscles,
+          notes: exerciseData.notes ?? null,
+          clientUpdatedAt: clientExerciseTimestamp,
+          lastSyncedAt: new Date(),
+        }).returning();
+        this.trackChange(ctx, 'exercise', 'create', exercise.id,
+          toExerciseChangeData(exercise, ctx.workoutClientId), clientExerciseTimestamp);
+        merge.applied = true;
+
+        // Insert all sets for new exercise
+        for (const [setIndex, setData] of exerciseData.sets.entries()) {
+          const [set] = await tx.insert(sets).values({
+            id: crypto.randomUUID(),
+            workoutExerciseId: newExerciseId,
+            clientId: setData.clientId,
+            setNumber: setIndex + 1,
+            reps: setData.reps,
+            weightLbs: setData.weight.toString(),
+            setType: setData.setType,
+            loadType: setData.loadType ?? 'external',
+            durationSeconds: setData.durationSeconds ?? null,
+            distanceMeters: setData.distanceMeters?.toString() ?? null,
+            rpe: setData.rpe ?? null,
+            notes: setData.notes ?? null,
+            clientUpdatedAt: new Date(setData.updatedAt),
+            lastSyncedAt: new Date(),
+          }).returning();
+          this.trackChange(ctx, 'set', 'create', set.id,
+            toSetChangeData(set, exerciseData.clientId, ctx.workoutClientId), new Date(setData.updatedAt));
         }
       }
 
-      // 5. Handle exercises that exist on server but not in client data
-      // (These were deleted on client - remove them if client timestamp is newer)
+      // 6. Handle exercises that exist on server but not in client data:
+      // deleted on the client, or added on the server since the base
       for (const [clientId, existingExercise] of existingExerciseMap) {
-        if (!processedExerciseClientIds.has(clientId)) {
-          // Exercise was deleted on client - check if deletion is newer than server update
-          // Use the workout's client timestamp as the deletion timestamp
-          if (clientTimestamp > existingExercise.updatedAt) {
-            // Delete sets first (foreign key constraint)
-            await tx.delete(sets)
-              .where(eq(sets.workoutExerciseId, existingExercise.id));
-            // Delete exercise
-            await tx.delete(workoutExercises)
-              .where(eq(workoutExercises.id, existingExercise.id));
-          }
+        if (processedExerciseClientIds.has(clientId)) continue;
+
+        const serverFields = toExerciseChangeData(existingExercise, ctx.workoutClientId);
+        // Use the workout's client timestamp as the deletion timestamp
+        const presence = resolvePresence(
+          'serverOnly',
+          base?.exercises.get(clientId),
+          serverFields,
+          base !== null,
+          this.clientWins(merge, clientTimestamp, existingExercise)
+        );
+        if (!this.settlePresence(merge, presence, `exercises[${clientId}]`, null, serverFields)) {
+          continue;
         }
+
+        // Delete sets first (foreign key constraint)
+        const deletedSets = await tx.delete(sets)
+          .where(eq(sets.workoutExerciseId, existingExercise.id))
+          .returning();
+        for (const set of deletedSets) {
+          this.trackChange(ctx, 'set', 'delete', set.id,
+            toSetChangeData(set, clientId, ctx.workoutClientId), clientTimestamp);
+        }
+        // Delete exercise
+        await tx.delete(workoutExercises)
+          .where(eq(workoutExercises.id, existingExercise.id));
+        this.trackChange(ctx, 'exercise', 'delete', existingExercise.id, serverFields, clientTimestamp);
+        merge.applied = true;
+      }
+
+      if (!merge.applied) {
+        // Nothing from the client to write (already applied, or every field kept from the server)
+        return;
+      }
+
+      // 7. Child-only changes still bump the workout, which timestamp-based downloads rely on
+      if (!workoutWritten) {
+        await tx.update(workouts)
+          .set({
+            clientUpdatedAt: this.latestClientTime(serverWorkout.clientUpdatedAt, clientTimestamp),
+            lastSyncedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(workouts.id, workoutId));
       }
+
+      // 8. Refresh cached totals now that exercises/sets are final
+      await refreshWorkoutTotals(tx, workoutId);
+
+      // 9. Publish everything that changed to the user's other devices
+      await recordChanges(tx, ctx.changes);
+
+      // 10. Conflicts still open on this workout were rejected against the copy just replaced
+      await this.supersedeOpenConflicts(tx, existingWorkout.userId, workoutId);
     });
+
+    return { affectedExerciseIds: [...affectedExerciseIds], merge, completedLink };
+  }
+
+  /**
+   * Whether the client wins a same-field conflict on one entity. Edits are
+   * compared on client clocks where the server copy has one, and must be
+   * newer by more than CONFLICT_THRESHOLD_MS to win.
+   */
+  private static clientWins(
+    merge: WorkoutMergeContext,
+    clientTime: Date,
+    server: { clientUpdatedAt: Date | null; updatedAt: Date }
+  ): boolean {
+    return merge.mode === 'override' ||
+      isClientNewer(clientTime, server.clientUpdatedAt ?? server.updatedAt, this.CONFLICT_THRESHOLD_MS);
+  }
+
+  /**
+   * Folds one entity's field merge into the workout's merge state.
+   * Returns true if there are client values to write.
+   */
+  private static absorbMerge(merge: WorkoutMergeContext, result: FieldMergeResult): boolean {
+    merge.conflicts.push(...result.conflicts);
+    if (result.serverChanged) {
+      merge.serverChangesKept = true;
+    }
+    return Object.keys(result.apply).length > 0;
+  }
+
+  /**
+   * Folds the outcome for an entity that exists on one side only into the
+   * workout's merge state. Returns true if the client's view should be applied.
+   */
+  private static settlePresence(
+    merge: WorkoutMergeContext,
+    presence: { clientView: boolean; conflict: boolean },
+    path: string,
+    clientValue: FieldValues | null,
+    serverValue: FieldValues | null
+  ): boolean {
+    if (presence.conflict) {
+      merge.conflicts.push({ path, clientValue, serverValue, winner: presence.clientView ? 'client' : 'server' });
+    }
+    if (!presence.clientView) {
+      merge.serverChangesKept = true;
+    }
+    return presence.clientView;
+  }
+
+  private static latestClientTime(serverTime: Date | null, clientTime: Date): Date {
+    return serverTime && serverTime > clientTime ? serverTime : clientTime;
+  }
+
+  /**
+   * Maps merged workout fields (change feed format) back to table columns
+   */
+  private static toWorkoutColumns(fields: FieldValues): Partial<typeof workouts.$inferInsert> {
+    const toDate = (value: unknown) => value ? new Date(value as string) : null;
+    return {
+      ...('date' in fields && { date: new Date(fields.date as string) }),
+      ...('name' in fields && { name: fields.name as string | null }),
+      ...('durationSeconds' in fields && { durationSeconds: fields.durationSeconds as number | null }),
+      ...('isCompleted' in fields && { isCompleted: fields.isCompleted as boolean }),
+      ...('startTime' in fields && { startTime: toDate(fields.startTime) }),
+      ...('endTime' in fields && { endTime: toDate(fields.endTime) }),
+      ...('notes' in fields && { notes: fields.notes as string | null }),
+    };
+  }
+
+  /**
+   * Queues a change feed entry for the workout being synced. Entries are
+   * written by recordChanges at the end of the same transaction.
+   */
+  private static trackChange(
+    ctx: SyncChangeContext,
+    entityType: ChangeInput['entityType'],
+    operation: ChangeInput['operation'],
+    entityId: string,
+    data: Record<string, unknown>,
+    clientTimestamp: Date
+  ): void {
+    ctx.changes.push({
+      userId: ctx.userId,
+      entityType,
+      entityId,
+      operation,
+      data,
+      clientTimestamp,
+      sourceDeviceId: ctx.deviceId,
+    });
+  }
+
+  /**
+   * Rolls workout changes up into the user's lifetime stats and streaks.
+   * Non-critical for the same reason as personal records: stats are rebuilt
+   * from scratch on every sync that changes workouts.
+   */
+  private static async updateUserStats(userId: string): Promise<void> {
+    try {
+      await recalculateUserStats(userId);
+    } catch (error) {
+      logWarn('SyncService', 'Failed to update user stats', 'sync-user-stats', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Moves the active program on for workouts this sync completed on its
+   * current day. Non-critical like stats: the user can still advance the
+   * program by hand if this fails.
+   */
+  private static async advanceActivePrograms(userId: string, links: WorkoutTemplateLink[]): Promise<void> {
+    for (const link of links) {
+      try {
+        await advanceProgramForWorkout(userId, link);
+      } catch (error) {
+        logWarn('SyncService', 'Failed to advance active program', 'sync-program-advance', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+  }
+
+  /**
+   * Writes feed events for what this sync did. Non-critical like stats: a
+   * failure only leaves the activity out of followers' feeds.
+   */
+  private static async publishActivity(
+    userId: string,
+    workoutIds: string[],
+    newPersonalRecords: NewPersonalRecord[]
+  ): Promise<void> {
+    try {
+      await publishWorkoutActivity(userId, workoutIds, newPersonalRecords);
+    } catch (error) {
+      logWarn('SyncService', 'Failed to publish feed activity', 'sync-feed', {
+        workoutCount: workoutIds.length,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
   }
 
   /**
-   * Syncs sets for an existing exercise with conflict resolution.
-   * Called within a transaction context.
+   * Rescores the user's active competitions. Non-critical like stats: scores
+   * are recomputed from workout history on the next sync and when the
+   * competition completes.
+   */
+  private static async updateCompetitionScores(userId: string): Promise<void> {
+    try {
+      await refreshCompetitionScoresForUser(userId);
+    } catch (error) {
+      logWarn('SyncService', 'Failed to update competition scores', 'sync-competitions', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Recomputes personal records for every exercise touched by this sync.
+   * Non-critical: a failure here is logged and must not fail the sync itself,
+   * since records are rebuilt from set history on the next sync anyway.
+   */
+  private static async updatePersonalRecords(
+    userId: string,
+    exerciseIds: Set<string>
+  ): Promise<NewPersonalRecord[]> {
+    if (exerciseIds.size === 0) {
+      return [];
+    }
+
+    try {
+      return await recalculatePersonalRecords(userId, [...exerciseIds]);
+    } catch (error) {
+      logWarn('SyncService', 'Failed to update personal records', 'sync-personal-records', {
+        exerciseCount: exerciseIds.size,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Merges the client's sets into an existing exercise, field by field.
+   * Called within a transaction context; changes and conflicts are collected
+   * on `ctx` and `merge`.
    * @param exerciseClientTimestamp - The exercise's client timestamp, used for deletion reference when no sets remain
    */
   private static async syncExerciseSets(
     tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
-    workoutExerciseId: string,
+    ctx: SyncChangeContext,
+    merge: WorkoutMergeContext,
+    exercise: typeof workoutExercises.$inferSelect,
+    exerciseClientId: string,
     clientSets: SetSyncData[],
     exerciseClientTimestamp: Date
   ) {
     // Fetch existing sets
     const existingSets = await tx.select()
       .from(sets)
-      .where(eq(sets.workoutExerciseId, workoutExerciseId));
+      .where(eq(sets.workoutExerciseId, exercise.id));
 
     const existingSetMap = new Map<string, typeof existingSets[0]>();
     for (const set of existingSets) {
@@ -546,48 +1271,84 @@ export class SyncService {
     // Track processed sets for deletion detection
     const processedSetClientIds = new Set<string>();
 
-    // Process each set from client
+    // Merge each set from client
     for (const [setIndex, setData] of clientSets.entries()) {
       processedSetClientIds.add(setData.clientId);
       const clientSetTimestamp = new Date(setData.updatedAt);
+      const clientFields = setFieldsFromClient(setData, setIndex);
+      const path = `exercises[${exerciseClientId}].sets[${setData.clientId}]`;
       const existingSet = existingSetMap.get(setData.clientId);
 
       if (existingSet) {
-        // Set exists - check if client is newer
-        const serverSetTimestamp = existingSet.updatedAt;
+        const setMerge = mergeFields(
+          path,
+          SET_MERGE_FIELDS,
+          merge.base?.sets.get(setData.clientId) ?? null,
+          toSetChangeData(existingSet, exerciseClientId, ctx.workoutClientId),
+          clientFields,
+          this.clientWins(merge, clientSetTimestamp, existingSet)
+        );
 
-        if (clientSetTimestamp > serverSetTimestamp) {
-          // Client is newer - update set
-          await tx.update(sets)
+        if (this.absorbMerge(merge, setMerge)) {
+          const apply = setMerge.apply;
+          const [set] = await tx.update(sets)
             .set({
-              setNumber: setIndex + 1,
-              reps: setData.reps,
-              weightLbs: setData.weight.toString(),
-              setType: setData.setType,
-              clientUpdatedAt: clientSetTimestamp,
+              ...('setNumber' in apply && { setNumber: setIndex + 1 }),
+              ...('reps' in apply && { reps: setData.reps }),
+              ...('weight' in apply && { weightLbs: setData.weight.toString() }),
+              ...('setType' in apply && { setType: setData.setType }),
+              ...('loadType' in apply && { loadType: setData.loadType }),
+              ...('durationSeconds' in apply && { durationSeconds: setData.durationSeconds ?? null }),
+              ...('distanceMeters' in apply && { distanceMeters: setData.distanceMeters?.toString() ?? null }),
+              ...('rpe' in apply && { rpe: setData.rpe ?? null }),
+              ...('notes' in apply && { notes: setData.notes ?? null }),
+              clientUpdatedAt: this.latestClientTime(existingSet.clientUpdatedAt, clientSetTimestamp),
               lastSyncedAt: new Date(),
               updatedAt: new Date(),
             })
-            .where(eq(sets.id, existingSet.id));
+            .where(eq(sets.id, existingSet.id))
+            .returning();
+          this.trackChange(ctx, 'set', 'update', set.id,
+            toSetChangeData(set, exerciseClientId, ctx.workoutClientId), clientSetTimestamp);
+          merge.applied = true;
         }
-        // If server is newer, keep server version
-      } else {
-        // New set - insert it
-        await tx.insert(sets).values({
-          id: crypto.randomUUID(),
-          workoutExerciseId,
-          clientId: setData.clientId,
-          setNumber: setIndex + 1,
-          reps: setData.reps,
-          weightLbs: setData.weight.toString(),
-          setType: setData.setType,
-          clientUpdatedAt: clientSetTimestamp,
-          lastSyncedAt: new Date(),
-        });
+        continue;
+      }
+
+      // Not on the server: new on the client, or deleted on the server since the base
+      const presence = resolvePresence(
+        'clientOnly',
+        merge.base?.sets.get(setData.clientId),
+        clientFields,
+        merge.base !== null,
+        this.clientWins(merge, clientSetTimestamp, exercise)
+      );
+      if (!this.settlePresence(merge, presence, path, clientFields, null)) {
+        continue;
       }
+
+      const [set] = await tx.insert(sets).values({
+        id: crypto.randomUUID(),
+        workoutExerciseId: exercise.id,
+        clientId: setData.clientId,
+        setNumber: setIndex + 1,
+        reps: setData.reps,
+        weightLbs: setData.weight.toString(),
+        setType: setData.setType,
+        loadType: setData.loadType ?? 'external',
+        durationSeconds: setData.durationSeconds ?? null,
+        distanceMeters: setData.distanceMeters?.toString() ?? null,
+        rpe: setData.rpe ?? null,
+        notes: setData.notes ?? null,
+        clientUpdatedAt: clientSetTimestamp,
+        lastSyncedAt: new Date(),
+      }).returning();
+      this.trackChange(ctx, 'set', 'create', set.id,
+        toSetChangeData(set, exerciseClientId, ctx.workoutClientId), clientSetTimestamp);
+      merge.applied = true;
     }
 
-    // Handle sets deleted on client
+    // Handle sets missing from the client: deleted there, or added on the server since the base.
     // Use the newest client set timestamp as deletion reference, or fall back to exercise timestamp
     // (consistent with exercise deletion logic which uses the parent workout's timestamp)
     const newestClientSetTime = clientSets.length > 0
@@ -595,16 +1356,28 @@ export class SyncService {
       : exerciseClientTimestamp;
 
     for (const [clientId, existingSet] of existingSetMap) {
-      if (!processedSetClientIds.has(clientId)) {
-        // Set was deleted on client
-        if (newestClientSetTime > existingSet.updatedAt) {
-          await tx.delete(sets)
-            .where(eq(sets.id, existingSet.id));
-        }
+      if (processedSetClientIds.has(clientId)) continue;
+
+      const serverFields = toSetChangeData(existingSet, exerciseClientId, ctx.workoutClientId);
+      const presence = resolvePresence(
+        'serverOnly',
+        merge.base?.sets.get(clientId),
+        serverFields,
+        merge.base !== null,
+        this.clientWins(merge, newestClientSetTime, existingSet)
+      );
+      const path = `exercises[${exerciseClientId}].sets[${clientId}]`;
+      if (!this.settlePresence(merge, presence, path, null, serverFields)) {
+        continue;
       }
+
+      await tx.delete(sets)
+        .where(eq(sets.id, existingSet.id));
+      this.trackChange(ctx, 'set', 'delete', existingSet.id, serverFields, newestClientSetTime);
+      merge.applied = true;
     }
   }
-  
+
   private static async getServerWorkoutsSince(userId: string, since: Date): Promise<WorkoutSyncData[]> {
     const serverWorkouts = await db.select()
       .from(workouts)
@@ -612,13 +1385,37 @@ export class SyncService {
       .leftJoin(sets, eq(workoutExercises.id, sets.workoutExerciseId))
       .where(and(
         eq(workouts.userId, userId),
-        gt(workouts.updatedAt, since)
+        gt(workouts.updatedAt, since),
+        isNull(workouts.deletedAt)
       ))
       .orderBy(asc(workouts.date));
     
     // Transform to client format
     return this.transformServerDataToClientFormat(serverWorkouts);
   }
+
+  /**
+   * Tombstones for workouts deleted since the client's last sync, so other
+   * devices remove them locally instead of re-uploading them.
+   */
+  private static async getServerDeletionsSince(userId: string, since: Date): Promise<DeletedWorkoutSyncData[]> {
+    const deleted = await db.select({
+      id: workouts.id,
+      clientId: workouts.clientId,
+      deletedAt: workouts.deletedAt,
+    })
+      .from(workouts)
+      .where(and(
+        eq(workouts.userId, userId),
+        gt(workouts.updatedAt, since),
+        isNotNull(workouts.deletedAt)
+      ));
+
+    return deleted.map(w => ({
+      clientId: w.clientId || w.id,
+      deletedAt: w.deletedAt!.toISOString(),
+    }));
+  }
   
   // Type for joined workout data from the database query
   private static transformServerDataToClientFormat(
@@ -647,6 +1444,10 @@ export class SyncService {
           isCompleted: row.workouts.isCompleted ?? false,
           startTime: row.workouts.startTime?.toISOString(),
           endTime: row.workouts.endTime?.toISOString(),
+          notes: row.workouts.notes,
+          templateId: row.workouts.templateId ?? undefined,
+          programId: row.workouts.programId ?? undefined,
+          dayNumber: row.workouts.programDayNumber ?? undefined,
           exercises: [],
           updatedAt: row.workouts.updatedAt.toISOString(),
         });
@@ -663,6 +1464,7 @@ export class SyncService {
             clientId: row.workout_exercises.clientId || exerciseId,
             exerciseName: row.workout_exercises.exerciseName,
             primaryMuscles: row.workout_exercises.primaryMuscles,
+            notes: row.workout_exercises.notes,
             sets: [],
             updatedAt: row.workout_exercises.updatedAt.toISOString(),
           });
@@ -675,7 +1477,12 @@ export class SyncService {
             clientId: row.sets.clientId || row.sets.id,
             reps: row.sets.reps ?? 0,
             weight: parseFloat(row.sets.weightLbs ?? '0'),
-            setType: (row.sets.setType as 'warmup' | 'working') ?? 'working',
+            setType: row.sets.setType ?? 'working',
+            loadType: row.sets.loadType,
+            durationSeconds: row.sets.durationSeconds,
+            distanceMeters: row.sets.distanceMeters !== null ? parseFloat(row.sets.distanceMeters) : null,
+            rpe: row.sets.rpe,
+            notes: row.sets.notes,
             exerciseTypeName: row.workout_exercises.exerciseName,
             exerciseTypePrimaryMuscles: row.workout_exercises.primaryMuscles,
             updatedAt: row.sets.updatedAt.toISOString(),
@@ -695,36 +1502,81 @@ export class SyncService {
     return Array.from(workoutMap.values());
   }
   
-  private static async getOrCreateExerciseId(name: string, primaryMuscles: string[]): Promise<string> {
+  /**
+   * Resolves a synced exercise name to a library exercise, then to one of the
+   * user's custom exercises (case-insensitive). Unknown names become a new
+   * custom exercise owned by the user rather than a global library entry.
+   */
+  private static async getOrCreateExerciseId(
+    userId: string,
+    name: string,
+    primaryMuscles: string[]
+  ): Promise<string> {
     const { exercises } = await import('../db/schema');
 
-    // Try to find existing exercise by name
-    const existingExercise = await db.select()
+    const existingExercise = await db.select({ id: exercises.id })
       .from(exercises)
-      .where(eq(exercises.name, name))
+      .where(and(
+        sql`LOWER(${exercises.name}) = LOWER(${name})`,
+        visibleExerciseCondition(userId)
+      ))
+      // Prefer the library (is_custom = false) over a custom exercise
+      .orderBy(asc(exercises.isCustom))
       .limit(1);
 
     if (existingExercise.length > 0) {
       return existingExercise[0].id;
     }
 
-    // Create new exercise
-    const exerciseId = crypto.randomUUID();
-    await db.insert(exercises).values({
-      id: exerciseId,
-      name,
-      primaryMuscles,
-      isCustom: true, // Mark as custom since it came from client
-    });
+    // An approved alias names a library exercise
+    const aliasedExerciseId = await findExerciseIdByAlias(name);
+    if (aliasedExerciseId) {
+      return aliasedExerciseId;
+    }
+
+    // Close to a library exercise? Queue the name as an alias candidate for moderation
+    try {
+      await recordSyncAliasCandidate(name);
+    } catch (error) {
+      logWarn('SyncService', 'Failed to record alias candidate', 'sync-alias-candidate', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    // Create the user's custom exercise; a concurrent sync may have just done so
+    await db.insert(exercises)
+      .values({
+        name,
+        primaryMuscles,
+        isCustom: true,
+        createdBy: userId,
+      })
+      .onConflictDoNothing({
+        target: [exercises.createdBy, exercises.name],
+        where: sql`${exercises.isCustom} = true`,
+      });
+
+    const [created] = await db.select({ id: exercises.id })
+      .from(exercises)
+      .where(and(
+        eq(exercises.isCustom, true),
+        eq(exercises.createdBy, userId),
+        eq(exercises.name, name)
+      ))
+      .limit(1);
 
-    return exerciseId;
+    return created.id;
   }
   
+  /**
+   * Registers or refreshes the syncing device and returns its record,
+   * including the download checkpoint from its previous sync.
+   */
   private static async updateDeviceInfo(
     userId: string, 
     deviceId: string, 
     deviceInfo?: SyncPayload['deviceInfo']
-  ) {
+  ): Promise<typeof userDevices.$inferSelect> {
     const existingDevice = await db.select()
       .from(userDevices)
       .where(and(
@@ -734,7 +1586,7 @@ export class SyncService {
       .limit(1);
     
     if (existingDevice.length > 0) {
-      await db.update(userDevices)
+      const [device] = await db.update(userDevices)
         .set({
           deviceName: deviceInfo?.name,
           deviceType: deviceInfo?.type,
@@ -744,9 +1596,11 @@ export class SyncService {
           lastSyncAt: new Date(),
           updatedAt: new Date(),
         })
-        .where(eq(userDevices.id, existingDevice[0].id));
+        .where(eq(userDevices.id, existingDevice[0].id))
+        .returning();
+      return device;
     } else {
-      await db.insert(userDevices).values({
+      const [device] = await db.insert(userDevices).values({
         userId,
         deviceId,
         deviceName: deviceInfo?.name,
@@ -755,7 +1609,8 @@ export class SyncService {
         osVersion: deviceInfo?.osVersion,
         lastActiveAt: new Date(),
         lastSyncAt: new Date(),
-      });
+      }).returning();
+      return device;
     }
   }
   
@@ -821,11 +1676,28 @@ export class SyncService {
     }
   }
   
+  /**
+   * Retires the conflicts on a workout nobody has resolved yet, once the
+   * workout has been written again. Their rejected change was compared
+   * against a copy that no longer exists, so applying it now would overwrite
+   * the newer edit.
+   */
+  static async supersedeOpenConflicts(executor: DbExecutor, userId: string, workoutId: string): Promise<void> {
+    await executor.update(syncConflictLog)
+      .set({ resolvedBy: 'superseded', resolvedAt: new Date() })
+      .where(and(
+        eq(syncConflictLog.userId, userId),
+        eq(syncConflictLog.entityType, 'workout'),
+        eq(syncConflictLog.entityId, workoutId),
+        eq(syncConflictLog.resolvedBy, 'system')
+      ));
+  }
+
   private static async logSyncConflict(
     userId: string,
     entityType: 'workout' | 'exercise' | 'set',
     entityId: string,
-    clientData: WorkoutSyncData | ExerciseSyncData | SetSyncData,
+    clientData: WorkoutSyncData | ExerciseSyncData | SetSyncData | DeletedWorkoutSyncData,
     serverData: WorkoutRecord | ExerciseRecord | SetRecord,
     clientTimestamp: Date,
     serverTimestamp: Date,
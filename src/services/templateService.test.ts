@@ -7,7 +7,11 @@ jest.mock('../db', () => ({
 jest.mock('../db/schema', () => ({
   workoutTemplates: {},
   templateExercises: {},
-  exercises: {}
+  templateLikes: {},
+  exercises: {},
+  users: {},
+  userFollows: {},
+  userBlocks: {}
 }));
 
 import { encodeCursor, decodeCursor } from './templateService';
@@ -18,6 +22,8 @@ import {
   validateUpdateTemplate,
   validateTemplateExercises,
   validateCloneTemplate,
+  validatePublicTemplateListQuery,
+  validateSwapTemplateExercise,
   isValidUuid,
   TEMPLATE_LIMITS
 } from '../utils/validation';
@@ -167,6 +173,20 @@ describe('templateService', () => {
         expect(decoded?.sortField).toBe(sortField);
       }
     });
+
+    it('should accept public sort fields with numeric sortValue', () => {
+      for (const sortField of ['likes', 'downloads'] as const) {
+        const cursorData: TemplateCursorData = { id: 'test-uuid-1234', sortValue: 42, sortField };
+        expect(decodeCursor(encodeCursor(cursorData))).toEqual(cursorData);
+      }
+    });
+
+    it('should reject public sort cursors whose sortValue has the wrong type', () => {
+      for (const sortField of ['likes', 'downloads'] as const) {
+        expect(decodeCursor(encodeCursor({ id: 'test-uuid-1234', sortValue: '42', sortField }))).toBeNull();
+      }
+      expect(decodeCursor(encodeCursor({ id: 'test-uuid-1234', sortValue: 'yesterday', sortField: 'recent' }))).toBeNull();
+    });
   });
 
   describe('cursor round-trip integrity', () => {
@@ -457,6 +477,19 @@ describe('template validation', () => {
       expect(result.valid).toBe(false);
       expect(result.errors).toContain('name cannot be empty');
     });
+
+    it('should accept isPublic', () => {
+      const result = validateUpdateTemplate({ isPublic: true });
+
+      expect(result.valid).toBe(true);
+      expect(result.sanitized?.isPublic).toBe(true);
+    });
+
+    it('should reject non-boolean isPublic', () => {
+      const result = validateUpdateTemplate({ isPublic: 'yes' });
+
+      expect(result.valid).toBe(false);
+    });
   });
 
   describe('validateTemplateExercises', () => {
@@ -524,6 +557,64 @@ describe('template validation', () => {
     });
   });
 
+  describe('validatePublicTemplateListQuery', () => {
+    it('should accept sort, search and filters', () => {
+      const result = validatePublicTemplateListQuery({
+        sort: 'downloads',
+        search: '  push  ',
+        muscleGroup: ['chest', 'triceps'],
+        equipment: 'barbell',
+        limit: '10'
+      });
+
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({
+        sort: 'downloads',
+        search: 'push',
+        muscleGroup: ['chest', 'triceps'],
+        equipment: 'barbell',
+        limit: 10
+      });
+    });
+
+    it('should reject invalid sort option', () => {
+      const result = validatePublicTemplateListQuery({ sort: 'name' });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.some(e => e.includes('Invalid sort option'))).toBe(true);
+    });
+
+    it('should reject overly long search', () => {
+      const result = validatePublicTemplateListQuery({
+        search: 'a'.repeat(TEMPLATE_LIMITS.MAX_SEARCH_LENGTH + 1)
+      });
+
+      expect(result.valid).toBe(false);
+    });
+
+    it('should reject non-string filters', () => {
+      const result = validatePublicTemplateListQuery({ equipment: [1, 2] });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContain('equipment must be a string or an array of strings');
+    });
+  });
+
+  describe('validateSwapTemplateExercise', () => {
+    it('should accept a valid exerciseId', () => {
+      const exerciseId = '123e4567-e89b-12d3-a456-426614174000';
+      const result = validateSwapTemplateExercise({ exerciseId });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ exerciseId });
+    });
+
+    it('should reject a missing or malformed exerciseId', () => {
+      expect(validateSwapTemplateExercise({}).valid).toBe(false);
+      expect(validateSwapTemplateExercise({ exerciseId: 'bench' }).valid).toBe(false);
+      expect(validateSwapTemplateExercise(null).valid).toBe(false);
+    });
+  });
+
   describe('isValidUuid', () => {
     it('should accept valid UUIDs', () => {
       expect(isValidUuid('12345678-1234-1234-1234-123456789abc')).toBe(true);
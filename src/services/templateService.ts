@@ -2,11 +2,14 @@ import { db } from '../db';
 import {
   workoutTemplates,
   templateExercises,
+  templateLikes,
   exercises,
+  users,
 } from '../db/schema';
 import {
   eq,
   and,
+  or,
   sql,
   desc,
   asc,
@@ -24,9 +27,17 @@ import {
   CreateTemplateInput,
   UpdateTemplateInput,
   TemplateExerciseInput,
+  PublicTemplateListQuery,
+  PublicTemplateListItem,
+  PublicTemplateListResponse,
+  PublicTemplateDetail,
+  PublicTemplateSortOption,
+  TemplateLikeResponse,
 } from '../models/template.types';
 
 import { TEMPLATE_LIMITS } from '../utils/validation';
+import { toUserSummary, notBlockedCondition } from './followService';
+import { visibleExerciseCondition, mapExercisesForUser } from './exerciseService';
 
 // ============ Constants ============
 
@@ -98,12 +109,22 @@ function isValidCursorData(data: unknown): data is TemplateCursorData {
     return false;
   }
 
-  // sortField must be a valid sort option
-  const validSortFields: TemplateSortOption[] = ['name', 'createdAt', 'updatedAt'];
+  // sortField must be a valid sort option (own or public listing)
+  const validSortFields: (TemplateSortOption | PublicTemplateSortOption)[] = [
+    'name', 'createdAt', 'updatedAt', 'likes', 'downloads', 'recent'
+  ];
   if (typeof cursor.sortField !== 'string' || !validSortFields.includes(cursor.sortField as TemplateSortOption)) {
     return false;
   }
 
+  // Public sorts compare the value with a count or timestamp in SQL, so it must be one
+  if ((cursor.sortField === 'likes' || cursor.sortField === 'downloads') && !Number.isInteger(cursor.sortValue)) {
+    return false;
+  }
+  if (cursor.sortField === 'recent' && (typeof cursor.sortValue !== 'string' || isNaN(Date.parse(cursor.sortValue)))) {
+    return false;
+  }
+
   return true;
 }
 
@@ -130,15 +151,19 @@ export async function verifyTemplateOwnership(
 }
 
 /**
- * Validates that all exercise IDs exist in the exercises table
+ * Validates that all exercise IDs exist and are usable by the user: library
+ * exercises or the user's own custom exercises
  */
-async function validateExerciseIds(exerciseIds: string[]): Promise<string[]> {
+async function validateExerciseIds(
+  exerciseIds: string[],
+  userId: string
+): Promise<string[]> {
   const uniqueIds = [...new Set(exerciseIds)];
 
   const existingExercises = await db
     .select({ id: exercises.id })
     .from(exercises)
-    .where(inArray(exercises.id, uniqueIds));
+    .where(and(inArray(exercises.id, uniqueIds), visibleExerciseCondition(userId)));
 
   const existingIds = new Set(existingExercises.map(e => e.id));
   const missingIds = uniqueIds.filter(id => !existingIds.has(id));
@@ -245,7 +270,22 @@ export async function getTemplateById(
     return null;
   }
 
-  // Get exercises with exercise details
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    isPublic: template.isPublic ?? false,
+    isAiGenerated: template.isAiGenerated ?? false,
+    exercises: await getTemplateExerciseDetails(templateId),
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString()
+  };
+}
+
+/**
+ * Exercises of a template with exercise details, in order
+ */
+async function getTemplateExerciseDetails(templateId: string): Promise<TemplateExerciseDetail[]> {
   const templateExerciseResults = await db
     .select({
       id: templateExercises.id,
@@ -270,8 +310,7 @@ export async function getTemplateById(
     .where(eq(templateExercises.templateId, templateId))
     .orderBy(asc(templateExercises.orderIndex));
 
-  // Transform to response format
-  const exerciseDetails: TemplateExerciseDetail[] = templateExerciseResults.map((te) => ({
+  return templateExerciseResults.map((te) => ({
     id: te.id,
     exerciseId: te.exerciseId,
     orderIndex: te.orderIndex,
@@ -289,17 +328,6 @@ export async function getTemplateById(
       videoUrl: te.exercise.videoUrl
     }
   }));
-
-  return {
-    id: template.id,
-    name: template.name,
-    description: template.description,
-    isPublic: template.isPublic ?? false,
-    isAiGenerated: template.isAiGenerated ?? false,
-    exercises: exerciseDetails,
-    createdAt: template.createdAt.toISOString(),
-    updatedAt: template.updatedAt.toISOString()
-  };
 }
 
 /**
@@ -418,7 +446,7 @@ export async function createTemplate(
 ): Promise<TemplateDetail> {
   // Validate exercise IDs exist
   const exerciseIds = input.exercises.map(e => e.exerciseId);
-  const missingIds = await validateExerciseIds(exerciseIds);
+  const missingIds = await validateExerciseIds(exerciseIds, userId);
   if (missingIds.length > 0) {
     throw new Error(`Exercises not found: ${missingIds.join(', ')}`);
   }
@@ -490,6 +518,10 @@ export async function updateTemplate(
   if (updates.description !== undefined) {
     updateData.description = updates.description || null;
   }
+  if (updates.isPublic !== undefined) {
+    updateData.isPublic = updates.isPublic;
+    updateData.privacyLevel = updates.isPublic ? 'public' : 'private';
+  }
 
   // Update the template
   await db
@@ -531,18 +563,20 @@ export async function deleteTemplate(
 }
 
 /**
- * Clone a template (creates a copy with all exercises)
+ * Clone a template (creates a copy with all exercises).
+ * Other users' public templates can be cloned too, which counts as a download.
  */
 export async function cloneTemplate(
   templateId: string,
   userId: string,
   newName?: string
 ): Promise<TemplateDetail | null> {
-  // Verify ownership and get source template metadata (lightweight query)
-  const sourceTemplate = await verifyTemplateOwnership(templateId, userId);
+  // Get source template metadata (lightweight query)
+  const sourceTemplate = await findAccessibleTemplate(templateId, userId);
   if (!sourceTemplate) {
     return null;
   }
+  const isDownload = sourceTemplate.userId !== userId;
 
   // Get source exercises (only fields needed for cloning)
   const sourceExercises = await db
@@ -559,6 +593,9 @@ export async function cloneTemplate(
     .where(eq(templateExercises.templateId, templateId))
     .orderBy(asc(templateExercises.orderIndex));
 
+  // Another user's custom exercises are swapped for ones the user can use
+  const exerciseIdMap = await mapExercisesForUser(sourceExercises.map(e => e.exerciseId), userId);
+
   // Generate clone name with length validation
   let cloneName: string;
   if (newName) {
@@ -589,7 +626,7 @@ export async function cloneTemplate(
       await tx.insert(templateExercises).values(
         sourceExercises.map((e) => ({
           templateId: template.id,
-          exerciseId: e.exerciseId,
+          exerciseId: exerciseIdMap.get(e.exerciseId)!,
           orderIndex: e.orderIndex,
           workingSets: e.workingSets,
           warmupSets: e.warmupSets ?? 0,
@@ -600,6 +637,13 @@ export async function cloneTemplate(
       );
     }
 
+    if (isDownload) {
+      await tx
+        .update(workoutTemplates)
+        .set({ downloadCount: sql`COALESCE(${workoutTemplates.downloadCount}, 0) + 1` })
+        .where(eq(workoutTemplates.id, templateId));
+    }
+
     return template;
   });
 
@@ -623,7 +667,7 @@ export async function updateTemplateExercises(
 
   // Validate exercise IDs exist
   const exerciseIds = exercisesInput.map(e => e.exerciseId);
-  const missingIds = await validateExerciseIds(exerciseIds);
+  const missingIds = await validateExerciseIds(exerciseIds, userId);
   if (missingIds.length > 0) {
     throw new Error(`Exercises not found: ${missingIds.join(', ')}`);
   }
@@ -662,8 +706,340 @@ export async function updateTemplateExercises(
   return getTemplateById(templateId, userId);
 }
 
+/**
+ * Swap the exercise in one template slot, keeping its sets, reps, rest,
+ * notes and position. Returns null if the template or slot doesn't exist
+ * or the template isn't owned by the user.
+ */
+export async function swapTemplateExercise(
+  templateId: string,
+  userId: string,
+  templateExerciseId: string,
+  exerciseId: string
+): Promise<TemplateDetail | null> {
+  // Verify ownership
+  const existing = await verifyTemplateOwnership(templateId, userId);
+  if (!existing) {
+    return null;
+  }
+
+  const missingIds = await validateExerciseIds([exerciseId], userId);
+  if (missingIds.length > 0) {
+    throw new Error(`Exercises not found: ${missingIds.join(', ')}`);
+  }
+
+  const swapped = await db.transaction(async (tx) => {
+    const [slot] = await tx
+      .update(templateExercises)
+      .set({ exerciseId })
+      .where(and(
+        eq(templateExercises.id, templateExerciseId),
+        eq(templateExercises.templateId, templateId)
+      ))
+      .returning();
+
+    if (!slot) {
+      return false;
+    }
+
+    // Update template's updatedAt
+    await tx
+      .update(workoutTemplates)
+      .set({ updatedAt: new Date() })
+      .where(eq(workoutTemplates.id, templateId));
+
+    return true;
+  });
+
+  if (!swapped) {
+    return null;
+  }
+
+  return getTemplateById(templateId, userId);
+}
+
+// ============ Public Templates ============
+
+function isLikedBy(viewerId: string): SQL<boolean> {
+  return sql<boolean>`EXISTS (
+    SELECT 1 FROM template_likes
+    WHERE template_id = ${workoutTemplates.id} AND user_id = ${viewerId}
+  )`;
+}
+
+/**
+ * A template the user owns, or another user's public template
+ */
+async function findAccessibleTemplate(
+  templateId: string,
+  userId: string
+): Promise<typeof workoutTemplates.$inferSelect | null> {
+  const [template] = await db
+    .select()
+    .from(workoutTemplates)
+    .where(and(
+      eq(workoutTemplates.id, templateId),
+      or(
+        eq(workoutTemplates.userId, userId),
+        and(eq(workoutTemplates.isPublic, true), notBlockedCondition(userId, workoutTemplates.userId))
+      )
+    ))
+    .limit(1);
+
+  return template || null;
+}
+
+async function findPublicTemplate(
+  templateId: string,
+  viewerId: string
+): Promise<typeof workoutTemplates.$inferSelect | null> {
+  const [template] = await db
+    .select()
+    .from(workoutTemplates)
+    .where(and(
+      eq(workoutTemplates.id, templateId),
+      eq(workoutTemplates.isPublic, true),
+      notBlockedCondition(viewerId, workoutTemplates.userId)
+    ))
+    .limit(1);
+
+  return template || null;
+}
+
+/**
+ * Browse and search public templates. Filters match templates containing at
+ * least one exercise that works the muscle group or uses the equipment.
+ */
+export async function getPublicTemplates(
+  viewerId: string,
+  query: PublicTemplateListQuery
+): Promise<PublicTemplateListResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const sort = query.sort || 'likes';
+
+  const conditions: SQL[] = [
+    eq(workoutTemplates.isPublic, true),
+    notBlockedCondition(viewerId, workoutTemplates.userId),
+  ];
+
+  if (query.search) {
+    const pattern = `%${query.search.replace(/[%_\\]/g, '\\$&')}%`;
+    conditions.push(sql`(${workoutTemplates.name} ILIKE ${pattern} OR ${workoutTemplates.description} ILIKE ${pattern})`);
+  }
+
+  if (query.muscleGroup) {
+    const muscles = Array.isArray(query.muscleGroup) ? query.muscleGroup : [query.muscleGroup];
+    const muscleArray = sql`array[${sql.join(muscles.map((m) => sql`${m}`), sql`, `)}]::text[]`;
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM template_exercises te
+      INNER JOIN exercises e ON e.id = te.exercise_id
+      WHERE te.template_id = ${workoutTemplates.id}
+      AND (e.primary_muscles ?| ${muscleArray} OR e.secondary_muscles ?| ${muscleArray})
+    )`);
+  }
+
+  if (query.equipment) {
+    const equipmentList = Array.isArray(query.equipment) ? query.equipment : [query.equipment];
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM template_exercises te
+      INNER JOIN exercises e ON e.id = te.exercise_id
+      WHERE te.template_id = ${workoutTemplates.id}
+      AND e.equipment IN (${sql.join(equipmentList.map((e) => sql`${e}`), sql`, `)})
+    )`);
+  }
+
+  const sortColumn = getPublicSortColumn(sort);
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData && cursorData.sortField === sort && cursorData.sortValue !== null) {
+      const value = sort === 'recent' ? sql`${cursorData.sortValue}::timestamp` : sql`${cursorData.sortValue}`;
+      conditions.push(sql`(${sortColumn} < ${value} OR (${sortColumn} = ${value} AND ${workoutTemplates.id} > ${cursorData.id}))`);
+    }
+  }
+
+  const results = await db
+    .select({
+      id: workoutTemplates.id,
+      name: workoutTemplates.name,
+      description: workoutTemplates.description,
+      likeCount: workoutTemplates.likeCount,
+      downloadCount: workoutTemplates.downloadCount,
+      createdAt: workoutTemplates.createdAt,
+      updatedAt: workoutTemplates.updatedAt,
+      exerciseCount: sql<number>`(
+        SELECT COUNT(*)::int FROM template_exercises
+        WHERE template_id = ${workoutTemplates.id}
+      )`,
+      isLiked: isLikedBy(viewerId),
+      authorId: users.id,
+      authorHandle: users.handle,
+      authorDisplayName: users.displayName,
+      authorProfilePictureUrl: users.profilePictureUrl,
+    })
+    .from(workoutTemplates)
+    .innerJoin(users, eq(workoutTemplates.userId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(sortColumn), asc(workoutTemplates.id))
+    .limit(limit + 1);
+
+  const hasMore = results.length > limit;
+  const page = hasMore ? results.slice(0, limit) : results;
+
+  let nextCursor: string | null = null;
+  if (hasMore && page.length > 0) {
+    const last = page[page.length - 1];
+    nextCursor = encodeCursor({
+      id: last.id,
+      sortValue: sort === 'likes'
+        ? last.likeCount ?? 0
+        : sort === 'downloads'
+          ? last.downloadCount ?? 0
+          : last.createdAt.toISOString(),
+      sortField: sort
+    });
+  }
+
+  const templates: PublicTemplateListItem[] = page.map(t => ({
+    id: t.id,
+    name: t.name,
+    description: t.description,
+    exerciseCount: t.exerciseCount,
+    author: toUserSummary({
+      id: t.authorId,
+      handle: t.authorHandle,
+      displayName: t.authorDisplayName,
+      profilePictureUrl: t.authorProfilePictureUrl,
+    }),
+    likeCount: t.likeCount ?? 0,
+    downloadCount: t.downloadCount ?? 0,
+    isLiked: t.isLiked,
+    createdAt: t.createdAt.toISOString(),
+    updatedAt: t.updatedAt.toISOString(),
+  }));
+
+  return {
+    templates,
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+/**
+ * Get a public template with its exercises and author
+ */
+export async function getPublicTemplateById(
+  templateId: string,
+  viewerId: string
+): Promise<PublicTemplateDetail | null> {
+  const template = await findPublicTemplate(templateId, viewerId);
+  if (!template) {
+    return null;
+  }
+
+  const [author] = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, template.userId))
+    .limit(1);
+
+  const [like] = await db
+    .select({ templateId: templateLikes.templateId })
+    .from(templateLikes)
+    .where(and(eq(templateLikes.templateId, templateId), eq(templateLikes.userId, viewerId)))
+    .limit(1);
+
+  return {
+    id: template.id,
+    name: template.name,
+    description: template.description,
+    isPublic: true,
+    isAiGenerated: template.isAiGenerated ?? false,
+    exercises: await getTemplateExerciseDetails(templateId),
+    author: toUserSummary(author),
+    likeCount: template.likeCount ?? 0,
+    downloadCount: template.downloadCount ?? 0,
+    isLiked: !!like,
+    createdAt: template.createdAt.toISOString(),
+    updatedAt: template.updatedAt.toISOString()
+  };
+}
+
+/**
+ * Like a public template. Liking twice is a no-op.
+ */
+export async function likeTemplate(templateId: string, userId: string): Promise<TemplateLikeResponse | null> {
+  const template = await findPublicTemplate(templateId, userId);
+  if (!template) {
+    return null;
+  }
+
+  const likeCount = await db.transaction(async (tx) => {
+    const inserted = await tx
+      .insert(templateLikes)
+      .values({ templateId, userId })
+      .onConflictDoNothing()
+      .returning();
+
+    if (inserted.length === 0) {
+      return template.likeCount ?? 0;
+    }
+
+    const [updated] = await tx
+      .update(workoutTemplates)
+      .set({ likeCount: sql`COALESCE(${workoutTemplates.likeCount}, 0) + 1` })
+      .where(eq(workoutTemplates.id, templateId))
+      .returning();
+    return updated.likeCount ?? 0;
+  });
+
+  return { templateId, isLiked: true, likeCount };
+}
+
+/**
+ * Remove a like. Works even if the template has since been made private.
+ * Returns null if the user hadn't liked it.
+ */
+export async function unlikeTemplate(templateId: string, userId: string): Promise<TemplateLikeResponse | null> {
+  return db.transaction(async (tx) => {
+    const deleted = await tx
+      .delete(templateLikes)
+      .where(and(eq(templateLikes.templateId, templateId), eq(templateLikes.userId, userId)))
+      .returning();
+
+    if (deleted.length === 0) {
+      return null;
+    }
+
+    const [updated] = await tx
+      .update(workoutTemplates)
+      .set({ likeCount: sql`GREATEST(COALESCE(${workoutTemplates.likeCount}, 0) - 1, 0)` })
+      .where(eq(workoutTemplates.id, templateId))
+      .returning();
+
+    return { templateId, isLiked: false, likeCount: updated?.likeCount ?? 0 };
+  });
+}
+
 // ============ Sorting Helpers ============
 
+/**
+ * Sort column for public templates (always descending, id as tiebreaker)
+ */
+function getPublicSortColumn(sort: PublicTemplateSortOption): SQL {
+  switch (sort) {
+    case 'downloads':
+      return sql`COALESCE(${workoutTemplates.downloadCount}, 0)`;
+    case 'recent':
+      return sql`${workoutTemplates.createdAt}`;
+    case 'likes':
+    default:
+      return sql`COALESCE(${workoutTemplates.likeCount}, 0)`;
+  }
+}
+
 /**
  * Get order by columns for sorting templates
  */
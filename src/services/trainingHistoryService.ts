@@ -1,6 +1,7 @@
 import { db } from '../db';
-import { workouts, workoutExercises, sets, exercises } from '../db/schema';
+import { users, workouts, workoutExercises, sets, exercises } from '../db/schema';
 import { eq, and, gte, sql, desc } from 'drizzle-orm';
+import { isWorkingSet, recordLoadLbs, setVolumeLbs } from './setMetrics';
 
 interface MuscleVolumeMap {
   [muscle: string]: number;
@@ -55,6 +56,7 @@ export async function getTrainingHistorySummary(userId: string): Promise<string
       reps: sets.reps,
       weightLbs: sets.weightLbs,
       setType: sets.setType,
+      loadType: sets.loadType,
     })
     .from(workoutExercises)
     .innerJoin(sets, eq(sets.workoutExerciseId, workoutExercises.id))
@@ -76,7 +78,7 @@ export async function getTrainingHistorySummary(userId: string): Promise<string
   let totalSets = 0;
 
   for (const row of exerciseData) {
-    if (row.setType !== 'working') continue;
+    if (!isWorkingSet(row.setType)) continue;
 
     totalSets++;
 
@@ -114,13 +116,13 @@ export async function getTrainingHistorySummary(userId: string): Promise<string
     const matching = exerciseData.filter(
       row =>
         row.exerciseName.toLowerCase().includes(compound) &&
-        row.setType === 'working' &&
+        isWorkingSet(row.setType) &&
         row.reps >= 5
     );
 
     if (matching.length > 0) {
       const heaviest = matching.reduce((best, row) => {
-        const weight = parseFloat(String(row.weightLbs));
+        const weight = recordLoadLbs({ weightLbs: parseFloat(String(row.weightLbs)), loadType: row.loadType });
         return weight > best.weight ? { exerciseName: row.exerciseName, weight, reps: row.reps } : best;
       }, { exerciseName: '', weight: 0, reps: 0 });
 
@@ -259,6 +261,7 @@ export async function getProgressTrends(
       reps: sets.reps,
       weightLbs: sets.weightLbs,
       setType: sets.setType,
+      loadType: sets.loadType,
     })
     .from(workoutExercises)
     .innerJoin(sets, eq(sets.workoutExerciseId, workoutExercises.id))
@@ -273,6 +276,14 @@ export async function getProgressTrends(
   // Build a lookup: workoutId → date
   const workoutDateMap = new Map(periodWorkouts.map(w => [w.id, w.date]));
 
+  // Bodyweight sets need the user's weight to count towards volume load
+  const [profile] = await db
+    .select({ weight: users.weight })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+  const bodyweightLbs = profile?.weight ?? null;
+
   // ---- Per-exercise weight progression & stall detection ----
   // For each exercise, track max working weight per week
   const exerciseWeeklyMax: Map<string, {
@@ -284,14 +295,14 @@ export async function getProgressTrends(
   const weeklyVolume: Map<string, { sets: number; volumeLoad: number }> = new Map();
 
   for (const row of exerciseData) {
-    if (row.setType !== 'working') continue;
+    if (!isWorkingSet(row.setType)) continue;
 
     const workoutDate = workoutDateMap.get(row.workoutId);
     if (!workoutDate) continue;
 
     const weekLabel = getISOWeekLabel(workoutDate);
-    const weight = parseFloat(String(row.weightLbs)) || 0;
-    const reps = row.reps || 0;
+    const load = { ...row, weightLbs: parseFloat(String(row.weightLbs)) || 0 };
+    const weight = recordLoadLbs(load);
 
     // Per-exercise weekly max weight
     let exerciseEntry = exerciseWeeklyMax.get(row.exerciseId);
@@ -311,7 +322,7 @@ export async function getProgressTrends(
       weeklyVolume.set(weekLabel, weekVol);
     }
     weekVol.sets++;
-    weekVol.volumeLoad += weight * reps;
+    weekVol.volumeLoad += setVolumeLbs(load, bodyweightLbs);
   }
 
   // ---- Compute exercise progressions ----
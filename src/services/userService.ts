@@ -99,7 +99,9 @@ export const updateUserProfile = async (firebaseUid: string, updates: Partial<{
   gender: 'male' | 'female' | 'other' | 'prefer_not_to_say';
   unitPreference: 'metric' | 'imperial';
   isPublicProfile: boolean;
+  activityPrivacy: 'private' | 'friends' | 'public';
   notificationsEnabled: boolean;
+  timezone: string;
 }>) => {
   // Remove any undefined values and add sync timestamp
   const cleanUpdates = Object.fromEntries(
@@ -0,0 +1,116 @@
+// Mock the database module before importing userStatsService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  users: {},
+  workouts: {},
+  workoutExercises: {},
+  sets: {}
+}));
+
+import {
+  toLocalDateKey,
+  computeStreaks,
+  getEffectiveCurrentStreak
+} from './userStatsService';
+import { isValidTimezone, validateUserProfileUpdate } from '../utils/validation';
+
+describe('userStatsService', () => {
+  describe('toLocalDateKey', () => {
+    it('should format the UTC calendar day by default', () => {
+      expect(toLocalDateKey(new Date('2024-03-10T23:30:00.000Z'), 'UTC')).toBe('2024-03-10');
+    });
+
+    it('should use the local calendar day of the given time zone', () => {
+      // 02:00 UTC is still the previous evening in New York
+      const date = new Date('2024-03-11T02:00:00.000Z');
+      expect(toLocalDateKey(date, 'America/New_York')).toBe('2024-03-10');
+      expect(toLocalDateKey(date, 'Asia/Tokyo')).toBe('2024-03-11');
+    });
+
+    it('should fall back to UTC for missing or unknown time zones', () => {
+      const date = new Date('2024-03-11T02:00:00.000Z');
+      expect(toLocalDateKey(date, null)).toBe('2024-03-11');
+      expect(toLocalDateKey(date, 'Not/AZone')).toBe('2024-03-11');
+    });
+  });
+
+  describe('computeStreaks', () => {
+    it('should return zeros with no workouts', () => {
+      expect(computeStreaks([], '2024-03-10')).toEqual({ current: 0, longest: 0 });
+    });
+
+    it('should count consecutive days ending today', () => {
+      const days = ['2024-03-08', '2024-03-09', '2024-03-10'];
+      expect(computeStreaks(days, '2024-03-10')).toEqual({ current: 3, longest: 3 });
+    });
+
+    it('should keep the current streak alive until a full day is missed', () => {
+      const days = ['2024-03-08', '2024-03-09'];
+      expect(computeStreaks(days, '2024-03-10').current).toBe(2);
+      expect(computeStreaks(days, '2024-03-11').current).toBe(0);
+    });
+
+    it('should count multiple workouts on the same day once', () => {
+      const days = ['2024-03-09', '2024-03-09', '2024-03-10'];
+      expect(computeStreaks(days, '2024-03-10')).toEqual({ current: 2, longest: 2 });
+    });
+
+    it('should track the longest streak separately from the current one', () => {
+      const days = [
+        '2024-02-01', '2024-02-02', '2024-02-03', '2024-02-04',
+        '2024-03-09', '2024-03-10'
+      ];
+      expect(computeStreaks(days, '2024-03-10')).toEqual({ current: 2, longest: 4 });
+    });
+
+    it('should handle unsorted input and month boundaries', () => {
+      const days = ['2024-03-01', '2024-02-28', '2024-02-29'];
+      expect(computeStreaks(days, '2024-03-01')).toEqual({ current: 3, longest: 3 });
+    });
+  });
+
+  describe('getEffectiveCurrentStreak', () => {
+    const now = new Date('2024-03-10T12:00:00.000Z');
+
+    it('should keep a streak whose last workout was today or yesterday', () => {
+      expect(getEffectiveCurrentStreak(5, new Date('2024-03-10T08:00:00.000Z'), 'UTC', now)).toBe(5);
+      expect(getEffectiveCurrentStreak(5, new Date('2024-03-09T08:00:00.000Z'), 'UTC', now)).toBe(5);
+    });
+
+    it('should drop a lapsed streak', () => {
+      expect(getEffectiveCurrentStreak(5, new Date('2024-03-07T08:00:00.000Z'), 'UTC', now)).toBe(0);
+    });
+
+    it('should return 0 when there is no streak or workout', () => {
+      expect(getEffectiveCurrentStreak(null, null, 'UTC', now)).toBe(0);
+      expect(getEffectiveCurrentStreak(3, null, 'UTC', now)).toBe(0);
+    });
+  });
+
+  describe('timezone validation', () => {
+    it('should accept IANA time zone names', () => {
+      expect(isValidTimezone('UTC')).toBe(true);
+      expect(isValidTimezone('America/Los_Angeles')).toBe(true);
+    });
+
+    it('should reject unknown time zones', () => {
+      expect(isValidTimezone('')).toBe(false);
+      expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+    });
+
+    it('should accept timezone in profile updates', () => {
+      const result = validateUserProfileUpdate({ timezone: ' Europe/London ' });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({ timezone: 'Europe/London' });
+    });
+
+    it('should reject an invalid timezone in profile updates', () => {
+      const result = validateUserProfileUpdate({ timezone: 'Nowhere/Land' });
+      expect(result.valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { db } from '../db';
+import { users, workouts, workoutExercises, sets } from '../db/schema';
+import { eq, and, asc, isNull } from 'drizzle-orm';
+import { isValidTimezone } from '../utils/validation';
+import { summarizeWorkingSets } from './setMetrics';
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface WorkoutStreaks {
+  current: number;
+  longest: number;
+}
+
+// ============ Constants ============
+
+const DEFAULT_TIMEZONE = 'UTC';
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============ Date Helpers ============
+
+/**
+ * Returns the calendar day (YYYY-MM-DD) a timestamp falls on in the given
+ * time zone. Unknown zones fall back to UTC rather than throwing, since the
+ * value comes from user profile data.
+ */
+export function toLocalDateKey(date: Date, timeZone: string | null | undefined): string {
+  const zone = timeZone && isValidTimezone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: zone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Whole days between two YYYY-MM-DD keys (b - a)
+ */
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(`${b}T00:00:00Z`) - Date.parse(`${a}T00:00:00Z`)) / MS_PER_DAY);
+}
+
+// ============ Streak Calculation ============
+
+/**
+ * Computes workout streaks from the local calendar days a user trained on.
+ *
+ * A streak is a run of consecutive days with at least one completed workout.
+ * The current streak stays alive through "today" until the day is over, so
+ * it only resets once a full day has been missed.
+ */
+export function computeStreaks(dateKeys: string[], todayKey: string): WorkoutStreaks {
+  const days = [...new Set(dateKeys)].sort();
+  if (days.length === 0) return { current: 0, longest: 0 };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = daysBetween(days[i - 1], days[i]) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  // `run` now holds the length of the streak ending on the latest workout day
+  const daysSinceLast = daysBetween(days[days.length - 1], todayKey);
+  const current = daysSinceLast <= 1 ? run : 0;
+
+  return { current, longest };
+}
+
+/**
+ * Returns the stored current streak, or 0 if it has lapsed since it was last
+ * computed. Stats are only recomputed on sync, so a user who stops training
+ * would otherwise keep showing their old streak indefinitely.
+ */
+export function getEffectiveCurrentStreak(
+  storedStreak: number | null,
+  lastWorkoutDate: Date | null,
+  timeZone: string | null | undefined,
+  now: Date = new Date()
+): number {
+  if (!storedStreak || !lastWorkoutDate) return 0;
+  const daysSinceLast = daysBetween(toLocalDateKey(lastWorkoutDate, timeZone), toLocalDateKey(now, timeZone));
+  return daysSinceLast <= 1 ? storedStreak : 0;
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * Recomputes the cached totals (volume, sets, reps) of a single workout from
+ * its working sets, weighted as described in setMetrics. Accepts a
+ * transaction so it can run alongside the writes that changed the sets.
+ */
+export async function refreshWorkoutTotals(executor: DbExecutor, workoutId: string): Promise<void> {
+  const [owner] = await executor
+    .select({ bodyweightLbs: users.weight })
+    .from(workouts)
+    .innerJoin(users, eq(workouts.userId, users.id))
+    .where(eq(workouts.id, workoutId))
+    .limit(1);
+
+  const setRows = await executor
+    .select({
+      reps: sets.reps,
+      weightLbs: sets.weightLbs,
+      setType: sets.setType,
+      loadType: sets.loadType,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .where(eq(workoutExercises.workoutId, workoutId));
+
+  const totals = summarizeWorkingSets(
+    setRows.map(row => ({ ...row, weightLbs: parseFloat(row.weightLbs) || 0 })),
+    owner?.bodyweightLbs ?? null
+  );
+
+  await executor
+    .update(workouts)
+    .set({
+      totalVolumeLbs: totals.totalVolumeLbs.toFixed(2),
+      totalSets: totals.totalSets,
+      totalReps: totals.totalReps,
+    })
+    .where(eq(workouts.id, workoutId));
+}
+
+/**
+ * Rebuilds a user's lifetime stats (total volume, workout count, streaks,
+ * last workout date) from their completed workouts.
+ *
+ * Always recomputed from scratch so edits and deletes are reflected without
+ * having to track deltas. Returns the updated user record.
+ */
+export async function recalculateUserStats(userId: string) {
+  const [user] = await db
+    .select({ timezone: users.timezone })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  const completedWorkouts = await db
+    .select({
+      date: workouts.date,
+      totalVolumeLbs: workouts.totalVolumeLbs,
+    })
+    .from(workouts)
+    .where(and(
+      eq(workouts.userId, userId),
+      eq(workouts.isCompleted, true),
+      isNull(workouts.deletedAt)
+    ))
+    .orderBy(asc(workouts.date));
+
+  let totalVolume = 0;
+  for (const workout of completedWorkouts) {
+    totalVolume += parseFloat(workout.totalVolumeLbs || '0');
+  }
+
+  const dateKeys = completedWorkouts.map(w => toLocalDateKey(w.date, user.timezone));
+  const streaks = computeStreaks(dateKeys, toLocalDateKey(new Date(), user.timezone));
+  const lastWorkout = completedWorkouts[completedWorkouts.length - 1];
+
+  const [updatedUser] = await db
+    .update(users)
+    .set({
+      totalVolumeLiftedLbs: totalVolume.toFixed(2),
+      totalWorkouts: completedWorkouts.length,
+      currentWorkoutStreak: streaks.current,
+      longestWorkoutStreak: streaks.longest,
+      lastWorkoutDate: lastWorkout ? lastWorkout.date : null,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId))
+    .returning();
+
+  return updatedUser;
+}
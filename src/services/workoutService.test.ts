@@ -0,0 +1,120 @@
+// Mock the database module before importing workoutService
+jest.mock('../db', () => ({
+  db: {}
+}));
+
+// Mock the schema module
+jest.mock('../db/schema', () => ({
+  workouts: {},
+  workoutExercises: {},
+  sets: {},
+  users: {}
+}));
+
+import { encodeCursor, decodeCursor } from './workoutService';
+import { WorkoutCursorData } from '../models/workout.types';
+import {
+  validateWorkoutListQuery,
+  validateWorkoutCalendarQuery
+} from '../utils/validation';
+
+describe('workoutService', () => {
+  describe('cursor encoding/decoding', () => {
+    it('should correctly encode and decode cursor data', () => {
+      const cursorData: WorkoutCursorData = {
+        id: 'test-uuid-1234',
+        sortValue: '2024-01-15T10:30:00.000Z',
+        sortField: 'date'
+      };
+
+      const encoded = encodeCursor(cursorData);
+      const decoded = decodeCursor(encoded);
+
+      expect(decoded).toEqual(cursorData);
+    });
+
+    it('should return null for invalid base64', () => {
+      expect(decodeCursor('not-valid-base64!!!')).toBeNull();
+    });
+
+    it('should return null for an unknown sortField', () => {
+      const encoded = Buffer.from(JSON.stringify({
+        id: 'test-uuid',
+        sortValue: 'x',
+        sortField: 'name'
+      })).toString('base64url');
+
+      expect(decodeCursor(encoded)).toBeNull();
+    });
+
+    it('should return null for cursors exceeding max length', () => {
+      expect(decodeCursor('a'.repeat(501))).toBeNull();
+    });
+  });
+
+  describe('validateWorkoutListQuery', () => {
+    it('should accept an empty query', () => {
+      const result = validateWorkoutListQuery({});
+      expect(result.valid).toBe(true);
+      expect(result.sanitized).toEqual({});
+    });
+
+    it('should parse limit and order', () => {
+      const result = validateWorkoutListQuery({ limit: '25', order: 'asc' });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized?.limit).toBe(25);
+      expect(result.sanitized?.order).toBe('asc');
+    });
+
+    it('should reject out-of-range limits', () => {
+      expect(validateWorkoutListQuery({ limit: '0' }).valid).toBe(false);
+      expect(validateWorkoutListQuery({ limit: '101' }).valid).toBe(false);
+    });
+
+    it('should treat a date-only "to" as inclusive of that day', () => {
+      const result = validateWorkoutListQuery({ from: '2024-01-01', to: '2024-01-31' });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized?.from).toBe('2024-01-01T00:00:00.000Z');
+      expect(result.sanitized?.to).toBe('2024-02-01T00:00:00.000Z');
+    });
+
+    it('should accept full timestamps as-is', () => {
+      const result = validateWorkoutListQuery({ to: '2024-01-31T12:00:00.000Z' });
+      expect(result.sanitized?.to).toBe('2024-01-31T12:00:00.000Z');
+    });
+
+    it('should reject invalid dates and inverted ranges', () => {
+      expect(validateWorkoutListQuery({ from: 'yesterday' }).valid).toBe(false);
+      expect(validateWorkoutListQuery({ from: '2024-02-01', to: '2024-01-01' }).valid).toBe(false);
+    });
+
+    it('should require UUIDs for templateId and exerciseId', () => {
+      expect(validateWorkoutListQuery({ templateId: 'abc' }).valid).toBe(false);
+      expect(validateWorkoutListQuery({ exerciseId: 'abc' }).valid).toBe(false);
+
+      const id = '123e4567-e89b-12d3-a456-426614174000';
+      const result = validateWorkoutListQuery({ templateId: id, exerciseId: id });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized?.templateId).toBe(id);
+      expect(result.sanitized?.exerciseId).toBe(id);
+    });
+  });
+
+  describe('validateWorkoutCalendarQuery', () => {
+    it('should accept a YYYY-MM month', () => {
+      const result = validateWorkoutCalendarQuery({ month: '2024-02' });
+      expect(result.valid).toBe(true);
+      expect(result.sanitized?.month).toBe('2024-02');
+    });
+
+    it('should require month', () => {
+      expect(validateWorkoutCalendarQuery({}).valid).toBe(false);
+    });
+
+    it('should reject malformed months', () => {
+      expect(validateWorkoutCalendarQuery({ month: '2024-13' }).valid).toBe(false);
+      expect(validateWorkoutCalendarQuery({ month: '2024-2' }).valid).toBe(false);
+      expect(validateWorkoutCalendarQuery({ month: '2024-02-01' }).valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,379 @@
+import { db } from '../db';
+import {
+  workouts,
+  workoutExercises,
+  sets,
+} from '../db/schema';
+import {
+  eq,
+  and,
+  sql,
+  desc,
+  asc,
+  gte,
+  lt,
+  inArray,
+  isNull,
+  SQL,
+} from 'drizzle-orm';
+import {
+  WorkoutListQuery,
+  WorkoutListItem,
+  WorkoutListResponse,
+  WorkoutDetail,
+  WorkoutExerciseDetail,
+  WorkoutCalendarResponse,
+  WorkoutCalendarDay,
+  WorkoutCursorData,
+  WorkoutSortOption,
+} from '../models/workout.types';
+import { toLocalDateKey } from './userStatsService';
+
+// ============ Constants ============
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const MAX_CURSOR_LENGTH = 500;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============ Cursor Utilities ============
+
+export function encodeCursor(data: WorkoutCursorData): string {
+  return Buffer.from(JSON.stringify(data)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): WorkoutCursorData | null {
+  try {
+    if (cursor.length > MAX_CURSOR_LENGTH) {
+      return null;
+    }
+
+    const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+    const parsed = JSON.parse(decoded);
+
+    if (!isValidCursorData(parsed)) {
+      return null;
+    }
+
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+function isValidCursorData(data: unknown): data is WorkoutCursorData {
+  if (typeof data !== 'object' || data === null) {
+    return false;
+  }
+
+  const cursor = data as Record<string, unknown>;
+
+  if (typeof cursor.id !== 'string' || cursor.id.length === 0) {
+    return false;
+  }
+
+  if (cursor.sortValue !== null &&
+      typeof cursor.sortValue !== 'string' &&
+      typeof cursor.sortValue !== 'number') {
+    return false;
+  }
+
+  const validSortFields: WorkoutSortOption[] = ['date'];
+  if (typeof cursor.sortField !== 'string' || !validSortFields.includes(cursor.sortField as WorkoutSortOption)) {
+    return false;
+  }
+
+  return true;
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Verifies that a workout belongs to the specified user.
+ * Soft-deleted workouts are treated as not found.
+ */
+export async function verifyWorkoutOwnership(
+  workoutId: string,
+  userId: string
+): Promise<typeof workouts.$inferSelect | null> {
+  const result = await db
+    .select()
+    .from(workouts)
+    .where(and(
+      eq(workouts.id, workoutId),
+      eq(workouts.userId, userId),
+      isNull(workouts.deletedAt)
+    ))
+    .limit(1);
+
+  return result.length > 0 ? result[0] : null;
+}
+
+function parseNumeric(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+/**
+ * Returns the UTC bounds of a YYYY-MM month, widened by a day on each side so
+ * that workouts near midnight are caught in any timezone. The caller filters
+ * the results by local date.
+ */
+function getMonthQueryRange(month: string): { start: Date; end: Date } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const monthStart = Date.UTC(year, monthIndex - 1, 1);
+  const monthEnd = Date.UTC(year, monthIndex, 1);
+  return {
+    start: new Date(monthStart - MS_PER_DAY),
+    end: new Date(monthEnd + MS_PER_DAY),
+  };
+}
+
+// ============ Main Service Functions ============
+
+/**
+ * Get paginated workout history for a user, newest first by default
+ */
+export async function getWorkouts(
+  userId: string,
+  query: WorkoutListQuery
+): Promise<WorkoutListResponse> {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  const order = query.order || 'desc';
+
+  const conditions: SQL[] = [
+    eq(workouts.userId, userId),
+    isNull(workouts.deletedAt)
+  ];
+
+  if (query.from) {
+    conditions.push(gte(workouts.date, new Date(query.from)));
+  }
+
+  if (query.to) {
+    conditions.push(lt(workouts.date, new Date(query.to)));
+  }
+
+  if (query.templateId) {
+    conditions.push(eq(workouts.templateId, query.templateId));
+  }
+
+  if (query.exerciseId) {
+    conditions.push(sql`EXISTS (
+      SELECT 1 FROM workout_exercises
+      WHERE workout_id = ${workouts.id} AND exercise_id = ${query.exerciseId}
+    )`);
+  }
+
+  if (query.cursor) {
+    const cursorData = decodeCursor(query.cursor);
+    if (cursorData && cursorData.sortField === 'date') {
+      conditions.push(buildCursorCondition(cursorData, order));
+    }
+  }
+
+  const sortFn = order === 'asc' ? asc : desc;
+
+  const results = await db
+    .select({
+      id: workouts.id,
+      clientId: workouts.clientId,
+      templateId: workouts.templateId,
+      date: workouts.date,
+      name: workouts.name,
+      durationSeconds: workouts.durationSeconds,
+      isCompleted: workouts.isCompleted,
+      startTime: workouts.startTime,
+      endTime: workouts.endTime,
+      totalVolumeLbs: workouts.totalVolumeLbs,
+      totalSets: workouts.totalSets,
+      totalReps: workouts.totalReps,
+      createdAt: workouts.createdAt,
+      updatedAt: workouts.updatedAt,
+      exerciseCount: sql<number>`(
+        SELECT COUNT(*)::int FROM workout_exercises
+        WHERE workout_id = ${workouts.id}
+      )`.as('exercise_count')
+    })
+    .from(workouts)
+    .where(and(...conditions))
+    .orderBy(sortFn(workouts.date), asc(workouts.id))
+    .limit(limit + 1);
+
+  const hasMore = results.length > limit;
+  const workoutList = hasMore ? results.slice(0, limit) : results;
+
+  let nextCursor: string | null = null;
+  if (hasMore && workoutList.length > 0) {
+    const lastWorkout = workoutList[workoutList.length - 1];
+    nextCursor = encodeCursor({
+      id: lastWorkout.id,
+      sortValue: lastWorkout.date.toISOString(),
+      sortField: 'date'
+    });
+  }
+
+  const items: WorkoutListItem[] = workoutList.map((w) => ({
+    id: w.id,
+    clientId: w.clientId,
+    templateId: w.templateId,
+    date: w.date.toISOString(),
+    name: w.name,
+    durationSeconds: w.durationSeconds,
+    isCompleted: w.isCompleted ?? false,
+    startTime: w.startTime?.toISOString() ?? null,
+    endTime: w.endTime?.toISOString() ?? null,
+    totalVolumeLbs: parseNumeric(w.totalVolumeLbs),
+    totalSets: w.totalSets,
+    totalReps: w.totalReps,
+    exerciseCount: w.exerciseCount,
+    createdAt: w.createdAt.toISOString(),
+    updatedAt: w.updatedAt.toISOString()
+  }));
+
+  return {
+    workouts: items,
+    pagination: {
+      nextCursor,
+      hasMore
+    }
+  };
+}
+
+/**
+ * Get a single workout with all exercises and sets
+ */
+export async function getWorkoutById(
+  workoutId: string,
+  userId: string
+): Promise<WorkoutDetail | null> {
+  const workout = await verifyWorkoutOwnership(workoutId, userId);
+  if (!workout) {
+    return null;
+  }
+
+  const exerciseRows = await db
+    .select()
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, workoutId))
+    .orderBy(asc(workoutExercises.orderIndex));
+
+  // Fetch all sets in one query instead of per exercise
+  const exerciseIds = exerciseRows.map(e => e.id);
+  const setRows = exerciseIds.length > 0
+    ? await db
+        .select()
+        .from(sets)
+        .where(inArray(sets.workoutExerciseId, exerciseIds))
+        .orderBy(asc(sets.setNumber))
+    : [];
+
+  const setsByExercise = new Map<string, typeof setRows>();
+  for (const set of setRows) {
+    const existing = setsByExercise.get(set.workoutExerciseId) || [];
+    existing.push(set);
+    setsByExercise.set(set.workoutExerciseId, existing);
+  }
+
+  const exerciseDetails: WorkoutExerciseDetail[] = exerciseRows.map((e) => ({
+    id: e.id,
+    clientId: e.clientId,
+    exerciseId: e.exerciseId,
+    exerciseName: e.exerciseName,
+    primaryMuscles: e.primaryMuscles,
+    orderIndex: e.orderIndex,
+    notes: e.notes,
+    sets: (setsByExercise.get(e.id) || []).map((s) => ({
+      id: s.id,
+      clientId: s.clientId,
+      setNumber: s.setNumber,
+      reps: s.reps,
+      weightLbs: parseFloat(s.weightLbs),
+      setType: s.setType,
+      loadType: s.loadType,
+      durationSeconds: s.durationSeconds,
+      distanceMeters: s.distanceMeters !== null ? parseFloat(s.distanceMeters) : null,
+      rpe: s.rpe,
+      notes: s.notes
+    }))
+  }));
+
+  return {
+    id: workout.id,
+    clientId: workout.clientId,
+    templateId: workout.templateId,
+    date: workout.date.toISOString(),
+    name: workout.name,
+    durationSeconds: workout.durationSeconds,
+    isCompleted: workout.isCompleted ?? false,
+    startTime: workout.startTime?.toISOString() ?? null,
+    endTime: workout.endTime?.toISOString() ?? null,
+    totalVolumeLbs: parseNumeric(workout.totalVolumeLbs),
+    totalSets: workout.totalSets,
+    totalReps: workout.totalReps,
+    notes: workout.notes,
+    exercises: exerciseDetails,
+    createdAt: workout.createdAt.toISOString(),
+    updatedAt: workout.updatedAt.toISOString()
+  };
+}
+
+/**
+ * Get per-day workout counts and volume for a month, bucketed by the
+ * user's local calendar day. Only days with at least one workout are returned.
+ */
+export async function getWorkoutCalendar(
+  userId: string,
+  month: string,
+  timezone: string | null
+): Promise<WorkoutCalendarResponse> {
+  const { start, end } = getMonthQueryRange(month);
+
+  // Range scan on workouts_user_date_idx
+  const rows = await db
+    .select({
+      date: workouts.date,
+      totalVolumeLbs: workouts.totalVolumeLbs,
+    })
+    .from(workouts)
+    .where(and(
+      eq(workouts.userId, userId),
+      isNull(workouts.deletedAt),
+      gte(workouts.date, start),
+      lt(workouts.date, end)
+    ));
+
+  const dayMap = new Map<string, WorkoutCalendarDay>();
+  for (const row of rows) {
+    const dateKey = toLocalDateKey(row.date, timezone);
+    if (!dateKey.startsWith(`${month}-`)) continue;
+
+    const day = dayMap.get(dateKey) || { date: dateKey, workoutCount: 0, totalVolumeLbs: 0 };
+    day.workoutCount++;
+    day.totalVolumeLbs += parseFloat(row.totalVolumeLbs || '0');
+    dayMap.set(dateKey, day);
+  }
+
+  const days = [...dayMap.values()]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(d => ({ ...d, totalVolumeLbs: Math.round(d.totalVolumeLbs * 100) / 100 }));
+
+  return {
+    month,
+    timezone: timezone || 'UTC',
+    days
+  };
+}
+
+// ============ Sorting Helpers ============
+
+function buildCursorCondition(
+  cursor: WorkoutCursorData,
+  order: 'asc' | 'desc'
+): SQL {
+  const { id, sortValue } = cursor;
+
+  if (order === 'asc') {
+    return sql`(${workouts.date} > ${sortValue}::timestamp OR (${workouts.date} = ${sortValue}::timestamp AND ${workouts.id} > ${id}))`;
+  }
+  return sql`(${workouts.date} < ${sortValue}::timestamp OR (${workouts.date} = ${sortValue}::timestamp AND ${workouts.id} > ${id}))`;
+}
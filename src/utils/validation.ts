@@ -2,6 +2,8 @@
  * Validation utilities for request input
  */
 
+import { VALID_GOALS, VALID_EQUIPMENT } from '../config/ai';
+
 // Valid difficulty levels
 export const VALID_DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
 export type DifficultyLevel = typeof VALID_DIFFICULTY_LEVELS[number];
@@ -14,6 +16,22 @@ export type MovementPattern = typeof VALID_MOVEMENT_PATTERNS[number];
 export const VALID_EXERCISE_TYPES = ['compound', 'isolation', 'cardio', 'plyometric', 'stretch'] as const;
 export type ExerciseType = typeof VALID_EXERCISE_TYPES[number];
 
+// Valid muscle groups (mirrors the muscle_group enum)
+export const VALID_MUSCLE_GROUPS = [
+  'chest', 'back', 'shoulders', 'biceps', 'triceps',
+  'quads', 'hamstrings', 'glutes', 'calves', 'abs',
+  'forearms', 'traps', 'lats'
+] as const;
+export type MuscleGroup = typeof VALID_MUSCLE_GROUPS[number];
+
+// Valid set types: warmups are excluded from volume, every other type counts as a working set
+export const VALID_SET_TYPES = ['warmup', 'working', 'drop', 'rest_pause', 'amrap', 'failure'] as const;
+export type SetType = typeof VALID_SET_TYPES[number];
+
+// Valid load types: how a set's weight relates to the load moved
+export const VALID_LOAD_TYPES = ['external', 'bodyweight', 'bodyweight_plus', 'assisted'] as const;
+export type LoadType = typeof VALID_LOAD_TYPES[number];
+
 // Valid genders for user profile
 export const VALID_GENDERS = ['male', 'female', 'other', 'prefer_not_to_say'] as const;
 export type Gender = typeof VALID_GENDERS[number];
@@ -22,6 +40,10 @@ export type Gender = typeof VALID_GENDERS[number];
 export const VALID_UNIT_PREFERENCES = ['metric', 'imperial'] as const;
 export type UnitPreference = typeof VALID_UNIT_PREFERENCES[number];
 
+// Valid privacy levels (who sees a user's activity feed events)
+export const VALID_PRIVACY_LEVELS = ['private', 'friends', 'public'] as const;
+export type PrivacyLevel = typeof VALID_PRIVACY_LEVELS[number];
+
 /**
  * Validation result interface
  */
@@ -104,10 +126,27 @@ export function validateUserProfileUpdate(data: unknown): ValidationResult {
       if (typeof v !== 'boolean') return { valid: false, error: 'isPublicProfile must be a boolean' };
       return { valid: true, sanitized: v };
     },
+    activityPrivacy: (v) => {
+      if (v === undefined) return { valid: true };
+      if (typeof v !== 'string') return { valid: false, error: 'activityPrivacy must be a string' };
+      if (!VALID_PRIVACY_LEVELS.includes(v as PrivacyLevel)) {
+        return { valid: false, error: `activityPrivacy must be one of: ${VALID_PRIVACY_LEVELS.join(', ')}` };
+      }
+      return { valid: true, sanitized: v };
+    },
     notificationsEnabled: (v) => {
       if (v === undefined) return { valid: true };
       if (typeof v !== 'boolean') return { valid: false, error: 'notificationsEnabled must be a boolean' };
       return { valid: true, sanitized: v };
+    },
+    timezone: (v) => {
+      if (v === undefined) return { valid: true };
+      if (typeof v !== 'string') return { valid: false, error: 'timezone must be a string' };
+      const trimmed = v.trim();
+      if (trimmed.length > 64 || !isValidTimezone(trimmed)) {
+        return { valid: false, error: 'timezone must be a valid IANA time zone (e.g. America/New_York)' };
+      }
+      return { valid: true, sanitized: trimmed };
     }
   };
 
@@ -151,6 +190,7 @@ export interface ExerciseQueryValidationResult extends ValidationResult {
     movementPattern?: MovementPattern | MovementPattern[];
     exerciseType?: ExerciseType | ExerciseType[];
     search?: string;
+    includeCustom?: boolean;
     sort?: 'name' | 'popularity' | 'recently_used' | 'difficulty';
     order?: 'asc' | 'desc';
   };
@@ -306,6 +346,15 @@ export function validateExerciseListQuery(query: Record<string, unknown>): Exerc
     }
   }
 
+  // Include the caller's custom exercises
+  if (query.includeCustom !== undefined) {
+    if (query.includeCustom !== 'true' && query.includeCustom !== 'false') {
+      errors.push('includeCustom must be "true" or "false"');
+    } else {
+      sanitized.includeCustom = query.includeCustom === 'true';
+    }
+  }
+
   // Sort validation
   const VALID_SORTS = ['name', 'popularity', 'recently_used', 'difficulty'] as const;
   if (query.sort !== undefined) {
@@ -373,214 +422,362 @@ export function validateCursorData(data: unknown): data is CursorData {
   return true;
 }
 
-// ============ Sync Payload Validation ============
+/**
+ * Exercise alternatives query validation result
+ */
+export interface ExerciseAlternativesQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    equipment?: string[];
+    limit?: number;
+  };
+}
 
 /**
- * Sync payload size limits to prevent DoS attacks
+ * Validates exercise alternatives query parameters. Equipment accepts a
+ * repeated or comma-separated list of client equipment values.
  */
-export const SYNC_LIMITS = {
-  MAX_WORKOUTS_PER_SYNC: 100,
-  MAX_EXERCISES_PER_WORKOUT: 50,
-  MAX_SETS_PER_EXERCISE: 20,
-  MAX_EXERCISE_NAME_LENGTH: 100,
-  MAX_WORKOUT_NAME_LENGTH: 100,
-  MAX_WEIGHT_LBS: 10000,
-  MAX_REPS: 10000,
-} as const;
+export function validateExerciseAlternativesQuery(
+  query: Record<string, unknown>
+): ExerciseAlternativesQueryValidationResult {
+  const errors: string[] = [];
+  const sanitized: ExerciseAlternativesQueryValidationResult['sanitized'] = {};
+
+  if (query.equipment !== undefined) {
+    const raw = Array.isArray(query.equipment) ? query.equipment : [query.equipment];
+    if (raw.some(e => typeof e !== 'string')) {
+      errors.push('equipment values must be strings');
+    } else {
+      const values = (raw as string[]).flatMap(e => e.split(',')).map(e => e.trim()).filter(e => e.length > 0);
+      const invalid = values.filter(e => !(VALID_EQUIPMENT as readonly string[]).includes(e));
+      if (invalid.length > 0) {
+        errors.push(`Invalid equipment: ${invalid.join(', ')}. Valid options: ${VALID_EQUIPMENT.join(', ')}`);
+      } else if (values.length > 0) {
+        sanitized.equipment = [...new Set(values)];
+      }
+    }
+  }
+
+  if (query.limit !== undefined) {
+    const limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit) || limit < 1 || limit > EXERCISE_LIMITS.MAX_ALTERNATIVES) {
+      errors.push(`limit must be an integer between 1 and ${EXERCISE_LIMITS.MAX_ALTERNATIVES}`);
+    } else {
+      sanitized.limit = limit;
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
+}
+
+const VALID_HISTORY_BUCKETS = ['session', 'week', 'month'] as const;
 
 /**
- * Sync payload validation result
+ * Exercise history query validation result
  */
-export interface SyncPayloadValidationResult {
-  valid: boolean;
-  errors: string[];
+export interface ExerciseHistoryQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    from?: string;
+    to?: string;
+    bucket?: typeof VALID_HISTORY_BUCKETS[number];
+  };
 }
 
 /**
- * Validates sync payload size and basic structure to prevent DoS attacks
- * Does not validate all fields - just ensures payload is within safe limits
+ * Validates exercise history query parameters. from/to accept the same
+ * formats as the workout list.
  */
-export function validateSyncPayload(payload: unknown): SyncPayloadValidationResult {
+export function validateExerciseHistoryQuery(query: Record<string, unknown>): ExerciseHistoryQueryValidationResult {
   const errors: string[] = [];
+  const sanitized: ExerciseHistoryQueryValidationResult['sanitized'] = {};
 
-  if (typeof payload !== 'object' || payload === null) {
-    return { valid: false, errors: ['Sync payload must be an object'] };
+  for (const bound of ['from', 'to'] as const) {
+    const value = query[bound];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      errors.push(`${bound} must be a string`);
+      continue;
+    }
+    const parsed = parseDateBound(value, bound);
+    if (!parsed) {
+      errors.push(`${bound} must be an ISO date (YYYY-MM-DD) or timestamp`);
+    } else {
+      sanitized[bound] = parsed;
+    }
   }
 
-  const data = payload as Record<string, unknown>;
-
-  // Validate deviceId
-  if (!data.deviceId || typeof data.deviceId !== 'string') {
-    errors.push('deviceId is required and must be a string');
-  } else if (data.deviceId.length > 100) {
-    errors.push('deviceId cannot exceed 100 characters');
+  if (sanitized.from && sanitized.to && sanitized.from >= sanitized.to) {
+    errors.push('from must be before to');
   }
 
-  // Validate workouts array
-  if (!Array.isArray(data.workouts)) {
-    errors.push('workouts must be an array');
-    return { valid: false, errors };
+  if (query.bucket !== undefined) {
+    if (!VALID_HISTORY_BUCKETS.includes(query.bucket as typeof VALID_HISTORY_BUCKETS[number])) {
+      errors.push(`bucket must be one of: ${VALID_HISTORY_BUCKETS.join(', ')}`);
+    } else {
+      sanitized.bucket = query.bucket as typeof VALID_HISTORY_BUCKETS[number];
+    }
   }
 
-  // Check workout count limit
-  if (data.workouts.length > SYNC_LIMITS.MAX_WORKOUTS_PER_SYNC) {
-    errors.push(`Too many workouts: ${data.workouts.length}. Maximum allowed: ${SYNC_LIMITS.MAX_WORKOUTS_PER_SYNC}`);
-    return { valid: false, errors };
-  }
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
+}
 
-  // Validate each workout
-  for (let i = 0; i < data.workouts.length; i++) {
-    const workout = data.workouts[i] as Record<string, unknown>;
+// ============ Custom Exercise Validation ============
 
-    if (typeof workout !== 'object' || workout === null) {
-      errors.push(`workouts[${i}] must be an object`);
-      continue;
-    }
+/**
+ * Custom exercise size limits
+ */
+export const EXERCISE_LIMITS = {
+  MAX_NAME_LENGTH: 100,
+  MAX_EQUIPMENT_LENGTH: 50,
+  MAX_MUSCLES: VALID_MUSCLE_GROUPS.length,
+  MAX_ALTERNATIVES: 50,
+  MIN_ALIAS_LENGTH: 2,
+} as const;
 
-    // Validate clientId
-    if (!workout.clientId || typeof workout.clientId !== 'string') {
-      errors.push(`workouts[${i}].clientId is required and must be a string`);
-    }
+/**
+ * Custom exercise validation result
+ */
+export interface CustomExerciseValidationResult extends ValidationResult {
+  sanitized?: {
+    name?: string;
+    primaryMuscles?: MuscleGroup[];
+    secondaryMuscles?: MuscleGroup[];
+    equipment?: string | null;
+    movementPattern?: MovementPattern | null;
+    exerciseType?: ExerciseType | null;
+  };
+}
 
-    // Validate workout name length
-    if (workout.name && typeof workout.name === 'string' && workout.name.length > SYNC_LIMITS.MAX_WORKOUT_NAME_LENGTH) {
-      errors.push(`workouts[${i}].name cannot exceed ${SYNC_LIMITS.MAX_WORKOUT_NAME_LENGTH} characters`);
-    }
+const CUSTOM_EXERCISE_FIELDS = [
+  'name', 'primaryMuscles', 'secondaryMuscles', 'equipment', 'movementPattern', 'exerciseType'
+];
 
-    // Validate exercises array
-    if (!Array.isArray(workout.exercises)) {
-      errors.push(`workouts[${i}].exercises must be an array`);
-      continue;
-    }
+/**
+ * Validates create custom exercise input
+ */
+export function validateCreateCustomExercise(data: unknown): CustomExerciseValidationResult {
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
 
-    // Check exercises count limit
-    if (workout.exercises.length > SYNC_LIMITS.MAX_EXERCISES_PER_WORKOUT) {
-      errors.push(`workouts[${i}] has too many exercises: ${workout.exercises.length}. Maximum: ${SYNC_LIMITS.MAX_EXERCISES_PER_WORKOUT}`);
-      continue;
-    }
+  const input = data as Record<string, unknown>;
+  const errors: string[] = [];
 
-    // Validate each exercise
-    for (let j = 0; j < workout.exercises.length; j++) {
-      const exercise = workout.exercises[j] as Record<string, unknown>;
+  if (input.name === undefined) {
+    errors.push('name is required');
+  }
+  if (input.primaryMuscles === undefined) {
+    errors.push('primaryMuscles is required');
+  }
 
-      if (typeof exercise !== 'object' || exercise === null) {
-        errors.push(`workouts[${i}].exercises[${j}] must be an object`);
-        continue;
-      }
+  const result = validateCustomExerciseFields(input, false);
+  errors.push(...result.errors);
 
-      // Validate exercise clientId
-      if (!exercise.clientId || typeof exercise.clientId !== 'string') {
-        errors.push(`workouts[${i}].exercises[${j}].clientId is required and must be a string`);
-      }
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
 
-      // Validate exercise name
-      if (!exercise.exerciseName || typeof exercise.exerciseName !== 'string') {
-        errors.push(`workouts[${i}].exercises[${j}].exerciseName is required`);
-      } else if (exercise.exerciseName.length > SYNC_LIMITS.MAX_EXERCISE_NAME_LENGTH) {
-        errors.push(`workouts[${i}].exercises[${j}].exerciseName cannot exceed ${SYNC_LIMITS.MAX_EXERCISE_NAME_LENGTH} characters`);
-      }
+  return { valid: true, errors: [], sanitized: result.sanitized };
+}
 
-      // Validate sets array
-      if (!Array.isArray(exercise.sets)) {
-        errors.push(`workouts[${i}].exercises[${j}].sets must be an array`);
-        continue;
-      }
+/**
+ * Validates update custom exercise input
+ */
+export function validateUpdateCustomExercise(data: unknown): CustomExerciseValidationResult {
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
 
-      // Check sets count limit
-      if (exercise.sets.length > SYNC_LIMITS.MAX_SETS_PER_EXERCISE) {
-        errors.push(`workouts[${i}].exercises[${j}] has too many sets: ${exercise.sets.length}. Maximum: ${SYNC_LIMITS.MAX_SETS_PER_EXERCISE}`);
-        continue;
-      }
+  const result = validateCustomExerciseFields(data as Record<string, unknown>, true);
+  if (result.errors.length > 0) {
+    return { valid: false, errors: result.errors };
+  }
 
-      // Validate each set
-      for (let k = 0; k < exercise.sets.length; k++) {
-        const set = exercise.sets[k] as Record<string, unknown>;
+  if (Object.keys(result.sanitized).length === 0) {
+    return { valid: false, errors: ['No valid fields to update'] };
+  }
 
-        if (typeof set !== 'object' || set === null) {
-          errors.push(`workouts[${i}].exercises[${j}].sets[${k}] must be an object`);
-          continue;
-        }
+  return { valid: true, errors: [], sanitized: result.sanitized };
+}
 
-        // Validate set clientId
-        if (!set.clientId || typeof set.clientId !== 'string') {
-          errors.push(`workouts[${i}].exercises[${j}].sets[${k}].clientId is required and must be a string`);
-        }
+/**
+ * Validates the fields shared by custom exercise create and update. Optional
+ * fields may be cleared with null only on update.
+ */
+function validateCustomExerciseFields(
+  input: Record<string, unknown>,
+  allowNull: boolean
+): { errors: string[]; sanitized: NonNullable<CustomExerciseValidationResult['sanitized']> } {
+  const errors: string[] = [];
+  const sanitized: NonNullable<CustomExerciseValidationResult['sanitized']> = {};
 
-        // Validate weight is required and within bounds
-        if (typeof set.weight !== 'number' || isNaN(set.weight as number)) {
-          errors.push(`workouts[${i}].exercises[${j}].sets[${k}].weight is required and must be a number`);
-        } else if (set.weight < 0 || set.weight > SYNC_LIMITS.MAX_WEIGHT_LBS) {
-          errors.push(`workouts[${i}].exercises[${j}].sets[${k}].weight must be between 0 and ${SYNC_LIMITS.MAX_WEIGHT_LBS}`);
-        }
+  // Check for unknown fields
+  const unknownFields = Object.keys(input).filter(f => !CUSTOM_EXERCISE_FIELDS.includes(f));
+  if (unknownFields.length > 0) {
+    errors.push(`Unknown fields: ${unknownFields.join(', ')}. Allowed fields: ${CUSTOM_EXERCISE_FIELDS.join(', ')}`);
+  }
 
-        // Validate reps is required and within bounds
-        if (typeof set.reps !== 'number' || isNaN(set.reps as number)) {
-          errors.push(`workouts[${i}].exercises[${j}].sets[${k}].reps is required and must be a number`);
-        } else if (set.reps < 0 || set.reps > SYNC_LIMITS.MAX_REPS) {
-          errors.push(`workouts[${i}].exercises[${j}].sets[${k}].reps must be between 0 and ${SYNC_LIMITS.MAX_REPS}`);
-        }
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string') {
+      errors.push('name must be a string');
+    } else {
+      const trimmed = input.name.trim().replace(/\s+/g, ' ');
+      if (trimmed.length === 0) {
+        errors.push('name cannot be empty');
+      } else if (trimmed.length > EXERCISE_LIMITS.MAX_NAME_LENGTH) {
+        errors.push(`name cannot exceed ${EXERCISE_LIMITS.MAX_NAME_LENGTH} characters`);
+      } else {
+        sanitized.name = trimmed;
       }
     }
+  }
 
-    // Stop early if too many errors
-    if (errors.length > 20) {
-      errors.push('Too many validation errors. Stopping validation.');
-      break;
+  if (input.primaryMuscles !== undefined) {
+    const muscles = validateMuscleList(input.primaryMuscles, 'primaryMuscles', errors);
+    if (muscles && muscles.length === 0) {
+      errors.push('primaryMuscles must contain at least one muscle group');
+    } else if (muscles) {
+      sanitized.primaryMuscles = muscles;
     }
   }
 
-  return {
-    valid: errors.length === 0,
-    errors
-  };
+  if (input.secondaryMuscles !== undefined) {
+    const muscles = validateMuscleList(input.secondaryMuscles, 'secondaryMuscles', errors);
+    if (muscles) {
+      sanitized.secondaryMuscles = muscles;
+    }
+  }
+
+  if (input.equipment !== undefined) {
+    if (input.equipment === null && allowNull) {
+      sanitized.equipment = null;
+    } else if (typeof input.equipment !== 'string' || input.equipment.trim().length === 0) {
+      errors.push('equipment must be a non-empty string');
+    } else if (input.equipment.trim().length > EXERCISE_LIMITS.MAX_EQUIPMENT_LENGTH) {
+      errors.push(`equipment cannot exceed ${EXERCISE_LIMITS.MAX_EQUIPMENT_LENGTH} characters`);
+    } else {
+      sanitized.equipment = input.equipment.trim().toLowerCase();
+    }
+  }
+
+  if (input.movementPattern !== undefined) {
+    if (input.movementPattern === null && allowNull) {
+      sanitized.movementPattern = null;
+    } else if (!VALID_MOVEMENT_PATTERNS.includes(input.movementPattern as MovementPattern)) {
+      errors.push(`movementPattern must be one of: ${VALID_MOVEMENT_PATTERNS.join(', ')}`);
+    } else {
+      sanitized.movementPattern = input.movementPattern as MovementPattern;
+    }
+  }
+
+  if (input.exerciseType !== undefined) {
+    if (input.exerciseType === null && allowNull) {
+      sanitized.exerciseType = null;
+    } else if (!VALID_EXERCISE_TYPES.includes(input.exerciseType as ExerciseType)) {
+      errors.push(`exerciseType must be one of: ${VALID_EXERCISE_TYPES.join(', ')}`);
+    } else {
+      sanitized.exerciseType = input.exerciseType as ExerciseType;
+    }
+  }
+
+  return { errors, sanitized };
 }
 
-// ============ Template Validation ============
+/**
+ * Validates a muscle group array, returning the de-duplicated list or
+ * undefined after recording an error
+ */
+function validateMuscleList(value: unknown, field: string, errors: string[]): MuscleGroup[] | undefined {
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array`);
+    return undefined;
+  }
+  if (value.length > EXERCISE_LIMITS.MAX_MUSCLES) {
+    errors.push(`${field} cannot contain more than ${EXERCISE_LIMITS.MAX_MUSCLES} items`);
+    return undefined;
+  }
+
+  const invalid = value.filter(m => !VALID_MUSCLE_GROUPS.includes(m as MuscleGroup));
+  if (invalid.length > 0) {
+    errors.push(`${field} contains invalid muscle groups. Valid options: ${VALID_MUSCLE_GROUPS.join(', ')}`);
+    return undefined;
+  }
+
+  return [...new Set(value as MuscleGroup[])];
+}
+
+// ============ Exercise Alias Validation ============
+
+const VALID_ALIAS_PROPOSAL_STATUSES = ['pending', 'approved', 'rejected'] as const;
+const VALID_ALIAS_PROPOSAL_SOURCES = ['user', 'sync'] as const;
 
 /**
- * Template size limits
+ * Normalizes an alias the way exercise_aliases stores it: trimmed, single
+ * spaced and lowercase
  */
-export const TEMPLATE_LIMITS = {
-  MAX_NAME_LENGTH: 200,
-  MAX_DESCRIPTION_LENGTH: 1000,
-  MAX_EXERCISES_PER_TEMPLATE: 30,
-  MAX_WORKING_SETS: 20,
-  MAX_WARMUP_SETS: 10,
-  MAX_REST_SECONDS: 600,
-  MAX_NOTES_LENGTH: 500,
-  MAX_TARGET_REPS_LENGTH: 20,
-} as const;
+export function normalizeAlias(alias: string): string {
+  return alias.trim().replace(/\s+/g, ' ').toLowerCase();
+}
 
-// UUID validation regex
-const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+/**
+ * Propose alias validation result
+ */
+export interface ProposeAliasValidationResult extends ValidationResult {
+  sanitized?: {
+    alias: string;
+  };
+}
 
 /**
- * Validates UUID format
+ * Validates propose alias input
  */
-export function isValidUuid(id: string): boolean {
-  return UUID_REGEX.test(id);
+export function validateProposeAlias(data: unknown): ProposeAliasValidationResult {
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+  if (typeof input.alias !== 'string') {
+    return { valid: false, errors: ['alias is required and must be a string'] };
+  }
+
+  const alias = normalizeAlias(input.alias);
+  if (alias.length < EXERCISE_LIMITS.MIN_ALIAS_LENGTH) {
+    return { valid: false, errors: [`alias must be at least ${EXERCISE_LIMITS.MIN_ALIAS_LENGTH} characters`] };
+  }
+  if (alias.length > EXERCISE_LIMITS.MAX_NAME_LENGTH) {
+    return { valid: false, errors: [`alias cannot exceed ${EXERCISE_LIMITS.MAX_NAME_LENGTH} characters`] };
+  }
+
+  return { valid: true, errors: [], sanitized: { alias } };
 }
 
 /**
- * Template list query validation result
+ * Alias proposal queue query validation result
  */
-export interface TemplateQueryValidationResult extends ValidationResult {
+export interface AliasProposalListQueryValidationResult extends ValidationResult {
   sanitized?: {
     cursor?: string;
     limit?: number;
-    sort?: 'name' | 'createdAt' | 'updatedAt';
-    order?: 'asc' | 'desc';
+    status?: 'pending' | 'approved' | 'rejected';
+    source?: 'user' | 'sync';
   };
 }
 
 /**
- * Validates template list query parameters
+ * Validates alias proposal queue query parameters
  */
-export function validateTemplateListQuery(query: Record<string, unknown>): TemplateQueryValidationResult {
+export function validateAliasProposalListQuery(query: Record<string, unknown>): AliasProposalListQueryValidationResult {
   const errors: string[] = [];
-  const sanitized: TemplateQueryValidationResult['sanitized'] = {};
+  const sanitized: AliasProposalListQueryValidationResult['sanitized'] = {};
 
-  // Cursor validation
   if (query.cursor !== undefined) {
     if (typeof query.cursor !== 'string') {
       errors.push('cursor must be a string');
@@ -589,10 +786,8 @@ export function validateTemplateListQuery(query: Record<string, unknown>): Templ
     }
   }
 
-  // Limit validation with bounds checking
   if (query.limit !== undefined) {
-    const limitStr = String(query.limit);
-    const limit = parseInt(limitStr, 10);
+    const limit = parseInt(String(query.limit), 10);
     if (isNaN(limit)) {
       errors.push('limit must be a valid integer');
     } else if (limit < 1) {
@@ -604,26 +799,19 @@ export function validateTemplateListQuery(query: Record<string, unknown>): Templ
     }
   }
 
-  // Sort validation
-  const VALID_TEMPLATE_SORTS = ['name', 'createdAt', 'updatedAt'] as const;
-  if (query.sort !== undefined) {
-    if (typeof query.sort !== 'string') {
-      errors.push('sort must be a string');
-    } else if (!VALID_TEMPLATE_SORTS.includes(query.sort as typeof VALID_TEMPLATE_SORTS[number])) {
-      errors.push(`Invalid sort option: "${query.sort}". Valid options: ${VALID_TEMPLATE_SORTS.join(', ')}`);
+  if (query.status !== undefined) {
+    if (!VALID_ALIAS_PROPOSAL_STATUSES.includes(query.status as typeof VALID_ALIAS_PROPOSAL_STATUSES[number])) {
+      errors.push(`status must be one of: ${VALID_ALIAS_PROPOSAL_STATUSES.join(', ')}`);
     } else {
-      sanitized.sort = query.sort as typeof VALID_TEMPLATE_SORTS[number];
+      sanitized.status = query.status as typeof VALID_ALIAS_PROPOSAL_STATUSES[number];
     }
   }
 
-  // Order validation
-  if (query.order !== undefined) {
-    if (typeof query.order !== 'string') {
-      errors.push('order must be a string');
-    } else if (!['asc', 'desc'].includes(query.order)) {
-      errors.push('order must be "asc" or "desc"');
+  if (query.source !== undefined) {
+    if (!VALID_ALIAS_PROPOSAL_SOURCES.includes(query.source as typeof VALID_ALIAS_PROPOSAL_SOURCES[number])) {
+      errors.push(`source must be one of: ${VALID_ALIAS_PROPOSAL_SOURCES.join(', ')}`);
     } else {
-      sanitized.order = query.order as 'asc' | 'desc';
+      sanitized.source = query.source as typeof VALID_ALIAS_PROPOSAL_SOURCES[number];
     }
   }
 
@@ -634,276 +822,478 @@ export function validateTemplateListQuery(query: Record<string, unknown>): Templ
   };
 }
 
+// ============ Exercise Merge Validation ============
+
 /**
- * Create template validation result
+ * Duplicate candidate query validation result
  */
-export interface CreateTemplateValidationResult extends ValidationResult {
+export interface DuplicateCandidateQueryValidationResult extends ValidationResult {
   sanitized?: {
-    name: string;
-    description?: string;
-    exercises: Array<{
-      exerciseId: string;
-      orderIndex: number;
-      workingSets: number;
-      warmupSets?: number;
-      targetReps?: string;
-      restSeconds?: number;
-      notes?: string;
-    }>;
+    limit?: number;
+    minSimilarity?: number;
   };
 }
 
 /**
- * Validates create template input
+ * Validates duplicate candidate query parameters
  */
-export function validateCreateTemplate(data: unknown): CreateTemplateValidationResult {
+export function validateDuplicateCandidateQuery(query: Record<string, unknown>): DuplicateCandidateQueryValidationResult {
   const errors: string[] = [];
+  const sanitized: DuplicateCandidateQueryValidationResult['sanitized'] = {};
+
+  if (query.limit !== undefined) {
+    const limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 100) {
+      errors.push('limit cannot exceed 100');
+    } else {
+      sanitized.limit = limit;
+    }
+  }
+
+  if (query.minSimilarity !== undefined) {
+    const minSimilarity = Number(query.minSimilarity);
+    if (String(query.minSimilarity).trim() === '' || isNaN(minSimilarity)) {
+      errors.push('minSimilarity must be a number');
+    } else if (minSimilarity <= 0 || minSimilarity > 1) {
+      errors.push('minSimilarity must be greater than 0 and at most 1');
+    } else {
+      sanitized.minSimilarity = minSimilarity;
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
+}
+
+/**
+ * Merge exercises validation result
+ */
+export interface MergeExercisesValidationResult extends ValidationResult {
+  sanitized?: {
+    targetExerciseId: string;
+  };
+}
 
+/**
+ * Validates merge input for merging sourceExerciseId into another exercise
+ */
+export function validateMergeExercises(data: unknown, sourceExerciseId: string): MergeExercisesValidationResult {
   if (typeof data !== 'object' || data === null) {
     return { valid: false, errors: ['Request body must be an object'] };
   }
 
   const input = data as Record<string, unknown>;
-
-  // Validate name (required)
-  if (!input.name || typeof input.name !== 'string') {
-    errors.push('name is required and must be a string');
-  } else {
-    const trimmed = input.name.trim();
-    if (trimmed.length === 0) {
-      errors.push('name cannot be empty');
-    } else if (trimmed.length > TEMPLATE_LIMITS.MAX_NAME_LENGTH) {
-      errors.push(`name cannot exceed ${TEMPLATE_LIMITS.MAX_NAME_LENGTH} characters`);
-    }
+  if (typeof input.targetExerciseId !== 'string' || !isValidUuid(input.targetExerciseId)) {
+    return { valid: false, errors: ['targetExerciseId is required and must be a valid UUID'] };
   }
 
-  // Validate description (optional)
-  if (input.description !== undefined && input.description !== null) {
-    if (typeof input.description !== 'string') {
-      errors.push('description must be a string');
-    } else if (input.description.length > TEMPLATE_LIMITS.MAX_DESCRIPTION_LENGTH) {
-      errors.push(`description cannot exceed ${TEMPLATE_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
-    }
+  if (input.targetExerciseId.toLowerCase() === sourceExerciseId.toLowerCase()) {
+    return { valid: false, errors: ['Cannot merge an exercise into itself'] };
   }
 
-  // Validate exercises array (required)
-  if (!Array.isArray(input.exercises)) {
-    errors.push('exercises must be an array');
-    return { valid: false, errors };
+  return { valid: true, errors: [], sanitized: { targetExerciseId: input.targetExerciseId } };
+}
+
+// ============ Sync Payload Validation ============
+
+/**
+ * Sync payload size limits to prevent DoS attacks
+ */
+export const SYNC_LIMITS = {
+  MAX_WORKOUTS_PER_SYNC: 100,
+  MAX_DELETED_WORKOUTS_PER_SYNC: 100,
+  MAX_EXERCISES_PER_WORKOUT: 50,
+  MAX_SETS_PER_EXERCISE: 20,
+  MAX_EXERCISE_NAME_LENGTH: 100,
+  MAX_WORKOUT_NAME_LENGTH: 100,
+  MAX_WEIGHT_LBS: 10000,
+  MAX_REPS: 10000,
+  MAX_NOTES_LENGTH: 1000,
+  MIN_RPE: 1,
+  MAX_RPE: 10,
+  MAX_SET_DURATION_SECONDS: 86400,
+  MAX_SET_DISTANCE_METERS: 1000000,
+} as const;
+
+/**
+ * Sync payload validation result
+ */
+export interface SyncPayloadValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+/**
+ * Collects validation errors for a single workout in sync format, prefixing
+ * messages with `path` (e.g. `workouts[0]`)
+ */
+/**
+ * Notes are optional everywhere in a sync payload; null clears them
+ */
+function collectSyncNotesErrors(notes: unknown, path: string, errors: string[]): void {
+  if (notes === undefined || notes === null) return;
+  if (typeof notes !== 'string') {
+    errors.push(`${path}.notes must be a string or null`);
+  } else if (notes.length > SYNC_LIMITS.MAX_NOTES_LENGTH) {
+    errors.push(`${path}.notes cannot exceed ${SYNC_LIMITS.MAX_NOTES_LENGTH} characters`);
   }
+}
 
-  if (input.exercises.length === 0) {
-    errors.push('exercises array cannot be empty');
-  } else if (input.exercises.length > TEMPLATE_LIMITS.MAX_EXERCISES_PER_TEMPLATE) {
-    errors.push(`exercises array cannot exceed ${TEMPLATE_LIMITS.MAX_EXERCISES_PER_TEMPLATE} items`);
+function collectWorkoutSyncErrors(value: unknown, path: string, errors: string[]): void {
+  if (typeof value !== 'object' || value === null) {
+    errors.push(`${path} must be an object`);
+    return;
   }
+  const workout = value as Record<string, unknown>;
 
-  // Validate each exercise
-  const exerciseErrors = validateTemplateExercisesArray(input.exercises);
-  errors.push(...exerciseErrors);
+  // Validate clientId
+  if (!workout.clientId || typeof workout.clientId !== 'string') {
+    errors.push(`${path}.clientId is required and must be a string`);
+  }
 
-  if (errors.length > 0) {
-    return { valid: false, errors };
+  // Validate workout name length
+  if (workout.name && typeof workout.name === 'string' && workout.name.length > SYNC_LIMITS.MAX_WORKOUT_NAME_LENGTH) {
+    errors.push(`${path}.name cannot exceed ${SYNC_LIMITS.MAX_WORKOUT_NAME_LENGTH} characters`);
   }
 
-  // Build sanitized output
-  const sanitized: CreateTemplateValidationResult['sanitized'] = {
-    name: (input.name as string).trim(),
-    exercises: (input.exercises as Array<Record<string, unknown>>).map((e, i) => ({
-      exerciseId: e.exerciseId as string,
-      orderIndex: typeof e.orderIndex === 'number' ? e.orderIndex : i,
-      workingSets: e.workingSets as number,
-      warmupSets: typeof e.warmupSets === 'number' ? e.warmupSets : undefined,
-      targetReps: typeof e.targetReps === 'string' ? e.targetReps.trim() : undefined,
-      restSeconds: typeof e.restSeconds === 'number' ? e.restSeconds : undefined,
-      notes: typeof e.notes === 'string' ? e.notes.trim() : undefined,
-    }))
-  };
+  collectSyncNotesErrors(workout.notes, path, errors);
 
-  if (typeof input.description === 'string' && input.description.trim().length > 0) {
-    sanitized.description = input.description.trim();
+  // Validate template/program links (optional)
+  if (workout.templateId !== undefined && (typeof workout.templateId !== 'string' || !isValidUuid(workout.templateId))) {
+    errors.push(`${path}.templateId must be a valid UUID`);
+  }
+  if (workout.programId !== undefined && (typeof workout.programId !== 'string' || !isValidUuid(workout.programId))) {
+    errors.push(`${path}.programId must be a valid UUID`);
+  }
+  if (workout.dayNumber !== undefined) {
+    if (typeof workout.dayNumber !== 'number' || !Number.isInteger(workout.dayNumber) ||
+        workout.dayNumber < 0 || workout.dayNumber >= PROGRAM_LIMITS.MAX_DAYS_PER_WEEK) {
+      errors.push(`${path}.dayNumber must be an integer between 0 and ${PROGRAM_LIMITS.MAX_DAYS_PER_WEEK - 1}`);
+    } else if (workout.programId === undefined) {
+      errors.push(`${path}.dayNumber requires programId`);
+    }
   }
 
-  return { valid: true, errors: [], sanitized };
-}
+  // Validate exercises array
+  if (!Array.isArray(workout.exercises)) {
+    errors.push(`${path}.exercises must be an array`);
+    return;
+  }
 
-/**
- * Validates an array of template exercises
- */
-function validateTemplateExercisesArray(exercises: unknown[]): string[] {
-  const errors: string[] = [];
-  const seenOrderIndices = new Set<number>();
+  // Check exercises count limit
+  if (workout.exercises.length > SYNC_LIMITS.MAX_EXERCISES_PER_WORKOUT) {
+    errors.push(`${path} has too many exercises: ${workout.exercises.length}. Maximum: ${SYNC_LIMITS.MAX_EXERCISES_PER_WORKOUT}`);
+    return;
+  }
 
-  for (let i = 0; i < exercises.length; i++) {
-    const exercise = exercises[i] as Record<string, unknown>;
+  // Validate each exercise
+  for (let j = 0; j < workout.exercises.length; j++) {
+    const exercise = workout.exercises[j] as Record<string, unknown>;
 
     if (typeof exercise !== 'object' || exercise === null) {
-      errors.push(`exercises[${i}] must be an object`);
+      errors.push(`${path}.exercises[${j}] must be an object`);
       continue;
     }
 
-    // Validate exerciseId (required UUID)
-    if (!exercise.exerciseId || typeof exercise.exerciseId !== 'string') {
-      errors.push(`exercises[${i}].exerciseId is required and must be a string`);
-    } else if (!isValidUuid(exercise.exerciseId)) {
-      errors.push(`exercises[${i}].exerciseId must be a valid UUID`);
+    // Validate exercise clientId
+    if (!exercise.clientId || typeof exercise.clientId !== 'string') {
+      errors.push(`${path}.exercises[${j}].clientId is required and must be a string`);
     }
 
-    // Validate orderIndex (optional, defaults to array index)
-    // Use the final orderIndex value (explicit or defaulted) for duplicate detection
-    let finalOrderIndex: number = i; // Default to array index
-    if (exercise.orderIndex !== undefined) {
-      if (typeof exercise.orderIndex !== 'number' || !Number.isInteger(exercise.orderIndex)) {
-        errors.push(`exercises[${i}].orderIndex must be an integer`);
-      } else if (exercise.orderIndex < 0) {
-        errors.push(`exercises[${i}].orderIndex must be >= 0`);
-      } else {
-        finalOrderIndex = exercise.orderIndex;
-      }
+    // Validate exercise name
+    if (!exercise.exerciseName || typeof exercise.exerciseName !== 'string') {
+      errors.push(`${path}.exercises[${j}].exerciseName is required`);
+    } else if (exercise.exerciseName.length > SYNC_LIMITS.MAX_EXERCISE_NAME_LENGTH) {
+      errors.push(`${path}.exercises[${j}].exerciseName cannot exceed ${SYNC_LIMITS.MAX_EXERCISE_NAME_LENGTH} characters`);
     }
-    // Check for duplicate using the final value (explicit or defaulted)
-    if (seenOrderIndices.has(finalOrderIndex)) {
-      errors.push(`exercises[${i}].orderIndex ${finalOrderIndex} is duplicated`);
+
+    collectSyncNotesErrors(exercise.notes, `${path}.exercises[${j}]`, errors);
+
+    // Validate sets array
+    if (!Array.isArray(exercise.sets)) {
+      errors.push(`${path}.exercises[${j}].sets must be an array`);
+      continue;
     }
-    seenOrderIndices.add(finalOrderIndex);
 
-    // Validate workingSets (required)
-    if (exercise.workingSets === undefined || typeof exercise.workingSets !== 'number') {
-      errors.push(`exercises[${i}].workingSets is required and must be a number`);
-    } else if (!Number.isInteger(exercise.workingSets) || exercise.workingSets < 1) {
-      errors.push(`exercises[${i}].workingSets must be an integer >= 1`);
-    } else if (exercise.workingSets > TEMPLATE_LIMITS.MAX_WORKING_SETS) {
-      errors.push(`exercises[${i}].workingSets cannot exceed ${TEMPLATE_LIMITS.MAX_WORKING_SETS}`);
+    // Check sets count limit
+    if (exercise.sets.length > SYNC_LIMITS.MAX_SETS_PER_EXERCISE) {
+      errors.push(`${path}.exercises[${j}] has too many sets: ${exercise.sets.length}. Maximum: ${SYNC_LIMITS.MAX_SETS_PER_EXERCISE}`);
+      continue;
     }
 
-    // Validate warmupSets (optional)
-    if (exercise.warmupSets !== undefined) {
-      if (typeof exercise.warmupSets !== 'number' || !Number.isInteger(exercise.warmupSets)) {
-        errors.push(`exercises[${i}].warmupSets must be an integer`);
-      } else if (exercise.warmupSets < 0) {
-        errors.push(`exercises[${i}].warmupSets must be >= 0`);
-      } else if (exercise.warmupSets > TEMPLATE_LIMITS.MAX_WARMUP_SETS) {
-        errors.push(`exercises[${i}].warmupSets cannot exceed ${TEMPLATE_LIMITS.MAX_WARMUP_SETS}`);
+    // Validate each set
+    for (let k = 0; k < exercise.sets.length; k++) {
+      const set = exercise.sets[k] as Record<string, unknown>;
+
+      if (typeof set !== 'object' || set === null) {
+        errors.push(`${path}.exercises[${j}].sets[${k}] must be an object`);
+        continue;
       }
-    }
 
-    // Validate targetReps (optional)
-    if (exercise.targetReps !== undefined && exercise.targetReps !== null) {
-      if (typeof exercise.targetReps !== 'string') {
-        errors.push(`exercises[${i}].targetReps must be a string`);
-      } else if (exercise.targetReps.length > TEMPLATE_LIMITS.MAX_TARGET_REPS_LENGTH) {
-        errors.push(`exercises[${i}].targetReps cannot exceed ${TEMPLATE_LIMITS.MAX_TARGET_REPS_LENGTH} characters`);
+      // Validate set clientId
+      if (!set.clientId || typeof set.clientId !== 'string') {
+        errors.push(`${path}.exercises[${j}].sets[${k}].clientId is required and must be a string`);
       }
-    }
 
-    // Validate restSeconds (optional)
-    if (exercise.restSeconds !== undefined && exercise.restSeconds !== null) {
-      if (typeof exercise.restSeconds !== 'number' || !Number.isInteger(exercise.restSeconds)) {
-        errors.push(`exercises[${i}].restSeconds must be an integer`);
-      } else if (exercise.restSeconds < 0) {
-        errors.push(`exercises[${i}].restSeconds must be >= 0`);
-      } else if (exercise.restSeconds > TEMPLATE_LIMITS.MAX_REST_SECONDS) {
-        errors.push(`exercises[${i}].restSeconds cannot exceed ${TEMPLATE_LIMITS.MAX_REST_SECONDS}`);
+      // Validate weight is required and within bounds
+      if (typeof set.weight !== 'number' || isNaN(set.weight as number)) {
+        errors.push(`${path}.exercises[${j}].sets[${k}].weight is required and must be a number`);
+      } else if (set.weight < 0 || set.weight > SYNC_LIMITS.MAX_WEIGHT_LBS) {
+        errors.push(`${path}.exercises[${j}].sets[${k}].weight must be between 0 and ${SYNC_LIMITS.MAX_WEIGHT_LBS}`);
       }
-    }
 
-    // Validate notes (optional)
-    if (exercise.notes !== undefined && exercise.notes !== null) {
-      if (typeof exercise.notes !== 'string') {
-        errors.push(`exercises[${i}].notes must be a string`);
-      } else if (exercise.notes.length > TEMPLATE_LIMITS.MAX_NOTES_LENGTH) {
-        errors.push(`exercises[${i}].notes cannot exceed ${TEMPLATE_LIMITS.MAX_NOTES_LENGTH} characters`);
+      // Validate reps is required and within bounds
+      if (typeof set.reps !== 'number' || isNaN(set.reps as number)) {
+        errors.push(`${path}.exercises[${j}].sets[${k}].reps is required and must be a number`);
+      } else if (set.reps < 0 || set.reps > SYNC_LIMITS.MAX_REPS) {
+        errors.push(`${path}.exercises[${j}].sets[${k}].reps must be between 0 and ${SYNC_LIMITS.MAX_REPS}`);
       }
-    }
 
-    // Stop early if too many errors
-    if (errors.length > 20) {
-      errors.push('Too many validation errors. Stopping validation.');
-      break;
-    }
-  }
+      // Validate set type
+      if (typeof set.setType !== 'string' || !VALID_SET_TYPES.includes(set.setType as SetType)) {
+        errors.push(`${path}.exercises[${j}].sets[${k}].setType must be one of: ${VALID_SET_TYPES.join(', ')}`);
+      }
 
-  return errors;
-}
+      // Validate load type (optional; older clients only send external loads)
+      if (set.loadType !== undefined && !VALID_LOAD_TYPES.includes(set.loadType as LoadType)) {
+        errors.push(`${path}.exercises[${j}].sets[${k}].loadType must be one of: ${VALID_LOAD_TYPES.join(', ')}`);
+      }
 
-/**
- * Update template validation result
- */
-export interface UpdateTemplateValidationResult extends ValidationResult {
-  sanitized?: {
-    name?: string;
-    description?: string;
-  };
+      // Validate timed and distance measurements (optional; null clears them)
+      if (set.durationSeconds !== undefined && set.durationSeconds !== null) {
+        if (typeof set.durationSeconds !== 'number' || !Number.isInteger(set.durationSeconds) ||
+            set.durationSeconds < 0 || set.durationSeconds > SYNC_LIMITS.MAX_SET_DURATION_SECONDS) {
+          errors.push(`${path}.exercises[${j}].sets[${k}].durationSeconds must be an integer between 0 and ${SYNC_LIMITS.MAX_SET_DURATION_SECONDS}`);
+        }
+      }
+      if (set.distanceMeters !== undefined && set.distanceMeters !== null) {
+        if (typeof set.distanceMeters !== 'number' || isNaN(set.distanceMeters) ||
+            set.distanceMeters < 0 || set.distanceMeters > SYNC_LIMITS.MAX_SET_DISTANCE_METERS) {
+          errors.push(`${path}.exercises[${j}].sets[${k}].distanceMeters must be between 0 and ${SYNC_LIMITS.MAX_SET_DISTANCE_METERS}`);
+        }
+      }
+
+      // Validate RPE (optional; null clears it)
+      if (set.rpe !== undefined && set.rpe !== null) {
+        if (typeof set.rpe !== 'number' || isNaN(set.rpe)) {
+          errors.push(`${path}.exercises[${j}].sets[${k}].rpe must be a number or null`);
+        } else if (set.rpe < SYNC_LIMITS.MIN_RPE || set.rpe > SYNC_LIMITS.MAX_RPE) {
+          errors.push(`${path}.exercises[${j}].sets[${k}].rpe must be between ${SYNC_LIMITS.MIN_RPE} and ${SYNC_LIMITS.MAX_RPE}`);
+        }
+      }
+
+      collectSyncNotesErrors(set.notes, `${path}.exercises[${j}].sets[${k}]`, errors);
+    }
+  }
 }
 
 /**
- * Validates update template input
+ * Validates sync payload size and basic structure to prevent DoS attacks
+ * Does not validate all fields - just ensures payload is within safe limits
  */
-export function validateUpdateTemplate(data: unknown): UpdateTemplateValidationResult {
+export function validateSyncPayload(payload: unknown): SyncPayloadValidationResult {
   const errors: string[] = [];
-  const sanitized: UpdateTemplateValidationResult['sanitized'] = {};
 
-  if (typeof data !== 'object' || data === null) {
-    return { valid: false, errors: ['Request body must be an object'] };
+  if (typeof payload !== 'object' || payload === null) {
+    return { valid: false, errors: ['Sync payload must be an object'] };
   }
 
-  const input = data as Record<string, unknown>;
-
-  // Check for unknown fields
-  const allowedFields = ['name', 'description'];
-  const inputFields = Object.keys(input);
-  const unknownFields = inputFields.filter(f => !allowedFields.includes(f));
+  const data = payload as Record<string, unknown>;
 
-  if (unknownFields.length > 0) {
-    errors.push(`Unknown fields: ${unknownFields.join(', ')}. Allowed fields: ${allowedFields.join(', ')}`);
-  }
+  // Validate deviceId
+  if (!data.deviceId || typeof data.deviceId !== 'string') {
+    errors.push('deviceId is required and must be a string');
+  } else if (data.deviceId.length > 100) {
+    errors.push('deviceId cannot exceed 100 characters');
+  }
 
-  // Validate name (optional)
-  if (input.name !== undefined) {
-    if (typeof input.name !== 'string') {
-      errors.push('name must be a string');
+  // Validate lastChangeSequence (optional - older clients sync by timestamp)
+  if (data.lastChangeSequence !== undefined && !isValidChangeSequence(data.lastChangeSequence)) {
+    errors.push('lastChangeSequence must be a non-negative integer');
+  }
+
+  // Validate deletedWorkouts (optional - older clients don't send tombstones)
+  if (data.deletedWorkouts !== undefined) {
+    if (!Array.isArray(data.deletedWorkouts)) {
+      errors.push('deletedWorkouts must be an array');
+    } else if (data.deletedWorkouts.length > SYNC_LIMITS.MAX_DELETED_WORKOUTS_PER_SYNC) {
+      errors.push(`Too many deleted workouts: ${data.deletedWorkouts.length}. Maximum allowed: ${SYNC_LIMITS.MAX_DELETED_WORKOUTS_PER_SYNC}`);
     } else {
-      const trimmed = input.name.trim();
-      if (trimmed.length === 0) {
-        errors.push('name cannot be empty');
-      } else if (trimmed.length > TEMPLATE_LIMITS.MAX_NAME_LENGTH) {
-        errors.push(`name cannot exceed ${TEMPLATE_LIMITS.MAX_NAME_LENGTH} characters`);
-      } else {
-        sanitized.name = trimmed;
+      for (let i = 0; i < data.deletedWorkouts.length; i++) {
+        const deletion = data.deletedWorkouts[i] as Record<string, unknown>;
+
+        if (typeof deletion !== 'object' || deletion === null) {
+          errors.push(`deletedWorkouts[${i}] must be an object`);
+          continue;
+        }
+
+        if (!deletion.clientId || typeof deletion.clientId !== 'string') {
+          errors.push(`deletedWorkouts[${i}].clientId is required and must be a string`);
+        }
+
+        if (typeof deletion.deletedAt !== 'string' || isNaN(new Date(deletion.deletedAt).getTime())) {
+          errors.push(`deletedWorkouts[${i}].deletedAt is required and must be an ISO timestamp`);
+        }
       }
     }
   }
 
-  // Validate description (optional, can be set to empty string to clear)
-  if (input.description !== undefined) {
-    if (input.description === null) {
-      sanitized.description = '';
-    } else if (typeof input.description !== 'string') {
-      errors.push('description must be a string or null');
-    } else if (input.description.length > TEMPLATE_LIMITS.MAX_DESCRIPTION_LENGTH) {
-      errors.push(`description cannot exceed ${TEMPLATE_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
+  // Validate workouts array
+  if (!Array.isArray(data.workouts)) {
+    errors.push('workouts must be an array');
+    return { valid: false, errors };
+  }
+
+  // Check workout count limit
+  if (data.workouts.length > SYNC_LIMITS.MAX_WORKOUTS_PER_SYNC) {
+    errors.push(`Too many workouts: ${data.workouts.length}. Maximum allowed: ${SYNC_LIMITS.MAX_WORKOUTS_PER_SYNC}`);
+    return { valid: false, errors };
+  }
+
+  // Validate each workout
+  for (let i = 0; i < data.workouts.length; i++) {
+    collectWorkoutSyncErrors(data.workouts[i], `workouts[${i}]`, errors);
+
+    // Stop early if too many errors
+    if (errors.length > 20) {
+      errors.push('Too many validation errors. Stopping validation.');
+      break;
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors
+  };
+}
+
+// ============ Template Validation ============
+
+/**
+ * Template size limits
+ */
+export const TEMPLATE_LIMITS = {
+  MAX_NAME_LENGTH: 200,
+  MAX_DESCRIPTION_LENGTH: 1000,
+  MAX_EXERCISES_PER_TEMPLATE: 30,
+  MAX_WORKING_SETS: 20,
+  MAX_WARMUP_SETS: 10,
+  MAX_REST_SECONDS: 600,
+  MAX_NOTES_LENGTH: 500,
+  MAX_TARGET_REPS_LENGTH: 20,
+  MAX_SEARCH_LENGTH: 100,
+} as const;
+
+// UUID validation regex
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Validates UUID format
+ */
+export function isValidUuid(id: string): boolean {
+  return UUID_REGEX.test(id);
+}
+
+/**
+ * Validates an IANA time zone name (e.g. 'America/New_York', 'UTC')
+ */
+export function isValidTimezone(timeZone: string): boolean {
+  if (timeZone.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Template list query validation result
+ */
+export interface TemplateQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    cursor?: string;
+    limit?: number;
+    sort?: 'name' | 'createdAt' | 'updatedAt';
+    order?: 'asc' | 'desc';
+  };
+}
+
+/**
+ * Validates template list query parameters
+ */
+export function validateTemplateListQuery(query: Record<string, unknown>): TemplateQueryValidationResult {
+  const errors: string[] = [];
+  const sanitized: TemplateQueryValidationResult['sanitized'] = {};
+
+  // Cursor validation
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string') {
+      errors.push('cursor must be a string');
     } else {
-      sanitized.description = input.description.trim();
+      sanitized.cursor = query.cursor;
     }
   }
 
-  if (errors.length > 0) {
-    return { valid: false, errors };
+  // Limit validation with bounds checking
+  if (query.limit !== undefined) {
+    const limitStr = String(query.limit);
+    const limit = parseInt(limitStr, 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 100) {
+      errors.push('limit cannot exceed 100');
+    } else {
+      sanitized.limit = limit;
+    }
   }
 
-  // Check if there's anything to update
-  if (Object.keys(sanitized).length === 0) {
-    return { valid: false, errors: ['No valid fields to update'] };
+  // Sort validation
+  const VALID_TEMPLATE_SORTS = ['name', 'createdAt', 'updatedAt'] as const;
+  if (query.sort !== undefined) {
+    if (typeof query.sort !== 'string') {
+      errors.push('sort must be a string');
+    } else if (!VALID_TEMPLATE_SORTS.includes(query.sort as typeof VALID_TEMPLATE_SORTS[number])) {
+      errors.push(`Invalid sort option: "${query.sort}". Valid options: ${VALID_TEMPLATE_SORTS.join(', ')}`);
+    } else {
+      sanitized.sort = query.sort as typeof VALID_TEMPLATE_SORTS[number];
+    }
   }
 
-  return { valid: true, errors: [], sanitized };
+  // Order validation
+  if (query.order !== undefined) {
+    if (typeof query.order !== 'string') {
+      errors.push('order must be a string');
+    } else if (!['asc', 'desc'].includes(query.order)) {
+      errors.push('order must be "asc" or "desc"');
+    } else {
+      sanitized.order = query.order as 'asc' | 'desc';
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
 }
 
 /**
- * Template exercises update validation result
+ * Create template validation result
  */
-export interface UpdateTemplateExercisesValidationResult extends ValidationResult {
+export interface CreateTemplateValidationResult extends ValidationResult {
   sanitized?: {
+    name: string;
+    description?: string;
     exercises: Array<{
       exerciseId: string;
       orderIndex: number;
@@ -917,9 +1307,9 @@ export interface UpdateTemplateExercisesValidationResult extends ValidationResul
 }
 
 /**
- * Validates template exercises update input
+ * Validates create template input
  */
-export function validateTemplateExercises(data: unknown): UpdateTemplateExercisesValidationResult {
+export function validateCreateTemplate(data: unknown): CreateTemplateValidationResult {
   const errors: string[] = [];
 
   if (typeof data !== 'object' || data === null) {
@@ -928,6 +1318,27 @@ export function validateTemplateExercises(data: unknown): UpdateTemplateExercise
 
   const input = data as Record<string, unknown>;
 
+  // Validate name (required)
+  if (!input.name || typeof input.name !== 'string') {
+    errors.push('name is required and must be a string');
+  } else {
+    const trimmed = input.name.trim();
+    if (trimmed.length === 0) {
+      errors.push('name cannot be empty');
+    } else if (trimmed.length > TEMPLATE_LIMITS.MAX_NAME_LENGTH) {
+      errors.push(`name cannot exceed ${TEMPLATE_LIMITS.MAX_NAME_LENGTH} characters`);
+    }
+  }
+
+  // Validate description (optional)
+  if (input.description !== undefined && input.description !== null) {
+    if (typeof input.description !== 'string') {
+      errors.push('description must be a string');
+    } else if (input.description.length > TEMPLATE_LIMITS.MAX_DESCRIPTION_LENGTH) {
+      errors.push(`description cannot exceed ${TEMPLATE_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
+    }
+  }
+
   // Validate exercises array (required)
   if (!Array.isArray(input.exercises)) {
     errors.push('exercises must be an array');
@@ -936,12 +1347,8 @@ export function validateTemplateExercises(data: unknown): UpdateTemplateExercise
 
   if (input.exercises.length === 0) {
     errors.push('exercises array cannot be empty');
-    return { valid: false, errors };
-  }
-
-  if (input.exercises.length > TEMPLATE_LIMITS.MAX_EXERCISES_PER_TEMPLATE) {
+  } else if (input.exercises.length > TEMPLATE_LIMITS.MAX_EXERCISES_PER_TEMPLATE) {
     errors.push(`exercises array cannot exceed ${TEMPLATE_LIMITS.MAX_EXERCISES_PER_TEMPLATE} items`);
-    return { valid: false, errors };
   }
 
   // Validate each exercise
@@ -953,7 +1360,8 @@ export function validateTemplateExercises(data: unknown): UpdateTemplateExercise
   }
 
   // Build sanitized output
-  const sanitized: UpdateTemplateExercisesValidationResult['sanitized'] = {
+  const sanitized: CreateTemplateValidationResult['sanitized'] = {
+    name: (input.name as string).trim(),
     exercises: (input.exercises as Array<Record<string, unknown>>).map((e, i) => ({
       exerciseId: e.exerciseId as string,
       orderIndex: typeof e.orderIndex === 'number' ? e.orderIndex : i,
@@ -964,91 +1372,1394 @@ export function validateTemplateExercises(data: unknown): UpdateTemplateExercise
       notes: typeof e.notes === 'string' ? e.notes.trim() : undefined,
     }))
   };
-
-  return { valid: true, errors: [], sanitized };
+
+  if (typeof input.description === 'string' && input.description.trim().length > 0) {
+    sanitized.description = input.description.trim();
+  }
+
+  return { valid: true, errors: [], sanitized };
+}
+
+/**
+ * Validates an array of template exercises
+ */
+function validateTemplateExercisesArray(exercises: unknown[]): string[] {
+  const errors: string[] = [];
+  const seenOrderIndices = new Set<number>();
+
+  for (let i = 0; i < exercises.length; i++) {
+    const exercise = exercises[i] as Record<string, unknown>;
+
+    if (typeof exercise !== 'object' || exercise === null) {
+      errors.push(`exercises[${i}] must be an object`);
+      continue;
+    }
+
+    // Validate exerciseId (required UUID)
+    if (!exercise.exerciseId || typeof exercise.exerciseId !== 'string') {
+      errors.push(`exercises[${i}].exerciseId is required and must be a string`);
+    } else if (!isValidUuid(exercise.exerciseId)) {
+      errors.push(`exercises[${i}].exerciseId must be a valid UUID`);
+    }
+
+    // Validate orderIndex (optional, defaults to array index)
+    // Use the final orderIndex value (explicit or defaulted) for duplicate detection
+    let finalOrderIndex: number = i; // Default to array index
+    if (exercise.orderIndex !== undefined) {
+      if (typeof exercise.orderIndex !== 'number' || !Number.isInteger(exercise.orderIndex)) {
+        errors.push(`exercises[${i}].orderIndex must be an integer`);
+      } else if (exercise.orderIndex < 0) {
+        errors.push(`exercises[${i}].orderIndex must be >= 0`);
+      } else {
+        finalOrderIndex = exercise.orderIndex;
+      }
+    }
+    // Check for duplicate using the final value (explicit or defaulted)
+    if (seenOrderIndices.has(finalOrderIndex)) {
+      errors.push(`exercises[${i}].orderIndex ${finalOrderIndex} is duplicated`);
+    }
+    seenOrderIndices.add(finalOrderIndex);
+
+    // Validate workingSets (required)
+    if (exercise.workingSets === undefined || typeof exercise.workingSets !== 'number') {
+      errors.push(`exercises[${i}].workingSets is required and must be a number`);
+    } else if (!Number.isInteger(exercise.workingSets) || exercise.workingSets < 1) {
+      errors.push(`exercises[${i}].workingSets must be an integer >= 1`);
+    } else if (exercise.workingSets > TEMPLATE_LIMITS.MAX_WORKING_SETS) {
+      errors.push(`exercises[${i}].workingSets cannot exceed ${TEMPLATE_LIMITS.MAX_WORKING_SETS}`);
+    }
+
+    // Validate warmupSets (optional)
+    if (exercise.warmupSets !== undefined) {
+      if (typeof exercise.warmupSets !== 'number' || !Number.isInteger(exercise.warmupSets)) {
+        errors.push(`exercises[${i}].warmupSets must be an integer`);
+      } else if (exercise.warmupSets < 0) {
+        errors.push(`exercises[${i}].warmupSets must be >= 0`);
+      } else if (exercise.warmupSets > TEMPLATE_LIMITS.MAX_WARMUP_SETS) {
+        errors.push(`exercises[${i}].warmupSets cannot exceed ${TEMPLATE_LIMITS.MAX_WARMUP_SETS}`);
+      }
+    }
+
+    // Validate targetReps (optional)
+    if (exercise.targetReps !== undefined && exercise.targetReps !== null) {
+      if (typeof exercise.targetReps !== 'string') {
+        errors.push(`exercises[${i}].targetReps must be a string`);
+      } else if (exercise.targetReps.length > TEMPLATE_LIMITS.MAX_TARGET_REPS_LENGTH) {
+        errors.push(`exercises[${i}].targetReps cannot exceed ${TEMPLATE_LIMITS.MAX_TARGET_REPS_LENGTH} characters`);
+      }
+    }
+
+    // Validate restSeconds (optional)
+    if (exercise.restSeconds !== undefined && exercise.restSeconds !== null) {
+      if (typeof exercise.restSeconds !== 'number' || !Number.isInteger(exercise.restSeconds)) {
+        errors.push(`exercises[${i}].restSeconds must be an integer`);
+      } else if (exercise.restSeconds < 0) {
+        errors.push(`exercises[${i}].restSeconds must be >= 0`);
+      } else if (exercise.restSeconds > TEMPLATE_LIMITS.MAX_REST_SECONDS) {
+        errors.push(`exercises[${i}].restSeconds cannot exceed ${TEMPLATE_LIMITS.MAX_REST_SECONDS}`);
+      }
+    }
+
+    // Validate notes (optional)
+    if (exercise.notes !== undefined && exercise.notes !== null) {
+      if (typeof exercise.notes !== 'string') {
+        errors.push(`exercises[${i}].notes must be a string`);
+      } else if (exercise.notes.length > TEMPLATE_LIMITS.MAX_NOTES_LENGTH) {
+        errors.push(`exercises[${i}].notes cannot exceed ${TEMPLATE_LIMITS.MAX_NOTES_LENGTH} characters`);
+      }
+    }
+
+    // Stop early if too many errors
+    if (errors.length > 20) {
+      errors.push('Too many validation errors. Stopping validation.');
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Update template validation result
+ */
+export interface UpdateTemplateValidationResult extends ValidationResult {
+  sanitized?: {
+    name?: string;
+    description?: string;
+    isPublic?: boolean;
+  };
+}
+
+/**
+ * Validates update template input
+ */
+export function validateUpdateTemplate(data: unknown): UpdateTemplateValidationResult {
+  const errors: string[] = [];
+  const sanitized: UpdateTemplateValidationResult['sanitized'] = {};
+
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+
+  // Check for unknown fields
+  const allowedFields = ['name', 'description', 'isPublic'];
+  const inputFields = Object.keys(input);
+  const unknownFields = inputFields.filter(f => !allowedFields.includes(f));
+
+  if (unknownFields.length > 0) {
+    errors.push(`Unknown fields: ${unknownFields.join(', ')}. Allowed fields: ${allowedFields.join(', ')}`);
+  }
+
+  // Validate name (optional)
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string') {
+      errors.push('name must be a string');
+    } else {
+      const trimmed = input.name.trim();
+      if (trimmed.length === 0) {
+        errors.push('name cannot be empty');
+      } else if (trimmed.length > TEMPLATE_LIMITS.MAX_NAME_LENGTH) {
+        errors.push(`name cannot exceed ${TEMPLATE_LIMITS.MAX_NAME_LENGTH} characters`);
+      } else {
+        sanitized.name = trimmed;
+      }
+    }
+  }
+
+  // Validate description (optional, can be set to empty string to clear)
+  if (input.description !== undefined) {
+    if (input.description === null) {
+      sanitized.description = '';
+    } else if (typeof input.description !== 'string') {
+      errors.push('description must be a string or null');
+    } else if (input.description.length > TEMPLATE_LIMITS.MAX_DESCRIPTION_LENGTH) {
+      errors.push(`description cannot exceed ${TEMPLATE_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
+    } else {
+      sanitized.description = input.description.trim();
+    }
+  }
+
+  // Validate isPublic (optional)
+  if (input.isPublic !== undefined) {
+    if (typeof input.isPublic !== 'boolean') {
+      errors.push('isPublic must be a boolean');
+    } else {
+      sanitized.isPublic = input.isPublic;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Check if there's anything to update
+  if (Object.keys(sanitized).length === 0) {
+    return { valid: false, errors: ['No valid fields to update'] };
+  }
+
+  return { valid: true, errors: [], sanitized };
+}
+
+/**
+ * Template exercises update validation result
+ */
+export interface UpdateTemplateExercisesValidationResult extends ValidationResult {
+  sanitized?: {
+    exercises: Array<{
+      exerciseId: string;
+      orderIndex: number;
+      workingSets: number;
+      warmupSets?: number;
+      targetReps?: string;
+      restSeconds?: number;
+      notes?: string;
+    }>;
+  };
+}
+
+/**
+ * Validates template exercises update input
+ */
+export function validateTemplateExercises(data: unknown): UpdateTemplateExercisesValidationResult {
+  const errors: string[] = [];
+
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+
+  // Validate exercises array (required)
+  if (!Array.isArray(input.exercises)) {
+    errors.push('exercises must be an array');
+    return { valid: false, errors };
+  }
+
+  if (input.exercises.length === 0) {
+    errors.push('exercises array cannot be empty');
+    return { valid: false, errors };
+  }
+
+  if (input.exercises.length > TEMPLATE_LIMITS.MAX_EXERCISES_PER_TEMPLATE) {
+    errors.push(`exercises array cannot exceed ${TEMPLATE_LIMITS.MAX_EXERCISES_PER_TEMPLATE} items`);
+    return { valid: false, errors };
+  }
+
+  // Validate each exercise
+  const exerciseErrors = validateTemplateExercisesArray(input.exercises);
+  errors.push(...exerciseErrors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Build sanitized output
+  const sanitized: UpdateTemplateExercisesValidationResult['sanitized'] = {
+    exercises: (input.exercises as Array<Record<string, unknown>>).map((e, i) => ({
+      exerciseId: e.exerciseId as string,
+      orderIndex: typeof e.orderIndex === 'number' ? e.orderIndex : i,
+      workingSets: e.workingSets as number,
+      warmupSets: typeof e.warmupSets === 'number' ? e.warmupSets : undefined,
+      targetReps: typeof e.targetReps === 'string' ? e.targetReps.trim() : undefined,
+      restSeconds: typeof e.restSeconds === 'number' ? e.restSeconds : undefined,
+      notes: typeof e.notes === 'string' ? e.notes.trim() : undefined,
+    }))
+  };
+
+  return { valid: true, errors: [], sanitized };
+}
+
+/**
+ * Clone template validation result
+ */
+export interface CloneTemplateValidationResult extends ValidationResult {
+  sanitized?: {
+    name?: string;
+  };
+}
+
+/**
+ * Validates clone template input
+ */
+export function validateCloneTemplate(data: unknown): CloneTemplateValidationResult {
+  const sanitized: CloneTemplateValidationResult['sanitized'] = {};
+
+  // Allow empty body (name will be auto-generated)
+  if (data === undefined || data === null) {
+    return { valid: true, errors: [], sanitized };
+  }
+
+  if (typeof data !== 'object') {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+
+  // Validate name (optional)
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string') {
+      return { valid: false, errors: ['name must be a string'] };
+    }
+
+    const trimmed = input.name.trim();
+    if (trimmed.length === 0) {
+      return { valid: false, errors: ['name cannot be empty'] };
+    }
+
+    if (trimmed.length > TEMPLATE_LIMITS.MAX_NAME_LENGTH) {
+      return { valid: false, errors: [`name cannot exceed ${TEMPLATE_LIMITS.MAX_NAME_LENGTH} characters`] };
+    }
+
+    sanitized.name = trimmed;
+  }
+
+  return { valid: true, errors: [], sanitized };
+}
+
+/**
+ * Swap template exercise validation result
+ */
+export interface SwapTemplateExerciseValidationResult extends ValidationResult {
+  sanitized?: {
+    exerciseId: string;
+  };
+}
+
+/**
+ * Validates swap template exercise input
+ */
+export function validateSwapTemplateExercise(data: unknown): SwapTemplateExerciseValidationResult {
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+  if (typeof input.exerciseId !== 'string' || !isValidUuid(input.exerciseId)) {
+    return { valid: false, errors: ['exerciseId is required and must be a valid UUID'] };
+  }
+
+  return { valid: true, errors: [], sanitized: { exerciseId: input.exerciseId } };
+}
+
+// Valid sort options for browsing public templates
+export const VALID_PUBLIC_TEMPLATE_SORTS = ['likes', 'downloads', 'recent'] as const;
+export type PublicTemplateSort = typeof VALID_PUBLIC_TEMPLATE_SORTS[number];
+
+/**
+ * Public template query validation result
+ */
+export interface PublicTemplateQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    cursor?: string;
+    limit?: number;
+    sort?: PublicTemplateSort;
+    search?: string;
+    muscleGroup?: string | string[];
+    equipment?: string | string[];
+  };
+}
+
+/**
+ * Validates public template browse/search query parameters
+ */
+export function validatePublicTemplateListQuery(query: Record<string, unknown>): PublicTemplateQueryValidationResult {
+  const errors: string[] = [];
+  const sanitized: PublicTemplateQueryValidationResult['sanitized'] = {};
+
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string') {
+      errors.push('cursor must be a string');
+    } else {
+      sanitized.cursor = query.cursor;
+    }
+  }
+
+  if (query.limit !== undefined) {
+    const limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 100) {
+      errors.push('limit cannot exceed 100');
+    } else {
+      sanitized.limit = limit;
+    }
+  }
+
+  if (query.sort !== undefined) {
+    if (typeof query.sort !== 'string' || !VALID_PUBLIC_TEMPLATE_SORTS.includes(query.sort as PublicTemplateSort)) {
+      errors.push(`Invalid sort option: "${query.sort}". Valid options: ${VALID_PUBLIC_TEMPLATE_SORTS.join(', ')}`);
+    } else {
+      sanitized.sort = query.sort as PublicTemplateSort;
+    }
+  }
+
+  if (query.search !== undefined) {
+    if (typeof query.search !== 'string') {
+      errors.push('search must be a string');
+    } else if (query.search.length > TEMPLATE_LIMITS.MAX_SEARCH_LENGTH) {
+      errors.push(`search cannot exceed ${TEMPLATE_LIMITS.MAX_SEARCH_LENGTH} characters`);
+    } else if (query.search.trim().length > 0) {
+      sanitized.search = query.search.trim();
+    }
+  }
+
+  // Muscle group and equipment filters accept a single value or repeated params
+  for (const field of ['muscleGroup', 'equipment'] as const) {
+    const value = query[field];
+    if (value === undefined) continue;
+    if (typeof value === 'string') {
+      sanitized[field] = value;
+    } else if (Array.isArray(value) && value.every(v => typeof v === 'string') && value.length > 0) {
+      sanitized[field] = value as string[];
+    } else {
+      errors.push(`${field} must be a string or an array of strings`);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
+}
+
+// ============ Program Validation ============
+
+/**
+ * Program size limits
+ */
+export const PROGRAM_LIMITS = {
+  MAX_NAME_LENGTH: 200,
+  MAX_DESCRIPTION_LENGTH: 1000,
+  MAX_DAYS_PER_WEEK: 7,
+  MIN_DAYS_PER_WEEK: 1,
+  MAX_DURATION_WEEKS: 52,
+  MAX_DAY_LABEL_LENGTH: 50,
+  MAX_SEARCH_LENGTH: 100,
+} as const;
+
+/**
+ * Program list query validation result
+ */
+export interface ProgramQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    cursor?: string;
+    limit?: number;
+    sort?: 'name' | 'createdAt' | 'updatedAt';
+    order?: 'asc' | 'desc';
+  };
+}
+
+/**
+ * Validates program list query parameters
+ */
+export function validateProgramListQuery(query: Record<string, unknown>): ProgramQueryValidationResult {
+  const errors: string[] = [];
+  const sanitized: ProgramQueryValidationResult['sanitized'] = {};
+
+  // Cursor validation
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string') {
+      errors.push('cursor must be a string');
+    } else {
+      sanitized.cursor = query.cursor;
+    }
+  }
+
+  // Limit validation with bounds checking
+  if (query.limit !== undefined) {
+    const limitStr = String(query.limit);
+    const limit = parseInt(limitStr, 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 100) {
+      errors.push('limit cannot exceed 100');
+    } else {
+      sanitized.limit = limit;
+    }
+  }
+
+  // Sort validation
+  const VALID_PROGRAM_SORTS = ['name', 'createdAt', 'updatedAt'] as const;
+  if (query.sort !== undefined) {
+    if (typeof query.sort !== 'string') {
+      errors.push('sort must be a string');
+    } else if (!VALID_PROGRAM_SORTS.includes(query.sort as typeof VALID_PROGRAM_SORTS[number])) {
+      errors.push(`Invalid sort option: "${query.sort}". Valid options: ${VALID_PROGRAM_SORTS.join(', ')}`);
+    } else {
+      sanitized.sort = query.sort as typeof VALID_PROGRAM_SORTS[number];
+    }
+  }
+
+  // Order validation
+  if (query.order !== undefined) {
+    if (typeof query.order !== 'string') {
+      errors.push('order must be a string');
+    } else if (!['asc', 'desc'].includes(query.order)) {
+      errors.push('order must be "asc" or "desc"');
+    } else {
+      sanitized.order = query.order as 'asc' | 'desc';
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
+}
+
+/**
+ * Create program validation result
+ */
+export interface CreateProgramValidationResult extends ValidationResult {
+  sanitized?: {
+    name: string;
+    description?: string;
+    daysPerWeek: number;
+    durationWeeks?: number;
+    goal?: string;
+    workouts: Array<{
+      dayNumber: number;
+      templateId: string;
+      dayLabel?: string;
+    }>;
+  };
+}
+
+/**
+ * Validates create program input
+ */
+export function validateCreateProgram(data: unknown): CreateProgramValidationResult {
+  const errors: string[] = [];
+
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+
+  // Validate name (required)
+  if (!input.name || typeof input.name !== 'string') {
+    errors.push('name is required and must be a string');
+  } else {
+    const trimmed = input.name.trim();
+    if (trimmed.length === 0) {
+      errors.push('name cannot be empty');
+    } else if (trimmed.length > PROGRAM_LIMITS.MAX_NAME_LENGTH) {
+      errors.push(`name cannot exceed ${PROGRAM_LIMITS.MAX_NAME_LENGTH} characters`);
+    }
+  }
+
+  // Validate description (optional)
+  if (input.description !== undefined && input.description !== null) {
+    if (typeof input.description !== 'string') {
+      errors.push('description must be a string');
+    } else if (input.description.length > PROGRAM_LIMITS.MAX_DESCRIPTION_LENGTH) {
+      errors.push(`description cannot exceed ${PROGRAM_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
+    }
+  }
+
+  // Validate daysPerWeek (required)
+  if (input.daysPerWeek === undefined || typeof input.daysPerWeek !== 'number') {
+    errors.push('daysPerWeek is required and must be a number');
+  } else if (!Number.isInteger(input.daysPerWeek)) {
+    errors.push('daysPerWeek must be an integer');
+  } else if (input.daysPerWeek < PROGRAM_LIMITS.MIN_DAYS_PER_WEEK || input.daysPerWeek > PROGRAM_LIMITS.MAX_DAYS_PER_WEEK) {
+    errors.push(`daysPerWeek must be between ${PROGRAM_LIMITS.MIN_DAYS_PER_WEEK} and ${PROGRAM_LIMITS.MAX_DAYS_PER_WEEK}`);
+  }
+
+  // Validate durationWeeks (optional)
+  if (input.durationWeeks !== undefined && input.durationWeeks !== null) {
+    if (typeof input.durationWeeks !== 'number') {
+      errors.push('durationWeeks must be a number');
+    } else if (!Number.isInteger(input.durationWeeks)) {
+      errors.push('durationWeeks must be an integer');
+    } else if (input.durationWeeks < 1 || input.durationWeeks > PROGRAM_LIMITS.MAX_DURATION_WEEKS) {
+      errors.push(`durationWeeks must be between 1 and ${PROGRAM_LIMITS.MAX_DURATION_WEEKS}`);
+    }
+  }
+
+  // Validate goal (optional)
+  if (input.goal !== undefined && input.goal !== null && !isValidGoal(input.goal)) {
+    errors.push(`goal must be one of: ${VALID_GOALS.join(', ')}`);
+  }
+
+  // Validate workouts array (required)
+  if (!Array.isArray(input.workouts)) {
+    errors.push('workouts must be an array');
+    return { valid: false, errors };
+  }
+
+  if (input.workouts.length === 0) {
+    errors.push('workouts array cannot be empty');
+  }
+
+  // Validate each workout
+  const daysPerWeek = typeof input.daysPerWeek === 'number' ? input.daysPerWeek : 7;
+  const workoutErrors = validateProgramWorkoutsArray(input.workouts, daysPerWeek);
+  errors.push(...workoutErrors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Build sanitized output
+  const sanitized: CreateProgramValidationResult['sanitized'] = {
+    name: (input.name as string).trim(),
+    daysPerWeek: input.daysPerWeek as number,
+    workouts: (input.workouts as Array<Record<string, unknown>>).map((w) => ({
+      dayNumber: w.dayNumber as number,
+      templateId: w.templateId as string,
+      dayLabel: typeof w.dayLabel === 'string' ? w.dayLabel.trim() : undefined,
+    }))
+  };
+
+  if (typeof input.description === 'string' && input.description.trim().length > 0) {
+    sanitized.description = input.description.trim();
+  }
+
+  if (typeof input.durationWeeks === 'number') {
+    sanitized.durationWeeks = input.durationWeeks;
+  }
+
+  if (typeof input.goal === 'string') {
+    sanitized.goal = input.goal;
+  }
+
+  return { valid: true, errors: [], sanitized };
+}
+
+function isValidGoal(value: unknown): value is string {
+  return typeof value === 'string' && (VALID_GOALS as readonly string[]).includes(value);
+}
+
+/**
+ * Validates an array of program workouts
+ */
+function validateProgramWorkoutsArray(workouts: unknown[], daysPerWeek: number): string[] {
+  const errors: string[] = [];
+  const seenDayNumbers = new Set<number>();
+
+  for (let i = 0; i < workouts.length; i++) {
+    const workout = workouts[i] as Record<string, unknown>;
+
+    if (typeof workout !== 'object' || workout === null) {
+      errors.push(`workouts[${i}] must be an object`);
+      continue;
+    }
+
+    // Validate dayNumber (required)
+    if (workout.dayNumber === undefined || typeof workout.dayNumber !== 'number') {
+      errors.push(`workouts[${i}].dayNumber is required and must be a number`);
+    } else if (!Number.isInteger(workout.dayNumber)) {
+      errors.push(`workouts[${i}].dayNumber must be an integer`);
+    } else if (workout.dayNumber < 0 || workout.dayNumber >= daysPerWeek) {
+      errors.push(`workouts[${i}].dayNumber must be between 0 and ${daysPerWeek - 1}`);
+    } else {
+      if (seenDayNumbers.has(workout.dayNumber)) {
+        errors.push(`workouts[${i}].dayNumber ${workout.dayNumber} is duplicated`);
+      }
+      seenDayNumbers.add(workout.dayNumber);
+    }
+
+    // Validate templateId (required UUID)
+    if (!workout.templateId || typeof workout.templateId !== 'string') {
+      errors.push(`workouts[${i}].templateId is required and must be a string`);
+    } else if (!isValidUuid(workout.templateId)) {
+      errors.push(`workouts[${i}].templateId must be a valid UUID`);
+    }
+
+    // Validate dayLabel (optional)
+    if (workout.dayLabel !== undefined && workout.dayLabel !== null) {
+      if (typeof workout.dayLabel !== 'string') {
+        errors.push(`workouts[${i}].dayLabel must be a string`);
+      } else if (workout.dayLabel.length > PROGRAM_LIMITS.MAX_DAY_LABEL_LENGTH) {
+        errors.push(`workouts[${i}].dayLabel cannot exceed ${PROGRAM_LIMITS.MAX_DAY_LABEL_LENGTH} characters`);
+      }
+    }
+
+    // Stop early if too many errors
+    if (errors.length > 20) {
+      errors.push('Too many validation errors. Stopping validation.');
+      break;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Update program validation result
+ */
+export interface UpdateProgramValidationResult extends ValidationResult {
+  sanitized?: {
+    name?: string;
+    description?: string;
+    daysPerWeek?: number;
+    durationWeeks?: number | null;
+    goal?: string | null;
+    isPublic?: boolean;
+  };
+}
+
+/**
+ * Validates update program input
+ */
+export function validateUpdateProgram(data: unknown): UpdateProgramValidationResult {
+  const errors: string[] = [];
+  const sanitized: UpdateProgramValidationResult['sanitized'] = {};
+
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+
+  // Check for unknown fields
+  const allowedFields = ['name', 'description', 'daysPerWeek', 'durationWeeks', 'goal', 'isPublic'];
+  const inputFields = Object.keys(input);
+  const unknownFields = inputFields.filter(f => !allowedFields.includes(f));
+
+  if (unknownFields.length > 0) {
+    errors.push(`Unknown fields: ${unknownFields.join(', ')}. Allowed fields: ${allowedFields.join(', ')}`);
+  }
+
+  // Validate name (optional)
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string') {
+      errors.push('name must be a string');
+    } else {
+      const trimmed = input.name.trim();
+      if (trimmed.length === 0) {
+        errors.push('name cannot be empty');
+      } else if (trimmed.length > PROGRAM_LIMITS.MAX_NAME_LENGTH) {
+        errors.push(`name cannot exceed ${PROGRAM_LIMITS.MAX_NAME_LENGTH} characters`);
+      } else {
+        sanitized.name = trimmed;
+      }
+    }
+  }
+
+  // Validate description (optional, can be set to null to clear)
+  if (input.description !== undefined) {
+    if (input.description === null) {
+      sanitized.description = '';
+    } else if (typeof input.description !== 'string') {
+      errors.push('description must be a string or null');
+    } else if (input.description.length > PROGRAM_LIMITS.MAX_DESCRIPTION_LENGTH) {
+      errors.push(`description cannot exceed ${PROGRAM_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
+    } else {
+      sanitized.description = input.description.trim();
+    }
+  }
+
+  // Validate daysPerWeek (optional)
+  if (input.daysPerWeek !== undefined) {
+    if (typeof input.daysPerWeek !== 'number') {
+      errors.push('daysPerWeek must be a number');
+    } else if (!Number.isInteger(input.daysPerWeek)) {
+      errors.push('daysPerWeek must be an integer');
+    } else if (input.daysPerWeek < PROGRAM_LIMITS.MIN_DAYS_PER_WEEK || input.daysPerWeek > PROGRAM_LIMITS.MAX_DAYS_PER_WEEK) {
+      errors.push(`daysPerWeek must be between ${PROGRAM_LIMITS.MIN_DAYS_PER_WEEK} and ${PROGRAM_LIMITS.MAX_DAYS_PER_WEEK}`);
+    } else {
+      sanitized.daysPerWeek = input.daysPerWeek;
+    }
+  }
+
+  // Validate durationWeeks (optional, can be null for indefinite)
+  if (input.durationWeeks !== undefined) {
+    if (input.durationWeeks === null) {
+      sanitized.durationWeeks = null;
+    } else if (typeof input.durationWeeks !== 'number') {
+      errors.push('durationWeeks must be a number or null');
+    } else if (!Number.isInteger(input.durationWeeks)) {
+      errors.push('durationWeeks must be an integer');
+    } else if (input.durationWeeks < 1 || input.durationWeeks > PROGRAM_LIMITS.MAX_DURATION_WEEKS) {
+      errors.push(`durationWeeks must be between 1 and ${PROGRAM_LIMITS.MAX_DURATION_WEEKS}`);
+    } else {
+      sanitized.durationWeeks = input.durationWeeks;
+    }
+  }
+
+  // Validate goal (optional, can be null to clear)
+  if (input.goal !== undefined) {
+    if (input.goal === null) {
+      sanitized.goal = null;
+    } else if (!isValidGoal(input.goal)) {
+      errors.push(`goal must be one of: ${VALID_GOALS.join(', ')}`);
+    } else {
+      sanitized.goal = input.goal;
+    }
+  }
+
+  // Validate isPublic (optional)
+  if (input.isPublic !== undefined) {
+    if (typeof input.isPublic !== 'boolean') {
+      errors.push('isPublic must be a boolean');
+    } else {
+      sanitized.isPublic = input.isPublic;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Check if there's anything to update
+  if (Object.keys(sanitized).length === 0) {
+    return { valid: false, errors: ['No valid fields to update'] };
+  }
+
+  return { valid: true, errors: [], sanitized };
+}
+
+/**
+ * Program workouts update validation result
+ */
+export interface UpdateProgramWorkoutsValidationResult extends ValidationResult {
+  sanitized?: {
+    workouts: Array<{
+      dayNumber: number;
+      templateId: string;
+      dayLabel?: string;
+    }>;
+  };
+}
+
+/**
+ * Validates program workouts update input
+ */
+export function validateProgramWorkouts(data: unknown, daysPerWeek: number): UpdateProgramWorkoutsValidationResult {
+  const errors: string[] = [];
+
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+
+  // Validate workouts array (required)
+  if (!Array.isArray(input.workouts)) {
+    errors.push('workouts must be an array');
+    return { valid: false, errors };
+  }
+
+  if (input.workouts.length === 0) {
+    errors.push('workouts array cannot be empty');
+    return { valid: false, errors };
+  }
+
+  // Validate each workout
+  const workoutErrors = validateProgramWorkoutsArray(input.workouts, daysPerWeek);
+  errors.push(...workoutErrors);
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  // Build sanitized output
+  const sanitized: UpdateProgramWorkoutsValidationResult['sanitized'] = {
+    workouts: (input.workouts as Array<Record<string, unknown>>).map((w) => ({
+      dayNumber: w.dayNumber as number,
+      templateId: w.templateId as string,
+      dayLabel: typeof w.dayLabel === 'string' ? w.dayLabel.trim() : undefined,
+    }))
+  };
+
+  return { valid: true, errors: [], sanitized };
+}
+
+// Valid sort options for browsing public programs
+export const VALID_PUBLIC_PROGRAM_SORTS = ['downloads', 'recent'] as const;
+export type PublicProgramSort = typeof VALID_PUBLIC_PROGRAM_SORTS[number];
+
+/**
+ * Public program query validation result
+ */
+export interface PublicProgramQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    cursor?: string;
+    limit?: number;
+    sort?: PublicProgramSort;
+    search?: string;
+    daysPerWeek?: number;
+    durationWeeks?: number;
+    goal?: string;
+    isAiGenerated?: boolean;
+  };
+}
+
+/**
+ * Validates public program browse/search query parameters
+ */
+export function validatePublicProgramListQuery(query: Record<string, unknown>): PublicProgramQueryValidationResult {
+  const errors: string[] = [];
+  const sanitized: PublicProgramQueryValidationResult['sanitized'] = {};
+
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string') {
+      errors.push('cursor must be a string');
+    } else {
+      sanitized.cursor = query.cursor;
+    }
+  }
+
+  if (query.limit !== undefined) {
+    const limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 100) {
+      errors.push('limit cannot exceed 100');
+    } else {
+      sanitized.limit = limit;
+    }
+  }
+
+  if (query.sort !== undefined) {
+    if (typeof query.sort !== 'string' || !VALID_PUBLIC_PROGRAM_SORTS.includes(query.sort as PublicProgramSort)) {
+      errors.push(`Invalid sort option: "${query.sort}". Valid options: ${VALID_PUBLIC_PROGRAM_SORTS.join(', ')}`);
+    } else {
+      sanitized.sort = query.sort as PublicProgramSort;
+    }
+  }
+
+  if (query.search !== undefined) {
+    if (typeof query.search !== 'string') {
+      errors.push('search must be a string');
+    } else if (query.search.length > PROGRAM_LIMITS.MAX_SEARCH_LENGTH) {
+      errors.push(`search cannot exceed ${PROGRAM_LIMITS.MAX_SEARCH_LENGTH} characters`);
+    } else if (query.search.trim().length > 0) {
+      sanitized.search = query.search.trim();
+    }
+  }
+
+  if (query.daysPerWeek !== undefined) {
+    const daysPerWeek = Number(query.daysPerWeek);
+    if (!Number.isInteger(daysPerWeek) ||
+        daysPerWeek < PROGRAM_LIMITS.MIN_DAYS_PER_WEEK || daysPerWeek > PROGRAM_LIMITS.MAX_DAYS_PER_WEEK) {
+      errors.push(`daysPerWeek must be an integer between ${PROGRAM_LIMITS.MIN_DAYS_PER_WEEK} and ${PROGRAM_LIMITS.MAX_DAYS_PER_WEEK}`);
+    } else {
+      sanitized.daysPerWeek = daysPerWeek;
+    }
+  }
+
+  if (query.durationWeeks !== undefined) {
+    const durationWeeks = Number(query.durationWeeks);
+    if (!Number.isInteger(durationWeeks) || durationWeeks < 1 || durationWeeks > PROGRAM_LIMITS.MAX_DURATION_WEEKS) {
+      errors.push(`durationWeeks must be an integer between 1 and ${PROGRAM_LIMITS.MAX_DURATION_WEEKS}`);
+    } else {
+      sanitized.durationWeeks = durationWeeks;
+    }
+  }
+
+  if (query.goal !== undefined) {
+    if (!isValidGoal(query.goal)) {
+      errors.push(`goal must be one of: ${VALID_GOALS.join(', ')}`);
+    } else {
+      sanitized.goal = query.goal;
+    }
+  }
+
+  if (query.isAiGenerated !== undefined) {
+    if (query.isAiGenerated !== 'true' && query.isAiGenerated !== 'false') {
+      errors.push('isAiGenerated must be "true" or "false"');
+    } else {
+      sanitized.isAiGenerated = query.isAiGenerated === 'true';
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
+}
+
+/**
+ * Clone program validation result
+ */
+export interface CloneProgramValidationResult extends ValidationResult {
+  sanitized?: {
+    name?: string;
+  };
+}
+
+/**
+ * Validates clone program input (name is optional)
+ */
+export function validateCloneProgram(data: unknown): CloneProgramValidationResult {
+  const sanitized: CloneProgramValidationResult['sanitized'] = {};
+
+  // Allow empty body (name will be auto-generated)
+  if (data === undefined || data === null) {
+    return { valid: true, errors: [], sanitized };
+  }
+
+  if (typeof data !== 'object') {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string') {
+      return { valid: false, errors: ['name must be a string'] };
+    }
+
+    const trimmed = input.name.trim();
+    if (trimmed.length === 0) {
+      return { valid: false, errors: ['name cannot be empty'] };
+    }
+
+    if (trimmed.length > PROGRAM_LIMITS.MAX_NAME_LENGTH) {
+      return { valid: false, errors: [`name cannot exceed ${PROGRAM_LIMITS.MAX_NAME_LENGTH} characters`] };
+    }
+
+    sanitized.name = trimmed;
+  }
+
+  return { valid: true, errors: [], sanitized };
+}
+
+// ============ Share Validation ============
+
+const VALID_SHARE_TYPES = ['program', 'template'] as const;
+const VALID_SHARE_MODES = ['snapshot', 'live'] as const;
+
+// Shares can be set to expire at most a year ahead
+export const MAX_SHARE_EXPIRY_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Create share validation result
+ */
+export interface CreateShareValidationResult extends ValidationResult {
+  sanitized?: {
+    type: 'program' | 'template';
+    itemId: string;
+    mode: 'snapshot' | 'live';
+    expiresAt?: string;
+  };
+}
+
+/**
+ * Validates create share input
+ */
+export function validateCreateShare(data: unknown, now: Date = new Date()): CreateShareValidationResult {
+  const errors: string[] = [];
+
+  if (typeof data !== 'object' || data === null) {
+    return { valid: false, errors: ['Request body must be an object'] };
+  }
+
+  const input = data as Record<string, unknown>;
+
+  // Validate type (required)
+  if (!input.type || typeof input.type !== 'string') {
+    errors.push('type is required and must be a string');
+  } else if (!VALID_SHARE_TYPES.includes(input.type as typeof VALID_SHARE_TYPES[number])) {
+    errors.push(`type must be one of: ${VALID_SHARE_TYPES.join(', ')}`);
+  }
+
+  // Validate itemId (required UUID)
+  if (!input.itemId || typeof input.itemId !== 'string') {
+    errors.push('itemId is required and must be a string');
+  } else if (!isValidUuid(input.itemId)) {
+    errors.push('itemId must be a valid UUID');
+  }
+
+  // Validate mode (optional, defaults to snapshot)
+  if (input.mode !== undefined &&
+      (typeof input.mode !== 'string' || !VALID_SHARE_MODES.includes(input.mode as typeof VALID_SHARE_MODES[number]))) {
+    errors.push(`mode must be one of: ${VALID_SHARE_MODES.join(', ')}`);
+  }
+
+  // Validate expiresAt (optional ISO timestamp, in the future)
+  let expiresAt: string | undefined;
+  if (input.expiresAt !== undefined && input.expiresAt !== null) {
+    const date = typeof input.expiresAt === 'string' ? new Date(input.expiresAt) : null;
+    if (!date || isNaN(date.getTime())) {
+      errors.push('expiresAt must be a valid ISO 8601 timestamp');
+    } else if (date <= now) {
+      errors.push('expiresAt must be in the future');
+    } else if (date.getTime() - now.getTime() > MAX_SHARE_EXPIRY_MS) {
+      errors.push('expiresAt cannot be more than 365 days away');
+    } else {
+      expiresAt = date.toISOString();
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    errors: [],
+    sanitized: {
+      type: input.type as 'program' | 'template',
+      itemId: input.itemId as string,
+      mode: (input.mode as 'snapshot' | 'live' | undefined) ?? 'snapshot',
+      ...(expiresAt && { expiresAt }),
+    }
+  };
+}
+
+/**
+ * Share list query validation result
+ */
+export interface ShareListQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    cursor?: string;
+    limit?: number;
+    type?: 'program' | 'template';
+  };
+}
+
+/**
+ * Validates share list query parameters
+ */
+export function validateShareListQuery(query: Record<string, unknown>): ShareListQueryValidationResult {
+  const errors: string[] = [];
+  const sanitized: ShareListQueryValidationResult['sanitized'] = {};
+
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string') {
+      errors.push('cursor must be a string');
+    } else {
+      sanitized.cursor = query.cursor;
+    }
+  }
+
+  if (query.limit !== undefined) {
+    const limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 100) {
+      errors.push('limit cannot exceed 100');
+    } else {
+      sanitized.limit = limit;
+    }
+  }
+
+  if (query.type !== undefined) {
+    if (typeof query.type !== 'string' || !VALID_SHARE_TYPES.includes(query.type as typeof VALID_SHARE_TYPES[number])) {
+      errors.push(`type must be one of: ${VALID_SHARE_TYPES.join(', ')}`);
+    } else {
+      sanitized.type = query.type as 'program' | 'template';
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
+}
+
+/**
+ * Validates a share token from the URL parameter.
+ * Tokens are base64url-encoded, so allow alphanumeric + hyphen + underscore.
+ */
+export function validateShareToken(token: string): boolean {
+  if (!token || typeof token !== 'string') {
+    return false;
+  }
+  if (token.length > 64) {
+    return false;
+  }
+  return /^[a-zA-Z0-9_-]+$/.test(token);
+}
+
+// ============ Workout Validation ============
+
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_REGEX = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+/**
+ * Workout list query validation result
+ */
+export interface WorkoutQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    cursor?: string;
+    limit?: number;
+    order?: 'asc' | 'desc';
+    from?: string;
+    to?: string;
+    templateId?: string;
+    exerciseId?: string;
+  };
+}
+
+/**
+ * Parses a from/to query value. Accepts a full ISO timestamp or a
+ * YYYY-MM-DD date; for `to`, a bare date includes that whole (UTC) day.
+ * Returns the ISO string to compare against, or null if invalid.
+ */
+function parseDateBound(value: string, bound: 'from' | 'to'): string | null {
+  const parsed = new Date(DATE_ONLY_REGEX.test(value) ? `${value}T00:00:00.000Z` : value);
+  if (isNaN(parsed.getTime())) {
+    return null;
+  }
+  if (bound === 'to' && DATE_ONLY_REGEX.test(value)) {
+    parsed.setUTCDate(parsed.getUTCDate() + 1);
+  }
+  return parsed.toISOString();
+}
+
+/**
+ * Validates workout list query parameters
+ */
+export function validateWorkoutListQuery(query: Record<string, unknown>): WorkoutQueryValidationResult {
+  const errors: string[] = [];
+  const sanitized: WorkoutQueryValidationResult['sanitized'] = {};
+
+  // Cursor validation
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string') {
+      errors.push('cursor must be a string');
+    } else {
+      sanitized.cursor = query.cursor;
+    }
+  }
+
+  // Limit validation with bounds checking
+  if (query.limit !== undefined) {
+    const limitStr = String(query.limit);
+    const limit = parseInt(limitStr, 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 100) {
+      errors.push('limit cannot exceed 100');
+    } else {
+      sanitized.limit = limit;
+    }
+  }
+
+  // Order validation
+  if (query.order !== undefined) {
+    if (typeof query.order !== 'string') {
+      errors.push('order must be a string');
+    } else if (!['asc', 'desc'].includes(query.order)) {
+      errors.push('order must be "asc" or "desc"');
+    } else {
+      sanitized.order = query.order as 'asc' | 'desc';
+    }
+  }
+
+  // Date range validation
+  for (const bound of ['from', 'to'] as const) {
+    const value = query[bound];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') {
+      errors.push(`${bound} must be a string`);
+      continue;
+    }
+    const parsed = parseDateBound(value, bound);
+    if (!parsed) {
+      errors.push(`${bound} must be an ISO date (YYYY-MM-DD) or timestamp`);
+    } else {
+      sanitized[bound] = parsed;
+    }
+  }
+
+  if (sanitized.from && sanitized.to && sanitized.from >= sanitized.to) {
+    errors.push('from must be before to');
+  }
+
+  // ID filters
+  for (const field of ['templateId', 'exerciseId'] as const) {
+    const value = query[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || !isValidUuid(value)) {
+      errors.push(`${field} must be a valid UUID`);
+    } else {
+      sanitized[field] = value;
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
 }
 
 /**
- * Clone template validation result
+ * Workout calendar query validation result
  */
-export interface CloneTemplateValidationResult extends ValidationResult {
+export interface WorkoutCalendarValidationResult extends ValidationResult {
   sanitized?: {
-    name?: string;
+    month: string;
   };
 }
 
 /**
- * Validates clone template input
+ * Validates workout calendar query parameters (month is required, YYYY-MM)
  */
-export function validateCloneTemplate(data: unknown): CloneTemplateValidationResult {
-  const sanitized: CloneTemplateValidationResult['sanitized'] = {};
-
-  // Allow empty body (name will be auto-generated)
-  if (data === undefined || data === null) {
-    return { valid: true, errors: [], sanitized };
+export function validateWorkoutCalendarQuery(query: Record<string, unknown>): WorkoutCalendarValidationResult {
+  if (typeof query.month !== 'string' || !MONTH_REGEX.test(query.month)) {
+    return { valid: false, errors: ['month is required and must be in YYYY-MM format'] };
   }
 
-  if (typeof data !== 'object') {
-    return { valid: false, errors: ['Request body must be an object'] };
-  }
+  return { valid: true, errors: [], sanitized: { month: query.month } };
+}
 
-  const input = data as Record<string, unknown>;
+// ============ Change Feed Validation ============
 
-  // Validate name (optional)
-  if (input.name !== undefined) {
-    if (typeof input.name !== 'string') {
-      return { valid: false, errors: ['name must be a string'] };
-    }
+/**
+ * Change feed query validation result
+ */
+export interface ChangeFeedQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    after: number;
+    limit?: number;
+    deviceId?: string;
+  };
+}
 
-    const trimmed = input.name.trim();
-    if (trimmed.length === 0) {
-      return { valid: false, errors: ['name cannot be empty'] };
+function isValidChangeSequence(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+}
+
+/**
+ * Validates change feed query parameters (`after` defaults to 0, the start of the feed)
+ */
+export function validateChangeFeedQuery(query: Record<string, unknown>): ChangeFeedQueryValidationResult {
+  const errors: string[] = [];
+  const sanitized: NonNullable<ChangeFeedQueryValidationResult['sanitized']> = { after: 0 };
+
+  if (query.after !== undefined) {
+    const afterStr = String(query.after);
+    const after = /^\d+$/.test(afterStr) ? Number(afterStr) : NaN;
+    if (!isValidChangeSequence(after)) {
+      errors.push('after must be a non-negative integer');
+    } else {
+      sanitized.after = after;
     }
+  }
 
-    if (trimmed.length > TEMPLATE_LIMITS.MAX_NAME_LENGTH) {
-      return { valid: false, errors: [`name cannot exceed ${TEMPLATE_LIMITS.MAX_NAME_LENGTH} characters`] };
+  if (query.limit !== undefined) {
+    const limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 1000) {
+      errors.push('limit cannot exceed 1000');
+    } else {
+      sanitized.limit = limit;
     }
+  }
 
-    sanitized.name = trimmed;
+  if (query.deviceId !== undefined) {
+    if (typeof query.deviceId !== 'string' || query.deviceId.length === 0) {
+      errors.push('deviceId must be a non-empty string');
+    } else if (query.deviceId.length > 100) {
+      errors.push('deviceId cannot exceed 100 characters');
+    } else {
+      sanitized.deviceId = query.deviceId;
+    }
   }
 
-  return { valid: true, errors: [], sanitized };
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
 }
 
-// ============ Program Validation ============
-
-/**
- * Program size limits
- */
-export const PROGRAM_LIMITS = {
-  MAX_NAME_LENGTH: 200,
-  MAX_DESCRIPTION_LENGTH: 1000,
-  MAX_DAYS_PER_WEEK: 7,
-  MIN_DAYS_PER_WEEK: 1,
-  MAX_DURATION_WEEKS: 52,
-  MAX_DAY_LABEL_LENGTH: 50,
-} as const;
+// ============ Sync Conflict Validation ============
 
 /**
- * Program list query validation result
+ * Conflict list query validation result
  */
-export interface ProgramQueryValidationResult extends ValidationResult {
+export interface ConflictListQueryValidationResult extends ValidationResult {
   sanitized?: {
     cursor?: string;
     limit?: number;
-    sort?: 'name' | 'createdAt' | 'updatedAt';
-    order?: 'asc' | 'desc';
   };
 }
 
 /**
- * Validates program list query parameters
+ * Validates conflict list query parameters
  */
-export function validateProgramListQuery(query: Record<string, unknown>): ProgramQueryValidationResult {
+export function validateConflictListQuery(query: Record<string, unknown>): ConflictListQueryValidationResult {
   const errors: string[] = [];
-  const sanitized: ProgramQueryValidationResult['sanitized'] = {};
+  const sanitized: ConflictListQueryValidationResult['sanitized'] = {};
 
-  // Cursor validation
   if (query.cursor !== undefined) {
     if (typeof query.cursor !== 'string') {
       errors.push('cursor must be a string');
@@ -1057,10 +2768,8 @@ export function validateProgramListQuery(query: Record<string, unknown>): Progra
     }
   }
 
-  // Limit validation with bounds checking
   if (query.limit !== undefined) {
-    const limitStr = String(query.limit);
-    const limit = parseInt(limitStr, 10);
+    const limit = parseInt(String(query.limit), 10);
     if (isNaN(limit)) {
       errors.push('limit must be a valid integer');
     } else if (limit < 1) {
@@ -1072,29 +2781,6 @@ export function validateProgramListQuery(query: Record<string, unknown>): Progra
     }
   }
 
-  // Sort validation
-  const VALID_PROGRAM_SORTS = ['name', 'createdAt', 'updatedAt'] as const;
-  if (query.sort !== undefined) {
-    if (typeof query.sort !== 'string') {
-      errors.push('sort must be a string');
-    } else if (!VALID_PROGRAM_SORTS.includes(query.sort as typeof VALID_PROGRAM_SORTS[number])) {
-      errors.push(`Invalid sort option: "${query.sort}". Valid options: ${VALID_PROGRAM_SORTS.join(', ')}`);
-    } else {
-      sanitized.sort = query.sort as typeof VALID_PROGRAM_SORTS[number];
-    }
-  }
-
-  // Order validation
-  if (query.order !== undefined) {
-    if (typeof query.order !== 'string') {
-      errors.push('order must be a string');
-    } else if (!['asc', 'desc'].includes(query.order)) {
-      errors.push('order must be "asc" or "desc"');
-    } else {
-      sanitized.order = query.order as 'asc' | 'desc';
-    }
-  }
-
   return {
     valid: errors.length === 0,
     errors,
@@ -1103,189 +2789,213 @@ export function validateProgramListQuery(query: Record<string, unknown>): Progra
 }
 
 /**
- * Create program validation result
+ * Resolve conflict validation result
  */
-export interface CreateProgramValidationResult extends ValidationResult {
+export interface ResolveConflictValidationResult extends ValidationResult {
   sanitized?: {
-    name: string;
-    description?: string;
-    daysPerWeek: number;
-    durationWeeks?: number;
-    workouts: Array<{
-      dayNumber: number;
-      templateId: string;
-      dayLabel?: string;
-    }>;
+    resolution: 'client' | 'server' | 'merged';
+    data?: Record<string, unknown>;
   };
 }
 
 /**
- * Validates create program input
+ * Validates a conflict resolution request. `data` is required for (and only
+ * used by) `merged`, and must be a complete workout in sync format.
  */
-export function validateCreateProgram(data: unknown): CreateProgramValidationResult {
-  const errors: string[] = [];
-
-  if (typeof data !== 'object' || data === null) {
+export function validateResolveConflict(body: unknown): ResolveConflictValidationResult {
+  if (typeof body !== 'object' || body === null) {
     return { valid: false, errors: ['Request body must be an object'] };
   }
 
-  const input = data as Record<string, unknown>;
-
-  // Validate name (required)
-  if (!input.name || typeof input.name !== 'string') {
-    errors.push('name is required and must be a string');
-  } else {
-    const trimmed = input.name.trim();
-    if (trimmed.length === 0) {
-      errors.push('name cannot be empty');
-    } else if (trimmed.length > PROGRAM_LIMITS.MAX_NAME_LENGTH) {
-      errors.push(`name cannot exceed ${PROGRAM_LIMITS.MAX_NAME_LENGTH} characters`);
-    }
-  }
-
-  // Validate description (optional)
-  if (input.description !== undefined && input.description !== null) {
-    if (typeof input.description !== 'string') {
-      errors.push('description must be a string');
-    } else if (input.description.length > PROGRAM_LIMITS.MAX_DESCRIPTION_LENGTH) {
-      errors.push(`description cannot exceed ${PROGRAM_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
-    }
-  }
-
-  // Validate daysPerWeek (required)
-  if (input.daysPerWeek === undefined || typeof input.daysPerWeek !== 'number') {
-    errors.push('daysPerWeek is required and must be a number');
-  } else if (!Number.isInteger(input.daysPerWeek)) {
-    errors.push('daysPerWeek must be an integer');
-  } else if (input.daysPerWeek < PROGRAM_LIMITS.MIN_DAYS_PER_WEEK || input.daysPerWeek > PROGRAM_LIMITS.MAX_DAYS_PER_WEEK) {
-    errors.push(`daysPerWeek must be between ${PROGRAM_LIMITS.MIN_DAYS_PER_WEEK} and ${PROGRAM_LIMITS.MAX_DAYS_PER_WEEK}`);
-  }
+  const input = body as Record<string, unknown>;
+  const errors: string[] = [];
 
-  // Validate durationWeeks (optional)
-  if (input.durationWeeks !== undefined && input.durationWeeks !== null) {
-    if (typeof input.durationWeeks !== 'number') {
-      errors.push('durationWeeks must be a number');
-    } else if (!Number.isInteger(input.durationWeeks)) {
-      errors.push('durationWeeks must be an integer');
-    } else if (input.durationWeeks < 1 || input.durationWeeks > PROGRAM_LIMITS.MAX_DURATION_WEEKS) {
-      errors.push(`durationWeeks must be between 1 and ${PROGRAM_LIMITS.MAX_DURATION_WEEKS}`);
-    }
+  if (typeof input.resolution !== 'string' || !['client', 'server', 'merged'].includes(input.resolution)) {
+    return { valid: false, errors: ['resolution must be one of: client, server, merged'] };
   }
+  const resolution = input.resolution as 'client' | 'server' | 'merged';
 
-  // Validate workouts array (required)
-  if (!Array.isArray(input.workouts)) {
-    errors.push('workouts must be an array');
-    return { valid: false, errors };
+  if (resolution !== 'merged') {
+    return { valid: true, errors: [], sanitized: { resolution } };
   }
 
-  if (input.workouts.length === 0) {
-    errors.push('workouts array cannot be empty');
+  if (input.data === undefined) {
+    return { valid: false, errors: ['data is required when resolution is merged'] };
   }
 
-  // Validate each workout
-  const daysPerWeek = typeof input.daysPerWeek === 'number' ? input.daysPerWeek : 7;
-  const workoutErrors = validateProgramWorkoutsArray(input.workouts, daysPerWeek);
-  errors.push(...workoutErrors);
+  collectWorkoutSyncErrors(input.data, 'data', errors);
 
-  if (errors.length > 0) {
-    return { valid: false, errors };
+  if (errors.length === 0) {
+    const data = input.data as Record<string, unknown>;
+    if (typeof data.date !== 'string' || isNaN(new Date(data.date).getTime())) {
+      errors.push('data.date is required and must be an ISO timestamp');
+    }
+    if (typeof data.isCompleted !== 'boolean') {
+      errors.push('data.isCompleted is required and must be a boolean');
+    }
   }
 
-  // Build sanitized output
-  const sanitized: CreateProgramValidationResult['sanitized'] = {
-    name: (input.name as string).trim(),
-    daysPerWeek: input.daysPerWeek as number,
-    workouts: (input.workouts as Array<Record<string, unknown>>).map((w) => ({
-      dayNumber: w.dayNumber as number,
-      templateId: w.templateId as string,
-      dayLabel: typeof w.dayLabel === 'string' ? w.dayLabel.trim() : undefined,
-    }))
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? { resolution, data: input.data as Record<string, unknown> } : undefined
   };
+}
 
-  if (typeof input.description === 'string' && input.description.trim().length > 0) {
-    sanitized.description = input.description.trim();
-  }
+// ============ Follow Validation ============
 
-  if (typeof input.durationWeeks === 'number') {
-    sanitized.durationWeeks = input.durationWeeks;
-  }
+/**
+ * Validates a user handle path parameter (handles are at most 50 characters)
+ */
+export function isValidHandle(handle: string): boolean {
+  return handle.length > 0 && handle.length <= 50;
+}
 
-  return { valid: true, errors: [], sanitized };
+/**
+ * Follow list query validation result
+ */
+export interface FollowListQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    cursor?: string;
+    limit?: number;
+  };
 }
 
 /**
- * Validates an array of program workouts
+ * Validates follower, following and follow request list query parameters
  */
-function validateProgramWorkoutsArray(workouts: unknown[], daysPerWeek: number): string[] {
+export function validateFollowListQuery(query: Record<string, unknown>): FollowListQueryValidationResult {
   const errors: string[] = [];
-  const seenDayNumbers = new Set<number>();
-
-  for (let i = 0; i < workouts.length; i++) {
-    const workout = workouts[i] as Record<string, unknown>;
+  const sanitized: FollowListQueryValidationResult['sanitized'] = {};
 
-    if (typeof workout !== 'object' || workout === null) {
-      errors.push(`workouts[${i}] must be an object`);
-      continue;
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string') {
+      errors.push('cursor must be a string');
+    } else {
+      sanitized.cursor = query.cursor;
     }
+  }
 
-    // Validate dayNumber (required)
-    if (workout.dayNumber === undefined || typeof workout.dayNumber !== 'number') {
-      errors.push(`workouts[${i}].dayNumber is required and must be a number`);
-    } else if (!Number.isInteger(workout.dayNumber)) {
-      errors.push(`workouts[${i}].dayNumber must be an integer`);
-    } else if (workout.dayNumber < 0 || workout.dayNumber >= daysPerWeek) {
-      errors.push(`workouts[${i}].dayNumber must be between 0 and ${daysPerWeek - 1}`);
+  if (query.limit !== undefined) {
+    const limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 100) {
+      errors.push('limit cannot exceed 100');
     } else {
-      if (seenDayNumbers.has(workout.dayNumber)) {
-        errors.push(`workouts[${i}].dayNumber ${workout.dayNumber} is duplicated`);
-      }
-      seenDayNumbers.add(workout.dayNumber);
+      sanitized.limit = limit;
     }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
+}
+
+// ============ Feed Validation ============
+
+/**
+ * Feed query validation result
+ */
+export interface FeedQueryValidationResult extends ValidationResult {
+  sanitized?: {
+    cursor?: string;
+    limit?: number;
+  };
+}
 
-    // Validate templateId (required UUID)
-    if (!workout.templateId || typeof workout.templateId !== 'string') {
-      errors.push(`workouts[${i}].templateId is required and must be a string`);
-    } else if (!isValidUuid(workout.templateId)) {
-      errors.push(`workouts[${i}].templateId must be a valid UUID`);
-    }
+/**
+ * Validates activity feed query parameters
+ */
+export function validateFeedQuery(query: Record<string, unknown>): FeedQueryValidationResult {
+  const errors: string[] = [];
+  const sanitized: FeedQueryValidationResult['sanitized'] = {};
 
-    // Validate dayLabel (optional)
-    if (workout.dayLabel !== undefined && workout.dayLabel !== null) {
-      if (typeof workout.dayLabel !== 'string') {
-        errors.push(`workouts[${i}].dayLabel must be a string`);
-      } else if (workout.dayLabel.length > PROGRAM_LIMITS.MAX_DAY_LABEL_LENGTH) {
-        errors.push(`workouts[${i}].dayLabel cannot exceed ${PROGRAM_LIMITS.MAX_DAY_LABEL_LENGTH} characters`);
-      }
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string') {
+      errors.push('cursor must be a string');
+    } else {
+      sanitized.cursor = query.cursor;
     }
+  }
 
-    // Stop early if too many errors
-    if (errors.length > 20) {
-      errors.push('Too many validation errors. Stopping validation.');
-      break;
+  if (query.limit !== undefined) {
+    const limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 50) {
+      errors.push('limit cannot exceed 50');
+    } else {
+      sanitized.limit = limit;
     }
   }
 
-  return errors;
+  return {
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
+  };
 }
 
+// ============ Competition Validation ============
+
 /**
- * Update program validation result
+ * Competition limits
  */
-export interface UpdateProgramValidationResult extends ValidationResult {
+export const COMPETITION_LIMITS = {
+  MAX_NAME_LENGTH: 200,
+  MAX_DESCRIPTION_LENGTH: 1000,
+  MIN_PARTICIPANTS: 2,
+  MAX_PARTICIPANTS: 1000,
+  MAX_DURATION_DAYS: 366,
+  MAX_ENTRY_CODE_LENGTH: 10,
+  MAX_TEAM_NAME_LENGTH: 100,
+  MAX_TEAM_SIZE: 100,
+  MAX_TEAM_TOP_N: 50,
+} as const;
+
+// Valid competition types and scoring metrics
+export const VALID_COMPETITION_TYPES = ['individual', 'group', 'team'] as const;
+export type CompetitionTypeInput = typeof VALID_COMPETITION_TYPES[number];
+
+export const VALID_COMPETITION_METRICS = ['total_volume', 'workout_count', 'best_e1rm'] as const;
+export type CompetitionMetricInput = typeof VALID_COMPETITION_METRICS[number];
+
+export const VALID_TEAM_SCORING = ['sum', 'average', 'best_n'] as const;
+export type TeamScoringInput = typeof VALID_TEAM_SCORING[number];
+
+/**
+ * Create competition validation result
+ */
+export interface CreateCompetitionValidationResult extends ValidationResult {
   sanitized?: {
-    name?: string;
+    name: string;
     description?: string;
-    daysPerWeek?: number;
-    durationWeeks?: number | null;
+    type: CompetitionTypeInput;
+    metric: CompetitionMetricInput;
+    targetExerciseId?: string;
+    startDate: string;
+    endDate: string;
+    maxParticipants?: number;
+    isPublic: boolean;
+    teamScoring?: TeamScoringInput;
+    teamScoringTopN?: number;
+    maxTeamSize?: number;
   };
 }
 
 /**
- * Validates update program input
+ * Validates a new competition. The end date must be in the future;
+ * the start date may be in the past to count recent workouts.
  */
-export function validateUpdateProgram(data: unknown): UpdateProgramValidationResult {
+export function validateCreateCompetition(data: unknown, now: Date = new Date()): CreateCompetitionValidationResult {
   const errors: string[] = [];
-  const sanitized: UpdateProgramValidationResult['sanitized'] = {};
 
   if (typeof data !== 'object' || data === null) {
     return { valid: false, errors: ['Request body must be an object'] };
@@ -1293,69 +3003,102 @@ export function validateUpdateProgram(data: unknown): UpdateProgramValidationRes
 
   const input = data as Record<string, unknown>;
 
-  // Check for unknown fields
-  const allowedFields = ['name', 'description', 'daysPerWeek', 'durationWeeks'];
-  const inputFields = Object.keys(input);
-  const unknownFields = inputFields.filter(f => !allowedFields.includes(f));
+  // Validate name (required)
+  if (!input.name || typeof input.name !== 'string') {
+    errors.push('name is required and must be a string');
+  } else {
+    const trimmed = input.name.trim();
+    if (trimmed.length === 0) {
+      errors.push('name cannot be empty');
+    } else if (trimmed.length > COMPETITION_LIMITS.MAX_NAME_LENGTH) {
+      errors.push(`name cannot exceed ${COMPETITION_LIMITS.MAX_NAME_LENGTH} characters`);
+    }
+  }
 
-  if (unknownFields.length > 0) {
-    errors.push(`Unknown fields: ${unknownFields.join(', ')}. Allowed fields: ${allowedFields.join(', ')}`);
+  // Validate description (optional)
+  if (input.description !== undefined && input.description !== null) {
+    if (typeof input.description !== 'string') {
+      errors.push('description must be a string');
+    } else if (input.description.length > COMPETITION_LIMITS.MAX_DESCRIPTION_LENGTH) {
+      errors.push(`description cannot exceed ${COMPETITION_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
+    }
   }
 
-  // Validate name (optional)
-  if (input.name !== undefined) {
-    if (typeof input.name !== 'string') {
-      errors.push('name must be a string');
-    } else {
-      const trimmed = input.name.trim();
-      if (trimmed.length === 0) {
-        errors.push('name cannot be empty');
-      } else if (trimmed.length > PROGRAM_LIMITS.MAX_NAME_LENGTH) {
-        errors.push(`name cannot exceed ${PROGRAM_LIMITS.MAX_NAME_LENGTH} characters`);
-      } else {
-        sanitized.name = trimmed;
-      }
+  // Validate type (required)
+  if (typeof input.type !== 'string' || !VALID_COMPETITION_TYPES.includes(input.type as CompetitionTypeInput)) {
+    errors.push(`type must be one of: ${VALID_COMPETITION_TYPES.join(', ')}`);
+  }
+
+  // Validate metric (required) and its target exercise
+  if (typeof input.metric !== 'string' || !VALID_COMPETITION_METRICS.includes(input.metric as CompetitionMetricInput)) {
+    errors.push(`metric must be one of: ${VALID_COMPETITION_METRICS.join(', ')}`);
+  } else if (input.metric === 'best_e1rm') {
+    if (typeof input.targetExerciseId !== 'string' || !isValidUuid(input.targetExerciseId)) {
+      errors.push('targetExerciseId is required for best_e1rm and must be a valid UUID');
     }
+  } else if (input.targetExerciseId !== undefined && input.targetExerciseId !== null) {
+    errors.push('targetExerciseId is only allowed for best_e1rm');
   }
 
-  // Validate description (optional, can be set to null to clear)
-  if (input.description !== undefined) {
-    if (input.description === null) {
-      sanitized.description = '';
-    } else if (typeof input.description !== 'string') {
-      errors.push('description must be a string or null');
-    } else if (input.description.length > PROGRAM_LIMITS.MAX_DESCRIPTION_LENGTH) {
-      errors.push(`description cannot exceed ${PROGRAM_LIMITS.MAX_DESCRIPTION_LENGTH} characters`);
-    } else {
-      sanitized.description = input.description.trim();
+  // Validate dates (required)
+  const startDate = typeof input.startDate === 'string' ? new Date(input.startDate) : null;
+  const endDate = typeof input.endDate === 'string' ? new Date(input.endDate) : null;
+  if (!startDate || isNaN(startDate.getTime())) {
+    errors.push('startDate is required and must be an ISO timestamp');
+  }
+  if (!endDate || isNaN(endDate.getTime())) {
+    errors.push('endDate is required and must be an ISO timestamp');
+  }
+  if (startDate && endDate && !isNaN(startDate.getTime()) && !isNaN(endDate.getTime())) {
+    if (endDate <= startDate) {
+      errors.push('endDate must be after startDate');
+    } else if (endDate.getTime() - startDate.getTime() > COMPETITION_LIMITS.MAX_DURATION_DAYS * 24 * 60 * 60 * 1000) {
+      errors.push(`competitions cannot last more than ${COMPETITION_LIMITS.MAX_DURATION_DAYS} days`);
+    }
+    if (endDate <= now) {
+      errors.push('endDate must be in the future');
     }
   }
 
-  // Validate daysPerWeek (optional)
-  if (input.daysPerWeek !== undefined) {
-    if (typeof input.daysPerWeek !== 'number') {
-      errors.push('daysPerWeek must be a number');
-    } else if (!Number.isInteger(input.daysPerWeek)) {
-      errors.push('daysPerWeek must be an integer');
-    } else if (input.daysPerWeek < PROGRAM_LIMITS.MIN_DAYS_PER_WEEK || input.daysPerWeek > PROGRAM_LIMITS.MAX_DAYS_PER_WEEK) {
-      errors.push(`daysPerWeek must be between ${PROGRAM_LIMITS.MIN_DAYS_PER_WEEK} and ${PROGRAM_LIMITS.MAX_DAYS_PER_WEEK}`);
-    } else {
-      sanitized.daysPerWeek = input.daysPerWeek;
+  // Validate maxParticipants (optional)
+  if (input.maxParticipants !== undefined && input.maxParticipants !== null) {
+    if (typeof input.maxParticipants !== 'number' || !Number.isInteger(input.maxParticipants)) {
+      errors.push('maxParticipants must be an integer');
+    } else if (input.maxParticipants < COMPETITION_LIMITS.MIN_PARTICIPANTS || input.maxParticipants > COMPETITION_LIMITS.MAX_PARTICIPANTS) {
+      errors.push(`maxParticipants must be between ${COMPETITION_LIMITS.MIN_PARTICIPANTS} and ${COMPETITION_LIMITS.MAX_PARTICIPANTS}`);
     }
   }
 
-  // Validate durationWeeks (optional, can be null for indefinite)
-  if (input.durationWeeks !== undefined) {
-    if (input.durationWeeks === null) {
-      sanitized.durationWeeks = null;
-    } else if (typeof input.durationWeeks !== 'number') {
-      errors.push('durationWeeks must be a number or null');
-    } else if (!Number.isInteger(input.durationWeeks)) {
-      errors.push('durationWeeks must be an integer');
-    } else if (input.durationWeeks < 1 || input.durationWeeks > PROGRAM_LIMITS.MAX_DURATION_WEEKS) {
-      errors.push(`durationWeeks must be between 1 and ${PROGRAM_LIMITS.MAX_DURATION_WEEKS}`);
-    } else {
-      sanitized.durationWeeks = input.durationWeeks;
+  // Validate isPublic (optional)
+  if (input.isPublic !== undefined && typeof input.isPublic !== 'boolean') {
+    errors.push('isPublic must be a boolean');
+  }
+
+  // Validate team rules (team competitions only)
+  const isTeam = input.type === 'team';
+  if (isTeam) {
+    if (typeof input.teamScoring !== 'string' || !VALID_TEAM_SCORING.includes(input.teamScoring as TeamScoringInput)) {
+      errors.push(`teamScoring is required for team competitions and must be one of: ${VALID_TEAM_SCORING.join(', ')}`);
+    } else if (input.teamScoring === 'best_n') {
+      if (typeof input.teamScoringTopN !== 'number' || !Number.isInteger(input.teamScoringTopN)
+        || input.teamScoringTopN < 1 || input.teamScoringTopN > COMPETITION_LIMITS.MAX_TEAM_TOP_N) {
+        errors.push(`teamScoringTopN is required for best_n and must be an integer between 1 and ${COMPETITION_LIMITS.MAX_TEAM_TOP_N}`);
+      }
+    } else if (input.teamScoringTopN !== undefined && input.teamScoringTopN !== null) {
+      errors.push('teamScoringTopN is only allowed for best_n');
+    }
+
+    if (input.maxTeamSize !== undefined && input.maxTeamSize !== null) {
+      if (typeof input.maxTeamSize !== 'number' || !Number.isInteger(input.maxTeamSize)
+        || input.maxTeamSize < 1 || input.maxTeamSize > COMPETITION_LIMITS.MAX_TEAM_SIZE) {
+        errors.push(`maxTeamSize must be an integer between 1 and ${COMPETITION_LIMITS.MAX_TEAM_SIZE}`);
+      }
+    }
+  } else {
+    for (const field of ['teamScoring', 'teamScoringTopN', 'maxTeamSize']) {
+      if (input[field] !== undefined && input[field] !== null) {
+        errors.push(`${field} is only allowed for team competitions`);
+      }
     }
   }
 
@@ -1363,134 +3106,132 @@ export function validateUpdateProgram(data: unknown): UpdateProgramValidationRes
     return { valid: false, errors };
   }
 
-  // Check if there's anything to update
-  if (Object.keys(sanitized).length === 0) {
-    return { valid: false, errors: ['No valid fields to update'] };
+  const sanitized: CreateCompetitionValidationResult['sanitized'] = {
+    name: (input.name as string).trim(),
+    type: input.type as CompetitionTypeInput,
+    metric: input.metric as CompetitionMetricInput,
+    startDate: startDate!.toISOString(),
+    endDate: endDate!.toISOString(),
+    isPublic: input.isPublic !== false,
+  };
+
+  if (typeof input.description === 'string' && input.description.trim().length > 0) {
+    sanitized.description = input.description.trim();
+  }
+  if (input.metric === 'best_e1rm') {
+    sanitized.targetExerciseId = input.targetExerciseId as string;
+  }
+  if (typeof input.maxParticipants === 'number') {
+    sanitized.maxParticipants = input.maxParticipants;
+  }
+  if (isTeam) {
+    sanitized.teamScoring = input.teamScoring as TeamScoringInput;
+    if (input.teamScoring === 'best_n') {
+      sanitized.teamScoringTopN = input.teamScoringTopN as number;
+    }
+    if (typeof input.maxTeamSize === 'number') {
+      sanitized.maxTeamSize = input.maxTeamSize;
+    }
   }
 
   return { valid: true, errors: [], sanitized };
 }
 
 /**
- * Program workouts update validation result
+ * Create team validation result
  */
-export interface UpdateProgramWorkoutsValidationResult extends ValidationResult {
+export interface CreateTeamValidationResult extends ValidationResult {
   sanitized?: {
-    workouts: Array<{
-      dayNumber: number;
-      templateId: string;
-      dayLabel?: string;
-    }>;
+    name: string;
   };
 }
 
 /**
- * Validates program workouts update input
+ * Validates a new competition team
  */
-export function validateProgramWorkouts(data: unknown, daysPerWeek: number): UpdateProgramWorkoutsValidationResult {
-  const errors: string[] = [];
-
+export function validateCreateTeam(data: unknown): CreateTeamValidationResult {
   if (typeof data !== 'object' || data === null) {
     return { valid: false, errors: ['Request body must be an object'] };
   }
 
   const input = data as Record<string, unknown>;
 
-  // Validate workouts array (required)
-  if (!Array.isArray(input.workouts)) {
-    errors.push('workouts must be an array');
-    return { valid: false, errors };
+  if (!input.name || typeof input.name !== 'string') {
+    return { valid: false, errors: ['name is required and must be a string'] };
   }
 
-  if (input.workouts.length === 0) {
-    errors.push('workouts array cannot be empty');
-    return { valid: false, errors };
+  const name = input.name.trim();
+  if (name.length === 0) {
+    return { valid: false, errors: ['name cannot be empty'] };
   }
-
-  // Validate each workout
-  const workoutErrors = validateProgramWorkoutsArray(input.workouts, daysPerWeek);
-  errors.push(...workoutErrors);
-
-  if (errors.length > 0) {
-    return { valid: false, errors };
+  if (name.length > COMPETITION_LIMITS.MAX_TEAM_NAME_LENGTH) {
+    return { valid: false, errors: [`name cannot exceed ${COMPETITION_LIMITS.MAX_TEAM_NAME_LENGTH} characters`] };
   }
 
-  // Build sanitized output
-  const sanitized: UpdateProgramWorkoutsValidationResult['sanitized'] = {
-    workouts: (input.workouts as Array<Record<string, unknown>>).map((w) => ({
-      dayNumber: w.dayNumber as number,
-      templateId: w.templateId as string,
-      dayLabel: typeof w.dayLabel === 'string' ? w.dayLabel.trim() : undefined,
-    }))
-  };
-
-  return { valid: true, errors: [], sanitized };
+  return { valid: true, errors: [], sanitized: { name } };
 }
 
-// ============ Share Validation ============
-
-const VALID_SHARE_TYPES = ['program', 'template'] as const;
-
 /**
- * Create share validation result
+ * Competition list query validation result
  */
-export interface CreateShareValidationResult extends ValidationResult {
+export interface CompetitionListQueryValidationResult extends ValidationResult {
   sanitized?: {
-    type: 'program' | 'template';
-    itemId: string;
+    cursor?: string;
+    limit?: number;
+    metric?: CompetitionMetricInput;
   };
 }
 
 /**
- * Validates create share input
+ * Validates competition listing and leaderboard query parameters
  */
-export function validateCreateShare(data: unknown): CreateShareValidationResult {
+export function validateCompetitionListQuery(query: Record<string, unknown>): CompetitionListQueryValidationResult {
   const errors: string[] = [];
+  const sanitized: CompetitionListQueryValidationResult['sanitized'] = {};
 
-  if (typeof data !== 'object' || data === null) {
-    return { valid: false, errors: ['Request body must be an object'] };
-  }
-
-  const input = data as Record<string, unknown>;
-
-  // Validate type (required)
-  if (!input.type || typeof input.type !== 'string') {
-    errors.push('type is required and must be a string');
-  } else if (!VALID_SHARE_TYPES.includes(input.type as typeof VALID_SHARE_TYPES[number])) {
-    errors.push(`type must be one of: ${VALID_SHARE_TYPES.join(', ')}`);
+  if (query.cursor !== undefined) {
+    if (typeof query.cursor !== 'string') {
+      errors.push('cursor must be a string');
+    } else {
+      sanitized.cursor = query.cursor;
+    }
   }
 
-  // Validate itemId (required UUID)
-  if (!input.itemId || typeof input.itemId !== 'string') {
-    errors.push('itemId is required and must be a string');
-  } else if (!isValidUuid(input.itemId)) {
-    errors.push('itemId must be a valid UUID');
+  if (query.limit !== undefined) {
+    const limit = parseInt(String(query.limit), 10);
+    if (isNaN(limit)) {
+      errors.push('limit must be a valid integer');
+    } else if (limit < 1) {
+      errors.push('limit must be at least 1');
+    } else if (limit > 100) {
+      errors.push('limit cannot exceed 100');
+    } else {
+      sanitized.limit = limit;
+    }
   }
 
-  if (errors.length > 0) {
-    return { valid: false, errors };
+  if (query.metric !== undefined) {
+    if (typeof query.metric !== 'string' || !VALID_COMPETITION_METRICS.includes(query.metric as CompetitionMetricInput)) {
+      errors.push(`metric must be one of: ${VALID_COMPETITION_METRICS.join(', ')}`);
+    } else {
+      sanitized.metric = query.metric as CompetitionMetricInput;
+    }
   }
 
   return {
-    valid: true,
-    errors: [],
-    sanitized: {
-      type: input.type as 'program' | 'template',
-      itemId: input.itemId as string,
-    }
+    valid: errors.length === 0,
+    errors,
+    sanitized: errors.length === 0 ? sanitized : undefined
   };
 }
 
 /**
- * Validates a share token from the URL parameter.
- * Tokens are base64url-encoded, so allow alphanumeric + hyphen + underscore.
+ * Normalizes an entry code for lookup (codes are case-insensitive).
+ * Returns null if it can't be a valid code.
  */
-export function validateShareToken(token: string): boolean {
-  if (!token || typeof token !== 'string') {
-    return false;
-  }
-  if (token.length > 64) {
-    return false;
-  }
-  return /^[a-zA-Z0-9_-]+$/.test(token);
+export function normalizeEntryCode(code: unknown): string | null {
+  if (typeof code !== 'string') return null;
+  const trimmed = code.trim().toUpperCase();
+  if (trimmed.length === 0 || trimmed.length > COMPETITION_LIMITS.MAX_ENTRY_CODE_LENGTH) return null;
+  return /^[A-Z0-9]+$/.test(trimmed) ? trimmed : null;
 }